@@ -9,7 +9,10 @@ export function createApp() {
 
   app.use(helmet());
   app.use(cors({ origin: process.env.CORS_ORIGIN?.split(",") ?? "*" }));
-  app.use("/api/v1/payments/paystack/webhook", express.raw({ type: "application/json" }));
+  app.use(
+    ["/api/v1/payments/paystack/webhook", "/api/v1/payments/flutterwave/webhook"],
+    express.raw({ type: "application/json" })
+  );
   app.use(express.json({ limit: "1mb" }));
   app.use(morgan("dev"));
 
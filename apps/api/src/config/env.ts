@@ -15,17 +15,41 @@ const envSchema = z.object({
   PORT: z.coerce.number().default(5000),
   CORS_ORIGIN: z.string().default("*"),
   MONGODB_URI: z.string().min(1),
+  MONGODB_TLS: z.enum(["true", "false"]).default("true"),
   JWT_SECRET: z.string().min(16),
   JWT_REFRESH_SECRET: z.string().min(16),
   PAYSTACK_SECRET_KEY: z.string().optional(),
   PAYSTACK_WEBHOOK_SECRET: z.string().optional(),
   PAYSTACK_CALLBACK_URL: z.string().url().optional(),
+  FLUTTERWAVE_SECRET_KEY: z.string().optional(),
+  FLUTTERWAVE_WEBHOOK_HASH: z.string().optional(),
+  FLUTTERWAVE_CALLBACK_URL: z.string().url().optional(),
+  PAYMENT_PROVIDER: z.enum(["paystack", "flutterwave"]).default("paystack"),
+  BANK_TRANSFER_BANK_NAME: z.string().optional(),
+  BANK_TRANSFER_ACCOUNT_NAME: z.string().optional(),
+  BANK_TRANSFER_ACCOUNT_NUMBER: z.string().optional(),
   CLIENT_CHECKOUT_SUCCESS_URL: z.string().url().default("http://localhost:5173/checkout/success"),
   CLIENT_CHECKOUT_FAILURE_URL: z.string().url().default("http://localhost:5173/checkout/failure"),
+  CLIENT_STOREFRONT_URL: z.string().url().default("http://localhost:5173"),
+  API_PUBLIC_URL: z.string().url().default("http://localhost:5000"),
+  STOCK_RESERVATION_TTL_MINUTES: z.coerce.number().int().positive().default(15),
+  BANK_TRANSFER_EXPIRY_HOURS: z.coerce.number().positive().default(48),
+  CAMPAIGN_ATTRIBUTION_WINDOW_DAYS: z.coerce.number().positive().default(7),
+  ABANDONED_CART_REMINDER_HOURS: z
+    .string()
+    .default("1,24,72")
+    .transform((value) => value.split(",").map((entry) => Number(entry.trim())))
+    .pipe(z.array(z.number().positive()).min(1)),
+  ABANDONED_CART_DISCOUNT_PERCENT: z.coerce.number().min(0).max(100).default(0),
+  ABANDONED_CART_DISCOUNT_VALID_DAYS: z.coerce.number().positive().default(7),
+  DEFAULT_SHIPPING_NGN: z.coerce.number().int().min(0).default(2500),
+  DEFAULT_ITEM_WEIGHT_KG: z.coerce.number().positive().default(0.5),
   CLOUDINARY_CLOUD_NAME: z.string().optional(),
   CLOUDINARY_API_KEY: z.string().optional(),
   CLOUDINARY_API_SECRET: z.string().optional(),
-  CLOUDINARY_UPLOAD_FOLDER: z.string().default("shop-with-seye/products")
+  CLOUDINARY_UPLOAD_FOLDER: z.string().default("shop-with-seye/products"),
+  CLOUDINARY_PAYMENT_PROOF_FOLDER: z.string().default("shop-with-seye/payment-proofs"),
+  CLOUDINARY_REVIEW_PHOTO_FOLDER: z.string().default("shop-with-seye/review-photos")
 });
 
 export const env = envSchema.parse(process.env);
@@ -11,7 +11,7 @@ export async function connectDatabase() {
   await mongoose.connect(env.MONGODB_URI, {
     dbName: "shop_with_seye",
     serverSelectionTimeoutMS: 15000,
-    tls: true,
+    tls: env.MONGODB_TLS === "true",
     family: 4
   });
   isConnected = true;
@@ -3,6 +3,7 @@ import { createApp } from "./app.js";
 import { env } from "./config/env.js";
 import { connectDatabase } from "./db/connect.js";
 import { startEmbeddedNotificationWorker } from "./services/embeddedNotificationWorker.js";
+import { startMaintenanceWorker } from "./services/maintenanceWorker.js";
 
 await connectDatabase();
 startEmbeddedNotificationWorker();
@@ -10,4 +11,8 @@ startEmbeddedNotificationWorker();
 const app = createApp();
 app.listen(env.PORT, () => {
   console.log(`[api] running on http://localhost:${env.PORT}`);
+  // Scheduling waits on Redis; the API must keep serving while it is unreachable.
+  startMaintenanceWorker().catch((error) => {
+    console.error("[api][maintenance] failed to start maintenance worker", error);
+  });
 });
@@ -4,7 +4,10 @@ import { resolveTenantId } from "../services/tenant.js";
 export type TenantRequest = Request & { tenantId?: string };
 
 export async function requireTenant(req: TenantRequest, res: Response, next: NextFunction) {
-  if (req.path === "/payments/paystack/webhook" || req.path === "/payments/paystack/callback") {
+  if (
+    /^\/payments\/(paystack|flutterwave)\/(webhook|callback)$/.test(req.path) ||
+    req.path.startsWith("/campaigns/track/")
+  ) {
     next();
     return;
   }
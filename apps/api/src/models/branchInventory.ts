@@ -0,0 +1,19 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const branchInventorySchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    branchId: { type: Schema.Types.ObjectId, ref: "StoreBranch", required: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    variantId: { type: Schema.Types.ObjectId, required: true },
+    stock: { type: Number, min: 0, default: 0 },
+    inTransit: { type: Number, min: 0, default: 0 }
+  },
+  { timestamps: true }
+);
+
+branchInventorySchema.index({ tenantId: 1, branchId: 1, variantId: 1 }, { unique: true });
+branchInventorySchema.index({ tenantId: 1, variantId: 1 });
+
+export type BranchInventoryDocument = InferSchemaType<typeof branchInventorySchema>;
+export const BranchInventoryModel = model("BranchInventory", branchInventorySchema);
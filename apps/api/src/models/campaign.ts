@@ -7,10 +7,15 @@ const campaignSchema = new Schema(
     segment: { type: String, enum: ["all", "champions", "loyal", "at_risk", "lost"], required: true },
     subject: { type: String, required: true },
     body: { type: String, required: true },
+    costNgn: { type: Number, min: 0, default: 0 },
     status: { type: String, enum: ["draft", "scheduled", "sent"], default: "draft" },
+    scheduledFor: { type: Date, default: null },
     sentAt: { type: Date, default: null },
     stats: {
+      recipients: { type: Number, default: 0 },
       sent: { type: Number, default: 0 },
+      skipped: { type: Number, default: 0 },
+      failed: { type: Number, default: 0 },
       opened: { type: Number, default: 0 },
       clicked: { type: Number, default: 0 },
       purchased: { type: Number, default: 0 },
@@ -21,6 +26,7 @@ const campaignSchema = new Schema(
 );
 
 campaignSchema.index({ tenantId: 1, createdAt: -1 });
+campaignSchema.index({ status: 1, scheduledFor: 1 });
 
 export type CampaignDocument = InferSchemaType<typeof campaignSchema>;
 export const CampaignModel = model("Campaign", campaignSchema);
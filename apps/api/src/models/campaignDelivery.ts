@@ -0,0 +1,27 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const campaignDeliverySchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    campaignId: { type: Schema.Types.ObjectId, ref: "Campaign", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    token: { type: String, required: true },
+    status: { type: String, enum: ["queued", "sent", "skipped", "failed"], default: "queued" },
+    error: { type: String, default: null },
+    sentAt: { type: Date, default: null },
+    openedAt: { type: Date, default: null },
+    clickedAt: { type: Date, default: null },
+    lastClickedAt: { type: Date, default: null },
+    clickCount: { type: Number, default: 0 },
+    orderIds: { type: [Schema.Types.ObjectId], default: [] },
+    revenueNgn: { type: Number, default: 0 }
+  },
+  { timestamps: true }
+);
+
+campaignDeliverySchema.index({ campaignId: 1, userId: 1 }, { unique: true });
+campaignDeliverySchema.index({ token: 1 }, { unique: true });
+campaignDeliverySchema.index({ tenantId: 1, userId: 1, lastClickedAt: -1 });
+
+export type CampaignDeliveryDocument = InferSchemaType<typeof campaignDeliverySchema>;
+export const CampaignDeliveryModel = model("CampaignDelivery", campaignDeliverySchema);
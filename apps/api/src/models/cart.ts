@@ -6,22 +6,52 @@ const cartLineSchema = new Schema(
     variantId: { type: Schema.Types.ObjectId, required: true },
     name: { type: String, required: true },
     quantity: { type: Number, required: true, min: 1 },
-    unitPriceNgn: { type: Number, required: true, min: 0 }
+    unitPriceNgn: { type: Number, required: true, min: 0 },
+    preorder: { type: Boolean, default: false },
+    originalPriceNgn: { type: Number, min: 0, default: null },
+    flashDealId: { type: Schema.Types.ObjectId, ref: "FlashDeal", default: null },
+    flashDealEndsAt: { type: Date, default: null }
   },
   { _id: true }
 );
 
+const cartChangeNoticeSchema = new Schema(
+  {
+    type: { type: String, enum: ["price_changed", "quantity_reduced", "removed"], required: true },
+    reason: { type: String, enum: ["product_unavailable", "variant_unavailable", "out_of_stock", null], default: null },
+    lineId: { type: String, required: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    variantId: { type: Schema.Types.ObjectId, required: true },
+    name: { type: String, required: true },
+    previousPriceNgn: { type: Number, default: null },
+    unitPriceNgn: { type: Number, default: null },
+    previousQuantity: { type: Number, default: null },
+    quantity: { type: Number, default: null },
+    detectedAt: { type: Date, default: Date.now }
+  },
+  { _id: false }
+);
+
 const cartSchema = new Schema(
   {
     tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
     userId: { type: Schema.Types.ObjectId, ref: "User", default: null, index: true },
     sessionId: { type: String, default: null, index: true },
-    lines: { type: [cartLineSchema], default: [] }
+    name: { type: String, default: null },
+    active: { type: Boolean, default: true },
+    lines: { type: [cartLineSchema], default: [] },
+    discountCode: { type: String, default: null },
+    changeNotices: { type: [cartChangeNoticeSchema], default: [] }
   },
   { timestamps: true }
 );
 
-cartSchema.index({ tenantId: 1, userId: 1 }, { unique: true, partialFilterExpression: { userId: { $type: "objectId" } } });
+// A customer can keep several named carts, but only one of them is active at a time.
+cartSchema.index(
+  { tenantId: 1, userId: 1 },
+  { unique: true, partialFilterExpression: { userId: { $type: "objectId" }, active: true } }
+);
+cartSchema.index({ tenantId: 1, userId: 1, name: 1 }, { unique: true, partialFilterExpression: { name: { $type: "string" } } });
 cartSchema.index({ tenantId: 1, sessionId: 1 }, { unique: true, partialFilterExpression: { sessionId: { $type: "string" } } });
 
 export type CartDocument = InferSchemaType<typeof cartSchema>;
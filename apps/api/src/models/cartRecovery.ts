@@ -0,0 +1,25 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const cartRecoverySchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    cartId: { type: Schema.Types.ObjectId, ref: "Cart", required: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    status: { type: String, enum: ["active", "recovered", "expired"], default: "active" },
+    remindersSent: { type: Number, default: 0 },
+    lastRemindedAt: { type: Date, default: null },
+    discountId: { type: Schema.Types.ObjectId, ref: "Discount", default: null },
+    discountCode: { type: String, default: null },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", default: null },
+    revenueNgn: { type: Number, default: 0 },
+    recoveredAt: { type: Date, default: null }
+  },
+  { timestamps: true }
+);
+
+cartRecoverySchema.index({ cartId: 1 }, { unique: true, partialFilterExpression: { status: "active" } });
+cartRecoverySchema.index({ tenantId: 1, userId: 1, status: 1 });
+cartRecoverySchema.index({ tenantId: 1, status: 1, recoveredAt: -1 });
+
+export type CartRecoveryDocument = InferSchemaType<typeof cartRecoverySchema>;
+export const CartRecoveryModel = model("CartRecovery", cartRecoverySchema);
@@ -14,14 +14,54 @@ categorySchema.index({ tenantId: 1, slug: 1 }, { unique: true });
 const variantSchema = new Schema(
   {
     sku: { type: String, required: true },
-    size: { type: String, required: true },
-    color: { type: String, required: true },
+    options: { type: Map, of: String, default: () => new Map() },
+    size: { type: String, default: null },
+    color: { type: String, default: null },
     stock: { type: Number, required: true, min: 0 },
-    priceNgn: { type: Number, required: true, min: 0 }
+    reserved: { type: Number, min: 0, default: 0 },
+    priceNgn: { type: Number, required: true, min: 0 },
+    weightKg: { type: Number, min: 0, default: null },
+    preorderCap: { type: Number, min: 0, default: null },
+    preorderAllocated: { type: Number, min: 0, default: 0 },
+    maxPerOrder: { type: Number, min: 1, default: null },
+    maxPerCustomer: { type: Number, min: 1, default: null }
   },
   { _id: true }
 );
 
+const productOptionSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    values: { type: [String], default: [] }
+  },
+  { _id: false }
+);
+
+const purchaseLimitsSchema = new Schema(
+  {
+    maxPerOrder: { type: Number, min: 1, default: null },
+    maxPerCustomer: { type: Number, min: 1, default: null }
+  },
+  { _id: false }
+);
+
+const preorderSchema = new Schema(
+  {
+    enabled: { type: Boolean, default: false },
+    expectedShipDate: { type: Date, default: null },
+    depositPercent: { type: Number, min: 1, max: 100, default: null }
+  },
+  { _id: false }
+);
+
+const ratingSchema = new Schema(
+  {
+    average: { type: Number, min: 0, max: 5, default: 0 },
+    count: { type: Number, min: 0, default: 0 }
+  },
+  { _id: false }
+);
+
 const imageSchema = new Schema(
   {
     url: { type: String, required: true },
@@ -43,12 +83,18 @@ const productSchema = new Schema(
     imageFit: { type: String, enum: ["contain", "cover"], default: "contain" },
     images: { type: [imageSchema], default: [] },
     active: { type: Boolean, default: true },
-    variants: { type: [variantSchema], default: [] }
+    preorder: { type: preorderSchema, default: () => ({}) },
+    purchaseLimits: { type: purchaseLimitsSchema, default: () => ({}) },
+    options: { type: [productOptionSchema], default: [] },
+    variants: { type: [variantSchema], default: [] },
+    soldUnits: { type: Number, min: 0, default: 0 },
+    rating: { type: ratingSchema, default: () => ({}) }
   },
   { timestamps: true }
 );
 
 productSchema.index({ tenantId: 1, slug: 1 }, { unique: true });
+productSchema.index({ name: "text", description: "text" }, { name: "product_search", weights: { name: 5, description: 1 } });
 
 export type CategoryDocument = InferSchemaType<typeof categorySchema>;
 export type ProductDocument = InferSchemaType<typeof productSchema>;
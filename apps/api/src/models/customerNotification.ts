@@ -5,7 +5,7 @@ const customerNotificationSchema = new Schema(
     tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
     userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
     productId: { type: Schema.Types.ObjectId, ref: "Product", default: null, index: true },
-    type: { type: String, enum: ["low_stock", "restock"], required: true },
+    type: { type: String, enum: ["low_stock", "restock", "refund", "question_answered"], required: true },
     title: { type: String, required: true },
     message: { type: String, required: true },
     readAt: { type: Date, default: null }
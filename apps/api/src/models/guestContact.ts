@@ -0,0 +1,19 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const guestContactSchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    email: { type: String, required: true },
+    phone: { type: String, required: true },
+    firstName: { type: String, default: "" },
+    lastName: { type: String, default: "" },
+    claimedByUserId: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    claimedAt: { type: Date, default: null }
+  },
+  { timestamps: true }
+);
+
+guestContactSchema.index({ tenantId: 1, email: 1 }, { unique: true });
+
+export type GuestContactDocument = InferSchemaType<typeof guestContactSchema>;
+export const GuestContactModel = model("GuestContact", guestContactSchema);
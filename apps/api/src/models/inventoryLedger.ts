@@ -5,7 +5,8 @@ const inventoryLedgerSchema = new Schema(
     tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
     productId: { type: Schema.Types.ObjectId, ref: "Product", required: true, index: true },
     variantId: { type: Schema.Types.ObjectId, required: true, index: true },
-    operation: { type: String, enum: ["add", "remove", "adjust"], required: true },
+    branchId: { type: Schema.Types.ObjectId, ref: "StoreBranch", default: null },
+    operation: { type: String, enum: ["add", "remove", "adjust", "transfer_out", "transfer_in"], required: true },
     delta: { type: Number, required: true },
     previousStock: { type: Number, required: true, min: 0 },
     nextStock: { type: Number, required: true, min: 0 },
@@ -17,6 +18,7 @@ const inventoryLedgerSchema = new Schema(
 );
 
 inventoryLedgerSchema.index({ tenantId: 1, productId: 1, variantId: 1, createdAt: -1 });
+inventoryLedgerSchema.index({ tenantId: 1, branchId: 1, createdAt: -1 });
 
 export type InventoryLedgerDocument = InferSchemaType<typeof inventoryLedgerSchema>;
 export const InventoryLedgerModel = model("InventoryLedger", inventoryLedgerSchema);
@@ -6,7 +6,35 @@ const orderLineSchema = new Schema(
     variantId: { type: Schema.Types.ObjectId, required: true },
     name: { type: String, required: true },
     quantity: { type: Number, required: true, min: 1 },
-    unitPriceNgn: { type: Number, required: true, min: 0 }
+    unitPriceNgn: { type: Number, required: true, min: 0 },
+    preorder: { type: Boolean, default: false },
+    depositPercent: { type: Number, min: 1, max: 100, default: null },
+    originalPriceNgn: { type: Number, min: 0, default: null },
+    flashDealId: { type: Schema.Types.ObjectId, ref: "FlashDeal", default: null },
+    refundedQuantity: { type: Number, min: 0, default: 0 }
+  },
+  { _id: false }
+);
+
+const discountLineSchema = new Schema(
+  {
+    discountId: { type: Schema.Types.ObjectId, ref: "Discount", required: true },
+    code: { type: String, required: true },
+    type: { type: String, enum: ["percent", "fixed"], required: true },
+    value: { type: Number, required: true, min: 0 },
+    amountNgn: { type: Number, required: true, min: 0 }
+  },
+  { _id: false }
+);
+
+const taxLineSchema = new Schema(
+  {
+    code: { type: String, enum: ["VAT"], required: true },
+    label: { type: String, required: true },
+    ratePercent: { type: Number, required: true, min: 0 },
+    inclusive: { type: Boolean, default: false },
+    taxableNgn: { type: Number, required: true },
+    amountNgn: { type: Number, required: true, min: 0 }
   },
   { _id: false }
 );
@@ -15,7 +43,7 @@ const statusEventSchema = new Schema(
   {
     status: {
       type: String,
-      enum: ["pending", "processing", "paid", "shipped", "delivered", "cancelled"],
+      enum: ["pending", "processing", "paid", "awaiting_stock", "awaiting_balance", "awaiting_payment_on_delivery", "awaiting_transfer", "shipped", "delivered", "cancelled", "refunded"],
       required: true
     },
     note: { type: String, default: "" },
@@ -29,32 +57,56 @@ const statusEventSchema = new Schema(
 const orderSchema = new Schema(
   {
     tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
-    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", default: null, index: true },
+    guestContactId: { type: Schema.Types.ObjectId, ref: "GuestContact", default: null, index: true },
+    guestSessionId: { type: String, default: null },
+    cartId: { type: Schema.Types.ObjectId, ref: "Cart", default: null },
     orderRef: { type: String, required: true },
     status: {
       type: String,
-      enum: ["pending", "processing", "paid", "shipped", "delivered", "cancelled"],
+      enum: ["pending", "processing", "paid", "awaiting_stock", "awaiting_balance", "awaiting_payment_on_delivery", "awaiting_transfer", "shipped", "delivered", "cancelled", "refunded"],
       default: "pending"
     },
     currency: { type: String, default: "NGN" },
     subtotalNgn: { type: Number, required: true },
+    discountNgn: { type: Number, default: 0 },
     shippingNgn: { type: Number, required: true },
+    taxNgn: { type: Number, default: 0 },
+    taxExemptNgn: { type: Number, default: 0 },
+    taxLines: { type: [taxLineSchema], default: [] },
     totalNgn: { type: Number, required: true },
+    refundedNgn: { type: Number, default: 0 },
     shippingAddress: {
       address: { type: String, required: true },
       city: { type: String, required: true },
       state: { type: String, required: true }
     },
+    shippingMethod: { type: String, enum: ["delivery", "pickup"], default: "delivery" },
+    shippingZoneId: { type: Schema.Types.ObjectId, ref: "ShippingZone", default: null },
+    pickupBranchId: { type: Schema.Types.ObjectId, ref: "StoreBranch", default: null },
     trackingNumber: { type: String, default: null },
     fulfillmentBranchId: { type: Schema.Types.ObjectId, ref: "StoreBranch", default: null, index: true },
     lines: { type: [orderLineSchema], default: [] },
-    timeline: { type: [statusEventSchema], default: [] }
+    discountLines: { type: [discountLineSchema], default: [] },
+    attributedCampaignId: { type: Schema.Types.ObjectId, ref: "Campaign", default: null },
+    timeline: { type: [statusEventSchema], default: [] },
+    paymentMethod: { type: String, enum: ["card", "pay_on_delivery", "bank_transfer"], default: "card" },
+    isPreorder: { type: Boolean, default: false },
+    expectedShipDate: { type: Date, default: null },
+    paymentPlan: {
+      mode: { type: String, enum: ["full", "deposit"], default: "full" },
+      depositNgn: { type: Number, default: 0 },
+      balanceNgn: { type: Number, default: 0 },
+      amountPaidNgn: { type: Number, default: 0 },
+      balancePaidAt: { type: Date, default: null }
+    }
   },
   { timestamps: true }
 );
 
 orderSchema.index({ tenantId: 1, orderRef: 1 }, { unique: true });
 orderSchema.index({ tenantId: 1, userId: 1, createdAt: -1 });
+orderSchema.index({ tenantId: 1, status: 1, "lines.productId": 1 });
 
 export type OrderDocument = InferSchemaType<typeof orderSchema>;
 export const OrderModel = model("Order", orderSchema);
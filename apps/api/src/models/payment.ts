@@ -3,15 +3,21 @@ import { Schema, model, type InferSchemaType } from "mongoose";
 const paymentSchema = new Schema(
   {
     tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
-    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", default: null, index: true },
     orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true, index: true },
-    provider: { type: String, enum: ["paystack"], default: "paystack" },
+    provider: { type: String, enum: ["paystack", "flutterwave", "offline"], default: "paystack" },
+    method: { type: String, enum: ["card", "pay_on_delivery", "bank_transfer"], default: "card" },
     providerRef: { type: String, required: true },
     status: { type: String, enum: ["initialized", "success", "failed", "refunded"], default: "initialized" },
+    purpose: { type: String, enum: ["full", "deposit", "balance"], default: "full" },
     amountNgn: { type: Number, required: true },
+    refundedNgn: { type: Number, default: 0 },
     currency: { type: String, default: "NGN" },
     initializedAt: { type: Date, default: Date.now },
     verifiedAt: { type: Date, default: null },
+    confirmedBy: { type: String, default: null },
+    proofUrl: { type: String, default: null },
+    proofPublicId: { type: String, default: null },
     metadata: { type: Schema.Types.Mixed, default: {} }
   },
   { timestamps: true }
@@ -0,0 +1,29 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const questionAnswerSchema = new Schema(
+  {
+    body: { type: String, required: true },
+    answeredBy: { type: String, required: true },
+    answeredAt: { type: Date, required: true }
+  },
+  { _id: false }
+);
+
+const productQuestionSchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true, index: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    question: { type: String, required: true },
+    status: { type: String, enum: ["open", "answered", "hidden"], default: "open", index: true },
+    answer: { type: questionAnswerSchema, default: null },
+    upvoterIds: { type: [Schema.Types.ObjectId], default: [] },
+    upvotes: { type: Number, min: 0, default: 0 }
+  },
+  { timestamps: true }
+);
+
+productQuestionSchema.index({ tenantId: 1, productId: 1, status: 1, upvotes: -1 });
+
+export type ProductQuestionDocument = InferSchemaType<typeof productQuestionSchema>;
+export const ProductQuestionModel = model("ProductQuestion", productQuestionSchema);
@@ -0,0 +1,33 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const reviewPhotoSchema = new Schema(
+  {
+    url: { type: String, required: true },
+    publicId: { type: String, required: true }
+  },
+  { _id: false }
+);
+
+const productReviewSchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true, index: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true, index: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true },
+    rating: { type: Number, min: 1, max: 5, required: true },
+    title: { type: String, default: null },
+    body: { type: String, required: true },
+    photos: { type: [reviewPhotoSchema], default: [] },
+    status: { type: String, enum: ["pending", "approved", "rejected"], default: "pending", index: true },
+    moderatedBy: { type: String, default: null },
+    moderatedAt: { type: Date, default: null },
+    moderationNote: { type: String, default: null }
+  },
+  { timestamps: true }
+);
+
+productReviewSchema.index({ tenantId: 1, productId: 1, userId: 1 }, { unique: true });
+productReviewSchema.index({ tenantId: 1, productId: 1, status: 1, createdAt: -1 });
+
+export type ProductReviewDocument = InferSchemaType<typeof productReviewSchema>;
+export const ProductReviewModel = model("ProductReview", productReviewSchema);
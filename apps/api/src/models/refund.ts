@@ -0,0 +1,54 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const refundLineSchema = new Schema(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    variantId: { type: Schema.Types.ObjectId, required: true },
+    name: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    amountNgn: { type: Number, required: true, min: 0 }
+  },
+  { _id: false }
+);
+
+const refundAllocationSchema = new Schema(
+  {
+    paymentId: { type: Schema.Types.ObjectId, ref: "Payment", required: true },
+    provider: { type: String, required: true },
+    providerRef: { type: String, required: true },
+    providerRefundId: { type: String, default: null },
+    amountNgn: { type: Number, required: true, min: 0 },
+    status: { type: String, enum: ["pending", "processing", "processed", "failed"], default: "pending" },
+    failureReason: { type: String, default: null }
+  },
+  { _id: false }
+);
+
+const refundSchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true, index: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", default: null, index: true },
+    refundRef: { type: String, required: true },
+    status: { type: String, enum: ["pending", "processing", "processed", "failed"], default: "pending" },
+    amountNgn: { type: Number, required: true, min: 0 },
+    reason: { type: String, required: true },
+    lines: { type: [refundLineSchema], default: [] },
+    allocations: { type: [refundAllocationSchema], default: [] },
+    restock: { type: Boolean, default: false },
+    restockedAt: { type: Date, default: null },
+    preorderReleased: { type: Boolean, default: false },
+    processedAt: { type: Date, default: null },
+    failureReason: { type: String, default: null },
+    actorId: { type: String, required: true },
+    actorRole: { type: String, required: true }
+  },
+  { timestamps: true }
+);
+
+refundSchema.index({ tenantId: 1, refundRef: 1 }, { unique: true });
+refundSchema.index({ tenantId: 1, orderId: 1, createdAt: -1 });
+refundSchema.index({ "allocations.providerRef": 1, "allocations.status": 1 });
+
+export type RefundDocument = InferSchemaType<typeof refundSchema>;
+export const RefundModel = model("Refund", refundSchema);
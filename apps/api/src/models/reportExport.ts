@@ -0,0 +1,31 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const reportExportSchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    jobId: { type: String, required: true },
+    report: { type: String, required: true },
+    format: { type: String, enum: ["csv", "pdf"], required: true },
+    from: { type: Date, required: true },
+    to: { type: Date, required: true },
+    groupBy: { type: String, enum: ["day", "week", "month"], default: "day" },
+    status: { type: String, enum: ["queued", "processing", "completed", "failed", "expired"], default: "queued" },
+    requestedBy: { type: Schema.Types.ObjectId, ref: "User", default: null },
+    requesterEmail: { type: String, default: null },
+    fileName: { type: String, default: null },
+    fileId: { type: Schema.Types.ObjectId, default: null },
+    contentType: { type: String, default: null },
+    sizeBytes: { type: Number, default: 0 },
+    rowCount: { type: Number, default: 0 },
+    error: { type: String, default: null },
+    completedAt: { type: Date, default: null },
+    expiresAt: { type: Date, default: null }
+  },
+  { timestamps: true }
+);
+
+reportExportSchema.index({ tenantId: 1, jobId: 1 }, { unique: true });
+reportExportSchema.index({ status: 1, expiresAt: 1 });
+
+export type ReportExportDocument = InferSchemaType<typeof reportExportSchema>;
+export const ReportExportModel = model("ReportExport", reportExportSchema);
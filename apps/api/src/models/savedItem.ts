@@ -0,0 +1,19 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const savedItemSchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    userId: { type: Schema.Types.ObjectId, ref: "User", required: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    variantId: { type: Schema.Types.ObjectId, required: true },
+    name: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    unitPriceNgn: { type: Number, required: true, min: 0 }
+  },
+  { timestamps: true }
+);
+
+savedItemSchema.index({ tenantId: 1, userId: 1, variantId: 1 }, { unique: true });
+
+export type SavedItemDocument = InferSchemaType<typeof savedItemSchema>;
+export const SavedItemModel = model("SavedItem", savedItemSchema);
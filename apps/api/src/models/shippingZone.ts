@@ -0,0 +1,31 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const shippingRateSchema = new Schema(
+  {
+    upTo: { type: Number, required: true, min: 0 },
+    priceNgn: { type: Number, required: true, min: 0 }
+  },
+  { _id: false }
+);
+
+const shippingZoneSchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    name: { type: String, required: true },
+    states: { type: [String], default: [] },
+    cities: { type: [String], default: [] },
+    rateBasis: { type: String, enum: ["weight", "item_count"], default: "weight" },
+    rates: { type: [shippingRateSchema], default: [] },
+    extraUnitPriceNgn: { type: Number, min: 0, default: 0 },
+    freeShippingThresholdNgn: { type: Number, min: 0, default: null },
+    estimatedDays: { type: String, default: null },
+    active: { type: Boolean, default: true }
+  },
+  { timestamps: true }
+);
+
+shippingZoneSchema.index({ tenantId: 1, active: 1 });
+shippingZoneSchema.index({ tenantId: 1, name: 1 }, { unique: true });
+
+export type ShippingZoneDocument = InferSchemaType<typeof shippingZoneSchema>;
+export const ShippingZoneModel = model("ShippingZone", shippingZoneSchema);
@@ -0,0 +1,24 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const stockReservationSchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    orderId: { type: Schema.Types.ObjectId, ref: "Order", required: true, index: true },
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    variantId: { type: Schema.Types.ObjectId, required: true },
+    quantity: { type: Number, required: true, min: 1 },
+    status: { type: String, enum: ["active", "converted", "released"], default: "active" },
+    expiresAt: { type: Date, required: true },
+    convertedAt: { type: Date, default: null },
+    releasedAt: { type: Date, default: null },
+    releaseReason: { type: String, enum: ["expired", "payment_failed", "checkout_failed", "superseded", "cancelled", null], default: null }
+  },
+  { timestamps: true }
+);
+
+stockReservationSchema.index({ tenantId: 1, productId: 1, variantId: 1, status: 1 });
+stockReservationSchema.index({ orderId: 1, variantId: 1, status: 1 });
+stockReservationSchema.index({ status: 1, expiresAt: 1 });
+
+export type StockReservationDocument = InferSchemaType<typeof stockReservationSchema>;
+export const StockReservationModel = model("StockReservation", stockReservationSchema);
@@ -0,0 +1,34 @@
+import { Schema, model, type InferSchemaType } from "mongoose";
+
+const stockTransferLineSchema = new Schema(
+  {
+    productId: { type: Schema.Types.ObjectId, ref: "Product", required: true },
+    variantId: { type: Schema.Types.ObjectId, required: true },
+    sku: { type: String, required: true },
+    quantity: { type: Number, required: true, min: 1 }
+  },
+  { _id: false }
+);
+
+const stockTransferSchema = new Schema(
+  {
+    tenantId: { type: Schema.Types.ObjectId, ref: "Tenant", required: true, index: true },
+    transferRef: { type: String, required: true },
+    fromBranchId: { type: Schema.Types.ObjectId, ref: "StoreBranch", required: true },
+    toBranchId: { type: Schema.Types.ObjectId, ref: "StoreBranch", required: true },
+    status: { type: String, enum: ["in_transit", "received", "cancelled"], default: "in_transit" },
+    lines: { type: [stockTransferLineSchema], default: [] },
+    note: { type: String, default: null },
+    dispatchedAt: { type: Date, default: Date.now },
+    receivedAt: { type: Date, default: null },
+    actorId: { type: String, required: true },
+    actorRole: { type: String, required: true }
+  },
+  { timestamps: true }
+);
+
+stockTransferSchema.index({ tenantId: 1, transferRef: 1 }, { unique: true });
+stockTransferSchema.index({ tenantId: 1, status: 1, createdAt: -1 });
+
+export type StockTransferDocument = InferSchemaType<typeof stockTransferSchema>;
+export const StockTransferModel = model("StockTransfer", stockTransferSchema);
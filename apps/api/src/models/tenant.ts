@@ -1,9 +1,21 @@
 import { Schema, model, type InferSchemaType } from "mongoose";
 
+const taxSettingsSchema = new Schema(
+  {
+    vatRatePercent: { type: Number, min: 0, max: 100, default: 0 },
+    pricesIncludeTax: { type: Boolean, default: false },
+    shippingTaxable: { type: Boolean, default: true },
+    exemptCategoryIds: { type: [Schema.Types.ObjectId], ref: "Category", default: [] }
+  },
+  { _id: false }
+);
+
 const tenantSchema = new Schema(
   {
     name: { type: String, required: true },
-    slug: { type: String, required: true, unique: true }
+    slug: { type: String, required: true, unique: true },
+    paymentProvider: { type: String, enum: ["paystack", "flutterwave", null], default: null },
+    tax: { type: taxSettingsSchema, default: () => ({}) }
   },
   { timestamps: true }
 );
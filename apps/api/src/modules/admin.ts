@@ -1,25 +1,36 @@
 import { Router } from "express";
+import { randomUUID } from "crypto";
+import mongoose, { type Types } from "mongoose";
 import {
   adminAccessLevelSchema,
   adminOrderStatusUpdateSchema,
   adminUserAccessLevelUpdateSchema,
   campaignCreateSchema,
+  campaignSendSchema,
   reportExportSchema
 } from "@sws/shared-types";
 import { z } from "zod";
 import { requireAdmin, requirePermission, type AuthRequest } from "../middleware/auth.js";
 import { OrderModel } from "../models/order.js";
+import { PaymentModel } from "../models/payment.js";
 import { UserModel } from "../models/user.js";
 import { enqueueOrderStatusNotification } from "../services/notificationQueue.js";
 import { resolveTenantId } from "../services/tenant.js";
+import { releasePreorderAllocation } from "../services/preorders.js";
 import { toObjectId } from "../utils/ids.js";
 import { resolvePermissions, resolveRole } from "../services/accessControl.js";
 import { CategoryModel, ProductModel } from "../models/catalog.js";
 import { env } from "../config/env.js";
 import { createSignedUploadPayload } from "../services/cloudinary.js";
+import { cancelOfflineOrder, confirmOfflinePayment } from "../services/offlinePayments.js";
+import { adjustSoldUnits } from "../services/orderFinalization.js";
 import { InventoryLedgerModel } from "../models/inventoryLedger.js";
 import { StoreBranchModel } from "../models/storeBranch.js";
+import { ShippingZoneModel, type ShippingZoneDocument } from "../models/shippingZone.js";
+import { GuestContactModel } from "../models/guestContact.js";
 import { CampaignModel } from "../models/campaign.js";
+import { TenantModel } from "../models/tenant.js";
+import { CampaignDeliveryModel } from "../models/campaignDelivery.js";
 import { DiscountModel } from "../models/discount.js";
 import { TrackingEventModel } from "../models/trackingEvent.js";
 import { WishlistModel } from "../models/wishlist.js";
@@ -28,6 +39,32 @@ import { enqueueWishlistStockNotification } from "../services/notificationQueue.
 import { FlashDealModel } from "../models/flashDeal.js";
 import { AdminAuditLogModel } from "../models/adminAuditLog.js";
 import { ContentSettingsModel } from "../models/contentSettings.js";
+import { RefundModel } from "../models/refund.js";
+import { createOrderRefund, serializeRefund } from "../services/refunds.js";
+import { getPaymentProvider, PAYMENT_PROVIDERS, resolveTenantPaymentProvider } from "../services/paymentProviders.js";
+import { availableStock, releaseOrderReservations, summarizeActiveReservations } from "../services/stockReservations.js";
+import { BranchInventoryModel } from "../models/branchInventory.js";
+import { isReportKey, resolveReportRange, runReport, summarizeOrders } from "../services/reports.js";
+import { ReportExportModel } from "../models/reportExport.js";
+import { openReportExportFile } from "../services/reportExports.js";
+import { enqueueCampaignDispatch, enqueueReportExport } from "../services/maintenanceQueue.js";
+import { resolveOrderContact } from "../services/guestOrders.js";
+import { summarizeCartRecovery } from "../services/cartRecovery.js";
+import { StockTransferModel } from "../models/stockTransfer.js";
+import {
+  adjustBranchStock,
+  allocateOrderToBranch,
+  completeStockTransfer,
+  dispatchStockTransfer,
+  releaseOrderFromBranch,
+  serializeStockTransfer
+} from "../services/branchInventory.js";
+import { ProductReviewModel } from "../models/productReview.js";
+import { refreshProductRating, serializeReview } from "../services/reviews.js";
+import { resolveCustomerDisplayNames } from "../services/customers.js";
+import { ProductQuestionModel } from "../models/productQuestion.js";
+import { answerProductQuestion, serializeQuestion } from "../services/productQuestions.js";
+import { productOptionAxes, readVariantOptions, resolveVariantOptions, variantLineName } from "../utils/variantOptions.js";
 
 const inventoryOperationSchema = z.enum(["add", "remove", "adjust"]);
 const inventoryAdjustmentSchema = z.object({
@@ -36,16 +73,56 @@ const inventoryAdjustmentSchema = z.object({
   operation: inventoryOperationSchema,
   quantity: z.number().int().positive().optional(),
   targetStock: z.number().int().min(0).optional(),
+  branchId: z.string().min(1).optional(),
+  note: z.string().max(240).optional()
+});
+const stockTransferCreateSchema = z.object({
+  fromBranchId: z.string().min(1),
+  toBranchId: z.string().min(1),
+  lines: z
+    .array(
+      z.object({
+        productId: z.string().min(1),
+        variantId: z.string().min(1),
+        quantity: z.number().int().positive()
+      })
+    )
+    .min(1),
   note: z.string().max(240).optional()
 });
+const reportQuerySchema = reportExportSchema.omit({ format: true }).partial({ from: true, to: true });
+const orderFulfillmentBranchSchema = z.object({
+  branchId: z.string().min(1)
+});
 
 const productVariantInputSchema = z.object({
   id: z.string().optional(),
   sku: z.string().min(2),
-  size: z.string().min(1),
-  color: z.string().min(1),
+  options: z.record(z.string().trim().min(1)).optional(),
+  size: z.string().min(1).optional(),
+  color: z.string().min(1).optional(),
   stock: z.number().int().min(0),
-  priceNgn: z.number().int().min(0)
+  priceNgn: z.number().int().min(0),
+  weightKg: z.number().positive().max(1000).optional(),
+  preorderCap: z.number().int().min(0).optional(),
+  maxPerOrder: z.number().int().positive().optional(),
+  maxPerCustomer: z.number().int().positive().optional()
+});
+
+const productOptionInputSchema = z.object({
+  name: z.string().trim().min(1).max(40),
+  values: z.array(z.string().trim().min(1).max(60)).min(1).max(50)
+});
+
+const productPurchaseLimitsInputSchema = z.object({
+  maxPerOrder: z.number().int().positive().optional(),
+  maxPerCustomer: z.number().int().positive().optional()
+});
+
+const productPreorderInputSchema = z.object({
+  enabled: z.boolean(),
+  expectedShipDate: z.string().datetime().optional(),
+  depositPercent: z.number().int().min(1).max(100).optional()
 });
 
 const productImageInputSchema = z.object({
@@ -64,6 +141,9 @@ const productUpsertSchema = z.object({
   imageFit: z.enum(["contain", "cover"]).default("contain"),
   images: z.array(productImageInputSchema).min(1).optional(),
   active: z.boolean().optional(),
+  preorder: productPreorderInputSchema.optional(),
+  purchaseLimits: productPurchaseLimitsInputSchema.optional(),
+  options: z.array(productOptionInputSchema).optional(),
   variants: z.array(productVariantInputSchema).min(1)
 });
 const productBulkCreateSchema = z.object({
@@ -73,6 +153,25 @@ const productBulkCsvSchema = z.object({
   csv: z.string().min(1)
 });
 
+const preorderArrivalSchema = z.object({
+  received: z
+    .array(
+      z.object({
+        variantId: z.string().min(1),
+        quantity: z.number().int().min(0)
+      })
+    )
+    .min(1),
+  note: z.string().max(240).optional()
+});
+
+const reviewModerationSchema = z.object({
+  status: z.enum(["approved", "rejected"]),
+  note: z.string().max(240).optional()
+});
+const questionAnswerSchema = z.object({
+  answer: z.string().trim().min(2).max(2000)
+});
 const cloudinarySignSchema = z.object({
   publicId: z.string().min(1).optional()
 });
@@ -95,13 +194,34 @@ const storeBranchCreateSchema = z.object({
   active: z.boolean().optional()
 });
 const storeBranchUpdateSchema = storeBranchCreateSchema.partial();
+const shippingZoneBaseSchema = z.object({
+  name: z.string().min(2).max(80),
+  states: z.array(z.string().min(2)).max(37).default([]),
+  cities: z.array(z.string().min(2)).max(100).default([]),
+  rateBasis: z.enum(["weight", "item_count"]).default("weight"),
+  rates: z
+    .array(z.object({ upTo: z.number().positive(), priceNgn: z.number().int().min(0) }))
+    .min(1)
+    .max(20),
+  extraUnitPriceNgn: z.number().int().min(0).default(0),
+  freeShippingThresholdNgn: z.number().int().positive().nullable().optional(),
+  estimatedDays: z.string().min(1).max(40).nullable().optional(),
+  active: z.boolean().optional()
+});
+const shippingZoneCreateSchema = shippingZoneBaseSchema.refine((value) => value.states.length > 0 || value.cities.length > 0, {
+  message: "Provide at least one state or city",
+  path: ["states"]
+});
+const shippingZoneUpdateSchema = shippingZoneBaseSchema.partial();
 const discountCreateSchema = z.object({
   code: z.string().min(3),
   type: z.enum(["percent", "fixed"]),
   value: z.number().positive(),
   minOrderNgn: z.number().min(0).optional(),
   maxUses: z.number().int().positive().optional(),
-  active: z.boolean().optional()
+  active: z.boolean().optional(),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime().optional()
 });
 const flashDealCreateSchema = z.object({
   title: z.string().min(3),
@@ -128,13 +248,49 @@ const contentSettingsUpdateSchema = z.object({
   featuredCategorySlugs: z.array(z.string().min(2).max(80)).max(12).optional()
 });
 
+const orderRefundCreateSchema = z.object({
+  lines: z
+    .array(
+      z.object({
+        variantId: z.string().min(1),
+        quantity: z.number().int().positive()
+      })
+    )
+    .optional(),
+  amountNgn: z.number().int().positive().optional(),
+  reason: z.string().min(3).max(500),
+  restock: z.boolean().default(false)
+});
+
+const paymentSettingsUpdateSchema = z.object({
+  provider: z.enum(PAYMENT_PROVIDERS)
+});
+
+const taxSettingsUpdateSchema = z.object({
+  vatRatePercent: z.number().min(0).max(100).optional(),
+  pricesIncludeTax: z.boolean().optional(),
+  shippingTaxable: z.boolean().optional(),
+  exemptCategoryIds: z.array(z.string().min(1)).max(100).optional()
+});
+
+const offlinePaymentConfirmSchema = z.object({
+  proofUrl: z.string().url().optional(),
+  proofPublicId: z.string().min(1).max(200).optional(),
+  note: z.string().min(3).max(240).optional()
+});
+
 const allowedTransition: Record<string, string[]> = {
   pending: ["processing", "shipped", "cancelled"],
   processing: ["shipped", "cancelled"],
   paid: ["processing", "shipped", "cancelled"],
+  awaiting_stock: ["cancelled"],
+  awaiting_balance: ["cancelled"],
+  awaiting_payment_on_delivery: ["processing", "shipped", "cancelled"],
+  awaiting_transfer: ["cancelled"],
   shipped: ["delivered"],
   delivered: [],
-  cancelled: []
+  cancelled: [],
+  refunded: []
 };
 
 function canTransition(from: string, to: string) {
@@ -188,8 +344,9 @@ function compactSkuToken(value: string) {
     .join("");
 }
 
-function buildSku(name: string, color: string, size: string, index: number) {
-  return `${compactSkuToken(name) || "PRD"}-${compactSkuToken(color) || "CLR"}-${compactSkuToken(size) || "SZ"}-${String(index + 1).padStart(2, "0")}`;
+function buildSku(name: string, optionValues: string[], index: number) {
+  const tokens = optionValues.map(compactSkuToken).filter(Boolean);
+  return [compactSkuToken(name) || "PRD", ...tokens, String(index + 1).padStart(2, "0")].join("-");
 }
 
 function resolveProductImages(input: {
@@ -214,6 +371,25 @@ function resolveProductImages(input: {
   ];
 }
 
+function resolvePreorderSettings(input?: { enabled: boolean; expectedShipDate?: string; depositPercent?: number }) {
+  if (!input) {
+    return { enabled: false, expectedShipDate: null, depositPercent: null };
+  }
+  return {
+    enabled: input.enabled,
+    expectedShipDate: input.expectedShipDate ? new Date(input.expectedShipDate) : null,
+    depositPercent: input.depositPercent ?? null
+  };
+}
+
+function resolvePurchaseLimits(input?: { maxPerOrder?: number; maxPerCustomer?: number }) {
+  return { maxPerOrder: input?.maxPerOrder ?? null, maxPerCustomer: input?.maxPerCustomer ?? null };
+}
+
+function serializePurchaseLimits(limits?: { maxPerOrder?: number | null; maxPerCustomer?: number | null } | null) {
+  return { maxPerOrder: limits?.maxPerOrder ?? null, maxPerCustomer: limits?.maxPerCustomer ?? null };
+}
+
 async function logAdminAction(params: {
   tenantId: { toString(): string };
   req: AuthRequest;
@@ -375,13 +551,21 @@ adminRouter.get("/products", requirePermission("inventory:manage"), async (req:
         images: product.images
       }),
       active: product.active,
+      preorder: product.preorder ?? resolvePreorderSettings(),
+      purchaseLimits: serializePurchaseLimits(product.purchaseLimits),
+      options: productOptionAxes(product),
       variants: product.variants.map((variant) => ({
         id: variant._id.toString(),
         sku: variant.sku,
-        size: variant.size,
-        color: variant.color,
+        options: readVariantOptions(variant),
+        size: variant.size ?? null,
+        color: variant.color ?? null,
         stock: variant.stock,
-        priceNgn: variant.priceNgn
+        priceNgn: variant.priceNgn,
+        weightKg: variant.weightKg ?? null,
+        preorderCap: variant.preorderCap ?? null,
+        preorderAllocated: variant.preorderAllocated ?? 0,
+        ...serializePurchaseLimits(variant)
       }))
     }))
   );
@@ -411,13 +595,21 @@ adminRouter.get("/products/:id", requirePermission("inventory:manage"), async (r
       images: product.images
     }),
     active: product.active,
+    preorder: product.preorder ?? resolvePreorderSettings(),
+    purchaseLimits: serializePurchaseLimits(product.purchaseLimits),
+    options: productOptionAxes(product),
     variants: product.variants.map((variant) => ({
       id: variant._id.toString(),
       sku: variant.sku,
-      size: variant.size,
-      color: variant.color,
+      options: readVariantOptions(variant),
+      size: variant.size ?? null,
+      color: variant.color ?? null,
       stock: variant.stock,
-      priceNgn: variant.priceNgn
+      priceNgn: variant.priceNgn,
+      weightKg: variant.weightKg ?? null,
+      preorderCap: variant.preorderCap ?? null,
+      preorderAllocated: variant.preorderAllocated ?? 0,
+      ...serializePurchaseLimits(variant)
     }))
   });
 });
@@ -436,6 +628,12 @@ adminRouter.post("/products", requirePermission("inventory:manage"), async (req:
     return;
   }
 
+  const variantOptions = resolveVariantOptions(parsed.data);
+  if ("error" in variantOptions) {
+    res.status(400).json({ message: variantOptions.error });
+    return;
+  }
+
   const slug = parsed.data.slug ? slugify(parsed.data.slug) : slugify(parsed.data.name);
 
   const exists = await ProductModel.findOne({ tenantId, slug }).lean();
@@ -457,13 +655,19 @@ adminRouter.post("/products", requirePermission("inventory:manage"), async (req:
     imageFit: primaryImage.fit,
     images,
     active: parsed.data.active ?? true,
-    variants: parsed.data.variants.map((variant) => ({
+    preorder: resolvePreorderSettings(parsed.data.preorder),
+    purchaseLimits: resolvePurchaseLimits(parsed.data.purchaseLimits),
+    options: variantOptions.options,
+    variants: parsed.data.variants.map((variant, index) => ({
       _id: variant.id ? toObjectId(variant.id) : undefined,
       sku: variant.sku,
-      size: variant.size,
-      color: variant.color,
+      ...variantOptions.variants[index],
       stock: variant.stock,
-      priceNgn: variant.priceNgn
+      priceNgn: variant.priceNgn,
+      weightKg: variant.weightKg ?? null,
+      preorderCap: variant.preorderCap ?? null,
+      maxPerOrder: variant.maxPerOrder ?? null,
+      maxPerCustomer: variant.maxPerCustomer ?? null
     }))
   });
 
@@ -498,6 +702,12 @@ adminRouter.patch("/products/:id", requirePermission("inventory:manage"), async
     return;
   }
 
+  const variantOptions = resolveVariantOptions(parsed.data, product);
+  if ("error" in variantOptions) {
+    res.status(400).json({ message: variantOptions.error });
+    return;
+  }
+
   const nextSlug = parsed.data.slug ? slugify(parsed.data.slug) : slugify(parsed.data.name);
   const duplicate = await ProductModel.findOne({ tenantId, slug: nextSlug, _id: { $ne: product._id } }).lean();
   if (duplicate) {
@@ -516,15 +726,22 @@ adminRouter.patch("/products/:id", requirePermission("inventory:manage"), async
   product.imageFit = primaryImage.fit;
   product.set("images", images);
   product.active = parsed.data.active ?? true;
+  product.set("preorder", resolvePreorderSettings(parsed.data.preorder));
+  product.set("purchaseLimits", resolvePurchaseLimits(parsed.data.purchaseLimits));
+  product.set("options", variantOptions.options);
   product.set(
     "variants",
-    parsed.data.variants.map((variant) => ({
+    parsed.data.variants.map((variant, index) => ({
       _id: variant.id ? toObjectId(variant.id) : undefined,
       sku: variant.sku,
-      size: variant.size,
-      color: variant.color,
+      ...variantOptions.variants[index],
       stock: variant.stock,
-      priceNgn: variant.priceNgn
+      priceNgn: variant.priceNgn,
+      weightKg: variant.weightKg ?? null,
+      preorderCap: variant.preorderCap ?? null,
+      preorderAllocated: variant.id ? (product.variants.id(variant.id)?.preorderAllocated ?? 0) : 0,
+      maxPerOrder: variant.maxPerOrder ?? null,
+      maxPerCustomer: variant.maxPerCustomer ?? null
     }))
   );
 
@@ -566,6 +783,12 @@ adminRouter.post("/products/bulk", requirePermission("inventory:manage"), async
       continue;
     }
 
+    const variantOptions = resolveVariantOptions(item);
+    if ("error" in variantOptions) {
+      results.push({ name: item.name, slug, status: "failed", reason: variantOptions.error });
+      continue;
+    }
+
     const images = resolveProductImages(item);
     const primaryImage = images[0];
     const created = await ProductModel.create({
@@ -579,13 +802,19 @@ adminRouter.post("/products/bulk", requirePermission("inventory:manage"), async
       imageFit: primaryImage.fit,
       images,
       active: item.active ?? true,
-      variants: item.variants.map((variant) => ({
+      preorder: resolvePreorderSettings(item.preorder),
+      purchaseLimits: resolvePurchaseLimits(item.purchaseLimits),
+      options: variantOptions.options,
+      variants: item.variants.map((variant, index) => ({
         _id: variant.id ? toObjectId(variant.id) : undefined,
         sku: variant.sku,
-        size: variant.size,
-        color: variant.color,
+        ...variantOptions.variants[index],
         stock: variant.stock,
-        priceNgn: variant.priceNgn
+        priceNgn: variant.priceNgn,
+        weightKg: variant.weightKg ?? null,
+        preorderCap: variant.preorderCap ?? null,
+        maxPerOrder: variant.maxPerOrder ?? null,
+        maxPerCustomer: variant.maxPerCustomer ?? null
       }))
     });
 
@@ -622,14 +851,26 @@ adminRouter.post("/products/bulk/csv", requirePermission("inventory:manage"), as
     return;
   }
 
-  const header = parseCsvLine(rows[0]).map((value) => value.toLowerCase());
-  const requiredColumns = ["name", "description", "imageurl", "size", "color", "stock", "pricengn"];
+  const rawHeader = parseCsvLine(rows[0]);
+  const header = rawHeader.map((value) => value.toLowerCase());
+  const requiredColumns = ["name", "description", "imageurl", "stock", "pricengn"];
   for (const column of requiredColumns) {
     if (!header.includes(column)) {
       res.status(400).json({ message: `Missing required CSV column: ${column}` });
       return;
     }
   }
+  // Option axes come from "option:<Name>" columns; legacy size and color columns map onto Size and Color.
+  const optionColumns = rawHeader.flatMap((column, index) => {
+    const name = column.toLowerCase().startsWith("option:") ? column.slice("option:".length).trim() : null;
+    if (name) {
+      return [{ key: header[index], name }];
+    }
+    if (header[index] === "size" || header[index] === "color") {
+      return [{ key: header[index], name: header[index] === "size" ? "Size" : "Color" }];
+    }
+    return [];
+  });
 
   type DraftProduct = {
     categoryId: string;
@@ -640,7 +881,7 @@ adminRouter.post("/products/bulk/csv", requirePermission("inventory:manage"), as
     imagePublicId?: string;
     imageFit: "contain" | "cover";
     active: boolean;
-    variants: Array<{ sku: string; size: string; color: string; stock: number; priceNgn: number }>;
+    variants: Array<{ sku: string; options: Record<string, string>; stock: number; priceNgn: number }>;
   };
 
   const drafts = new Map<string, DraftProduct>();
@@ -678,20 +919,20 @@ adminRouter.post("/products/bulk/csv", requirePermission("inventory:manage"), as
       variants: []
     };
 
-    const size = (row.get("size") ?? "").trim();
-    const color = (row.get("color") ?? "").trim();
-    if (!size || !color) {
-      res.status(400).json({ message: `Row ${rowIndex + 1}: size and color are required.` });
-      return;
+    const options: Record<string, string> = {};
+    for (const column of optionColumns) {
+      const value = (row.get(column.key) ?? "").trim();
+      if (value) {
+        options[column.name] = value;
+      }
     }
 
     const stock = Number((row.get("stock") ?? "0").trim());
     const priceNgn = Number((row.get("pricengn") ?? "0").trim());
     const variantIndex = draft.variants.length;
     draft.variants.push({
-      sku: buildSku(draft.name, color, size, variantIndex),
-      size,
-      color,
+      sku: buildSku(draft.name, Object.values(options), variantIndex),
+      options,
       stock: Number.isFinite(stock) ? Math.max(0, Math.trunc(stock)) : 0,
       priceNgn: Number.isFinite(priceNgn) ? Math.max(0, Math.trunc(priceNgn)) : 0
     });
@@ -707,6 +948,12 @@ adminRouter.post("/products/bulk/csv", requirePermission("inventory:manage"), as
       continue;
     }
 
+    const variantOptions = resolveVariantOptions(draft);
+    if ("error" in variantOptions) {
+      results.push({ name: draft.name, slug: draft.slug, status: "failed", reason: variantOptions.error });
+      continue;
+    }
+
     const images = resolveProductImages({
       imageUrl: draft.imageUrl,
       imagePublicId: draft.imagePublicId,
@@ -724,7 +971,8 @@ adminRouter.post("/products/bulk/csv", requirePermission("inventory:manage"), as
       imageFit: primaryImage.fit,
       images,
       active: draft.active,
-      variants: draft.variants
+      options: variantOptions.options,
+      variants: draft.variants.map((variant, index) => ({ ...variant, ...variantOptions.variants[index] }))
     });
     results.push({ name: created.name, id: created._id.toString(), slug: created.slug, status: "created" });
   }
@@ -739,15 +987,32 @@ adminRouter.post("/products/bulk/csv", requirePermission("inventory:manage"), as
 adminRouter.get("/inventory", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
   const tenantId = await resolveTenantId(req.tenantId!);
   const products = await ProductModel.find({ tenantId }).lean();
+  const reservations = await summarizeActiveReservations(tenantId);
+  const branchRows = await BranchInventoryModel.find({ tenantId }).lean();
+  const branchRowsByVariant = new Map<string, typeof branchRows>();
+  for (const row of branchRows) {
+    const key = row.variantId.toString();
+    branchRowsByVariant.set(key, [...(branchRowsByVariant.get(key) ?? []), row]);
+  }
   const rows = products.flatMap((product) =>
     product.variants.map((variant) => ({
       productId: product._id.toString(),
       productName: product.name,
       variantId: variant._id.toString(),
       sku: variant.sku,
-      size: variant.size,
-      color: variant.color,
+      options: readVariantOptions(variant),
+      size: variant.size ?? null,
+      color: variant.color ?? null,
       stock: variant.stock,
+      reserved: variant.reserved ?? 0,
+      available: availableStock(variant),
+      activeReservations: reservations.get(variant._id.toString())?.count ?? 0,
+      nextReservationExpiry: reservations.get(variant._id.toString())?.nextExpiry ?? null,
+      branches: (branchRowsByVariant.get(variant._id.toString()) ?? []).map((row) => ({
+        branchId: row.branchId.toString(),
+        stock: row.stock,
+        inTransit: row.inTransit
+      })),
       priceNgn: variant.priceNgn
     }))
   );
@@ -793,7 +1058,7 @@ adminRouter.post("/inventory/adjustments", requirePermission("inventory:manage")
     return;
   }
 
-  const { productId, variantId, operation, quantity, targetStock, note } = parsed.data;
+  const { productId, variantId, operation, quantity, targetStock, branchId, note } = parsed.data;
   if ((operation === "add" || operation === "remove") && !quantity) {
     res.status(400).json({ message: "Quantity is required for add/remove operations" });
     return;
@@ -816,7 +1081,16 @@ adminRouter.post("/inventory/adjustments", requirePermission("inventory:manage")
     return;
   }
 
-  const previousStock = variant.stock;
+  const branch = branchId ? await StoreBranchModel.findOne({ _id: toObjectId(branchId), tenantId }).lean() : null;
+  if (branchId && !branch) {
+    res.status(404).json({ message: "Branch not found" });
+    return;
+  }
+
+  const branchRow = branch
+    ? await BranchInventoryModel.findOne({ tenantId, branchId: branch._id, variantId: variant._id }).lean()
+    : null;
+  const previousStock = branch ? (branchRow?.stock ?? 0) : variant.stock;
   let nextStock = previousStock;
 
   if (operation === "add") {
@@ -827,11 +1101,65 @@ adminRouter.post("/inventory/adjustments", requirePermission("inventory:manage")
     nextStock = targetStock ?? previousStock;
   }
 
+  if (branch) {
+    if (nextStock < 0) {
+      res.status(409).json({ message: "Branch stock cannot be negative" });
+      return;
+    }
+    const previousTotal = variant.stock;
+    nextStock = previousTotal + nextStock - previousStock;
+    if (nextStock < (variant.reserved ?? 0)) {
+      res.status(409).json({ message: `Stock cannot drop below the ${variant.reserved} unit(s) reserved by pending checkouts` });
+      return;
+    }
+
+    variant.stock = nextStock;
+    await product.save();
+
+    await notifyWishlistSubscribers({
+      tenantId: product.tenantId,
+      productId: product._id,
+      productName: product.name,
+      previousStock: previousTotal,
+      currentStock: nextStock
+    });
+
+    const ledger = await adjustBranchStock({
+      tenantId,
+      branchId: branch._id,
+      productId: product._id,
+      variantId: variant._id,
+      delta: nextStock - previousTotal,
+      operation,
+      note: note ?? null,
+      actor: { id: req.claims?.userId ?? "unknown", role: req.claims?.role ?? "admin" }
+    });
+
+    res.status(201).json({
+      id: ledger._id.toString(),
+      productId: product._id.toString(),
+      variantId: variant._id.toString(),
+      branchId: branch._id.toString(),
+      operation: ledger.operation,
+      delta: ledger.delta,
+      previousStock: ledger.previousStock,
+      nextStock: ledger.nextStock,
+      note: ledger.note,
+      createdAt: ledger.createdAt
+    });
+    return;
+  }
+
   if (nextStock < 0) {
     res.status(409).json({ message: "Stock cannot be negative" });
     return;
   }
 
+  if (nextStock < (variant.reserved ?? 0)) {
+    res.status(409).json({ message: `Stock cannot drop below the ${variant.reserved} unit(s) reserved by pending checkouts` });
+    return;
+  }
+
   variant.stock = nextStock;
   await product.save();
 
@@ -869,6 +1197,268 @@ adminRouter.post("/inventory/adjustments", requirePermission("inventory:manage")
   });
 });
 
+adminRouter.get("/inventory/branches/:branchId", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const branch = await StoreBranchModel.findOne({ _id: toObjectId(String(req.params.branchId)), tenantId }).lean();
+  if (!branch) {
+    res.status(404).json({ message: "Branch not found" });
+    return;
+  }
+
+  const rows = await BranchInventoryModel.find({ tenantId, branchId: branch._id }).lean();
+  const products = await ProductModel.find({ tenantId, _id: { $in: rows.map((row) => row.productId) } })
+    .select({ name: 1, variants: 1 })
+    .lean();
+  const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+
+  res.json({
+    branch: { id: branch._id.toString(), name: branch.name, code: branch.code, city: branch.city, state: branch.state },
+    rows: rows.map((row) => {
+      const product = productMap.get(row.productId.toString());
+      const variant = product?.variants.find((entry) => entry._id.equals(row.variantId));
+      return {
+        productId: row.productId.toString(),
+        productName: product?.name ?? null,
+        variantId: row.variantId.toString(),
+        sku: variant?.sku ?? null,
+        options: variant ? readVariantOptions(variant) : null,
+        size: variant?.size ?? null,
+        color: variant?.color ?? null,
+        stock: row.stock,
+        inTransit: row.inTransit
+      };
+    })
+  });
+});
+
+adminRouter.get("/inventory/transfers", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const status = typeof req.query.status === "string" ? req.query.status : undefined;
+  const transfers = await StockTransferModel.find({ tenantId, ...(status ? { status } : {}) })
+    .sort({ createdAt: -1 })
+    .limit(200)
+    .lean();
+  res.json({ rows: transfers.map((transfer) => serializeStockTransfer(transfer)) });
+});
+
+adminRouter.post("/inventory/transfers", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
+  const parsed = stockTransferCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid stock transfer payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  try {
+    const transfer = await dispatchStockTransfer({
+      tenantId,
+      fromBranchId: toObjectId(parsed.data.fromBranchId),
+      toBranchId: toObjectId(parsed.data.toBranchId),
+      lines: parsed.data.lines.map((line) => ({
+        productId: toObjectId(line.productId),
+        variantId: toObjectId(line.variantId),
+        quantity: line.quantity
+      })),
+      note: parsed.data.note ?? null,
+      actor: { id: req.claims?.userId ?? "unknown", role: req.claims?.role ?? "admin" }
+    });
+
+    res.status(201).json(serializeStockTransfer(transfer));
+    await logAdminAction({
+      tenantId,
+      req,
+      action: "inventory.transfer.dispatch",
+      entityType: "stock_transfer",
+      entityId: transfer._id.toString(),
+      message: `Dispatched stock transfer ${transfer.transferRef}.`,
+      metadata: { fromBranchId: parsed.data.fromBranchId, toBranchId: parsed.data.toBranchId }
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    res.status(message.includes("not found") ? 404 : 409).json({ message });
+  }
+});
+
+adminRouter.post("/inventory/transfers/:id/:outcome", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
+  const outcome = req.params.outcome === "receive" ? "received" : req.params.outcome === "cancel" ? "cancelled" : null;
+  if (!outcome) {
+    res.status(404).json({ message: "Unknown transfer action" });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  try {
+    const transfer = await completeStockTransfer({
+      tenantId,
+      transferId: toObjectId(String(req.params.id)),
+      outcome,
+      actor: { id: req.claims?.userId ?? "unknown", role: req.claims?.role ?? "admin" }
+    });
+
+    res.json(serializeStockTransfer(transfer));
+    await logAdminAction({
+      tenantId,
+      req,
+      action: `inventory.transfer.${outcome}`,
+      entityType: "stock_transfer",
+      entityId: transfer._id.toString(),
+      message: `Marked stock transfer ${transfer.transferRef} as ${outcome}.`
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    res.status(message.includes("not found") ? 404 : 409).json({ message });
+  }
+});
+
+adminRouter.post("/products/:id/preorder/arrival", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
+  const parsed = preorderArrivalSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid preorder arrival payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const product = await ProductModel.findOne({ _id: toObjectId(String(req.params.id)), tenantId });
+  if (!product) {
+    res.status(404).json({ message: "Product not found" });
+    return;
+  }
+
+  if (!product.preorder?.enabled) {
+    res.status(409).json({ message: "Product is not on preorder" });
+    return;
+  }
+
+  const receivedByVariant = new Map<string, number>();
+  for (const entry of parsed.data.received) {
+    if (!product.variants.id(entry.variantId)) {
+      res.status(404).json({ message: `Variant not found: ${entry.variantId}` });
+      return;
+    }
+    receivedByVariant.set(entry.variantId, (receivedByVariant.get(entry.variantId) ?? 0) + entry.quantity);
+  }
+
+  const stockChanges = product.variants.map((variant) => {
+    const received = receivedByVariant.get(variant._id.toString()) ?? 0;
+    const allocated = variant.preorderAllocated ?? 0;
+    return { variant, received, allocated, previousStock: variant.stock, nextStock: variant.stock + received - allocated };
+  });
+
+  const shortfall = stockChanges.find((change) => change.nextStock < 0);
+  if (shortfall) {
+    res.status(409).json({
+      message: `Received quantity for ${shortfall.variant.sku} does not cover ${shortfall.allocated} preordered units`
+    });
+    return;
+  }
+
+  for (const change of stockChanges) {
+    change.variant.stock = change.nextStock;
+    change.variant.preorderAllocated = 0;
+  }
+  product.preorder.enabled = false;
+  await product.save();
+
+  for (const change of stockChanges) {
+    if (change.received === 0 && change.allocated === 0) {
+      continue;
+    }
+    await InventoryLedgerModel.create({
+      tenantId,
+      productId: product._id,
+      variantId: change.variant._id,
+      operation: "adjust",
+      delta: change.nextStock - change.previousStock,
+      previousStock: change.previousStock,
+      nextStock: change.nextStock,
+      note: parsed.data.note ?? `Preorder batch arrival: received ${change.received}, allocated ${change.allocated}`,
+      actorId: req.claims?.userId ?? "unknown",
+      actorRole: req.claims?.role ?? "admin"
+    });
+    await notifyWishlistSubscribers({
+      tenantId: product.tenantId,
+      productId: product._id,
+      productName: product.name,
+      previousStock: change.previousStock,
+      currentStock: change.nextStock
+    });
+  }
+
+  const waitingOrders = await OrderModel.find({ tenantId, status: "awaiting_stock", "lines.productId": product._id });
+  let released = 0;
+  let awaitingBalance = 0;
+
+  for (const order of waitingOrders) {
+    const otherPreorderProductIds = order.lines
+      .filter((line) => line.preorder && line.productId.toString() !== product._id.toString())
+      .map((line) => line.productId);
+    if (otherPreorderProductIds.length > 0) {
+      const stillPending = await ProductModel.countDocuments({
+        tenantId,
+        _id: { $in: otherPreorderProductIds },
+        "preorder.enabled": true
+      });
+      if (stillPending > 0) {
+        continue;
+      }
+    }
+
+    const plan = order.paymentPlan;
+    const balanceDue = Boolean(plan && plan.mode === "deposit" && !plan.balancePaidAt && plan.balanceNgn > 0);
+    const note = balanceDue
+      ? `Preorder stock arrived. Balance payment of NGN ${plan!.balanceNgn.toLocaleString()} is due.`
+      : "Preorder stock arrived. Order is ready for fulfilment.";
+    order.status = balanceDue ? "awaiting_balance" : "paid";
+    order.timeline.push({
+      status: order.status,
+      note,
+      actor: req.claims?.role ?? "admin",
+      at: new Date()
+    });
+    await order.save();
+
+    released += 1;
+    if (balanceDue) {
+      awaitingBalance += 1;
+    }
+
+    const contact = await resolveOrderContact(order);
+    if (contact?.email) {
+      await enqueueOrderStatusNotification({
+        tenantId: order.tenantId.toString(),
+        userId: contact.userId,
+        email: contact.email,
+        customerName: contact.name,
+        orderId: order._id.toString(),
+        orderRef: order.orderRef,
+        status: balanceDue ? "awaiting_balance" : "paid",
+        note
+      });
+    }
+  }
+
+  res.json({
+    productId: product._id.toString(),
+    releasedOrders: released,
+    awaitingBalance,
+    variants: stockChanges.map((change) => ({
+      variantId: change.variant._id.toString(),
+      received: change.received,
+      allocated: change.allocated,
+      stock: change.nextStock
+    }))
+  });
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "product.preorder.arrival",
+    entityType: "product",
+    entityId: product._id.toString(),
+    message: `Recorded preorder stock arrival for ${product.name}.`,
+    metadata: { releasedOrders: released, awaitingBalance }
+  });
+});
+
 adminRouter.get("/orders", requirePermission("orders:read"), async (req: AuthRequest, res) => {
   const tenantId = await resolveTenantId(req.tenantId!);
   const status = typeof req.query.status === "string" ? req.query.status : undefined;
@@ -881,9 +1471,22 @@ adminRouter.get("/orders", requirePermission("orders:read"), async (req: AuthReq
     .limit(200)
     .lean();
 
-  const userIds = [...new Set(orders.map((order) => order.userId.toString()))].map((id) => toObjectId(id));
-  const users = await UserModel.find({ _id: { $in: userIds } }).select({ email: 1, firstName: 1, lastName: 1 }).lean();
+  const users = await UserModel.find({ _id: { $in: orders.flatMap((order) => (order.userId ? [order.userId] : [])) } })
+    .select({ email: 1, firstName: 1, lastName: 1 })
+    .lean();
   const userMap = new Map(users.map((user) => [user._id.toString(), user]));
+  const guests = await GuestContactModel.find({
+    _id: { $in: orders.flatMap((order) => (order.userId || !order.guestContactId ? [] : [order.guestContactId])) }
+  }).lean();
+  const guestMap = new Map(guests.map((guest) => [guest._id.toString(), guest]));
+  const describeCustomer = (order: (typeof orders)[number]) => {
+    const user = order.userId ? userMap.get(order.userId.toString()) : undefined;
+    if (user) {
+      return { id: user._id.toString(), email: user.email, name: `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim(), guest: false };
+    }
+    const guest = order.guestContactId ? guestMap.get(order.guestContactId.toString()) : undefined;
+    return guest ? { id: null, email: guest.email, name: `${guest.firstName} ${guest.lastName}`.trim(), guest: true } : null;
+  };
 
   res.json({
     tenantId: tenantId.toString(),
@@ -894,13 +1497,7 @@ adminRouter.get("/orders", requirePermission("orders:read"), async (req: AuthReq
       totalNgn: order.totalNgn,
       trackingNumber: order.trackingNumber,
       createdAt: order.createdAt,
-      customer: userMap.get(order.userId.toString())
-        ? {
-            id: order.userId.toString(),
-            email: userMap.get(order.userId.toString())?.email,
-            name: `${userMap.get(order.userId.toString())?.firstName ?? ""} ${userMap.get(order.userId.toString())?.lastName ?? ""}`.trim()
-          }
-        : null
+      customer: describeCustomer(order)
     })),
     total: orders.length
   });
@@ -946,7 +1543,7 @@ adminRouter.get("/customers", requirePermission("users:read"), async (req: AuthR
 
   const behaviorMap = new Map<string, { orderCount: number; totalSpendNgn: number; lastOrderAt: Date | null; cancelledCount: number }>();
   for (const order of orders) {
-    const key = order.userId.toString();
+    const key = String(order.userId);
     const current = behaviorMap.get(key) ?? { orderCount: 0, totalSpendNgn: 0, lastOrderAt: null, cancelledCount: 0 };
     current.orderCount += 1;
     current.totalSpendNgn += order.totalNgn;
@@ -1054,7 +1651,10 @@ adminRouter.get("/orders/:id", requirePermission("orders:read"), async (req: Aut
     return;
   }
 
-  const customer = await UserModel.findById(order.userId).select({ email: 1, firstName: 1, lastName: 1 }).lean();
+  const contact = await resolveOrderContact(order);
+  const fulfillmentBranch = order.fulfillmentBranchId
+    ? await StoreBranchModel.findOne({ _id: order.fulfillmentBranchId, tenantId }).select({ name: 1, code: 1, city: 1, state: 1 }).lean()
+    : null;
 
   res.json({
     id: order._id.toString(),
@@ -1062,20 +1662,34 @@ adminRouter.get("/orders/:id", requirePermission("orders:read"), async (req: Aut
     status: order.status,
     trackingNumber: order.trackingNumber,
     subtotalNgn: order.subtotalNgn,
+    discountNgn: order.discountNgn ?? 0,
     shippingNgn: order.shippingNgn,
+    taxNgn: order.taxNgn ?? 0,
+    taxLines: order.taxLines ?? [],
     totalNgn: order.totalNgn,
+    refundedNgn: order.refundedNgn ?? 0,
     shippingAddress: order.shippingAddress,
     createdAt: order.createdAt,
     updatedAt: order.updatedAt,
     items: order.lines,
+    discounts: order.discountLines ?? [],
     timeline: order.timeline ?? [],
-    customer: customer
+    isPreorder: order.isPreorder ?? false,
+    expectedShipDate: order.expectedShipDate ?? null,
+    paymentPlan: order.paymentPlan ?? null,
+    paymentMethod: order.paymentMethod ?? "card",
+    shippingMethod: order.shippingMethod ?? "delivery",
+    pickupBranchId: order.pickupBranchId?.toString() ?? null,
+    fulfillmentBranch: fulfillmentBranch
       ? {
-          id: order.userId.toString(),
-          email: customer.email,
-          name: `${customer.firstName} ${customer.lastName}`.trim()
+          id: fulfillmentBranch._id.toString(),
+          name: fulfillmentBranch.name,
+          code: fulfillmentBranch.code,
+          city: fulfillmentBranch.city,
+          state: fulfillmentBranch.state
         }
-      : null
+      : null,
+    customer: contact ? { id: contact.userId, email: contact.email, name: contact.name, guest: contact.guest } : null
   });
 });
 
@@ -1152,85 +1766,202 @@ adminRouter.post("/orders/:id/tracking-events", requirePermission("orders:write"
   });
 });
 
-adminRouter.patch("/orders/:id/status", requirePermission("orders:write"), async (req: AuthRequest, res) => {
-  const parsed = adminOrderStatusUpdateSchema.safeParse(req.body);
+adminRouter.patch("/orders/:id/fulfillment-branch", requirePermission("orders:write"), async (req: AuthRequest, res) => {
+  const parsed = orderFulfillmentBranchSchema.safeParse(req.body);
   if (!parsed.success) {
-    res.status(400).json({ message: "Invalid status update payload", issues: parsed.error.issues });
+    res.status(400).json({ message: "Invalid fulfillment branch payload", issues: parsed.error.issues });
     return;
   }
 
   const tenantId = await resolveTenantId(req.tenantId!);
   const order = await OrderModel.findOne({ _id: toObjectId(String(req.params.id)), tenantId });
-
   if (!order) {
     res.status(404).json({ message: "Order not found" });
     return;
   }
 
-  const { status, trackingNumber, note } = parsed.data;
-
-  if (!canTransition(order.status, status)) {
-    res.status(409).json({ message: `Invalid transition from ${order.status} to ${status}` });
+  const branch = await StoreBranchModel.findOne({ _id: toObjectId(parsed.data.branchId), tenantId, active: true }).lean();
+  if (!branch) {
+    res.status(404).json({ message: "Branch not found" });
     return;
   }
 
-  if (status === "shipped" && !trackingNumber && !order.trackingNumber) {
-    res.status(400).json({ message: "Tracking number is required when shipping an order" });
+  if (["shipped", "delivered", "cancelled", "refunded"].includes(order.status)) {
+    res.status(409).json({ message: `Cannot reassign fulfillment for a ${order.status} order` });
     return;
   }
 
-  order.status = status;
-  if (trackingNumber) {
-    order.trackingNumber = trackingNumber;
+  const previousBranchId = order.fulfillmentBranchId ?? null;
+  if (previousBranchId?.equals(branch._id)) {
+    res.json({ id: order._id.toString(), fulfillmentBranchId: branch._id.toString() });
+    return;
   }
 
-  order.timeline.push({
-    status,
-    note: note ?? `Order marked as ${status}`,
-    trackingNumber: order.trackingNumber,
-    actor: req.claims?.role ?? "admin",
-    at: new Date()
-  });
-
-  await order.save();
-
-  if (status === "paid" || status === "shipped" || status === "delivered") {
-    const customer = await UserModel.findById(order.userId).select({ email: 1, firstName: 1, lastName: 1 }).lean();
-    if (customer?.email) {
-      await enqueueOrderStatusNotification({
-        tenantId: order.tenantId.toString(),
-        userId: order.userId.toString(),
-        email: customer.email,
-        customerName: `${customer.firstName ?? ""} ${customer.lastName ?? ""}`.trim(),
-        orderId: order._id.toString(),
-        orderRef: order.orderRef,
-        status,
-        trackingNumber: order.trackingNumber,
-        note: note ?? `Order marked as ${status}`
-      });
+  // Pending orders have not taken stock yet; only paid orders move units between branches.
+  const stockTaken = order.status !== "pending";
+  const actor = { id: req.claims?.userId ?? "unknown", role: req.claims?.role ?? "admin" };
+  const session = await mongoose.startSession();
+  try {
+    session.startTransaction();
+    if (stockTaken) {
+      await allocateOrderToBranch(order, branch._id, actor, session);
+      if (previousBranchId) {
+        await releaseOrderFromBranch(order, previousBranchId, actor, session);
+      }
     }
+
+    order.fulfillmentBranchId = branch._id;
+    order.timeline.push({
+      status: order.status,
+      note: `Fulfillment assigned to branch ${branch.code}`,
+      actor: req.claims?.role ?? "admin",
+      at: new Date()
+    });
+    await order.save({ session });
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    res.status(409).json({ message: `Branch ${branch.code} cannot cover this order: ${(error as Error).message}` });
+    return;
+  } finally {
+    session.endSession();
   }
 
-  res.json({
-    id: order._id.toString(),
-    status: order.status,
-    trackingNumber: order.trackingNumber,
-    timeline: order.timeline
-  });
+  res.json({ id: order._id.toString(), fulfillmentBranchId: branch._id.toString() });
   await logAdminAction({
     tenantId,
     req,
-    action: "order.status.update",
+    action: "order.fulfillment_branch.assign",
     entityType: "order",
     entityId: order._id.toString(),
-    message: `Changed order ${order.orderRef} status to ${order.status}.`,
-    metadata: { status: order.status, trackingNumber: order.trackingNumber }
+    message: `Assigned order ${order.orderRef} to branch ${branch.code}.`,
+    metadata: { branchId: branch._id.toString(), previousBranchId: previousBranchId?.toString() ?? null }
   });
 });
 
-adminRouter.patch("/users/:id/access-level", requirePermission("users:manage"), async (req: AuthRequest, res) => {
-  const parsed = adminUserAccessLevelUpdateSchema.safeParse(req.body);
-  if (!parsed.success) {
+adminRouter.patch("/orders/:id/status", requirePermission("orders:write"), async (req: AuthRequest, res) => {
+  const parsed = adminOrderStatusUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid status update payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  let order = await OrderModel.findOne({ _id: toObjectId(String(req.params.id)), tenantId });
+
+  if (!order) {
+    res.status(404).json({ message: "Order not found" });
+    return;
+  }
+
+  const { status, trackingNumber, note } = parsed.data;
+
+  if (!canTransition(order.status, status)) {
+    res.status(409).json({ message: `Invalid transition from ${order.status} to ${status}` });
+    return;
+  }
+
+  if (status === "shipped" && !trackingNumber && !order.trackingNumber) {
+    res.status(400).json({ message: "Tracking number is required when shipping an order" });
+    return;
+  }
+
+  if (status === "cancelled" && (order.status === "awaiting_stock" || order.status === "awaiting_balance")) {
+    // Restocking refunds already handed their units back to the preorder cap.
+    const restockedRefunds = await RefundModel.find({ orderId: order._id, preorderReleased: true, restockedAt: { $ne: null } })
+      .select({ lines: 1 })
+      .lean();
+    const restockedLines = restockedRefunds.flatMap((refund) => refund.lines);
+    await releasePreorderAllocation(
+      tenantId,
+      order.lines.map((line) => ({
+        productId: line.productId,
+        variantId: line.variantId,
+        preorder: line.preorder,
+        quantity:
+          line.quantity -
+          restockedLines.filter((entry) => entry.variantId.equals(line.variantId)).reduce((sum, entry) => sum + entry.quantity, 0)
+      }))
+    );
+  }
+  if (status === "cancelled" && order.status === "pending") {
+    await releaseOrderReservations(order._id, "cancelled");
+  }
+  // Unpaid offline orders committed their stock at checkout, so cancelling one has to hand it back.
+  if (status === "cancelled" && (await PaymentModel.exists({ orderId: order._id, provider: "offline", status: "initialized" }))) {
+    try {
+      order = await cancelOfflineOrder({
+        tenantId,
+        orderId: order._id,
+        note: note ?? "Order marked as cancelled",
+        actor: { id: req.claims?.userId ?? "unknown", role: req.claims?.role ?? "admin" }
+      });
+    } catch (error) {
+      res.status(409).json({ message: (error as Error).message });
+      return;
+    }
+  } else {
+    // Paid orders counted their units as sold when the payment landed; refunded units were already taken off.
+    if (status === "cancelled" && ["paid", "processing", "awaiting_stock", "awaiting_balance"].includes(order.status)) {
+      await adjustSoldUnits(
+        order.tenantId,
+        order.lines.map((line) => ({ productId: line.productId, quantity: line.quantity - (line.refundedQuantity ?? 0) })),
+        -1
+      );
+    }
+    order.status = status;
+    if (trackingNumber) {
+      order.trackingNumber = trackingNumber;
+    }
+
+    order.timeline.push({
+      status,
+      note: note ?? `Order marked as ${status}`,
+      trackingNumber: order.trackingNumber,
+      actor: req.claims?.role ?? "admin",
+      at: new Date()
+    });
+
+    await order.save();
+  }
+
+  if (status === "paid" || status === "shipped" || status === "delivered") {
+    const contact = await resolveOrderContact(order);
+    if (contact?.email) {
+      await enqueueOrderStatusNotification({
+        tenantId: order.tenantId.toString(),
+        userId: contact.userId,
+        email: contact.email,
+        customerName: contact.name,
+        orderId: order._id.toString(),
+        orderRef: order.orderRef,
+        status,
+        trackingNumber: order.trackingNumber,
+        note: note ?? `Order marked as ${status}`
+      });
+    }
+  }
+
+  res.json({
+    id: order._id.toString(),
+    status: order.status,
+    trackingNumber: order.trackingNumber,
+    timeline: order.timeline
+  });
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "order.status.update",
+    entityType: "order",
+    entityId: order._id.toString(),
+    message: `Changed order ${order.orderRef} status to ${order.status}.`,
+    metadata: { status: order.status, trackingNumber: order.trackingNumber }
+  });
+});
+
+adminRouter.patch("/users/:id/access-level", requirePermission("users:manage"), async (req: AuthRequest, res) => {
+  const parsed = adminUserAccessLevelUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
     res.status(400).json({ message: "Invalid access level payload", issues: parsed.error.issues });
     return;
   }
@@ -1258,8 +1989,124 @@ adminRouter.patch("/users/:id/access-level", requirePermission("users:manage"),
   });
 });
 
-adminRouter.post("/orders/:id/refunds", (req, res) => {
-  res.status(201).json({ id: `ref_${Date.now()}`, orderId: req.params.id, amountNgn: req.body.amountNgn ?? 0 });
+adminRouter.get("/orders/:id/refunds", requirePermission("orders:read"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const refunds = await RefundModel.find({ tenantId, orderId: toObjectId(String(req.params.id)) })
+    .sort({ createdAt: -1 })
+    .lean();
+  res.json(refunds.map((refund) => serializeRefund(refund)));
+});
+
+adminRouter.post("/orders/:id/refunds", requirePermission("orders:write"), async (req: AuthRequest, res) => {
+  const parsed = orderRefundCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid refund payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const orderId = toObjectId(String(req.params.id));
+
+  try {
+    const refund = await createOrderRefund({
+      tenantId,
+      orderId,
+      lines: parsed.data.lines,
+      amountNgn: parsed.data.amountNgn,
+      reason: parsed.data.reason,
+      restock: parsed.data.restock,
+      actor: { id: req.claims?.userId ?? "unknown", role: req.claims?.role ?? "admin" }
+    });
+
+    res.status(201).json(serializeRefund(refund));
+    await logAdminAction({
+      tenantId,
+      req,
+      action: "order.refund.create",
+      entityType: "order",
+      entityId: orderId.toString(),
+      message: `Issued refund ${refund.refundRef} of NGN ${refund.amountNgn.toLocaleString()}.`,
+      metadata: { refundRef: refund.refundRef, amountNgn: refund.amountNgn, restock: refund.restock }
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("not found")) {
+      res.status(404).json({ message });
+      return;
+    }
+    if (message.startsWith("Payment provider")) {
+      res.status(502).json({ message });
+      return;
+    }
+    res.status(409).json({ message });
+  }
+});
+
+adminRouter.post("/orders/:id/payment-proof/sign-upload", requirePermission("orders:write"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const order = await OrderModel.findOne({ tenantId, _id: toObjectId(String(req.params.id)) }).select({ orderRef: 1 }).lean();
+  if (!order) {
+    res.status(404).json({ message: "Order not found" });
+    return;
+  }
+
+  try {
+    const signed = createSignedUploadPayload({
+      folder: env.CLOUDINARY_PAYMENT_PROOF_FOLDER,
+      publicId: `${order.orderRef}-${Date.now()}`
+    });
+
+    res.json(signed);
+  } catch (error) {
+    res.status(503).json({ message: (error as Error).message });
+  }
+});
+
+adminRouter.post("/orders/:id/payments/confirm", requirePermission("orders:write"), async (req: AuthRequest, res) => {
+  const parsed = offlinePaymentConfirmSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid payment confirmation payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const orderId = toObjectId(String(req.params.id));
+
+  try {
+    const { order, payment } = await confirmOfflinePayment({
+      tenantId,
+      orderId,
+      ...parsed.data,
+      actor: { id: req.claims?.userId ?? "unknown", role: req.claims?.role ?? "admin" }
+    });
+
+    res.json({
+      orderId: order._id.toString(),
+      orderRef: order.orderRef,
+      status: order.status,
+      paymentRef: payment.providerRef,
+      paymentMethod: payment.method,
+      paymentStatus: payment.status,
+      verifiedAt: payment.verifiedAt,
+      proofUrl: payment.proofUrl
+    });
+    await logAdminAction({
+      tenantId,
+      req,
+      action: "order.payment.confirm",
+      entityType: "order",
+      entityId: orderId.toString(),
+      message: `Confirmed ${payment.method === "bank_transfer" ? "bank transfer" : "pay-on-delivery"} payment of NGN ${payment.amountNgn.toLocaleString()}.`,
+      metadata: { paymentRef: payment.providerRef, method: payment.method, proofUrl: payment.proofUrl }
+    });
+  } catch (error) {
+    const message = (error as Error).message;
+    if (message.includes("not found")) {
+      res.status(404).json({ message });
+      return;
+    }
+    res.status(409).json({ message });
+  }
 });
 
 adminRouter.get("/store/branches", requirePermission("users:read"), async (req: AuthRequest, res) => {
@@ -1355,20 +2202,111 @@ adminRouter.patch("/store/branches/:id", requirePermission("users:manage"), asyn
   });
 });
 
+function serializeShippingZone(zone: ShippingZoneDocument & { _id: Types.ObjectId }) {
+  return {
+    id: zone._id.toString(),
+    name: zone.name,
+    states: zone.states,
+    cities: zone.cities,
+    rateBasis: zone.rateBasis,
+    rates: [...zone.rates].sort((a, b) => a.upTo - b.upTo).map((rate) => ({ upTo: rate.upTo, priceNgn: rate.priceNgn })),
+    extraUnitPriceNgn: zone.extraUnitPriceNgn ?? 0,
+    freeShippingThresholdNgn: zone.freeShippingThresholdNgn ?? null,
+    estimatedDays: zone.estimatedDays ?? null,
+    active: zone.active
+  };
+}
+
+adminRouter.get("/shipping/zones", requirePermission("users:read"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const zones = await ShippingZoneModel.find({ tenantId }).sort({ name: 1 }).lean();
+  res.json(zones.map((zone) => serializeShippingZone(zone)));
+});
+
+adminRouter.post("/shipping/zones", requirePermission("users:manage"), async (req: AuthRequest, res) => {
+  const parsed = shippingZoneCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid shipping zone payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const exists = await ShippingZoneModel.findOne({ tenantId, name: parsed.data.name }).lean();
+  if (exists) {
+    res.status(409).json({ message: "Shipping zone name already exists" });
+    return;
+  }
+
+  const zone = await ShippingZoneModel.create({ tenantId, ...parsed.data });
+
+  res.status(201).json(serializeShippingZone(zone.toObject()));
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "shipping.zone.create",
+    entityType: "shipping_zone",
+    entityId: zone._id.toString(),
+    message: `Created shipping zone ${zone.name}.`,
+    metadata: { states: zone.states, cities: zone.cities, rateBasis: zone.rateBasis }
+  });
+});
+
+adminRouter.patch("/shipping/zones/:id", requirePermission("users:manage"), async (req: AuthRequest, res) => {
+  const parsed = shippingZoneUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid shipping zone update payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const zone = await ShippingZoneModel.findOne({ tenantId, _id: toObjectId(String(req.params.id)) });
+  if (!zone) {
+    res.status(404).json({ message: "Shipping zone not found" });
+    return;
+  }
+
+  if (parsed.data.name && parsed.data.name !== zone.name) {
+    const duplicate = await ShippingZoneModel.findOne({ tenantId, name: parsed.data.name, _id: { $ne: zone._id } }).lean();
+    if (duplicate) {
+      res.status(409).json({ message: "Shipping zone name already exists" });
+      return;
+    }
+  }
+
+  zone.set(parsed.data);
+  if (zone.states.length === 0 && zone.cities.length === 0) {
+    res.status(400).json({ message: "Provide at least one state or city" });
+    return;
+  }
+  await zone.save();
+
+  res.json(serializeShippingZone(zone.toObject()));
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "shipping.zone.update",
+    entityType: "shipping_zone",
+    entityId: zone._id.toString(),
+    message: `Updated shipping zone ${zone.name}.`,
+    metadata: { fields: Object.keys(parsed.data) }
+  });
+});
+
 adminRouter.get("/reports/summary", requirePermission("reports:view"), async (req: AuthRequest, res) => {
   const tenantId = await resolveTenantId(req.tenantId!);
-  const orders = await OrderModel.find({ tenantId }).lean();
-  const paidOrders = orders.filter((order) => order.status !== "cancelled");
-  const revenueNgn = paidOrders.reduce((sum, order) => sum + order.totalNgn, 0);
-  const averageOrderValueNgn = paidOrders.length > 0 ? Math.round(revenueNgn / paidOrders.length) : 0;
-  const cancelledRatePercent = orders.length > 0 ? Number(((orders.filter((order) => order.status === "cancelled").length / orders.length) * 100).toFixed(2)) : 0;
+  const [summary, cartRecovery] = await Promise.all([summarizeOrders(tenantId), summarizeCartRecovery(tenantId)]);
+  const revenueNgn = summary.revenueNgn;
+  const averageOrderValueNgn = summary.billed > 0 ? Math.round(revenueNgn / summary.billed) : 0;
+  const cancelledRatePercent = summary.orders > 0 ? Number(((summary.cancelled / summary.orders) * 100).toFixed(2)) : 0;
 
   res.json({
     cards: [
       { key: "revenue", label: "Revenue", value: revenueNgn, unit: "NGN" },
-      { key: "orders", label: "Orders", value: orders.length, unit: "count" },
+      { key: "orders", label: "Orders", value: summary.orders, unit: "count" },
       { key: "aov", label: "Average Order Value", value: averageOrderValueNgn, unit: "NGN" },
-      { key: "cancelled_rate", label: "Cancelled Rate", value: cancelledRatePercent, unit: "percent" }
+      { key: "cancelled_rate", label: "Cancelled Rate", value: cancelledRatePercent, unit: "percent" },
+      { key: "recovered_carts", label: "Recovered Carts", value: cartRecovery.recovered, unit: "count" },
+      { key: "recovered_cart_revenue", label: "Recovered Cart Revenue", value: cartRecovery.revenueNgn, unit: "NGN" }
     ]
   });
 });
@@ -1445,6 +2383,102 @@ adminRouter.patch("/content", requirePermission("inventory:manage"), async (req:
   });
 });
 
+async function describePaymentSettings(tenantId: Types.ObjectId) {
+  const active = await resolveTenantPaymentProvider(tenantId);
+  return {
+    activeProvider: active.name,
+    providers: PAYMENT_PROVIDERS.map((name) => ({ name, configured: getPaymentProvider(name).isConfigured() }))
+  };
+}
+
+adminRouter.get("/settings/payments", requirePermission("users:manage"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  res.json(await describePaymentSettings(tenantId));
+});
+
+adminRouter.patch("/settings/payments", requirePermission("users:manage"), async (req: AuthRequest, res) => {
+  const parsed = paymentSettingsUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid payment settings payload", issues: parsed.error.issues });
+    return;
+  }
+  if (!getPaymentProvider(parsed.data.provider).isConfigured()) {
+    res.status(409).json({ message: `${parsed.data.provider} is not configured on this server` });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  await TenantModel.updateOne({ _id: tenantId }, { $set: { paymentProvider: parsed.data.provider } });
+  res.json(await describePaymentSettings(tenantId));
+
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "settings.payment_provider.update",
+    entityType: "tenant",
+    entityId: tenantId.toString(),
+    message: `Switched checkout payments to ${parsed.data.provider}`,
+    metadata: { provider: parsed.data.provider }
+  });
+});
+
+async function describeTaxSettings(tenantId: Types.ObjectId) {
+  const tenant = await TenantModel.findById(tenantId).select({ tax: 1 }).lean();
+  const categories = tenant?.tax?.exemptCategoryIds.length
+    ? await CategoryModel.find({ tenantId, _id: { $in: tenant.tax.exemptCategoryIds } }).select({ name: 1 }).lean()
+    : [];
+  return {
+    vatRatePercent: tenant?.tax?.vatRatePercent ?? 0,
+    pricesIncludeTax: tenant?.tax?.pricesIncludeTax ?? false,
+    shippingTaxable: tenant?.tax?.shippingTaxable ?? true,
+    exemptCategories: categories.map((category) => ({ id: category._id.toString(), name: category.name }))
+  };
+}
+
+adminRouter.get("/settings/tax", requirePermission("users:manage"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  res.json(await describeTaxSettings(tenantId));
+});
+
+adminRouter.patch("/settings/tax", requirePermission("users:manage"), async (req: AuthRequest, res) => {
+  const parsed = taxSettingsUpdateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid tax settings payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const update: Record<string, unknown> = {};
+  if (parsed.data.vatRatePercent !== undefined) update["tax.vatRatePercent"] = parsed.data.vatRatePercent;
+  if (parsed.data.pricesIncludeTax !== undefined) update["tax.pricesIncludeTax"] = parsed.data.pricesIncludeTax;
+  if (parsed.data.shippingTaxable !== undefined) update["tax.shippingTaxable"] = parsed.data.shippingTaxable;
+  if (parsed.data.exemptCategoryIds) {
+    const categoryIds = parsed.data.exemptCategoryIds.map((id) => toObjectId(id));
+    const found = await CategoryModel.countDocuments({ tenantId, _id: { $in: categoryIds } });
+    if (found !== new Set(parsed.data.exemptCategoryIds).size) {
+      res.status(404).json({ message: "Category not found" });
+      return;
+    }
+    update["tax.exemptCategoryIds"] = categoryIds;
+  }
+
+  if (Object.keys(update).length > 0) {
+    await TenantModel.updateOne({ _id: tenantId }, { $set: update });
+  }
+  const settings = await describeTaxSettings(tenantId);
+  res.json(settings);
+
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "settings.tax.update",
+    entityType: "tenant",
+    entityId: tenantId.toString(),
+    message: `Updated tax settings (VAT ${settings.vatRatePercent}%, ${settings.pricesIncludeTax ? "inclusive" : "exclusive"} pricing)`,
+    metadata: { ...settings, exemptCategories: settings.exemptCategories.map((category) => category.id) }
+  });
+});
+
 adminRouter.get("/notifications", requirePermission("users:read"), async (req: AuthRequest, res) => {
   const tenantId = await resolveTenantId(req.tenantId!);
   const [products, pendingOrders, failedPayments, recentCampaigns] = await Promise.all([
@@ -1460,7 +2494,7 @@ adminRouter.get("/notifications", requirePermission("users:read"), async (req: A
       .map((variant) => ({
         id: `${product._id.toString()}-${variant._id.toString()}`,
         title: "Low inventory",
-        message: `${product.name} (${variant.size}/${variant.color}) has low stock: ${variant.stock}`,
+        message: `${variantLineName(product.name, variant, productOptionAxes(product))} has low stock: ${variant.stock}`,
         severity: variant.stock === 0 ? "error" : "warning",
         source: "inventory"
       }))
@@ -1500,18 +2534,132 @@ adminRouter.get("/notifications", requirePermission("users:read"), async (req: A
   });
 });
 
-adminRouter.get("/reports/:key", (req, res) => {
-  res.json({ report: req.params.key, generatedAt: new Date().toISOString(), rows: [] });
+adminRouter.get("/reports/:key", requirePermission("reports:view"), async (req: AuthRequest, res) => {
+  const key = String(req.params.key);
+  if (!isReportKey(key)) {
+    res.status(404).json({ message: "Report not found" });
+    return;
+  }
+
+  const parsed = reportQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid report query", issues: parsed.error.issues });
+    return;
+  }
+
+  let range: { from: Date; to: Date };
+  try {
+    range = resolveReportRange(parsed.data);
+  } catch (error) {
+    res.status(400).json({ message: (error as Error).message });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const report = await runReport(key, { tenantId, ...range, groupBy: parsed.data.groupBy ?? "day" });
+  res.json(report);
 });
 
-adminRouter.post("/reports/:key/export", (req, res) => {
+adminRouter.post("/reports/:key/export", requirePermission("reports:view"), async (req: AuthRequest, res) => {
+  const key = String(req.params.key);
+  if (!isReportKey(key)) {
+    res.status(404).json({ message: "Report not found" });
+    return;
+  }
+
   const parsed = reportExportSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ message: "Invalid export payload", issues: parsed.error.issues });
     return;
   }
 
-  res.status(202).json({ jobId: `job_${Date.now()}`, report: req.params.key, ...parsed.data });
+  let range: { from: Date; to: Date };
+  try {
+    range = resolveReportRange(parsed.data);
+  } catch (error) {
+    res.status(400).json({ message: (error as Error).message });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const requester = req.claims ? await UserModel.findById(req.claims.userId).select({ email: 1 }).lean() : null;
+  const exportJob = await ReportExportModel.create({
+    tenantId,
+    jobId: randomUUID(),
+    report: key,
+    format: parsed.data.format,
+    ...range,
+    groupBy: parsed.data.groupBy ?? "day",
+    status: "queued",
+    requestedBy: requester?._id ?? null,
+    requesterEmail: requester?.email ?? null
+  });
+
+  const queued = await enqueueReportExport({ exportId: exportJob._id.toString() });
+  if (!queued.enqueued) {
+    exportJob.status = "failed";
+    exportJob.error = queued.reason;
+    await exportJob.save();
+    res.status(503).json({ message: "Report exports are unavailable: background jobs are not configured" });
+    return;
+  }
+
+  res.status(202).json({ jobId: exportJob.jobId, report: key, status: exportJob.status, ...parsed.data });
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "report.export.request",
+    entityType: "report_export",
+    entityId: exportJob.jobId,
+    message: `Requested ${parsed.data.format.toUpperCase()} export of ${key} report.`,
+    metadata: { from: parsed.data.from, to: parsed.data.to, groupBy: parsed.data.groupBy ?? "day" }
+  });
+});
+
+adminRouter.get("/reports/exports/:jobId", requirePermission("reports:view"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const exportJob = await ReportExportModel.findOne({ tenantId, jobId: String(req.params.jobId) }).lean();
+  if (!exportJob) {
+    res.status(404).json({ message: "Export not found" });
+    return;
+  }
+
+  if (req.query.download === "true" || req.query.download === "1") {
+    if (exportJob.status !== "completed" || !exportJob.fileId) {
+      res.status(409).json({ message: `Export is ${exportJob.status}` });
+      return;
+    }
+    res.attachment(exportJob.fileName ?? `${exportJob.jobId}.${exportJob.format}`);
+    res.type(exportJob.contentType ?? "application/octet-stream");
+    openReportExportFile(exportJob.fileId)
+      .once("error", () => {
+        if (!res.headersSent) {
+          res.status(410).json({ message: "Export file is no longer available" });
+        } else {
+          res.end();
+        }
+      })
+      .pipe(res);
+    return;
+  }
+
+  res.json({
+    jobId: exportJob.jobId,
+    report: exportJob.report,
+    format: exportJob.format,
+    from: exportJob.from,
+    to: exportJob.to,
+    groupBy: exportJob.groupBy,
+    status: exportJob.status,
+    rowCount: exportJob.rowCount,
+    sizeBytes: exportJob.sizeBytes,
+    error: exportJob.error ?? null,
+    completedAt: exportJob.completedAt ?? null,
+    expiresAt: exportJob.expiresAt ?? null,
+    downloadUrl:
+      exportJob.status === "completed" ? `/api/v1/admin/reports/exports/${exportJob.jobId}?download=true` : null,
+    createdAt: exportJob.createdAt
+  });
 });
 
 adminRouter.get("/campaigns", requirePermission("reports:view"), async (req: AuthRequest, res) => {
@@ -1524,13 +2672,14 @@ adminRouter.get("/campaigns", requirePermission("reports:view"), async (req: Aut
       segment: campaign.segment,
       subject: campaign.subject,
       status: campaign.status,
+      scheduledFor: campaign.scheduledFor ?? null,
       sentAt: campaign.sentAt,
       stats: campaign.stats
     }))
   );
 });
 
-adminRouter.post("/campaigns", async (req: AuthRequest, res) => {
+adminRouter.post("/campaigns", requirePermission("campaigns:manage"), async (req: AuthRequest, res) => {
   const parsed = campaignCreateSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ message: "Invalid campaign payload", issues: parsed.error.issues });
@@ -1547,48 +2696,112 @@ adminRouter.post("/campaigns", async (req: AuthRequest, res) => {
   res.status(201).json({ id: campaign._id.toString(), ...parsed.data, status: campaign.status });
 });
 
-adminRouter.post("/campaigns/:id/send", async (req: AuthRequest, res) => {
+adminRouter.post("/campaigns/:id/send", requirePermission("campaigns:manage"), async (req: AuthRequest, res) => {
+  const parsed = campaignSendSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid campaign send payload", issues: parsed.error.issues });
+    return;
+  }
+
   const tenantId = await resolveTenantId(req.tenantId!);
   const campaign = await CampaignModel.findOne({ tenantId, _id: toObjectId(String(req.params.id)) });
   if (!campaign) {
     res.status(404).json({ message: "Campaign not found" });
     return;
   }
+  if (campaign.status === "sent") {
+    res.status(409).json({ message: "Campaign has already been sent" });
+    return;
+  }
 
-  campaign.status = "sent";
-  campaign.sentAt = new Date();
-  const stats = campaign.stats ?? { sent: 0, opened: 0, clicked: 0, purchased: 0, revenueNgn: 0 };
-  stats.sent = Math.max(stats.sent, 100);
-  stats.opened = Math.max(stats.opened, 44);
-  stats.clicked = Math.max(stats.clicked, 18);
-  stats.purchased = Math.max(stats.purchased, 9);
-  stats.revenueNgn = Math.max(stats.revenueNgn, 450000);
-  campaign.stats = stats;
+  const previous = { status: campaign.status, scheduledFor: campaign.scheduledFor };
+  const requestedAt = parsed.data.scheduledFor ? new Date(parsed.data.scheduledFor) : new Date();
+  campaign.status = "scheduled";
+  campaign.scheduledFor = requestedAt.getTime() > Date.now() ? requestedAt : new Date();
   await campaign.save();
 
-  res.status(202).json({ campaignId: campaign._id.toString(), scheduledFor: req.body.scheduledFor ?? "now", status: campaign.status });
+  const queued = await enqueueCampaignDispatch({
+    campaignId: campaign._id.toString(),
+    scheduledFor: campaign.scheduledFor.toISOString()
+  });
+  if (!queued.enqueued) {
+    campaign.status = previous.status;
+    campaign.scheduledFor = previous.scheduledFor;
+    await campaign.save();
+    res.status(503).json({ message: "Campaign delivery is unavailable: background jobs are not configured" });
+    return;
+  }
+
+  res.status(202).json({ campaignId: campaign._id.toString(), scheduledFor: campaign.scheduledFor, status: campaign.status });
+
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "campaign.schedule",
+    entityType: "campaign",
+    entityId: campaign._id.toString(),
+    message: `Scheduled campaign ${campaign.name} for ${campaign.scheduledFor.toISOString()}`,
+    metadata: { segment: campaign.segment, scheduledFor: campaign.scheduledFor }
+  });
 });
 
-adminRouter.get("/campaigns/:id/performance", async (req: AuthRequest, res) => {
+adminRouter.get("/campaigns/:id/performance", requirePermission("reports:view"), async (req: AuthRequest, res) => {
   const tenantId = await resolveTenantId(req.tenantId!);
   const campaign = await CampaignModel.findOne({ tenantId, _id: toObjectId(String(req.params.id)) }).lean();
   if (!campaign) {
     res.status(404).json({ message: "Campaign not found" });
     return;
   }
-  const stats = campaign.stats ?? { sent: 0, opened: 0, clicked: 0, purchased: 0, revenueNgn: 0 };
-  const roiPercent = stats.sent > 0 ? Number((((stats.revenueNgn - stats.sent * 1000) / (stats.sent * 1000)) * 100).toFixed(2)) : 0;
+  const stats = campaign.stats ?? { recipients: 0, sent: 0, skipped: 0, failed: 0, opened: 0, clicked: 0, purchased: 0, revenueNgn: 0 };
+  // ROI is only meaningful against the spend recorded on the campaign, so it stays null until a cost is set.
+  const costNgn = campaign.costNgn ?? 0;
+  const roiPercent = costNgn > 0 ? Number((((stats.revenueNgn - costNgn) / costNgn) * 100).toFixed(2)) : null;
   res.json({
     campaignId: campaign._id.toString(),
+    recipients: stats.recipients,
     sent: stats.sent,
+    skipped: stats.skipped,
+    failed: stats.failed,
     opened: stats.opened,
     clicked: stats.clicked,
     purchased: stats.purchased,
     revenueNgn: stats.revenueNgn,
-    roiPercent
+    costNgn,
+    roiPercent,
+    attributionWindowDays: env.CAMPAIGN_ATTRIBUTION_WINDOW_DAYS
   });
 });
 
+adminRouter.get("/campaigns/:id/deliveries", requirePermission("reports:view"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const campaignId = toObjectId(String(req.params.id));
+  const status = typeof req.query.status === "string" ? req.query.status : "";
+  const deliveries = await CampaignDeliveryModel.find({ tenantId, campaignId, ...(status ? { status } : {}) })
+    .sort({ createdAt: 1 })
+    .limit(200)
+    .lean();
+  const users = await UserModel.find({ _id: { $in: deliveries.map((delivery) => delivery.userId) } })
+    .select({ email: 1 })
+    .lean();
+  const emailMap = new Map(users.map((user) => [user._id.toString(), user.email]));
+
+  res.json(
+    deliveries.map((delivery) => ({
+      id: delivery._id.toString(),
+      userId: delivery.userId.toString(),
+      email: emailMap.get(delivery.userId.toString()) ?? null,
+      status: delivery.status,
+      error: delivery.error ?? null,
+      sentAt: delivery.sentAt ?? null,
+      openedAt: delivery.openedAt ?? null,
+      clickedAt: delivery.clickedAt ?? null,
+      clickCount: delivery.clickCount,
+      orders: delivery.orderIds.length,
+      revenueNgn: delivery.revenueNgn
+    }))
+  );
+});
+
 adminRouter.get("/flash-deals", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
   const tenantId = await resolveTenantId(req.tenantId!);
   const deals = await FlashDealModel.find({ tenantId }).sort({ startAt: -1 }).lean();
@@ -1719,7 +2932,9 @@ adminRouter.get("/discounts", requirePermission("reports:view"), async (req: Aut
       minOrderNgn: discount.minOrderNgn,
       maxUses: discount.maxUses,
       usedCount: discount.usedCount,
-      active: discount.active
+      active: discount.active,
+      startsAt: discount.startsAt,
+      endsAt: discount.endsAt
     }))
   );
 });
@@ -1731,6 +2946,12 @@ adminRouter.post("/discounts", requirePermission("orders:write"), async (req: Au
     return;
   }
   const tenantId = await resolveTenantId(req.tenantId!);
+  const startsAt = parsed.data.startsAt ? new Date(parsed.data.startsAt) : null;
+  const endsAt = parsed.data.endsAt ? new Date(parsed.data.endsAt) : null;
+  if (startsAt && endsAt && endsAt <= startsAt) {
+    res.status(400).json({ message: "Discount end date must be after start date" });
+    return;
+  }
   const code = parsed.data.code.trim().toUpperCase();
   const exists = await DiscountModel.findOne({ tenantId, code }).lean();
   if (exists) {
@@ -1743,7 +2964,9 @@ adminRouter.post("/discounts", requirePermission("orders:write"), async (req: Au
     code,
     minOrderNgn: parsed.data.minOrderNgn ?? 0,
     maxUses: parsed.data.maxUses ?? null,
-    active: parsed.data.active ?? true
+    active: parsed.data.active ?? true,
+    startsAt,
+    endsAt
   });
 
   res.status(201).json({
@@ -1754,7 +2977,9 @@ adminRouter.post("/discounts", requirePermission("orders:write"), async (req: Au
     minOrderNgn: discount.minOrderNgn,
     maxUses: discount.maxUses,
     usedCount: discount.usedCount,
-    active: discount.active
+    active: discount.active,
+    startsAt: discount.startsAt,
+    endsAt: discount.endsAt
   });
 });
 
@@ -1785,6 +3010,12 @@ adminRouter.patch("/discounts/:id", requirePermission("orders:write"), async (re
   if (parsed.data.minOrderNgn !== undefined) discount.minOrderNgn = parsed.data.minOrderNgn;
   if (parsed.data.maxUses !== undefined) discount.maxUses = parsed.data.maxUses;
   if (parsed.data.active !== undefined) discount.active = parsed.data.active;
+  if (parsed.data.startsAt !== undefined) discount.startsAt = new Date(parsed.data.startsAt);
+  if (parsed.data.endsAt !== undefined) discount.endsAt = new Date(parsed.data.endsAt);
+  if (discount.startsAt && discount.endsAt && discount.endsAt <= discount.startsAt) {
+    res.status(400).json({ message: "Discount end date must be after start date" });
+    return;
+  }
   await discount.save();
 
   res.json({
@@ -1795,6 +3026,188 @@ adminRouter.patch("/discounts/:id", requirePermission("orders:write"), async (re
     minOrderNgn: discount.minOrderNgn,
     maxUses: discount.maxUses,
     usedCount: discount.usedCount,
-    active: discount.active
+    active: discount.active,
+    startsAt: discount.startsAt,
+    endsAt: discount.endsAt
+  });
+});
+
+adminRouter.get("/reviews", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const status = typeof req.query.status === "string" ? req.query.status : "pending";
+  const productId = typeof req.query.productId === "string" ? toObjectId(req.query.productId) : undefined;
+
+  const reviews = await ProductReviewModel.find({ tenantId, status, ...(productId ? { productId } : {}) })
+    .sort({ createdAt: -1 })
+    .limit(200)
+    .lean();
+  const [names, products] = await Promise.all([
+    resolveCustomerDisplayNames(reviews),
+    ProductModel.find({ tenantId, _id: { $in: reviews.map((review) => review.productId) } })
+      .select({ name: 1, slug: 1 })
+      .lean()
+  ]);
+  const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+
+  res.json({
+    rows: reviews.map((review) => {
+      const product = productMap.get(review.productId.toString());
+      return {
+        ...serializeReview(review, names.get(review.userId.toString()) ?? "Customer"),
+        product: product ? { id: product._id.toString(), name: product.name, slug: product.slug } : null,
+        moderatedAt: review.moderatedAt ?? null,
+        moderationNote: review.moderationNote ?? null
+      };
+    }),
+    total: reviews.length
+  });
+});
+
+adminRouter.patch("/reviews/:id", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
+  const parsed = reviewModerationSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid review moderation payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const review = await ProductReviewModel.findOne({ tenantId, _id: toObjectId(String(req.params.id)) });
+  if (!review) {
+    res.status(404).json({ message: "Review not found" });
+    return;
+  }
+
+  const previousStatus = review.status;
+  review.status = parsed.data.status;
+  review.moderatedBy = req.claims?.userId ?? "unknown";
+  review.moderatedAt = new Date();
+  review.moderationNote = parsed.data.note ?? null;
+  await review.save();
+  const rating = await refreshProductRating(tenantId, review.productId);
+  const names = await resolveCustomerDisplayNames([review]);
+
+  res.json({
+    ...serializeReview(review, names.get(review.userId.toString()) ?? "Customer"),
+    moderatedAt: review.moderatedAt,
+    moderationNote: review.moderationNote,
+    productRating: rating
+  });
+  await logAdminAction({
+    tenantId,
+    req,
+    action: `review.${parsed.data.status === "approved" ? "approve" : "reject"}`,
+    entityType: "product_review",
+    entityId: review._id.toString(),
+    message: `${parsed.data.status === "approved" ? "Approved" : "Rejected"} a ${review.rating}-star review.`,
+    metadata: { productId: review.productId.toString(), previousStatus, note: review.moderationNote }
+  });
+});
+
+adminRouter.delete("/reviews/:id", requirePermission("inventory:manage"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const review = await ProductReviewModel.findOneAndDelete({ tenantId, _id: toObjectId(String(req.params.id)) });
+  if (!review) {
+    res.status(404).json({ message: "Review not found" });
+    return;
+  }
+  const rating = await refreshProductRating(tenantId, review.productId);
+
+  res.json({ id: review._id.toString(), deleted: true, productRating: rating });
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "review.delete",
+    entityType: "product_review",
+    entityId: review._id.toString(),
+    message: `Deleted a ${review.rating}-star review.`,
+    metadata: { productId: review.productId.toString(), status: review.status }
+  });
+});
+
+adminRouter.get("/questions", requirePermission("questions:answer"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const status = typeof req.query.status === "string" ? req.query.status : "open";
+
+  const questions = await ProductQuestionModel.find({ tenantId, status }).sort({ createdAt: 1 }).limit(200).lean();
+  const [names, products] = await Promise.all([
+    resolveCustomerDisplayNames(questions),
+    ProductModel.find({ tenantId, _id: { $in: questions.map((question) => question.productId) } })
+      .select({ name: 1, slug: 1 })
+      .lean()
+  ]);
+  const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+
+  res.json({
+    rows: questions.map((question) => {
+      const product = productMap.get(question.productId.toString());
+      return {
+        ...serializeQuestion(question, names.get(question.userId.toString()) ?? "Customer"),
+        product: product ? { id: product._id.toString(), name: product.name, slug: product.slug } : null
+      };
+    }),
+    total: questions.length
+  });
+});
+
+adminRouter.post("/questions/:id/answer", requirePermission("questions:answer"), async (req: AuthRequest, res) => {
+  const parsed = questionAnswerSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid answer payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  let question;
+  try {
+    question = await answerProductQuestion({
+      tenantId,
+      questionId: toObjectId(String(req.params.id)),
+      answer: parsed.data.answer,
+      actorId: req.claims?.userId ?? "unknown"
+    });
+  } catch (error) {
+    res.status(409).json({ message: (error as Error).message });
+    return;
+  }
+  if (!question) {
+    res.status(404).json({ message: "Question not found" });
+    return;
+  }
+  const names = await resolveCustomerDisplayNames([question]);
+
+  res.json(serializeQuestion(question, names.get(question.userId.toString()) ?? "Customer"));
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "question.answer",
+    entityType: "product_question",
+    entityId: question._id.toString(),
+    message: "Answered a product question.",
+    metadata: { productId: question.productId.toString() }
+  });
+});
+
+adminRouter.post("/questions/:id/hide", requirePermission("questions:answer"), async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const question = await ProductQuestionModel.findOneAndUpdate(
+    { tenantId, _id: toObjectId(String(req.params.id)) },
+    { $set: { status: "hidden" } },
+    { new: true }
+  );
+  if (!question) {
+    res.status(404).json({ message: "Question not found" });
+    return;
+  }
+  const names = await resolveCustomerDisplayNames([question]);
+
+  res.json(serializeQuestion(question, names.get(question.userId.toString()) ?? "Customer"));
+  await logAdminAction({
+    tenantId,
+    req,
+    action: "question.hide",
+    entityType: "product_question",
+    entityId: question._id.toString(),
+    message: "Hid a product question.",
+    metadata: { productId: question.productId.toString() }
   });
 });
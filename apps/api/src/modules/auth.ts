@@ -10,6 +10,8 @@ import { signAccessToken, signRefreshToken, verifyRefreshToken } from "../utils/
 import { requireTenant } from "../middleware/tenant.js";
 import { OtpChallengeModel } from "../models/otpChallenge.js";
 import { enqueueCustomerOtpNotification } from "../services/notificationQueue.js";
+import { mergeGuestCart } from "../services/cartMerge.js";
+import { claimGuestOrders } from "../services/guestOrders.js";
 
 export const authRouter = Router();
 
@@ -258,12 +260,18 @@ authRouter.post("/register/verify", async (req: AuthRequest, res) => {
       permissions: ["orders:read", "cart:write"],
       notificationsEnabled: metadata.notificationsEnabled ?? true
     });
+    const cartMerge = await mergeGuestCart({ tenantId: user.tenantId, userId: user._id, sessionId: req.header("x-session-id") });
+    const claimedOrders = parsed.data.claimGuestOrders
+      ? await claimGuestOrders({ tenantId: user.tenantId, userId: user._id, email })
+      : 0;
 
     res.status(201).json({
       id: user._id.toString(),
       email: user.email,
       firstName: user.firstName,
-      lastName: user.lastName
+      lastName: user.lastName,
+      cartMerge,
+      claimedOrders
     });
   } catch (error) {
     res.status(401).json({ message: (error as Error).message });
@@ -316,12 +324,14 @@ authRouter.post("/register", async (req: AuthRequest, res) => {
     role: "customer",
     permissions: ["orders:read", "cart:write"]
   });
+  const cartMerge = await mergeGuestCart({ tenantId, userId: user._id, sessionId: req.header("x-session-id") });
 
   res.status(201).json({
     id: user._id.toString(),
     email: user.email,
     firstName: user.firstName,
-    lastName: user.lastName
+    lastName: user.lastName,
+    cartMerge
   });
 });
 
@@ -358,7 +368,10 @@ authRouter.post("/login", async (req: AuthRequest, res) => {
   user.refreshTokenHash = await hashValue(refreshToken);
   await user.save();
 
-  res.json({ accessToken, refreshToken, user: { id: claims.userId, email: user.email, role: user.role } });
+  const cartMerge =
+    user.role === "customer" ? await mergeGuestCart({ tenantId, userId: user._id, sessionId: req.header("x-session-id") }) : null;
+
+  res.json({ accessToken, refreshToken, user: { id: claims.userId, email: user.email, role: user.role }, cartMerge });
 });
 
 authRouter.post("/refresh", async (req: AuthRequest, res) => {
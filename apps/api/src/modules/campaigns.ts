@@ -0,0 +1,32 @@
+import { Router } from "express";
+import { recordCampaignClick, recordCampaignOpen, resolveCampaignRedirect } from "../services/campaigns.js";
+
+export const campaignsRouter = Router();
+
+const TRACKING_PIXEL = Buffer.from("R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7", "base64");
+
+// Tracking links are opened from mail clients, so they carry no tenant header and must never fail visibly.
+campaignsRouter.get("/track/:token/open.gif", async (req, res) => {
+  try {
+    await recordCampaignOpen(String(req.params.token));
+  } catch (error) {
+    console.error("[api][campaigns] open tracking failed", (error as Error).message);
+  }
+
+  res.set({
+    "Content-Type": "image/gif",
+    "Cache-Control": "no-store, max-age=0",
+    "Cross-Origin-Resource-Policy": "cross-origin"
+  });
+  res.send(TRACKING_PIXEL);
+});
+
+campaignsRouter.get("/track/:token/click", async (req, res) => {
+  try {
+    await recordCampaignClick(String(req.params.token));
+  } catch (error) {
+    console.error("[api][campaigns] click tracking failed", (error as Error).message);
+  }
+
+  res.redirect(resolveCampaignRedirect(req.query.url));
+});
@@ -1,14 +1,26 @@
 import { Router } from "express";
-import { cartItemSchema, updateCartItemSchema } from "@sws/shared-types";
+import type { Types } from "mongoose";
+import { CART_LINE_MAX_QUANTITY, cartDiscountSchema, cartItemSchema, namedCartCreateSchema, updateCartItemSchema } from "@sws/shared-types";
 import { CartModel } from "../models/cart.js";
 import { ProductModel } from "../models/catalog.js";
-import type { AuthRequest } from "../middleware/auth.js";
+import { SavedItemModel } from "../models/savedItem.js";
+import { requireCustomer, type AuthRequest } from "../middleware/auth.js";
 import { resolveTenantId } from "../services/tenant.js";
+import { validateDiscountCode } from "../services/discounts.js";
+import { applyFlashDealPrice, resolveFlashDealsByProduct } from "../services/flashDeals.js";
+import { availableStock } from "../services/stockReservations.js";
+import { revalidateCart, serializeCartChangeNotice } from "../services/cartValidation.js";
+import { describePurchaseLimitViolation, findPurchaseLimitViolations } from "../services/purchaseLimits.js";
+import { resolveTenantTaxSettings } from "../services/tax.js";
 import { toObjectId } from "../utils/ids.js";
 import { calculateCartTotals } from "../utils/cart.js";
+import { isPreorderProduct, remainingPreorderAllocation } from "../utils/preorder.js";
+import { productOptionAxes, variantLineName } from "../utils/variantOptions.js";
 
 export const cartRouter = Router();
 
+const MAX_NAMED_CARTS = 10;
+
 type CartIdentity = { userId?: string; sessionId?: string };
 
 function resolveCartIdentity(req: AuthRequest): CartIdentity {
@@ -28,6 +40,7 @@ async function findOrCreateCart(req: AuthRequest) {
 
   let cart = await CartModel.findOne({
     tenantId,
+    active: true,
     ...(identity.userId ? { userId: toObjectId(identity.userId) } : { sessionId: identity.sessionId })
   });
 
@@ -43,18 +56,142 @@ async function findOrCreateCart(req: AuthRequest) {
   return cart;
 }
 
-function serializeCart(cart: Awaited<ReturnType<typeof findOrCreateCart>>) {
-  const totals = calculateCartTotals(cart);
+function describeShortfall(
+  product: Parameters<typeof isPreorderProduct>[0],
+  variant: { stock: number; reserved?: number | null; preorderCap?: number | null; preorderAllocated?: number | null },
+  quantity: number
+) {
+  if (isPreorderProduct(product)) {
+    const remaining = remainingPreorderAllocation(variant);
+    return remaining !== null && remaining < quantity ? "Preorder allocation exhausted" : null;
+  }
+  return availableStock(variant) < quantity ? "Insufficient stock" : null;
+}
+
+// Checks the product's lines as they would be after setting one variant's quantity. Guests only meet per-order
+// limits here; their per-customer allowance is checked at checkout once the email is known.
+async function checkCartPurchaseLimits(
+  cart: Awaited<ReturnType<typeof findOrCreateCart>>,
+  change: { productId: Types.ObjectId; variantId: Types.ObjectId; quantity: number }
+) {
+  const lines = cart.lines
+    .filter((line) => line.productId.equals(change.productId) && !line.variantId.equals(change.variantId))
+    .map((line) => ({ productId: line.productId, variantId: line.variantId, quantity: line.quantity }));
+  const violations = await findPurchaseLimitViolations({
+    tenantId: cart.tenantId,
+    owners: cart.userId ? [{ userId: cart.userId }] : [],
+    lines: [...lines, change]
+  });
+  return violations[0] ? describePurchaseLimitViolation(violations[0]) : null;
+}
+
+// Adds a line (or resets an existing line's quantity) at the current price after checking it can still be sold.
+async function placeCartLine(
+  cart: Awaited<ReturnType<typeof findOrCreateCart>>,
+  input: { productId: string; variantId: string; quantity: number }
+): Promise<{ status: 404 | 409; message: string } | null> {
+  const product = await ProductModel.findOne({ _id: toObjectId(input.productId), tenantId: cart.tenantId, active: true });
+  if (!product) {
+    return { status: 404, message: "Product not found" };
+  }
+
+  const variant = product.variants.id(input.variantId);
+  if (!variant) {
+    return { status: 404, message: "Variant not found" };
+  }
+
+  const shortfall = describeShortfall(product, variant, input.quantity);
+  if (shortfall) {
+    return { status: 409, message: shortfall };
+  }
+  const limitMessage = await checkCartPurchaseLimits(cart, { productId: product._id, variantId: variant._id, quantity: input.quantity });
+  if (limitMessage) {
+    return { status: 409, message: limitMessage };
+  }
+  const preorder = isPreorderProduct(product);
+
+  const flashDeal = (await resolveFlashDealsByProduct(cart.tenantId)).get(product._id.toString());
+  const pricing = applyFlashDealPrice(variant.priceNgn, flashDeal);
+  const linePricing = {
+    unitPriceNgn: pricing.priceNgn,
+    originalPriceNgn: pricing.originalPriceNgn,
+    flashDealId: flashDeal ? toObjectId(flashDeal.id) : null,
+    flashDealEndsAt: flashDeal?.endAt ?? null
+  };
+
+  const existingLine = cart.lines.find((line) => line.variantId.toString() === input.variantId);
+  if (existingLine) {
+    existingLine.quantity = input.quantity;
+    existingLine.set(linePricing);
+    existingLine.preorder = preorder;
+  } else {
+    cart.lines.push({
+      productId: product._id,
+      variantId: variant._id,
+      name: variantLineName(product.name, variant, productOptionAxes(product)),
+      quantity: input.quantity,
+      ...linePricing,
+      preorder
+    });
+  }
+  return null;
+}
+
+async function resolveCartDiscount(cart: Awaited<ReturnType<typeof findOrCreateCart>>) {
+  if (!cart.discountCode) {
+    return { discount: null, discountError: null };
+  }
+  try {
+    const discount = await validateDiscountCode({
+      tenantId: cart.tenantId,
+      code: cart.discountCode,
+      subtotalNgn: calculateCartTotals(cart).subtotalNgn
+    });
+    return { discount, discountError: null };
+  } catch (error) {
+    return { discount: null, discountError: (error as Error).message };
+  }
+}
+
+async function serializeCart(cart: Awaited<ReturnType<typeof findOrCreateCart>>) {
+  const { discount, discountError } = await resolveCartDiscount(cart);
+  const taxSettings = await resolveTenantTaxSettings(cart.tenantId, cart.lines.map((line) => line.productId));
+  const totals = calculateCartTotals(cart, discount, undefined, taxSettings);
+  const savedItems = cart.userId
+    ? await SavedItemModel.find({ tenantId: cart.tenantId, userId: cart.userId }).sort({ updatedAt: -1 }).lean()
+    : [];
   return {
     id: cart._id.toString(),
     tenantId: cart.tenantId.toString(),
+    name: cart.name ?? null,
+    active: cart.active,
     lines: cart.lines.map((line) => ({
       id: line._id.toString(),
       productId: line.productId.toString(),
       variantId: line.variantId.toString(),
       name: line.name,
       quantity: line.quantity,
-      unitPriceNgn: line.unitPriceNgn
+      unitPriceNgn: line.unitPriceNgn,
+      originalPriceNgn: line.originalPriceNgn ?? line.unitPriceNgn,
+      flashDeal: line.flashDealId ? { id: line.flashDealId.toString(), endsAt: line.flashDealEndsAt } : null,
+      preorder: line.preorder ?? false
+    })),
+    discount: cart.discountCode
+      ? {
+          code: cart.discountCode,
+          valid: Boolean(discount),
+          message: discountError
+        }
+      : null,
+    changes: cart.changeNotices.map(serializeCartChangeNotice),
+    savedForLater: savedItems.map((item) => ({
+      id: item._id.toString(),
+      productId: item.productId.toString(),
+      variantId: item.variantId.toString(),
+      name: item.name,
+      quantity: item.quantity,
+      unitPriceNgn: item.unitPriceNgn,
+      savedAt: item.updatedAt
     })),
     currency: "NGN",
     ...totals
@@ -64,7 +201,23 @@ function serializeCart(cart: Awaited<ReturnType<typeof findOrCreateCart>>) {
 cartRouter.get("/", async (req: AuthRequest, res) => {
   try {
     const cart = await findOrCreateCart(req);
-    res.json(serializeCart(cart));
+    const changes = await revalidateCart(cart);
+    if (changes.length > 0) {
+      cart.changeNotices.push(...changes);
+      await cart.save();
+    }
+    res.json(await serializeCart(cart));
+  } catch (error) {
+    res.status(401).json({ message: (error as Error).message });
+  }
+});
+
+cartRouter.post("/changes/acknowledge", async (req: AuthRequest, res) => {
+  try {
+    const cart = await findOrCreateCart(req);
+    cart.set("changeNotices", []);
+    await cart.save();
+    res.json(await serializeCart(cart));
   } catch (error) {
     res.status(401).json({ message: (error as Error).message });
   }
@@ -78,42 +231,15 @@ cartRouter.post("/items", async (req: AuthRequest, res) => {
   }
 
   try {
-    const tenantId = await resolveTenantId(req.tenantId!);
     const cart = await findOrCreateCart(req);
-
-    const product = await ProductModel.findOne({ _id: toObjectId(parsed.data.productId), tenantId, active: true });
-    if (!product) {
-      res.status(404).json({ message: "Product not found" });
-      return;
-    }
-
-    const variant = product.variants.id(parsed.data.variantId);
-    if (!variant) {
-      res.status(404).json({ message: "Variant not found" });
-      return;
-    }
-
-    if (variant.stock < parsed.data.quantity) {
-      res.status(409).json({ message: "Insufficient stock" });
+    const failure = await placeCartLine(cart, parsed.data);
+    if (failure) {
+      res.status(failure.status).json({ message: failure.message });
       return;
     }
 
-    const existingLine = cart.lines.find((line) => line.variantId.toString() === parsed.data.variantId);
-    if (existingLine) {
-      existingLine.quantity = parsed.data.quantity;
-      existingLine.unitPriceNgn = variant.priceNgn;
-    } else {
-      cart.lines.push({
-        productId: product._id,
-        variantId: variant._id,
-        name: `${product.name} (${variant.size}/${variant.color})`,
-        quantity: parsed.data.quantity,
-        unitPriceNgn: variant.priceNgn
-      });
-    }
-
     await cart.save();
-    res.status(201).json(serializeCart(cart));
+    res.status(201).json(await serializeCart(cart));
   } catch (error) {
     res.status(401).json({ message: (error as Error).message });
   }
@@ -134,9 +260,26 @@ cartRouter.patch("/items/:id", async (req: AuthRequest, res) => {
       return;
     }
 
+    const product = await ProductModel.findOne({ _id: line.productId, tenantId: cart.tenantId, active: true }).lean();
+    const variant = product?.variants.find((entry) => entry._id.equals(line.variantId));
+    if (!product || !variant) {
+      res.status(404).json({ message: "Product not found" });
+      return;
+    }
+    const shortfall = describeShortfall(product, variant, parsed.data.quantity);
+    if (shortfall) {
+      res.status(409).json({ message: shortfall });
+      return;
+    }
+    const limitMessage = await checkCartPurchaseLimits(cart, { productId: line.productId, variantId: line.variantId, quantity: parsed.data.quantity });
+    if (limitMessage) {
+      res.status(409).json({ message: limitMessage });
+      return;
+    }
+
     line.quantity = parsed.data.quantity;
     await cart.save();
-    res.json(serializeCart(cart));
+    res.json(await serializeCart(cart));
   } catch (error) {
     res.status(401).json({ message: (error as Error).message });
   }
@@ -158,3 +301,174 @@ cartRouter.delete("/items/:id", async (req: AuthRequest, res) => {
     res.status(401).json({ message: (error as Error).message });
   }
 });
+
+cartRouter.post("/discount", async (req: AuthRequest, res) => {
+  const parsed = cartDiscountSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid discount payload", issues: parsed.error.issues });
+    return;
+  }
+
+  try {
+    const cart = await findOrCreateCart(req);
+    if (cart.lines.length === 0) {
+      res.status(409).json({ message: "Cart is empty" });
+      return;
+    }
+
+    let code: string;
+    try {
+      const discount = await validateDiscountCode({
+        tenantId: cart.tenantId,
+        code: parsed.data.code,
+        subtotalNgn: calculateCartTotals(cart).subtotalNgn
+      });
+      code = discount.code;
+    } catch (error) {
+      const message = (error as Error).message;
+      res.status(message.includes("not found") ? 404 : 409).json({ message });
+      return;
+    }
+
+    cart.discountCode = code;
+    await cart.save();
+    res.json(await serializeCart(cart));
+  } catch (error) {
+    res.status(401).json({ message: (error as Error).message });
+  }
+});
+
+cartRouter.delete("/discount", async (req: AuthRequest, res) => {
+  try {
+    const cart = await findOrCreateCart(req);
+    cart.discountCode = null;
+    await cart.save();
+    res.json(await serializeCart(cart));
+  } catch (error) {
+    res.status(401).json({ message: (error as Error).message });
+  }
+});
+
+cartRouter.post("/items/:id/save-for-later", requireCustomer, async (req: AuthRequest, res) => {
+  const cart = await findOrCreateCart(req);
+  const line = cart.lines.id(String(req.params.id));
+  if (!line) {
+    res.status(404).json({ message: "Cart line not found" });
+    return;
+  }
+
+  const existing = await SavedItemModel.findOne({ tenantId: cart.tenantId, userId: cart.userId, variantId: line.variantId }).lean();
+  await SavedItemModel.updateOne(
+    { tenantId: cart.tenantId, userId: cart.userId, variantId: line.variantId },
+    {
+      $set: {
+        productId: line.productId,
+        name: line.name,
+        quantity: Math.min(CART_LINE_MAX_QUANTITY, (existing?.quantity ?? 0) + line.quantity),
+        unitPriceNgn: line.unitPriceNgn
+      }
+    },
+    { upsert: true }
+  );
+  line.deleteOne();
+  await cart.save();
+  res.json(await serializeCart(cart));
+});
+
+cartRouter.post("/saved/:id/move-to-cart", requireCustomer, async (req: AuthRequest, res) => {
+  const cart = await findOrCreateCart(req);
+  const item = await SavedItemModel.findOne({ _id: toObjectId(String(req.params.id)), tenantId: cart.tenantId, userId: cart.userId });
+  if (!item) {
+    res.status(404).json({ message: "Saved item not found" });
+    return;
+  }
+
+  const existingLine = cart.lines.find((line) => line.variantId.equals(item.variantId));
+  const failure = await placeCartLine(cart, {
+    productId: item.productId.toString(),
+    variantId: item.variantId.toString(),
+    quantity: Math.min(CART_LINE_MAX_QUANTITY, (existingLine?.quantity ?? 0) + item.quantity)
+  });
+  if (failure) {
+    res.status(failure.status).json({ message: failure.message });
+    return;
+  }
+
+  await cart.save();
+  await item.deleteOne();
+  res.json(await serializeCart(cart));
+});
+
+cartRouter.delete("/saved/:id", requireCustomer, async (req: AuthRequest, res) => {
+  const cart = await findOrCreateCart(req);
+  const deleted = await SavedItemModel.deleteOne({ _id: toObjectId(String(req.params.id)), tenantId: cart.tenantId, userId: cart.userId });
+  if (deleted.deletedCount === 0) {
+    res.status(404).json({ message: "Saved item not found" });
+    return;
+  }
+  res.json(await serializeCart(cart));
+});
+
+cartRouter.get("/carts", requireCustomer, async (req: AuthRequest, res) => {
+  const activeCart = await findOrCreateCart(req);
+  const carts = await CartModel.find({ tenantId: activeCart.tenantId, userId: activeCart.userId }).sort({ active: -1, createdAt: 1 });
+  res.json(await Promise.all(carts.map((cart) => serializeCart(cart))));
+});
+
+cartRouter.post("/carts", requireCustomer, async (req: AuthRequest, res) => {
+  const parsed = namedCartCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid cart payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const activeCart = await findOrCreateCart(req);
+  const owner = { tenantId: activeCart.tenantId, userId: activeCart.userId };
+  if ((await CartModel.countDocuments({ ...owner, name: { $type: "string" } })) >= MAX_NAMED_CARTS) {
+    res.status(409).json({ message: `A customer can keep at most ${MAX_NAMED_CARTS} named carts` });
+    return;
+  }
+  if (await CartModel.exists({ ...owner, name: parsed.data.name })) {
+    res.status(409).json({ message: "A cart with this name already exists" });
+    return;
+  }
+
+  const cart = await CartModel.create({ ...owner, sessionId: null, name: parsed.data.name, active: false, lines: [] });
+  res.status(201).json(await serializeCart(cart));
+});
+
+// Only one cart is active at a time; the previous one is parked first so the active-cart unique index never clashes.
+cartRouter.post("/carts/:id/activate", requireCustomer, async (req: AuthRequest, res) => {
+  const activeCart = await findOrCreateCart(req);
+  const cart = await CartModel.findOne({ _id: toObjectId(String(req.params.id)), tenantId: activeCart.tenantId, userId: activeCart.userId });
+  if (!cart) {
+    res.status(404).json({ message: "Cart not found" });
+    return;
+  }
+
+  if (!cart._id.equals(activeCart._id)) {
+    activeCart.active = false;
+    await activeCart.save();
+    cart.active = true;
+  }
+  const changes = await revalidateCart(cart);
+  cart.changeNotices.push(...changes);
+  await cart.save();
+  res.json(await serializeCart(cart));
+});
+
+cartRouter.delete("/carts/:id", requireCustomer, async (req: AuthRequest, res) => {
+  const activeCart = await findOrCreateCart(req);
+  const cart = await CartModel.findOne({ _id: toObjectId(String(req.params.id)), tenantId: activeCart.tenantId, userId: activeCart.userId });
+  if (!cart) {
+    res.status(404).json({ message: "Cart not found" });
+    return;
+  }
+  if (cart.active) {
+    res.status(409).json({ message: "Switch to another cart before deleting this one" });
+    return;
+  }
+
+  await cart.deleteOne();
+  res.status(204).send();
+});
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { Types } from "mongoose";
+import { productSearchQuerySchema, productSuggestQuerySchema } from "@sws/shared-types";
 import { CategoryModel, ProductModel } from "../models/catalog.js";
 import { resolveTenantId } from "../services/tenant.js";
 import type { TenantRequest } from "../middleware/tenant.js";
@@ -7,6 +8,17 @@ import type { AuthRequest } from "../middleware/auth.js";
 import { WishlistModel } from "../models/wishlist.js";
 import { CustomerEventModel } from "../models/customerEvent.js";
 import { toObjectId } from "../utils/ids.js";
+import { isPreorderProduct, remainingPreorderAllocation, serializePreorder } from "../utils/preorder.js";
+import { buildOptionMatrix, productOptionAxes, readVariantOptions } from "../utils/variantOptions.js";
+import { applyFlashDealPrice, resolveFlashDealsByProduct, serializeFlashDeal } from "../services/flashDeals.js";
+import { availableStock } from "../services/stockReservations.js";
+import { searchProducts } from "../services/productSearch.js";
+import { suggestSearch, suggestSpellingCorrection } from "../services/searchSuggestions.js";
+import { ProductQuestionModel } from "../models/productQuestion.js";
+import { serializeQuestion } from "../services/productQuestions.js";
+import { resolveCustomerDisplayNames } from "../services/customers.js";
+
+const DETAIL_QUESTION_LIMIT = 5;
 
 export const productsRouter = Router();
 export const categoriesRouter = Router();
@@ -64,9 +76,11 @@ productsRouter.get("/", async (req: TenantRequest, res) => {
       imageFit: 1,
       images: 1,
       variants: 1,
-      categoryId: 1
+      categoryId: 1,
+      preorder: 1
     })
     .lean();
+  const flashDeals = await resolveFlashDealsByProduct(tenantId);
 
   const rows = products
     .map((product) => {
@@ -80,14 +94,16 @@ productsRouter.get("/", async (req: TenantRequest, res) => {
                 fit: product.imageFit ?? "contain"
               }
             ];
-      const basePrice = product.variants[0]?.priceNgn ?? 0;
+      const pricing = applyFlashDealPrice(product.variants[0]?.priceNgn ?? 0, flashDeals.get(product._id.toString()));
       return {
         id: product._id.toString(),
         tenantId: tenantId.toString(),
         slug: product.slug,
         name: product.name,
         categoryId: product.categoryId.toString(),
-        priceNgn: basePrice,
+        priceNgn: pricing.priceNgn,
+        originalPriceNgn: pricing.originalPriceNgn,
+        flashDeal: pricing.flashDeal,
         imageUrl: images[0].url,
         imageFit: images[0].fit ?? "contain",
         images: images.map((image) => ({
@@ -95,7 +111,8 @@ productsRouter.get("/", async (req: TenantRequest, res) => {
           publicId: image.publicId ?? null,
           fit: image.fit ?? "contain"
         })),
-        inStock: product.variants.some((variant) => variant.stock > 0)
+        inStock: product.variants.some((variant) => availableStock(variant) > 0),
+        preorder: serializePreorder(product)
       };
     })
     .filter((product) => (minPrice !== undefined ? product.priceNgn >= minPrice : true))
@@ -109,14 +126,85 @@ productsRouter.get("/", async (req: TenantRequest, res) => {
       name: product.name,
       categoryId: product.categoryId,
       priceNgn: product.priceNgn,
+      originalPriceNgn: product.originalPriceNgn,
+      flashDeal: product.flashDeal,
       imageUrl: product.imageUrl,
       imageFit: product.imageFit,
       images: product.images,
-      inStock: product.inStock
+      inStock: product.inStock,
+      preorder: product.preorder
     }))
   );
 });
 
+productsRouter.get("/search", async (req: TenantRequest, res) => {
+  const parsed = productSearchQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid product search query", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const flashDeals = await resolveFlashDealsByProduct(tenantId);
+  const result = await searchProducts(tenantId, parsed.data, flashDeals);
+  const didYouMean =
+    result.total === 0 && parsed.data.search ? await suggestSpellingCorrection(tenantId, parsed.data.search) : null;
+
+  res.json({
+    items: result.items.map((product) => {
+      const images =
+        product.images && product.images.length > 0
+          ? product.images
+          : [
+              {
+                url: product.imageUrl,
+                publicId: product.imagePublicId ?? null,
+                fit: product.imageFit ?? "contain"
+              }
+            ];
+      const basePriceNgn = product.variants.length > 0 ? Math.min(...product.variants.map((variant) => variant.priceNgn)) : 0;
+      const pricing = applyFlashDealPrice(basePriceNgn, flashDeals.get(product._id.toString()));
+      return {
+        id: product._id.toString(),
+        tenantId: tenantId.toString(),
+        slug: product.slug,
+        name: product.name,
+        categoryId: product.categoryId.toString(),
+        priceNgn: pricing.priceNgn,
+        originalPriceNgn: pricing.originalPriceNgn,
+        flashDeal: pricing.flashDeal,
+        imageUrl: images[0].url,
+        imageFit: images[0].fit ?? "contain",
+        images: images.map((image) => ({
+          url: image.url,
+          publicId: image.publicId ?? null,
+          fit: image.fit ?? "contain"
+        })),
+        inStock: product.variants.some((variant) => availableStock(variant) > 0),
+        preorder: serializePreorder(product),
+        rating: { average: product.rating?.average ?? 0, count: product.rating?.count ?? 0 }
+      };
+    }),
+    page: parsed.data.page,
+    pageSize: parsed.data.pageSize,
+    total: result.total,
+    totalPages: result.totalPages,
+    facets: result.facets,
+    didYouMean
+  });
+});
+
+productsRouter.get("/suggest", async (req: TenantRequest, res) => {
+  const parsed = productSuggestQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid suggestion query", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  res.json({ query: parsed.data.q, ...(await suggestSearch(tenantId, parsed.data.q, parsed.data.limit)) });
+});
+
 productsRouter.get("/:slug", async (req: AuthRequest, res) => {
   const tenantId = await resolveTenantId(req.tenantId!);
   const product = await ProductModel.findOne({ tenantId, slug: req.params.slug }).lean();
@@ -141,6 +229,31 @@ productsRouter.get("/:slug", async (req: AuthRequest, res) => {
     });
   }
 
+  const flashDeal = (await resolveFlashDealsByProduct(tenantId)).get(product._id.toString());
+  const answeredFilter = { tenantId, productId: product._id, status: "answered" };
+  const [questions, questionTotal] = await Promise.all([
+    ProductQuestionModel.find(answeredFilter).sort({ upvotes: -1, createdAt: -1 }).limit(DETAIL_QUESTION_LIMIT).lean(),
+    ProductQuestionModel.countDocuments(answeredFilter)
+  ]);
+  const askerNames = await resolveCustomerDisplayNames(questions);
+  const optionAxes = productOptionAxes(product);
+  const variants = product.variants.map((variant) => {
+    const pricing = applyFlashDealPrice(variant.priceNgn, flashDeal);
+    return {
+      id: variant._id.toString(),
+      sku: variant.sku,
+      options: readVariantOptions(variant),
+      size: variant.size ?? null,
+      color: variant.color ?? null,
+      stock: availableStock(variant),
+      priceNgn: pricing.priceNgn,
+      originalPriceNgn: pricing.originalPriceNgn,
+      preorderRemaining: remainingPreorderAllocation(variant),
+      maxPerOrder: variant.maxPerOrder ?? null,
+      maxPerCustomer: variant.maxPerCustomer ?? null
+    };
+  });
+
   res.json({
     id: product._id.toString(),
     tenantId: tenantId.toString(),
@@ -169,13 +282,25 @@ productsRouter.get("/:slug", async (req: AuthRequest, res) => {
               fit: product.imageFit ?? "contain"
             }
           ],
-    variants: product.variants.map((variant) => ({
-      id: variant._id.toString(),
-      sku: variant.sku,
-      size: variant.size,
-      color: variant.color,
-      stock: variant.stock,
-      priceNgn: variant.priceNgn
+    preorder: serializePreorder(product),
+    flashDeal: serializeFlashDeal(flashDeal),
+    rating: { average: product.rating?.average ?? 0, count: product.rating?.count ?? 0 },
+    questions: {
+      total: questionTotal,
+      items: questions.map((question) => serializeQuestion(question, askerNames.get(question.userId.toString()) ?? "Customer"))
+    },
+    purchaseLimits: {
+      maxPerOrder: product.purchaseLimits?.maxPerOrder ?? null,
+      maxPerCustomer: product.purchaseLimits?.maxPerCustomer ?? null
+    },
+    options: optionAxes,
+    variants,
+    optionMatrix: buildOptionMatrix(optionAxes, variants).map(({ options, variant }) => ({
+      options,
+      variantId: variant?.id ?? null,
+      stock: variant?.stock ?? 0,
+      priceNgn: variant?.priceNgn ?? null,
+      available: variant ? variant.stock > 0 || (isPreorderProduct(product) && variant.preorderRemaining !== 0) : false
     }))
   });
 });
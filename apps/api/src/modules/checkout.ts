@@ -1,20 +1,141 @@
-import { Router } from "express";
-import mongoose from "mongoose";
-import { checkoutInitSchema } from "@sws/shared-types";
+import { Router, type NextFunction, type Response } from "express";
+import mongoose, { Types } from "mongoose";
+import { checkoutInitSchema, shippingQuoteSchema } from "@sws/shared-types";
 import type { AuthRequest } from "../middleware/auth.js";
 import { requireCustomer } from "../middleware/auth.js";
 import { CartModel } from "../models/cart.js";
 import { OrderModel } from "../models/order.js";
 import { PaymentModel } from "../models/payment.js";
 import { CustomerAddressModel } from "../models/customerAddress.js";
+import { StoreBranchModel } from "../models/storeBranch.js";
+import { ProductModel } from "../models/catalog.js";
+import { UserModel } from "../models/user.js";
 import { resolveTenantId } from "../services/tenant.js";
-import { initializePaystackTransaction } from "../services/paystack.js";
+import { resolveTenantPaymentProvider } from "../services/paymentProviders.js";
+import { validateDiscountCode, type AppliedDiscount } from "../services/discounts.js";
+import { revalidateCart, serializeCartChangeNotice } from "../services/cartValidation.js";
+import { releaseOrderReservations, reserveOrderStock } from "../services/stockReservations.js";
+import { commitOrderStock } from "../services/orderFinalization.js";
+import { upsertGuestContact } from "../services/guestOrders.js";
+import { describePurchaseLimitViolation, findPurchaseLimitViolations, resolveLimitOwners } from "../services/purchaseLimits.js";
+import { quoteShippingOptions } from "../services/shipping.js";
+import { resolveTenantTaxSettings } from "../services/tax.js";
+import { env } from "../config/env.js";
 import { calculateCartTotals } from "../utils/cart.js";
 import { toObjectId } from "../utils/ids.js";
+import { calculatePaymentSplit, isPreorderProduct } from "../utils/preorder.js";
 
 export const checkoutRouter = Router();
 
-checkoutRouter.post("/initialize", requireCustomer, async (req: AuthRequest, res) => {
+const OFFLINE_ORDER_STATUS = {
+  card: null,
+  pay_on_delivery: "awaiting_payment_on_delivery",
+  bank_transfer: "awaiting_transfer"
+} as const;
+
+function bankTransferAccount() {
+  if (!env.BANK_TRANSFER_BANK_NAME || !env.BANK_TRANSFER_ACCOUNT_NAME || !env.BANK_TRANSFER_ACCOUNT_NUMBER) {
+    return null;
+  }
+  return {
+    bankName: env.BANK_TRANSFER_BANK_NAME,
+    accountName: env.BANK_TRANSFER_ACCOUNT_NAME,
+    accountNumber: env.BANK_TRANSFER_ACCOUNT_NUMBER
+  };
+}
+
+// Signed-in customers check out their account cart; guests check out the session cart named by x-session-id.
+function requireShopper(req: AuthRequest, res: Response, next: NextFunction) {
+  if (req.claims?.role === "customer" || !req.header("x-session-id")) {
+    requireCustomer(req, res, next);
+    return;
+  }
+  next();
+}
+
+function resolveShopper(req: AuthRequest) {
+  if (req.claims?.role === "customer") {
+    return { userId: toObjectId(req.claims.userId), sessionId: null };
+  }
+  return { userId: null, sessionId: req.header("x-session-id")! };
+}
+
+function shopperCartFilter(shopper: ReturnType<typeof resolveShopper>) {
+  return shopper.userId ? { userId: shopper.userId, active: true } : { sessionId: shopper.sessionId, active: true };
+}
+
+async function resolveCheckoutAddress(
+  tenantId: Types.ObjectId,
+  userId: Types.ObjectId | null,
+  input: { addressId?: string; shippingAddress?: string; city?: string; state?: string }
+) {
+  if (input.addressId) {
+    if (!userId) {
+      return "not_found" as const;
+    }
+    const address = await CustomerAddressModel.findOne({ _id: toObjectId(input.addressId), tenantId, userId }).lean();
+    if (!address) {
+      return "not_found" as const;
+    }
+    return {
+      address: `${address.addressLine1}${address.addressLine2 ? `, ${address.addressLine2}` : ""}`,
+      city: address.city,
+      state: address.state
+    };
+  }
+  if (input.city && input.state) {
+    return { address: input.shippingAddress ?? "", city: input.city, state: input.state };
+  }
+  return null;
+}
+
+checkoutRouter.post("/shipping-quote", requireShopper, async (req: AuthRequest, res) => {
+  const parsed = shippingQuoteSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid shipping quote payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const shopper = resolveShopper(req);
+
+  const cart = await CartModel.findOne({ tenantId, ...shopperCartFilter(shopper) });
+  if (!cart || cart.lines.length === 0) {
+    res.status(409).json({ message: "Cart is empty" });
+    return;
+  }
+
+  const address = await resolveCheckoutAddress(tenantId, shopper.userId, parsed.data);
+  if (address === "not_found") {
+    res.status(404).json({ message: "Address not found" });
+    return;
+  }
+
+  let discount: AppliedDiscount | null = null;
+  if (cart.discountCode) {
+    discount = await validateDiscountCode({
+      tenantId,
+      code: cart.discountCode,
+      subtotalNgn: calculateCartTotals(cart).subtotalNgn
+    }).catch(() => null);
+  }
+  const totals = calculateCartTotals(cart, discount);
+  const options = await quoteShippingOptions({
+    tenantId,
+    lines: cart.lines,
+    subtotalNgn: totals.subtotalNgn - totals.discountNgn,
+    address: address ? { city: address.city, state: address.state } : null
+  });
+
+  res.json({
+    subtotalNgn: totals.subtotalNgn,
+    discountNgn: totals.discountNgn,
+    deliveryAvailable: !address || options.some((option) => option.method === "delivery"),
+    options
+  });
+});
+
+checkoutRouter.post("/initialize", requireShopper, async (req: AuthRequest, res) => {
   const parsed = checkoutInitSchema.safeParse(req.body);
   if (!parsed.success) {
     res.status(400).json({ message: "Invalid checkout payload", issues: parsed.error.issues });
@@ -22,90 +143,263 @@ checkoutRouter.post("/initialize", requireCustomer, async (req: AuthRequest, res
   }
 
   const tenantId = await resolveTenantId(req.tenantId!);
-  const userId = toObjectId(req.claims!.userId);
+  const shopper = resolveShopper(req);
+  const userId = shopper.userId;
+  if (!userId && !parsed.data.phone) {
+    res.status(400).json({ message: "Guest checkout requires a phone number" });
+    return;
+  }
 
-  const cart = await CartModel.findOne({ tenantId, userId });
+  const cart = await CartModel.findOne({ tenantId, ...shopperCartFilter(shopper) });
   if (!cart || cart.lines.length === 0) {
     res.status(409).json({ message: "Cart is empty" });
     return;
   }
 
-  const totals = calculateCartTotals(cart);
-  const orderRef = `SWS-${Date.now()}`;
-  const paymentRef = `PAY-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+  // Checkout reapplies the same revalidation as GET /cart and refuses to continue until every notice is acknowledged.
+  const changes = await revalidateCart(cart);
+  if (changes.length > 0) {
+    cart.changeNotices.push(...changes);
+    await cart.save();
+  }
+  if (cart.changeNotices.length > 0) {
+    res.status(409).json({
+      message: "Your cart has changed. Review and acknowledge the changes before checking out.",
+      changes: cart.changeNotices.map(serializeCartChangeNotice)
+    });
+    return;
+  }
 
+  const products = await ProductModel.find({
+    tenantId,
+    _id: { $in: cart.lines.map((line) => line.productId) }
+  })
+    .select({ preorder: 1, variants: 1 })
+    .lean();
+  const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+
+  const orderLines = cart.lines.map((line) => {
+    const product = productMap.get(line.productId.toString());
+    const preorder = product ? isPreorderProduct(product) : false;
+    return {
+      productId: line.productId,
+      variantId: line.variantId,
+      name: line.name,
+      quantity: line.quantity,
+      unitPriceNgn: line.unitPriceNgn,
+      originalPriceNgn: line.originalPriceNgn ?? line.unitPriceNgn,
+      flashDealId: line.flashDealId ?? null,
+      preorder,
+      depositPercent: preorder ? (product?.preorder?.depositPercent ?? null) : null
+    };
+  });
+  const isPreorder = orderLines.some((line) => line.preorder);
+  const expectedShipDate = products
+    .filter((product) => isPreorderProduct(product) && product.preorder?.expectedShipDate)
+    .map((product) => new Date(product.preorder!.expectedShipDate!))
+    .sort((a, b) => b.getTime() - a.getTime())[0] ?? null;
+
+  let appliedDiscount: AppliedDiscount | null = null;
+  if (cart.discountCode) {
+    try {
+      appliedDiscount = await validateDiscountCode({
+        tenantId,
+        code: cart.discountCode,
+        subtotalNgn: calculateCartTotals(cart).subtotalNgn
+      });
+    } catch (error) {
+      res.status(409).json({ message: (error as Error).message });
+      return;
+    }
+  }
+
+  const shippingMethod = parsed.data.shippingMethod;
   let shippingAddress: { address: string; city: string; state: string };
-  if (parsed.data.addressId) {
-    const address = await CustomerAddressModel.findOne({
-      _id: toObjectId(parsed.data.addressId),
-      tenantId,
-      userId
-    }).lean();
-    if (!address) {
-      res.status(404).json({ message: "Address not found" });
+  if (shippingMethod === "pickup") {
+    const branch = await StoreBranchModel.findOne({ _id: toObjectId(parsed.data.pickupBranchId!), tenantId, active: true }).lean();
+    if (!branch) {
+      res.status(404).json({ message: "Pickup branch not found" });
       return;
     }
-    shippingAddress = {
-      address: `${address.addressLine1}${address.addressLine2 ? `, ${address.addressLine2}` : ""}`,
-      city: address.city,
-      state: address.state
-    };
-  } else if (parsed.data.shippingAddress && parsed.data.city && parsed.data.state) {
-    shippingAddress = {
-      address: parsed.data.shippingAddress,
-      city: parsed.data.city,
-      state: parsed.data.state
-    };
+    // Pickup orders carry the branch address so fulfilment ranks the pickup branch first.
+    shippingAddress = { address: branch.address, city: branch.city, state: branch.state };
   } else {
-    res.status(400).json({ message: "Shipping address is required" });
-    return;
+    const address = await resolveCheckoutAddress(tenantId, userId, parsed.data);
+    if (address === "not_found") {
+      res.status(404).json({ message: "Address not found" });
+      return;
+    }
+    if (!address) {
+      res.status(400).json({ message: "Shipping address is required" });
+      return;
+    }
+    shippingAddress = address;
   }
 
-  const paystack = await initializePaystackTransaction({
-    email: parsed.data.email,
-    amountKobo: totals.totalNgn * 100,
-    reference: paymentRef,
-    metadata: {
-      tenantId: tenantId.toString(),
-      userId: userId.toString(),
-      orderRef
-    }
+  const subtotals = calculateCartTotals(cart, appliedDiscount);
+  const shippingOptions = await quoteShippingOptions({
+    tenantId,
+    lines: cart.lines,
+    subtotalNgn: subtotals.subtotalNgn - subtotals.discountNgn,
+    address: shippingMethod === "delivery" ? shippingAddress : null
   });
+  const shippingOption = shippingOptions.find((option) =>
+    option.method === "pickup" ? option.branchId === parsed.data.pickupBranchId : shippingMethod === "delivery"
+  );
+  if (!shippingOption) {
+    res.status(409).json({ message: "Delivery is not available to this address" });
+    return;
+  }
+
+  const taxSettings = await resolveTenantTaxSettings(tenantId, cart.lines.map((line) => line.productId));
+  const totals = calculateCartTotals(cart, appliedDiscount, shippingOption.priceNgn, taxSettings);
+  const split = calculatePaymentSplit(orderLines, totals.totalNgn);
+  const orderRef = `SWS-${Date.now()}`;
+  const paymentRef = `PAY-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
 
+  const paymentMethod = parsed.data.paymentMethod;
+  if (paymentMethod !== "card" && split.mode === "deposit") {
+    res.status(409).json({ message: "Preorders must be paid online" });
+    return;
+  }
+  // Deposit preorders are settled later through the account-only balance route.
+  if (!userId && split.mode === "deposit") {
+    res.status(409).json({ message: "Preorders require an account" });
+    return;
+  }
+  const transferAccount = bankTransferAccount();
+  if (paymentMethod === "bank_transfer" && !transferAccount) {
+    res.status(409).json({ message: "Bank transfer is not available" });
+    return;
+  }
+
+  const guestContact = userId
+    ? null
+    : await upsertGuestContact({
+        tenantId,
+        email: parsed.data.email,
+        phone: parsed.data.phone!,
+        firstName: parsed.data.firstName,
+        lastName: parsed.data.lastName
+      });
+  const orderOwner = userId ? { userId } : { guestContactId: guestContact!._id };
+
+  const limitOwners = await resolveLimitOwners(tenantId, orderOwner, userId ? null : parsed.data.email);
+  const limitViolations = await findPurchaseLimitViolations({ tenantId, owners: limitOwners, lines: orderLines });
+  if (limitViolations.length > 0) {
+    res.status(409).json({ message: describePurchaseLimitViolation(limitViolations[0]), limits: limitViolations });
+    return;
+  }
+
+  const previousPendingOrders = await OrderModel.find({ tenantId, ...orderOwner, status: "pending" }).select({ _id: 1 }).lean();
+  for (const pendingOrder of previousPendingOrders) {
+    await releaseOrderReservations(pendingOrder._id, "superseded");
+  }
+
+  const orderId = new Types.ObjectId();
+  const reservationExpiresAt = new Date(Date.now() + env.STOCK_RESERVATION_TTL_MINUTES * 60 * 1000);
+
+  // Offline orders skip the provider redirect; their stock is committed as soon as the order is placed.
+  const offlineStatus = OFFLINE_ORDER_STATUS[paymentMethod];
+  const provider = offlineStatus ? null : await resolveTenantPaymentProvider(tenantId);
+  let initialized: { authorizationUrl: string | null; accessCode: string | null } = { authorizationUrl: null, accessCode: null };
+  if (provider) {
+    initialized = await provider.initialize({
+      email: parsed.data.email,
+      amountNgn: split.depositNgn,
+      reference: paymentRef,
+      metadata: {
+        tenantId: tenantId.toString(),
+        userId: userId?.toString() ?? null,
+        guestContactId: guestContact?._id.toString() ?? null,
+        orderRef,
+        purpose: split.mode === "deposit" ? "deposit" : "full"
+      }
+    });
+  }
+
+  // Reservations are written in the checkout transaction, so any failure below leaves no units held.
   const session = await mongoose.startSession();
   try {
     session.startTransaction();
 
+    try {
+      await reserveOrderStock({
+        tenantId,
+        orderId,
+        lines: orderLines.filter((line) => !line.preorder),
+        expiresAt: reservationExpiresAt,
+        session
+      });
+    } catch (error) {
+      await session.abortTransaction();
+      res.status(409).json({ message: (error as Error).message });
+      return;
+    }
+
     const [order] = await OrderModel.create(
       [
         {
+          _id: orderId,
           tenantId,
           userId,
+          guestContactId: guestContact?._id ?? null,
+          guestSessionId: shopper.sessionId,
+          cartId: cart._id,
           orderRef,
-          status: "pending",
+          status: offlineStatus ?? "pending",
+          paymentMethod,
           subtotalNgn: totals.subtotalNgn,
+          discountNgn: totals.discountNgn,
           shippingNgn: totals.shippingNgn,
+          taxNgn: totals.taxNgn,
+          taxExemptNgn: totals.taxExemptNgn,
+          taxLines: totals.taxLines,
           totalNgn: totals.totalNgn,
           shippingAddress: {
             address: shippingAddress.address,
             city: shippingAddress.city,
             state: shippingAddress.state
           },
+          shippingMethod,
+          shippingZoneId: shippingOption.method === "delivery" && shippingOption.zoneId ? toObjectId(shippingOption.zoneId) : null,
+          pickupBranchId: shippingOption.method === "pickup" ? toObjectId(shippingOption.branchId) : null,
           timeline: [
             {
-              status: "pending",
-              note: "Order created and awaiting payment confirmation.",
+              status: offlineStatus ?? "pending",
+              note:
+                paymentMethod === "pay_on_delivery"
+                  ? "Order placed with payment on delivery."
+                  : paymentMethod === "bank_transfer"
+                    ? "Order placed and awaiting bank transfer."
+                    : split.mode === "deposit"
+                      ? "Preorder created and awaiting deposit payment."
+                      : "Order created and awaiting payment confirmation.",
               actor: "system",
               at: new Date()
             }
           ],
-          lines: cart.lines.map((line) => ({
-            productId: line.productId,
-            variantId: line.variantId,
-            name: line.name,
-            quantity: line.quantity,
-            unitPriceNgn: line.unitPriceNgn
-          }))
+          lines: orderLines,
+          discountLines: appliedDiscount
+            ? [
+                {
+                  discountId: appliedDiscount.discountId,
+                  code: appliedDiscount.code,
+                  type: appliedDiscount.type,
+                  value: appliedDiscount.value,
+                  amountNgn: totals.discountNgn
+                }
+              ]
+            : [],
+          isPreorder,
+          expectedShipDate,
+          paymentPlan: {
+            mode: split.mode,
+            depositNgn: split.depositNgn,
+            balanceNgn: split.balanceNgn,
+            amountPaidNgn: 0,
+            balancePaidAt: null
+          }
         }
       ],
       { session }
@@ -117,30 +411,116 @@ checkoutRouter.post("/initialize", requireCustomer, async (req: AuthRequest, res
           tenantId,
           userId,
           orderId: order._id,
-          provider: "paystack",
+          provider: provider?.name ?? "offline",
+          method: paymentMethod,
           providerRef: paymentRef,
-          amountNgn: totals.totalNgn,
+          amountNgn: split.depositNgn,
           status: "initialized",
+          purpose: split.mode === "deposit" ? "deposit" : "full",
           metadata: {
-            accessCode: paystack.access_code,
-            authorizationUrl: paystack.authorization_url
+            accessCode: initialized.accessCode,
+            authorizationUrl: initialized.authorizationUrl
           }
         }
       ],
       { session }
     );
 
+    if (offlineStatus) {
+      await commitOrderStock(order, session);
+      await order.save({ session });
+    }
+
     await session.commitTransaction();
 
     res.status(201).json({
+      orderId: order._id.toString(),
       orderRef,
+      status: order.status,
       paymentRef,
-      authorizationUrl: paystack.authorization_url
+      paymentMethod,
+      shipping: shippingOption,
+      taxNgn: totals.taxNgn,
+      totalNgn: totals.totalNgn,
+      provider: provider?.name ?? null,
+      authorizationUrl: initialized.authorizationUrl,
+      amountDueNgn: split.depositNgn,
+      balanceNgn: split.balanceNgn,
+      reservationExpiresAt: offlineStatus ? null : reservationExpiresAt,
+      bankTransfer: paymentMethod === "bank_transfer" ? { ...transferAccount, reference: paymentRef } : null
     });
   } catch (error) {
-    await session.abortTransaction();
+    if (session.inTransaction()) {
+      await session.abortTransaction();
+    }
     throw error;
   } finally {
     session.endSession();
   }
 });
+
+checkoutRouter.post("/orders/:id/balance", requireCustomer, async (req: AuthRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const userId = toObjectId(req.claims!.userId);
+
+  const order = await OrderModel.findOne({ _id: toObjectId(String(req.params.id)), tenantId, userId });
+  if (!order) {
+    res.status(404).json({ message: "Order not found" });
+    return;
+  }
+
+  const plan = order.paymentPlan;
+  if (
+    !plan ||
+    plan.mode !== "deposit" ||
+    plan.balancePaidAt ||
+    plan.balanceNgn <= 0 ||
+    (order.status !== "awaiting_stock" && order.status !== "awaiting_balance")
+  ) {
+    res.status(409).json({ message: "Order has no outstanding balance" });
+    return;
+  }
+
+  const customer = await UserModel.findById(userId).select({ email: 1 }).lean();
+  if (!customer?.email) {
+    res.status(404).json({ message: "Customer not found" });
+    return;
+  }
+
+  const paymentRef = `PAY-${Date.now()}-${Math.random().toString(36).slice(2, 8).toUpperCase()}`;
+  const provider = await resolveTenantPaymentProvider(tenantId);
+  const initialized = await provider.initialize({
+    email: customer.email,
+    amountNgn: plan.balanceNgn,
+    reference: paymentRef,
+    metadata: {
+      tenantId: tenantId.toString(),
+      userId: userId.toString(),
+      orderRef: order.orderRef,
+      purpose: "balance"
+    }
+  });
+
+  await PaymentModel.create({
+    tenantId,
+    userId,
+    orderId: order._id,
+    provider: provider.name,
+    providerRef: paymentRef,
+    amountNgn: plan.balanceNgn,
+    status: "initialized",
+    purpose: "balance",
+    metadata: {
+      accessCode: initialized.accessCode,
+      authorizationUrl: initialized.authorizationUrl
+    }
+  });
+
+  res.status(201).json({
+    orderRef: order.orderRef,
+    paymentRef,
+    provider: provider.name,
+    authorizationUrl: initialized.authorizationUrl,
+    amountDueNgn: plan.balanceNgn
+  });
+});
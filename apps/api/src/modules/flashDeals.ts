@@ -0,0 +1,49 @@
+import { Router } from "express";
+import type { TenantRequest } from "../middleware/tenant.js";
+import { ProductModel } from "../models/catalog.js";
+import { resolveTenantId } from "../services/tenant.js";
+import { applyFlashDealPrice, findActiveFlashDeals } from "../services/flashDeals.js";
+
+export const flashDealsRouter = Router();
+
+flashDealsRouter.get("/active", async (req: TenantRequest, res) => {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const now = new Date();
+  const deals = await findActiveFlashDeals(tenantId, now);
+
+  const productIds = [...new Set(deals.flatMap((deal) => deal.productIds))];
+  const products = await ProductModel.find({ tenantId, active: true, _id: { $in: productIds } })
+    .select({ slug: 1, name: 1, imageUrl: 1, imageFit: 1, images: 1, variants: 1 })
+    .lean();
+  const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+
+  res.json({
+    serverTime: now.toISOString(),
+    deals: deals.map((deal) => ({
+      id: deal.id,
+      title: deal.title,
+      discountPercent: deal.discountPercent,
+      startAt: deal.startAt,
+      endAt: deal.endAt,
+      products: deal.productIds.flatMap((productId) => {
+        const product = productMap.get(productId);
+        if (!product) {
+          return [];
+        }
+        const pricing = applyFlashDealPrice(product.variants[0]?.priceNgn ?? 0, deal);
+        return [
+          {
+            id: product._id.toString(),
+            slug: product.slug,
+            name: product.name,
+            imageUrl: product.images?.[0]?.url ?? product.imageUrl,
+            imageFit: product.images?.[0]?.fit ?? product.imageFit ?? "contain",
+            priceNgn: pricing.priceNgn,
+            originalPriceNgn: pricing.originalPriceNgn,
+            inStock: product.variants.some((variant) => variant.stock > 0)
+          }
+        ];
+      })
+    }))
+  });
+});
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { requireCustomer, type AuthRequest } from "../middleware/auth.js";
 import type { TenantRequest } from "../middleware/tenant.js";
+import { GuestContactModel } from "../models/guestContact.js";
 import { OrderModel } from "../models/order.js";
 import { UserModel } from "../models/user.js";
 import { resolveTenantId } from "../services/tenant.js";
@@ -23,6 +24,7 @@ ordersRouter.get("/me", requireCustomer, async (req: AuthRequest, res) => {
       orderRef: order.orderRef,
       status: order.status,
       totalNgn: order.totalNgn,
+      isPreorder: order.isPreorder ?? false,
       createdAt: order.createdAt
     }))
   );
@@ -43,10 +45,20 @@ ordersRouter.get("/me/:id", requireCustomer, async (req: AuthRequest, res) => {
     orderRef: order.orderRef,
     status: order.status,
     trackingNumber: order.trackingNumber,
+    subtotalNgn: order.subtotalNgn,
+    discountNgn: order.discountNgn ?? 0,
+    shippingNgn: order.shippingNgn,
+    shippingMethod: order.shippingMethod ?? "delivery",
+    taxNgn: order.taxNgn ?? 0,
+    taxLines: order.taxLines ?? [],
     totalNgn: order.totalNgn,
     createdAt: order.createdAt,
     items: order.lines,
-    timeline: order.timeline ?? []
+    discounts: order.discountLines ?? [],
+    timeline: order.timeline ?? [],
+    isPreorder: order.isPreorder ?? false,
+    expectedShipDate: order.expectedShipDate ?? null,
+    paymentPlan: order.paymentPlan ?? null
   });
 });
 
@@ -60,15 +72,23 @@ ordersRouter.get("/track", async (req: TenantRequest, res) => {
     return;
   }
 
-  const customer = await UserModel.findOne({ tenantId, email }).lean();
-  if (!customer) {
+  // Guest orders keep their guest contact after being claimed, so either owner can match.
+  const [customer, guestContact] = await Promise.all([
+    UserModel.findOne({ tenantId, email }).lean(),
+    GuestContactModel.findOne({ tenantId, email }).lean()
+  ]);
+  const owners = [
+    ...(customer ? [{ userId: customer._id }] : []),
+    ...(guestContact ? [{ guestContactId: guestContact._id }] : [])
+  ];
+  if (owners.length === 0) {
     res.status(404).json({ message: "Order not found" });
     return;
   }
 
   const order = await OrderModel.findOne({
     tenantId,
-    userId: customer._id,
+    $or: owners,
     orderRef: { $regex: `^${orderRef.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}$`, $options: "i" }
   }).lean();
   if (!order) {
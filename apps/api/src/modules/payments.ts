@@ -1,20 +1,56 @@
-import { Router } from "express";
-import mongoose from "mongoose";
+import { Router, type Request, type Response } from "express";
+import mongoose, { type ClientSession } from "mongoose";
 import { env } from "../config/env.js";
 import { PaymentModel } from "../models/payment.js";
 import { OrderModel } from "../models/order.js";
-import { ProductModel } from "../models/catalog.js";
-import { CartModel } from "../models/cart.js";
-import { UserModel } from "../models/user.js";
-import { enqueueOrderStatusNotification } from "../services/notificationQueue.js";
-import { verifyPaystackTransaction, verifyPaystackWebhookSignature } from "../services/paystack.js";
+import { GuestContactModel } from "../models/guestContact.js";
+import { enqueueOrderStatusNotification, type OrderStatusNotificationPayload } from "../services/notificationQueue.js";
+import { getPaymentProvider, PAYMENT_PROVIDERS, type PaymentProvider, type PaymentVerification } from "../services/paymentProviders.js";
+import { createOrderRefund, settleRefundByProvider } from "../services/refunds.js";
+import { releaseOrderReservations } from "../services/stockReservations.js";
+import { commitOrderStock } from "../services/orderFinalization.js";
+import { attributeOrderToCampaign } from "../services/campaigns.js";
+import { resolveOrderContact } from "../services/guestOrders.js";
+import { describePurchaseLimitViolation, findPurchaseLimitViolations, resolveLimitOwners } from "../services/purchaseLimits.js";
 import { resolveTenantId } from "../services/tenant.js";
 import type { TenantRequest } from "../middleware/tenant.js";
 import type { AuthRequest } from "../middleware/auth.js";
 
 export const paymentsRouter = Router();
 
-async function finalizeSuccessfulPayment(reference: string, metadata: Record<string, unknown>) {
+// Another order from the same customer may have been paid since checkout, so limits are checked again with the
+// payment; an order that no longer fits is cancelled and refunded rather than fulfilled.
+async function findOrderLimitViolation(order: InstanceType<typeof OrderModel>, session: ClientSession) {
+  const owner = order.userId ? { userId: order.userId } : order.guestContactId ? { guestContactId: order.guestContactId } : null;
+  if (!owner) {
+    return null;
+  }
+  const guest =
+    "guestContactId" in owner ? await GuestContactModel.findById(owner.guestContactId).select({ email: 1 }).session(session).lean() : null;
+  const owners = await resolveLimitOwners(order.tenantId, owner, guest?.email ?? null, session);
+  const [violation] = await findPurchaseLimitViolations({ tenantId: order.tenantId, owners, lines: order.lines, session });
+  return violation ?? null;
+}
+
+async function refundOrderOverLimit(order: InstanceType<typeof OrderModel>, reason: string) {
+  await releaseOrderReservations(order._id, "cancelled");
+  try {
+    await createOrderRefund({
+      tenantId: order.tenantId,
+      orderId: order._id,
+      reason,
+      restock: false,
+      actor: { id: "system", role: "system" }
+    });
+  } catch (error) {
+    console.error("[api][payments] refund for order over purchase limit failed", {
+      orderRef: order.orderRef,
+      error: (error as Error).message
+    });
+  }
+}
+
+async function finalizeSuccessfulPayment(reference: string, metadata: Record<string, unknown>, verified?: PaymentVerification) {
   const payment = await PaymentModel.findOne({ providerRef: reference });
   if (!payment) {
     throw new Error("Payment reference not found");
@@ -29,6 +65,14 @@ async function finalizeSuccessfulPayment(reference: string, metadata: Record<str
     return { payment, order, idempotent: true as const };
   }
 
+  if (verified?.amountNgn !== undefined && (verified.amountNgn !== payment.amountNgn || verified.currency !== "NGN")) {
+    throw new Error("Payment amount or currency does not match the order");
+  }
+
+  const isBalancePayment = payment.purpose === "balance";
+  let notificationStatus: OrderStatusNotificationPayload["status"] | null = null;
+  let note: string;
+
   const session = await mongoose.startSession();
   try {
     session.startTransaction();
@@ -41,55 +85,90 @@ async function finalizeSuccessfulPayment(reference: string, metadata: Record<str
     };
     await payment.save({ session });
 
-    order.status = "paid";
-    order.timeline.push({
-      status: "paid",
-      note: "Payment confirmed.",
-      actor: "system",
-      at: new Date()
-    });
-    await order.save({ session });
-
-    for (const line of order.lines) {
-      const updated = await ProductModel.updateOne(
-        {
-          _id: line.productId,
-          tenantId: order.tenantId,
-          "variants._id": line.variantId,
-          "variants.stock": { $gte: line.quantity }
-        },
-        {
-          $inc: {
-            "variants.$.stock": -line.quantity
-          }
-        },
-        { session }
-      );
+    if (order.paymentPlan) {
+      order.paymentPlan.amountPaidNgn = (order.paymentPlan.amountPaidNgn ?? 0) + payment.amountNgn;
+    }
+    const limitViolation = isBalancePayment ? null : await findOrderLimitViolation(order, session);
+    if (!limitViolation) {
+      order.attributedCampaignId = await attributeOrderToCampaign(order, payment.amountNgn, session);
+    }
 
-      if (updated.modifiedCount !== 1) {
-        throw new Error(`Failed to decrement stock for product ${line.productId.toString()}`);
+    if (limitViolation) {
+      order.status = "cancelled";
+      note = `Payment received, but ${describePurchaseLimitViolation(limitViolation)}. The order was cancelled and the payment will be refunded.`;
+      order.timeline.push({
+        status: order.status,
+        note,
+        actor: "system",
+        at: new Date()
+      });
+      await order.save({ session });
+    } else if (isBalancePayment) {
+      if (order.paymentPlan) {
+        order.paymentPlan.balancePaidAt = new Date();
+      }
+      if (order.status === "awaiting_balance") {
+        order.status = "paid";
+        note = "Balance payment confirmed. Your order is ready for fulfilment.";
+      } else {
+        note = "Balance payment confirmed.";
+      }
+      notificationStatus = "paid";
+      order.timeline.push({
+        status: order.status,
+        note,
+        actor: "system",
+        at: new Date()
+      });
+      await order.save({ session });
+    } else {
+      await commitOrderStock(order, session);
+
+      const plan = order.paymentPlan;
+      if (order.lines.some((line) => line.preorder)) {
+        order.status = "awaiting_stock";
+        note =
+          payment.purpose === "deposit"
+            ? "Deposit payment confirmed. Awaiting preorder stock."
+            : "Payment confirmed. Awaiting preorder stock.";
+        notificationStatus = "awaiting_stock";
+      } else if (plan && plan.mode === "deposit" && plan.balanceNgn > 0) {
+        order.status = "awaiting_balance";
+        note = `Deposit payment confirmed. Preorder stock has arrived, so the balance payment of NGN ${plan.balanceNgn.toLocaleString()} is due.`;
+        notificationStatus = "awaiting_balance";
+      } else {
+        order.status = "paid";
+        note = "Payment confirmed.";
+        notificationStatus = "paid";
       }
-    }
 
-    await CartModel.updateOne(
-      { tenantId: order.tenantId, userId: order.userId },
-      { $set: { lines: [] } },
-      { session }
-    );
+      order.timeline.push({
+        status: order.status,
+        note,
+        actor: "system",
+        at: new Date()
+      });
+      await order.save({ session });
+    }
 
     await session.commitTransaction();
 
-    const customer = await UserModel.findById(order.userId).select({ email: 1, firstName: 1, lastName: 1 }).lean();
-    if (customer?.email) {
+    if (limitViolation) {
+      await refundOrderOverLimit(order, note);
+      return { payment, order, idempotent: false as const };
+    }
+
+    const contact = await resolveOrderContact(order);
+    if (contact?.email && notificationStatus) {
       await enqueueOrderStatusNotification({
         tenantId: order.tenantId.toString(),
-        userId: order.userId.toString(),
-        email: customer.email,
-        customerName: `${customer.firstName ?? ""} ${customer.lastName ?? ""}`.trim(),
+        userId: contact.userId,
+        email: contact.email,
+        customerName: contact.name,
         orderId: order._id.toString(),
         orderRef: order.orderRef,
-        status: "paid",
-        note: "Payment confirmed."
+        status: notificationStatus,
+        note
       });
     }
 
@@ -102,33 +181,98 @@ async function finalizeSuccessfulPayment(reference: string, metadata: Record<str
   }
 }
 
-paymentsRouter.post("/paystack/webhook", async (req, res) => {
-  const signature = req.header("x-paystack-signature");
+async function markPaymentFailed(reference: string, metadata: Record<string, unknown>) {
+  const payment = await PaymentModel.findOne({ providerRef: reference });
+  if (!payment || payment.status !== "initialized") {
+    return;
+  }
+
+  payment.status = "failed";
+  payment.metadata = {
+    ...(payment.metadata ?? {}),
+    ...metadata
+  };
+  await payment.save();
+
+  const released = await releaseOrderReservations(payment.orderId, "payment_failed");
+  if (released > 0) {
+    await OrderModel.updateOne(
+      { _id: payment.orderId, status: "pending" },
+      {
+        $push: {
+          timeline: {
+            status: "pending",
+            note: "Payment failed. Reserved stock has been released.",
+            actor: "system",
+            at: new Date()
+          }
+        }
+      }
+    );
+  }
+}
+
+async function handleProviderWebhook(provider: PaymentProvider, req: Request, res: Response) {
   const rawBody = Buffer.isBuffer(req.body) ? req.body : Buffer.from(JSON.stringify(req.body));
 
-  if (!verifyPaystackWebhookSignature(rawBody, signature)) {
+  if (!provider.verifyWebhook(rawBody, req.headers)) {
     res.status(401).json({ message: "Invalid webhook signature" });
     return;
   }
 
   const payload = Buffer.isBuffer(req.body) ? JSON.parse(req.body.toString("utf-8")) : req.body;
-  if (payload.event !== "charge.success") {
+  const event = provider.parseWebhookEvent(payload);
+  if (!event) {
+    res.status(400).json({ message: "Missing payment reference" });
+    return;
+  }
+
+  if (event.type === "ignored") {
     res.status(200).json({ acknowledged: true });
     return;
   }
 
-  const reference = payload.data?.reference as string | undefined;
-  if (!reference) {
-    res.status(400).json({ message: "Missing payment reference" });
+  if (event.type !== "charge.success") {
+    try {
+      const refund = await settleRefundByProvider({
+        transactionReference: event.transactionReference,
+        providerRefundId: event.refundId,
+        status: event.type === "refund.processed" ? "processed" : "failed",
+        failureReason: event.failureReason
+      });
+      res.status(200).json({ acknowledged: true, refundRef: refund?.refundRef ?? null });
+    } catch (error) {
+      res.status(500).json({ message: "Webhook processing failed", detail: (error as Error).message });
+    }
     return;
   }
 
   try {
-    const result = await finalizeSuccessfulPayment(reference, {
-      source: "webhook",
-      gatewayResponse: payload.data?.gateway_response,
-      paidAt: payload.data?.paid_at
-    });
+    if (!(await PaymentModel.exists({ providerRef: event.reference, provider: provider.name }))) {
+      res.status(404).json({ message: "Payment reference not found" });
+      return;
+    }
+
+    let confirmed = { gatewayResponse: event.gatewayResponse, paidAt: event.paidAt };
+    let verified: PaymentVerification | undefined;
+    if (provider.reverifyWebhookCharges) {
+      verified = await provider.verify(event.reference);
+      if (verified.status !== "success") {
+        res.status(409).json({ message: "Payment is not confirmed by the provider", status: verified.status });
+        return;
+      }
+      confirmed = { gatewayResponse: verified.gatewayResponse, paidAt: verified.paidAt };
+    }
+
+    const result = await finalizeSuccessfulPayment(
+      event.reference,
+      {
+        source: "webhook",
+        provider: provider.name,
+        ...confirmed
+      },
+      verified
+    );
 
     res.status(200).json({ acknowledged: true, idempotent: result.idempotent });
   } catch (error) {
@@ -137,37 +281,60 @@ paymentsRouter.post("/paystack/webhook", async (req, res) => {
       res.status(404).json({ message });
       return;
     }
+    if (message.includes("does not match")) {
+      res.status(409).json({ message });
+      return;
+    }
     res.status(500).json({ message: "Webhook processing failed", detail: message });
   }
-});
+}
 
-paymentsRouter.get("/paystack/callback", async (req, res) => {
-  const reference = req.query.reference;
-  if (typeof reference !== "string" || reference.length === 0) {
+async function handleProviderCallback(provider: PaymentProvider, req: Request, res: Response) {
+  const reference = provider.callbackReference(req.query);
+  if (!reference) {
     res.status(400).json({ message: "Missing payment reference" });
     return;
   }
 
   try {
-    const verified = await verifyPaystackTransaction(reference);
+    const verified = await provider.verify(reference);
 
     if (verified.status !== "success") {
+      if (verified.status === "failed" || verified.status === "abandoned") {
+        await markPaymentFailed(reference, { source: "callback", gatewayResponse: verified.gatewayResponse });
+      }
       res.redirect(`${env.CLIENT_CHECKOUT_FAILURE_URL}?ref=${encodeURIComponent(reference)}`);
       return;
     }
 
-    const { order } = await finalizeSuccessfulPayment(reference, {
-      source: "callback",
-      gatewayResponse: verified.gateway_response,
-      paidAt: verified.paid_at
-    });
+    const { order } = await finalizeSuccessfulPayment(
+      reference,
+      {
+        source: "callback",
+        provider: provider.name,
+        gatewayResponse: verified.gatewayResponse,
+        paidAt: verified.paidAt
+      },
+      verified
+    );
+
+    if (order.status === "cancelled") {
+      res.redirect(`${env.CLIENT_CHECKOUT_FAILURE_URL}?ref=${encodeURIComponent(reference)}`);
+      return;
+    }
 
     const target = `${env.CLIENT_CHECKOUT_SUCCESS_URL}?ref=${encodeURIComponent(reference)}&orderRef=${encodeURIComponent(order.orderRef)}`;
     res.redirect(target);
   } catch (error) {
     res.redirect(`${env.CLIENT_CHECKOUT_FAILURE_URL}?ref=${encodeURIComponent(reference)}`);
   }
-});
+}
+
+for (const name of PAYMENT_PROVIDERS) {
+  const provider = getPaymentProvider(name);
+  paymentsRouter.post(`/${name}/webhook`, (req, res) => handleProviderWebhook(provider, req, res));
+  paymentsRouter.get(`/${name}/callback`, (req, res) => handleProviderCallback(provider, req, res));
+}
 
 paymentsRouter.get("/:ref/status", async (req: TenantRequest, res) => {
   const reference = String(req.params.ref);
@@ -179,16 +346,23 @@ paymentsRouter.get("/:ref/status", async (req: TenantRequest, res) => {
     return;
   }
 
-  if (payment.status !== "success") {
+  // Offline payments are settled by staff confirmation, never by the gateway.
+  if (payment.status !== "success" && payment.provider !== "offline") {
     try {
-      const verified = await verifyPaystackTransaction(reference);
+      const verified = await getPaymentProvider(payment.provider).verify(reference);
       if (verified.status === "success") {
-        const finalized = await finalizeSuccessfulPayment(reference, {
-          source: "status_poll",
-          gatewayResponse: verified.gateway_response,
-          paidAt: verified.paid_at
-        });
+        const finalized = await finalizeSuccessfulPayment(
+          reference,
+          {
+            source: "status_poll",
+            gatewayResponse: verified.gatewayResponse,
+            paidAt: verified.paidAt
+          },
+          verified
+        );
         payment = finalized.payment.toObject();
+      } else if (verified.status === "failed" || verified.status === "abandoned") {
+        await markPaymentFailed(reference, { source: "status_poll", gatewayResponse: verified.gatewayResponse });
       }
     } catch {
       // keep current status response if upstream verification fails
@@ -211,7 +385,7 @@ paymentsRouter.get("/:ref/order", async (req: AuthRequest, res) => {
     return;
   }
 
-  if (req.claims?.role === "customer" && payment.userId.toString() !== req.claims.userId) {
+  if (req.claims?.role === "customer" && payment.userId?.toString() !== req.claims.userId) {
     res.status(403).json({ message: "Order access denied" });
     return;
   }
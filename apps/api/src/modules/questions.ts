@@ -0,0 +1,109 @@
+import { Router } from "express";
+import { z } from "zod";
+import { productQuestionCreateSchema } from "@sws/shared-types";
+import { requireCustomer, type AuthRequest } from "../middleware/auth.js";
+import { ProductModel } from "../models/catalog.js";
+import { ProductQuestionModel } from "../models/productQuestion.js";
+import { resolveTenantId } from "../services/tenant.js";
+import { serializeQuestion, upvoteProductQuestion } from "../services/productQuestions.js";
+import { resolveCustomerDisplayNames } from "../services/customers.js";
+import { toObjectId } from "../utils/ids.js";
+
+export const productQuestionsRouter = Router({ mergeParams: true });
+
+const questionListQuerySchema = z.object({
+  sort: z.enum(["helpful", "newest"]).default("helpful"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+const QUESTION_SORTS = {
+  helpful: { upvotes: -1, createdAt: -1 },
+  newest: { createdAt: -1, _id: -1 }
+} as const;
+
+async function findProduct(req: AuthRequest) {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const product = await ProductModel.findOne({ tenantId, slug: String(req.params.slug), active: true }).select({ _id: 1 }).lean();
+  return { tenantId, product };
+}
+
+productQuestionsRouter.get("/", async (req: AuthRequest, res) => {
+  const parsed = questionListQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid question query", issues: parsed.error.issues });
+    return;
+  }
+
+  const { tenantId, product } = await findProduct(req);
+  if (!product) {
+    res.status(404).json({ message: "Product not found" });
+    return;
+  }
+
+  const filter = { tenantId, productId: product._id, status: "answered" };
+  const [questions, total] = await Promise.all([
+    ProductQuestionModel.find(filter)
+      .sort(QUESTION_SORTS[parsed.data.sort])
+      .skip((parsed.data.page - 1) * parsed.data.pageSize)
+      .limit(parsed.data.pageSize)
+      .lean(),
+    ProductQuestionModel.countDocuments(filter)
+  ]);
+  const names = await resolveCustomerDisplayNames(questions);
+
+  res.json({
+    items: questions.map((question) => serializeQuestion(question, names.get(question.userId.toString()) ?? "Customer")),
+    page: parsed.data.page,
+    pageSize: parsed.data.pageSize,
+    total
+  });
+});
+
+productQuestionsRouter.post("/", requireCustomer, async (req: AuthRequest, res) => {
+  const parsed = productQuestionCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid question payload", issues: parsed.error.issues });
+    return;
+  }
+
+  const { tenantId, product } = await findProduct(req);
+  if (!product) {
+    res.status(404).json({ message: "Product not found" });
+    return;
+  }
+
+  const userId = toObjectId(req.claims!.userId);
+  const question = await ProductQuestionModel.create({
+    tenantId,
+    productId: product._id,
+    userId,
+    question: parsed.data.question
+  });
+  const names = await resolveCustomerDisplayNames([question]);
+  res.status(201).json(serializeQuestion(question, names.get(userId.toString()) ?? "Customer"));
+});
+
+productQuestionsRouter.post("/:id/upvote", requireCustomer, async (req: AuthRequest, res) => {
+  const { tenantId, product } = await findProduct(req);
+  if (!product) {
+    res.status(404).json({ message: "Product not found" });
+    return;
+  }
+
+  const filter = { _id: toObjectId(String(req.params.id)), tenantId, productId: product._id, status: "answered" };
+  if (!(await ProductQuestionModel.exists(filter))) {
+    res.status(404).json({ message: "Question not found" });
+    return;
+  }
+  await upvoteProductQuestion(filter._id, toObjectId(req.claims!.userId));
+
+  // The question may have been hidden between the vote and this read.
+  const question = await ProductQuestionModel.findOne(filter).lean();
+  if (!question) {
+    res.status(404).json({ message: "Question not found" });
+    return;
+  }
+  const names = await resolveCustomerDisplayNames([question]);
+  res.json(serializeQuestion(question, names.get(question.userId.toString()) ?? "Customer"));
+});
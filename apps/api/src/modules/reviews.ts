@@ -0,0 +1,157 @@
+import { Router } from "express";
+import { z } from "zod";
+import { productReviewCreateSchema } from "@sws/shared-types";
+import { requireCustomer, type AuthRequest } from "../middleware/auth.js";
+import { ProductModel } from "../models/catalog.js";
+import { ProductReviewModel } from "../models/productReview.js";
+import { resolveTenantId } from "../services/tenant.js";
+import { cloudinaryImageUrl, createSignedUploadPayload } from "../services/cloudinary.js";
+import { resolveCustomerDisplayNames } from "../services/customers.js";
+import { findDeliveredOrderForProduct, serializeReview } from "../services/reviews.js";
+import { env } from "../config/env.js";
+import { toObjectId } from "../utils/ids.js";
+
+export const productReviewsRouter = Router({ mergeParams: true });
+
+const reviewListQuerySchema = z.object({
+  sort: z.enum(["newest", "highest", "lowest"]).default("newest"),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(50).default(10)
+});
+
+const REVIEW_SORTS = {
+  newest: { createdAt: -1, _id: -1 },
+  highest: { rating: -1, createdAt: -1 },
+  lowest: { rating: 1, createdAt: -1 }
+} as const;
+
+async function findReviewableProduct(req: AuthRequest) {
+  const tenantId = await resolveTenantId(req.tenantId!);
+  const product = await ProductModel.findOne({ tenantId, slug: String(req.params.slug), active: true })
+    .select({ _id: 1, slug: 1, rating: 1 })
+    .lean();
+  return { tenantId, product };
+}
+
+productReviewsRouter.get("/", async (req: AuthRequest, res) => {
+  const parsed = reviewListQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid review query", issues: parsed.error.issues });
+    return;
+  }
+
+  const { tenantId, product } = await findReviewableProduct(req);
+  if (!product) {
+    res.status(404).json({ message: "Product not found" });
+    return;
+  }
+
+  const filter = { tenantId, productId: product._id, status: "approved" };
+  const [reviews, total] = await Promise.all([
+    ProductReviewModel.find(filter)
+      .sort(REVIEW_SORTS[parsed.data.sort])
+      .skip((parsed.data.page - 1) * parsed.data.pageSize)
+      .limit(parsed.data.pageSize)
+      .lean(),
+    ProductReviewModel.countDocuments(filter)
+  ]);
+  const names = await resolveCustomerDisplayNames(reviews);
+
+  res.json({
+    rating: { average: product.rating?.average ?? 0, count: product.rating?.count ?? 0 },
+    items: reviews.map((review) => serializeReview(review, names.get(review.userId.toString()) ?? "Customer")),
+    page: parsed.data.page,
+    pageSize: parsed.data.pageSize,
+    total
+  });
+});
+
+productReviewsRouter.post("/photos/sign-upload", requireCustomer, async (req: AuthRequest, res) => {
+  const { tenantId, product } = await findReviewableProduct(req);
+  if (!product) {
+    res.status(404).json({ message: "Product not found" });
+    return;
+  }
+  const userId = toObjectId(req.claims!.userId);
+  if (!(await findDeliveredOrderForProduct(tenantId, userId, product._id))) {
+    res.status(403).json({ message: "Only customers who received this product can review it" });
+    return;
+  }
+
+  try {
+    const signed = createSignedUploadPayload({
+      folder: env.CLOUDINARY_REVIEW_PHOTO_FOLDER,
+      publicId: `${product.slug}-${userId.toString()}-${Date.now()}`
+    });
+    res.json(signed);
+  } catch (error) {
+    res.status(503).json({ message: (error as Error).message });
+  }
+});
+
+productReviewsRouter.post("/", requireCustomer, async (req: AuthRequest, res) => {
+  const parsed = productReviewCreateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    res.status(400).json({ message: "Invalid review payload", issues: parsed.error.issues });
+    return;
+  }
+  // Photos must come from this store's signed review uploads, never an arbitrary host or folder, so only the public
+  // id is trusted and the delivery URL is built here.
+  if (
+    parsed.data.photos.some(
+      (photo) =>
+        !photo.publicId.startsWith(`${env.CLOUDINARY_REVIEW_PHOTO_FOLDER}/`) ||
+        !/^[\w\-/]+$/.test(photo.publicId) ||
+        photo.publicId.split("/").includes("..")
+    )
+  ) {
+    res.status(400).json({ message: "Review photos must be uploaded through the review photo upload" });
+    return;
+  }
+  let photos: Array<{ url: string; publicId: string }>;
+  try {
+    photos = parsed.data.photos.map((photo) => ({ url: cloudinaryImageUrl(photo.publicId), publicId: photo.publicId }));
+  } catch (error) {
+    res.status(503).json({ message: (error as Error).message });
+    return;
+  }
+
+  const { tenantId, product } = await findReviewableProduct(req);
+  if (!product) {
+    res.status(404).json({ message: "Product not found" });
+    return;
+  }
+  const userId = toObjectId(req.claims!.userId);
+  const order = await findDeliveredOrderForProduct(tenantId, userId, product._id);
+  if (!order) {
+    res.status(403).json({ message: "Only customers who received this product can review it" });
+    return;
+  }
+  if (await ProductReviewModel.exists({ tenantId, productId: product._id, userId })) {
+    res.status(409).json({ message: "You have already reviewed this product" });
+    return;
+  }
+
+  let review;
+  try {
+    review = await ProductReviewModel.create({
+      tenantId,
+      productId: product._id,
+      userId,
+      orderId: order._id,
+      rating: parsed.data.rating,
+      title: parsed.data.title ?? null,
+      body: parsed.data.body,
+      photos
+    });
+  } catch (error) {
+    // A second submission racing the exists check above is stopped by the unique index.
+    if ((error as { code?: number }).code === 11000) {
+      res.status(409).json({ message: "You have already reviewed this product" });
+      return;
+    }
+    throw error;
+  }
+  const names = await resolveCustomerDisplayNames([review]);
+  res.status(201).json(serializeReview(review, names.get(userId.toString()) ?? "Customer"));
+});
@@ -3,6 +3,9 @@ import { requireTenant } from "./middleware/tenant.js";
 import { optionalAuth } from "./middleware/auth.js";
 import { authRouter } from "./modules/auth.js";
 import { categoriesRouter, productsRouter } from "./modules/catalog.js";
+import { productReviewsRouter } from "./modules/reviews.js";
+import { productQuestionsRouter } from "./modules/questions.js";
+import { flashDealsRouter } from "./modules/flashDeals.js";
 import { cartRouter } from "./modules/cart.js";
 import { checkoutRouter } from "./modules/checkout.js";
 import { paymentsRouter } from "./modules/payments.js";
@@ -11,6 +14,7 @@ import { wishlistRouter } from "./modules/wishlist.js";
 import { notificationsRouter } from "./modules/notifications.js";
 import { addressesRouter } from "./modules/addresses.js";
 import { recommendationsRouter } from "./modules/recommendations.js";
+import { campaignsRouter } from "./modules/campaigns.js";
 import { adminRouter } from "./modules/admin.js";
 import { adminAuthRouter } from "./modules/adminAuth.js";
 
@@ -20,8 +24,11 @@ router.use(requireTenant);
 router.use(optionalAuth);
 
 router.use("/auth", authRouter);
+router.use("/products/:slug/reviews", productReviewsRouter);
+router.use("/products/:slug/questions", productQuestionsRouter);
 router.use("/products", productsRouter);
 router.use("/categories", categoriesRouter);
+router.use("/flash-deals", flashDealsRouter);
 router.use("/cart", cartRouter);
 router.use("/checkout", checkoutRouter);
 router.use("/payments", paymentsRouter);
@@ -30,5 +37,6 @@ router.use("/addresses", addressesRouter);
 router.use("/wishlist", wishlistRouter);
 router.use("/notifications", notificationsRouter);
 router.use("/recommendations", recommendationsRouter);
+router.use("/campaigns", campaignsRouter);
 router.use("/admin/auth", adminAuthRouter);
 router.use("/admin", adminRouter);
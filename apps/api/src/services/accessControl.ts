@@ -13,13 +13,14 @@ export function resolvePermissions(accessLevel: AccessLevel) {
       "users:manage",
       "reports:view",
       "campaigns:manage",
-      "inventory:manage"
+      "inventory:manage",
+      "questions:answer"
     ];
   }
 
   if (accessLevel === "manager") {
-    return ["orders:read", "orders:write", "users:read", "reports:view", "inventory:manage"];
+    return ["orders:read", "orders:write", "users:read", "reports:view", "inventory:manage", "questions:answer"];
   }
 
-  return ["orders:read", "orders:write"];
+  return ["orders:read", "orders:write", "questions:answer"];
 }
@@ -0,0 +1,326 @@
+import type { ClientSession, Types } from "mongoose";
+import { BranchInventoryModel } from "../models/branchInventory.js";
+import { StoreBranchModel } from "../models/storeBranch.js";
+import { InventoryLedgerModel } from "../models/inventoryLedger.js";
+import { ProductModel } from "../models/catalog.js";
+import { StockTransferModel } from "../models/stockTransfer.js";
+import { availableStock } from "./stockReservations.js";
+
+type InventoryActor = {
+  id: string;
+  role: string;
+};
+
+type BranchLine = {
+  productId: Types.ObjectId;
+  variantId: Types.ObjectId;
+  quantity: number;
+  preorder?: boolean | null;
+};
+
+function normalizePlace(value: string) {
+  return value.trim().toLowerCase();
+}
+
+export async function adjustBranchStock(params: {
+  tenantId: Types.ObjectId;
+  branchId: Types.ObjectId;
+  productId: Types.ObjectId;
+  variantId: Types.ObjectId;
+  delta: number;
+  operation: "add" | "remove" | "adjust" | "transfer_out" | "transfer_in";
+  note: string | null;
+  actor: InventoryActor;
+  session?: ClientSession;
+}) {
+  const row = await BranchInventoryModel.findOneAndUpdate(
+    {
+      tenantId: params.tenantId,
+      branchId: params.branchId,
+      variantId: params.variantId,
+      ...(params.delta < 0 ? { stock: { $gte: -params.delta } } : {})
+    },
+    { $inc: { stock: params.delta }, $setOnInsert: { productId: params.productId } },
+    { new: true, upsert: params.delta >= 0, session: params.session }
+  );
+  if (!row) {
+    throw new Error("Branch stock cannot be negative");
+  }
+
+  const [ledger] = await InventoryLedgerModel.create(
+    [
+      {
+        tenantId: params.tenantId,
+        productId: params.productId,
+        variantId: params.variantId,
+        branchId: params.branchId,
+        operation: params.operation,
+        delta: params.delta,
+        previousStock: row.stock - params.delta,
+        nextStock: row.stock,
+        note: params.note,
+        actorId: params.actor.id,
+        actorRole: params.actor.role
+      }
+    ],
+    { session: params.session }
+  );
+  return ledger;
+}
+
+// Prefer the customer's pickup branch, then a branch in the same city, then the same state, then any branch
+// that can ship every line on its own.
+export async function selectFulfillmentBranch(
+  params: { tenantId: Types.ObjectId; lines: BranchLine[]; city: string; state: string; preferredBranchId?: Types.ObjectId | null },
+  session?: ClientSession
+) {
+  const lines = params.lines.filter((line) => !line.preorder);
+  if (lines.length === 0) {
+    return null;
+  }
+
+  const branches = await StoreBranchModel.find({ tenantId: params.tenantId, active: true }).session(session ?? null).lean();
+  if (branches.length === 0) {
+    return null;
+  }
+
+  const rows = await BranchInventoryModel.find({
+    tenantId: params.tenantId,
+    branchId: { $in: branches.map((branch) => branch._id) },
+    variantId: { $in: lines.map((line) => line.variantId) }
+  })
+    .session(session ?? null)
+    .lean();
+  const stockByKey = new Map(rows.map((row) => [`${row.branchId.toString()}:${row.variantId.toString()}`, row.stock]));
+
+  const city = normalizePlace(params.city);
+  const state = normalizePlace(params.state);
+  const candidates = branches
+    .filter((branch) =>
+      lines.every((line) => (stockByKey.get(`${branch._id.toString()}:${line.variantId.toString()}`) ?? 0) >= line.quantity)
+    )
+    .map((branch) => {
+      const sameState = normalizePlace(branch.state) === state;
+      const rank = params.preferredBranchId?.equals(branch._id)
+        ? -1
+        : sameState && normalizePlace(branch.city) === city
+          ? 0
+          : sameState
+            ? 1
+            : 2;
+      const depth = lines.reduce(
+        (acc, line) => acc + (stockByKey.get(`${branch._id.toString()}:${line.variantId.toString()}`) ?? 0),
+        0
+      );
+      return { branch, rank, depth };
+    })
+    .sort((a, b) => a.rank - b.rank || b.depth - a.depth);
+
+  return candidates[0]?.branch ?? null;
+}
+
+export async function allocateOrderToBranch(
+  order: { tenantId: Types.ObjectId; orderRef: string; lines: BranchLine[] },
+  branchId: Types.ObjectId,
+  actor: InventoryActor,
+  session?: ClientSession
+) {
+  for (const line of order.lines) {
+    if (line.preorder) {
+      continue;
+    }
+    await adjustBranchStock({
+      tenantId: order.tenantId,
+      branchId,
+      productId: line.productId,
+      variantId: line.variantId,
+      delta: -line.quantity,
+      operation: "remove",
+      note: `Allocated to order ${order.orderRef}`,
+      actor,
+      session
+    });
+  }
+}
+
+export async function releaseOrderFromBranch(
+  order: { tenantId: Types.ObjectId; orderRef: string; lines: BranchLine[] },
+  branchId: Types.ObjectId,
+  actor: InventoryActor,
+  session?: ClientSession
+) {
+  for (const line of order.lines) {
+    if (line.preorder) {
+      continue;
+    }
+    await adjustBranchStock({
+      tenantId: order.tenantId,
+      branchId,
+      productId: line.productId,
+      variantId: line.variantId,
+      delta: line.quantity,
+      operation: "add",
+      note: `Released from order ${order.orderRef}`,
+      actor,
+      session
+    });
+  }
+}
+
+export async function dispatchStockTransfer(params: {
+  tenantId: Types.ObjectId;
+  fromBranchId: Types.ObjectId;
+  toBranchId: Types.ObjectId;
+  lines: Array<{ productId: Types.ObjectId; variantId: Types.ObjectId; quantity: number }>;
+  note: string | null;
+  actor: InventoryActor;
+}) {
+  const branches = await StoreBranchModel.find({
+    tenantId: params.tenantId,
+    _id: { $in: [params.fromBranchId, params.toBranchId] }
+  }).lean();
+  if (params.fromBranchId.equals(params.toBranchId) || branches.length !== 2) {
+    throw new Error("Transfer requires two different branches");
+  }
+
+  const transferLines: Array<{ productId: Types.ObjectId; variantId: Types.ObjectId; sku: string; quantity: number }> = [];
+  for (const line of params.lines) {
+    const product = await ProductModel.findOne({ _id: line.productId, tenantId: params.tenantId }).select({ variants: 1 }).lean();
+    const variant = product?.variants.find((entry) => entry._id.equals(line.variantId));
+    if (!variant) {
+      throw new Error(`Variant not found: ${line.variantId.toString()}`);
+    }
+    if (availableStock(variant) < line.quantity) {
+      throw new Error(`Only ${availableStock(variant)} unit(s) of ${variant.sku} are available to transfer`);
+    }
+    transferLines.push({ productId: line.productId, variantId: line.variantId, sku: variant.sku, quantity: line.quantity });
+  }
+
+  const transferRef = `TRF-${Date.now()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+  const dispatched: typeof transferLines = [];
+  try {
+    for (const line of transferLines) {
+      await adjustBranchStock({
+        tenantId: params.tenantId,
+        branchId: params.fromBranchId,
+        productId: line.productId,
+        variantId: line.variantId,
+        delta: -line.quantity,
+        operation: "transfer_out",
+        note: `Transfer ${transferRef} dispatched`,
+        actor: params.actor
+      });
+      dispatched.push(line);
+    }
+  } catch (error) {
+    for (const line of dispatched) {
+      await adjustBranchStock({
+        tenantId: params.tenantId,
+        branchId: params.fromBranchId,
+        productId: line.productId,
+        variantId: line.variantId,
+        delta: line.quantity,
+        operation: "adjust",
+        note: `Transfer ${transferRef} rolled back`,
+        actor: params.actor
+      });
+    }
+    throw error;
+  }
+
+  for (const line of transferLines) {
+    await ProductModel.updateOne(
+      { _id: line.productId, tenantId: params.tenantId, "variants._id": line.variantId },
+      { $inc: { "variants.$.stock": -line.quantity } }
+    );
+    await BranchInventoryModel.updateOne(
+      { tenantId: params.tenantId, branchId: params.toBranchId, variantId: line.variantId },
+      { $inc: { inTransit: line.quantity }, $setOnInsert: { productId: line.productId, stock: 0 } },
+      { upsert: true }
+    );
+  }
+
+  return StockTransferModel.create({
+    tenantId: params.tenantId,
+    transferRef,
+    fromBranchId: params.fromBranchId,
+    toBranchId: params.toBranchId,
+    status: "in_transit",
+    lines: transferLines,
+    note: params.note,
+    actorId: params.actor.id,
+    actorRole: params.actor.role
+  });
+}
+
+export async function completeStockTransfer(params: {
+  tenantId: Types.ObjectId;
+  transferId: Types.ObjectId;
+  outcome: "received" | "cancelled";
+  actor: InventoryActor;
+}) {
+  const transfer = await StockTransferModel.findOneAndUpdate(
+    { _id: params.transferId, tenantId: params.tenantId, status: "in_transit" },
+    { $set: { status: params.outcome, receivedAt: params.outcome === "received" ? new Date() : null } },
+    { new: true }
+  );
+  if (!transfer) {
+    const exists = await StockTransferModel.exists({ _id: params.transferId, tenantId: params.tenantId });
+    throw new Error(exists ? "Transfer is no longer in transit" : "Transfer not found");
+  }
+
+  const branchId = params.outcome === "received" ? transfer.toBranchId : transfer.fromBranchId;
+  for (const line of transfer.lines) {
+    await BranchInventoryModel.updateOne(
+      { tenantId: params.tenantId, branchId: transfer.toBranchId, variantId: line.variantId, inTransit: { $gte: line.quantity } },
+      { $inc: { inTransit: -line.quantity } }
+    );
+    await adjustBranchStock({
+      tenantId: params.tenantId,
+      branchId,
+      productId: line.productId,
+      variantId: line.variantId,
+      delta: line.quantity,
+      operation: params.outcome === "received" ? "transfer_in" : "adjust",
+      note: params.outcome === "received" ? `Transfer ${transfer.transferRef} received` : `Transfer ${transfer.transferRef} cancelled`,
+      actor: params.actor
+    });
+    await ProductModel.updateOne(
+      { _id: line.productId, tenantId: params.tenantId, "variants._id": line.variantId },
+      { $inc: { "variants.$.stock": line.quantity } }
+    );
+  }
+
+  return transfer;
+}
+
+export function serializeStockTransfer(transfer: {
+  _id: Types.ObjectId;
+  transferRef: string;
+  fromBranchId: Types.ObjectId;
+  toBranchId: Types.ObjectId;
+  status: string;
+  lines: Array<{ productId: Types.ObjectId; variantId: Types.ObjectId; sku: string; quantity: number }>;
+  note?: string | null;
+  dispatchedAt?: Date | null;
+  receivedAt?: Date | null;
+  createdAt: Date;
+}) {
+  return {
+    id: transfer._id.toString(),
+    transferRef: transfer.transferRef,
+    fromBranchId: transfer.fromBranchId.toString(),
+    toBranchId: transfer.toBranchId.toString(),
+    status: transfer.status,
+    lines: transfer.lines.map((line) => ({
+      productId: line.productId.toString(),
+      variantId: line.variantId.toString(),
+      sku: line.sku,
+      quantity: line.quantity
+    })),
+    note: transfer.note ?? null,
+    dispatchedAt: transfer.dispatchedAt ?? null,
+    receivedAt: transfer.receivedAt ?? null,
+    createdAt: transfer.createdAt
+  };
+}
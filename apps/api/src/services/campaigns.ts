@@ -0,0 +1,327 @@
+import { randomBytes } from "crypto";
+import { Types, type ClientSession } from "mongoose";
+import { env } from "../config/env.js";
+import { CampaignModel } from "../models/campaign.js";
+import { CampaignDeliveryModel } from "../models/campaignDelivery.js";
+import { OrderModel } from "../models/order.js";
+import { UserModel } from "../models/user.js";
+import { escapeHtml } from "../utils/html.js";
+import { enqueueCampaignSend, type CampaignSendPayload } from "./notificationQueue.js";
+import { SOLD_STATUSES } from "./reports.js";
+
+export type CampaignSegment = "all" | "champions" | "loyal" | "at_risk" | "lost";
+
+export type CampaignEmail = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+export const CAMPAIGN_SEND_BATCH_SIZE = 100;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type CustomerHistory = {
+  orderCount: number;
+  totalSpendNgn: number;
+  lastOrderAt: Date;
+};
+
+// RFM buckets: recent big spenders are champions, repeat buyers inside 90 days are loyal,
+// buyers gone quiet for 90-180 days are at risk, and anyone beyond 180 days is lost.
+export function classifyCustomerSegment(history: CustomerHistory, now = new Date()): Exclude<CampaignSegment, "all"> | null {
+  const daysSinceLastOrder = (now.getTime() - history.lastOrderAt.getTime()) / DAY_MS;
+  if (daysSinceLastOrder <= 30 && (history.orderCount >= 3 || history.totalSpendNgn >= 200000)) {
+    return "champions";
+  }
+  if (daysSinceLastOrder <= 90 && history.orderCount >= 2) {
+    return "loyal";
+  }
+  if (daysSinceLastOrder > 180) {
+    return "lost";
+  }
+  if (daysSinceLastOrder > 90) {
+    return "at_risk";
+  }
+  return null;
+}
+
+export async function resolveCampaignAudience(tenantId: Types.ObjectId, segment: CampaignSegment, now = new Date()) {
+  if (segment === "all") {
+    const customers = await UserModel.find({ tenantId, role: "customer" }).select({ _id: 1 }).lean();
+    return customers.map((customer) => customer._id);
+  }
+
+  const histories = await OrderModel.aggregate<CustomerHistory & { _id: Types.ObjectId }>([
+    { $match: { tenantId, status: { $in: SOLD_STATUSES } } },
+    {
+      $group: {
+        _id: "$userId",
+        orderCount: { $sum: 1 },
+        totalSpendNgn: { $sum: { $subtract: ["$totalNgn", { $ifNull: ["$refundedNgn", 0] }] } },
+        lastOrderAt: { $max: "$createdAt" }
+      }
+    }
+  ]);
+  const userIds = histories.filter((history) => classifyCustomerSegment(history, now) === segment).map((history) => history._id);
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const customers = await UserModel.find({ tenantId, role: "customer", _id: { $in: userIds } }).select({ _id: 1 }).lean();
+  return customers.map((customer) => customer._id);
+}
+
+// Runs when the scheduled send time arrives. The scheduledFor match drops jobs left behind by a reschedule,
+// and delivery records are upserted so a retried dispatch re-queues only what is still pending.
+export async function dispatchCampaign(campaignId: string, scheduledFor: Date) {
+  const campaign = await CampaignModel.findOne({ _id: new Types.ObjectId(campaignId), status: "scheduled", scheduledFor }).lean();
+  if (!campaign) {
+    return null;
+  }
+
+  const recipients = await resolveCampaignAudience(campaign.tenantId, campaign.segment);
+  if (recipients.length > 0) {
+    await CampaignDeliveryModel.bulkWrite(
+      recipients.map((userId) => ({
+        updateOne: {
+          filter: { campaignId: campaign._id, userId },
+          update: { $setOnInsert: { tenantId: campaign.tenantId, token: randomBytes(16).toString("hex") } },
+          upsert: true
+        }
+      }))
+    );
+  }
+
+  const pending = await CampaignDeliveryModel.find({ campaignId: campaign._id, status: "queued" }).select({ _id: 1 }).lean();
+  for (let index = 0; index < pending.length; index += CAMPAIGN_SEND_BATCH_SIZE) {
+    const queued = await enqueueCampaignSend({
+      tenantId: campaign.tenantId.toString(),
+      campaignId: campaign._id.toString(),
+      deliveryIds: pending.slice(index, index + CAMPAIGN_SEND_BATCH_SIZE).map((delivery) => delivery._id.toString())
+    });
+    if (!queued.enqueued) {
+      throw new Error(`Unable to queue campaign batch: ${queued.reason}`);
+    }
+  }
+
+  await CampaignModel.updateOne(
+    { _id: campaign._id, status: "scheduled", scheduledFor },
+    { $set: { status: "sent", sentAt: new Date(), "stats.recipients": recipients.length } }
+  );
+  return { campaignId: campaign._id.toString(), recipients: recipients.length };
+}
+
+export function campaignOpenUrl(token: string) {
+  return `${env.API_PUBLIC_URL}/api/v1/campaigns/track/${token}/open.gif`;
+}
+
+export function campaignClickUrl(token: string, target: string) {
+  return `${env.API_PUBLIC_URL}/api/v1/campaigns/track/${token}/click?url=${encodeURIComponent(target)}`;
+}
+
+// Only storefront links are tracked, so the click redirect can never be used to bounce visitors elsewhere.
+export function resolveCampaignRedirect(target?: unknown) {
+  const storefront = new URL(env.CLIENT_STOREFRONT_URL);
+  if (typeof target !== "string") {
+    return storefront.toString();
+  }
+  try {
+    const url = new URL(target);
+    return url.origin === storefront.origin ? url.toString() : storefront.toString();
+  } catch {
+    return storefront.toString();
+  }
+}
+
+// Splitting on URLs keeps the surrounding text separate so the HTML body can escape it without mangling links.
+function trackStorefrontLinks(
+  text: string,
+  token: string,
+  render: (trackedUrl: string, url: string) => string,
+  renderText: (value: string) => string = (value) => value
+) {
+  const storefrontOrigin = new URL(env.CLIENT_STOREFRONT_URL).origin;
+  return text
+    .split(/(https?:\/\/[^\s<]+)/)
+    .map((part, index) =>
+      index % 2 === 1 && part.startsWith(storefrontOrigin) ? render(campaignClickUrl(token, part), part) : renderText(part)
+    )
+    .join("");
+}
+
+function renderCampaignEmail(
+  campaign: { subject: string; body: string },
+  recipient: { email: string; firstName: string },
+  token: string
+): CampaignEmail {
+  const paragraphs = campaign.body
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+  const shopUrl = campaignClickUrl(token, env.CLIENT_STOREFRONT_URL);
+  const footer =
+    "You are receiving this because email notifications are enabled on your account. You can turn them off from your account settings.";
+  return {
+    to: recipient.email,
+    subject: campaign.subject,
+    text: [
+      `Hello ${recipient.firstName},`,
+      "",
+      ...paragraphs.flatMap((paragraph) => [trackStorefrontLinks(paragraph, token, (trackedUrl) => trackedUrl), ""]),
+      `Shop now: ${shopUrl}`,
+      "",
+      footer
+    ].join("\n"),
+    html: `
+      <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+        <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+        <p>Hello ${escapeHtml(recipient.firstName)},</p>
+        ${paragraphs
+          .map(
+            (paragraph) =>
+              `<p>${trackStorefrontLinks(
+                paragraph,
+                token,
+                (trackedUrl, url) => `<a href="${escapeHtml(trackedUrl)}">${escapeHtml(url)}</a>`,
+                escapeHtml
+              ).replace(/\n/g, "<br />")}</p>`
+          )
+          .join("\n        ")}
+        <p><a href="${shopUrl}" style="display: inline-block; padding: 10px 18px; background: #172033; color: #ffffff; text-decoration: none;">Shop now</a></p>
+        <p style="color: #6b7280; font-size: 12px;">${footer}</p>
+        <img src="${campaignOpenUrl(token)}" width="1" height="1" alt="" style="display: none;" />
+      </div>
+    `
+  };
+}
+
+// Customers who switched notifications off after dispatch are skipped here rather than at resolution time.
+export async function processCampaignSendBatch(payload: CampaignSendPayload, deliver: (email: CampaignEmail) => Promise<void>) {
+  const campaign = await CampaignModel.findOne({ _id: new Types.ObjectId(payload.campaignId) }).lean();
+  if (!campaign) {
+    return null;
+  }
+
+  const deliveries = await CampaignDeliveryModel.find({
+    _id: { $in: payload.deliveryIds.map((id) => new Types.ObjectId(id)) },
+    campaignId: campaign._id,
+    status: "queued"
+  }).lean();
+  const users = await UserModel.find({
+    tenantId: new Types.ObjectId(payload.tenantId),
+    _id: { $in: deliveries.map((delivery) => delivery.userId) }
+  })
+    .select({ email: 1, firstName: 1, notificationsEnabled: 1 })
+    .lean();
+  const userMap = new Map(users.map((user) => [user._id.toString(), user]));
+
+  const counts = { sent: 0, skipped: 0, failed: 0 };
+  for (const delivery of deliveries) {
+    const user = userMap.get(delivery.userId.toString());
+    if (!user || user.notificationsEnabled === false) {
+      counts.skipped += 1;
+      await CampaignDeliveryModel.updateOne({ _id: delivery._id, status: "queued" }, { $set: { status: "skipped" } });
+      continue;
+    }
+    try {
+      await deliver(renderCampaignEmail(campaign, user, delivery.token));
+      counts.sent += 1;
+      await CampaignDeliveryModel.updateOne({ _id: delivery._id, status: "queued" }, { $set: { status: "sent", sentAt: new Date() } });
+    } catch (error) {
+      counts.failed += 1;
+      await CampaignDeliveryModel.updateOne(
+        { _id: delivery._id, status: "queued" },
+        { $set: { status: "failed", error: (error as Error).message } }
+      );
+      console.error("[api][worker] campaign delivery failed", {
+        campaignId: payload.campaignId,
+        deliveryId: delivery._id.toString(),
+        error: (error as Error).message
+      });
+    }
+  }
+
+  await CampaignModel.updateOne(
+    { _id: campaign._id },
+    { $inc: { "stats.sent": counts.sent, "stats.skipped": counts.skipped, "stats.failed": counts.failed } }
+  );
+  return counts;
+}
+
+// Opens and clicks are counted once per recipient; a click also implies an open for clients that block images.
+export async function recordCampaignOpen(token: string) {
+  const delivery = await CampaignDeliveryModel.findOneAndUpdate({ token, openedAt: null }, { $set: { openedAt: new Date() } });
+  if (delivery) {
+    await CampaignModel.updateOne({ _id: delivery.campaignId }, { $inc: { "stats.opened": 1 } });
+  }
+  return Boolean(delivery);
+}
+
+export async function recordCampaignClick(token: string) {
+  const now = new Date();
+  const delivery = await CampaignDeliveryModel.findOneAndUpdate({ token }, { $set: { lastClickedAt: now }, $inc: { clickCount: 1 } });
+  if (!delivery) {
+    return false;
+  }
+
+  const firstClick = await CampaignDeliveryModel.updateOne({ _id: delivery._id, clickedAt: null }, { $set: { clickedAt: now } });
+  if (firstClick.modifiedCount === 1) {
+    await CampaignModel.updateOne({ _id: delivery.campaignId }, { $inc: { "stats.clicked": 1 } });
+  }
+  await recordCampaignOpen(token);
+  return true;
+}
+
+// Last-click attribution: an order's first confirmed payment credits the most recently clicked campaign inside the
+// window, and later payments on the same order (balances, offline settlements) add what they collected to that campaign.
+export async function attributeOrderToCampaign(
+  order: {
+    _id: Types.ObjectId;
+    tenantId: Types.ObjectId;
+    userId?: Types.ObjectId | null;
+    attributedCampaignId?: Types.ObjectId | null;
+  },
+  amountPaidNgn: number,
+  session: ClientSession
+) {
+  if (order.attributedCampaignId) {
+    await CampaignDeliveryModel.updateOne(
+      { campaignId: order.attributedCampaignId, orderIds: order._id },
+      { $inc: { revenueNgn: amountPaidNgn } },
+      { session }
+    );
+    await CampaignModel.updateOne({ _id: order.attributedCampaignId }, { $inc: { "stats.revenueNgn": amountPaidNgn } }, { session });
+    return order.attributedCampaignId;
+  }
+  // Guest orders have no customer to match a campaign click against.
+  if (!order.userId) {
+    return null;
+  }
+
+  const since = new Date(Date.now() - env.CAMPAIGN_ATTRIBUTION_WINDOW_DAYS * DAY_MS);
+  const delivery = await CampaignDeliveryModel.findOne({
+    tenantId: order.tenantId,
+    userId: order.userId,
+    lastClickedAt: { $gte: since }
+  })
+    .sort({ lastClickedAt: -1 })
+    .session(session)
+    .lean();
+  if (!delivery) {
+    return null;
+  }
+
+  await CampaignDeliveryModel.updateOne(
+    { _id: delivery._id },
+    { $addToSet: { orderIds: order._id }, $inc: { revenueNgn: amountPaidNgn } },
+    { session }
+  );
+  await CampaignModel.updateOne(
+    { _id: delivery.campaignId },
+    { $inc: { "stats.purchased": 1, "stats.revenueNgn": amountPaidNgn } },
+    { session }
+  );
+  return delivery.campaignId;
+}
@@ -0,0 +1,84 @@
+import type { Types } from "mongoose";
+import { CART_LINE_MAX_QUANTITY } from "@sws/shared-types";
+import { CartModel } from "../models/cart.js";
+import { ProductModel } from "../models/catalog.js";
+import { availableStock } from "./stockReservations.js";
+import { isPreorderProduct, remainingPreorderAllocation } from "../utils/preorder.js";
+
+// Folds a guest's session cart into the customer's cart after they sign in. Quantities for the same variant are
+// summed and capped by what can still be sold and the per-line limit; inactive products are dropped. The guest
+// cart is deleted either way so it cannot be merged twice.
+export async function mergeGuestCart(params: { tenantId: Types.ObjectId; userId: Types.ObjectId; sessionId?: string | null }) {
+  if (!params.sessionId) {
+    return null;
+  }
+
+  const guestCart = await CartModel.findOne({ tenantId: params.tenantId, sessionId: params.sessionId });
+  if (!guestCart) {
+    return null;
+  }
+  if (guestCart.lines.length === 0) {
+    await guestCart.deleteOne();
+    return null;
+  }
+
+  const products = await ProductModel.find({
+    tenantId: params.tenantId,
+    _id: { $in: guestCart.lines.map((line) => line.productId) },
+    active: true
+  })
+    .select({ preorder: 1, variants: 1 })
+    .lean();
+  const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+
+  const userCart =
+    (await CartModel.findOne({ tenantId: params.tenantId, userId: params.userId, active: true })) ??
+    new CartModel({ tenantId: params.tenantId, userId: params.userId, sessionId: null, lines: [] });
+
+  const result = { mergedLines: 0, cappedLines: [] as string[], droppedLines: [] as string[] };
+  for (const guestLine of guestCart.lines) {
+    const product = productMap.get(guestLine.productId.toString());
+    const variant = product?.variants.find((entry) => entry._id.equals(guestLine.variantId));
+    if (!product || !variant) {
+      result.droppedLines.push(guestLine.name);
+      continue;
+    }
+
+    const sellable = isPreorderProduct(product) ? remainingPreorderAllocation(variant) : availableStock(variant);
+    const cap = Math.min(CART_LINE_MAX_QUANTITY, sellable ?? CART_LINE_MAX_QUANTITY);
+    const existing = userCart.lines.find((line) => line.variantId.equals(guestLine.variantId));
+    const requested = (existing?.quantity ?? 0) + guestLine.quantity;
+    const quantity = Math.min(requested, cap);
+
+    if (quantity < requested) {
+      result.cappedLines.push(guestLine.name);
+    }
+    if (existing) {
+      existing.quantity = Math.max(existing.quantity, quantity);
+    } else if (quantity > 0) {
+      userCart.lines.push({
+        productId: guestLine.productId,
+        variantId: guestLine.variantId,
+        name: guestLine.name,
+        quantity,
+        unitPriceNgn: guestLine.unitPriceNgn,
+        originalPriceNgn: guestLine.originalPriceNgn,
+        flashDealId: guestLine.flashDealId,
+        flashDealEndsAt: guestLine.flashDealEndsAt,
+        preorder: guestLine.preorder
+      });
+    } else {
+      result.droppedLines.push(guestLine.name);
+      continue;
+    }
+    result.mergedLines += 1;
+  }
+
+  if (!userCart.discountCode && guestCart.discountCode) {
+    userCart.discountCode = guestCart.discountCode;
+  }
+
+  await userCart.save();
+  await guestCart.deleteOne();
+  return result;
+}
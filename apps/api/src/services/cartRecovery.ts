@@ -0,0 +1,169 @@
+import { randomBytes } from "crypto";
+import type { ClientSession, Types } from "mongoose";
+import { env } from "../config/env.js";
+import { CartModel } from "../models/cart.js";
+import { CartRecoveryModel } from "../models/cartRecovery.js";
+import { DiscountModel } from "../models/discount.js";
+import { UserModel } from "../models/user.js";
+import { enqueueAbandonedCartNotification, type AbandonedCartNotificationPayload } from "./notificationQueue.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 200;
+// Carts already idle this long when first seen are left alone, so enabling reminders does not mail every stale cart.
+const RECOVERY_START_WINDOW_MS = 7 * 24 * HOUR_MS;
+
+type NotifyAbandonedCart = (payload: AbandonedCartNotificationPayload) => Promise<{ enqueued: boolean }>;
+
+function reminderSchedule() {
+  return [...env.ABANDONED_CART_REMINDER_HOURS].sort((a, b) => a - b);
+}
+
+async function createRecoveryDiscount(tenantId: Types.ObjectId, now: Date) {
+  return DiscountModel.create({
+    tenantId,
+    code: `COMEBACK-${randomBytes(4).toString("hex").toUpperCase()}`,
+    type: "percent",
+    value: env.ABANDONED_CART_DISCOUNT_PERCENT,
+    maxUses: 1,
+    startsAt: now,
+    endsAt: new Date(now.getTime() + env.ABANDONED_CART_DISCOUNT_VALID_DAYS * 24 * HOUR_MS)
+  });
+}
+
+// Reminder n goes out once the cart has been idle for the n-th configured interval, and never sooner after the
+// previous reminder than the gap between the two intervals. Editing the cart keeps the sequence going; a cart
+// edited after its last reminder starts a fresh one. The single-use discount, when enabled, rides on the last reminder.
+export async function sweepAbandonedCarts(now = new Date(), notify: NotifyAbandonedCart = enqueueAbandonedCartNotification) {
+  const schedule = reminderSchedule();
+  // Stale carts that never started a sequence would otherwise fill every batch ahead of the ones still due.
+  const recoveringCartIds = await CartRecoveryModel.distinct("cartId", { status: "active", remindersSent: { $lt: schedule.length } });
+  const carts = await CartModel.find({
+    userId: { $ne: null },
+    active: true,
+    "lines.0": { $exists: true },
+    updatedAt: { $lte: new Date(now.getTime() - schedule[0] * HOUR_MS) },
+    $or: [{ updatedAt: { $gte: new Date(now.getTime() - RECOVERY_START_WINDOW_MS) } }, { _id: { $in: recoveringCartIds } }]
+  })
+    .sort({ updatedAt: 1 })
+    .limit(SWEEP_BATCH_SIZE)
+    .lean();
+  if (carts.length === 0) {
+    return 0;
+  }
+
+  const [recoveries, users] = await Promise.all([
+    CartRecoveryModel.find({ cartId: { $in: carts.map((cart) => cart._id) }, status: "active" }),
+    UserModel.find({ _id: { $in: carts.map((cart) => cart.userId) }, role: "customer" })
+      .select({ email: 1, firstName: 1, lastName: 1, notificationsEnabled: 1 })
+      .lean()
+  ]);
+  const recoveryMap = new Map(recoveries.map((recovery) => [recovery.cartId.toString(), recovery]));
+  const userMap = new Map(users.map((user) => [user._id.toString(), user]));
+
+  let sent = 0;
+  for (const cart of carts) {
+    const user = userMap.get(cart.userId!.toString());
+    if (!user || user.notificationsEnabled === false) {
+      continue;
+    }
+
+    let recovery = recoveryMap.get(cart._id.toString()) ?? null;
+    if (recovery && recovery.remindersSent >= schedule.length && recovery.lastRemindedAt && cart.updatedAt > recovery.lastRemindedAt) {
+      recovery.status = "expired";
+      await recovery.save();
+      recovery = null;
+    }
+
+    const remindersSent = recovery?.remindersSent ?? 0;
+    if (remindersSent >= schedule.length) {
+      continue;
+    }
+    const idleMs = now.getTime() - cart.updatedAt.getTime();
+    if (!recovery && idleMs > RECOVERY_START_WINDOW_MS) {
+      continue;
+    }
+    const dueAt = Math.max(
+      cart.updatedAt.getTime() + schedule[remindersSent] * HOUR_MS,
+      recovery?.lastRemindedAt ? recovery.lastRemindedAt.getTime() + (schedule[remindersSent] - schedule[remindersSent - 1]) * HOUR_MS : 0
+    );
+    if (dueAt > now.getTime()) {
+      continue;
+    }
+
+    recovery ??= new CartRecoveryModel({ tenantId: cart.tenantId, cartId: cart._id, userId: cart.userId });
+    const finalReminder = remindersSent + 1 === schedule.length;
+    if (finalReminder && env.ABANDONED_CART_DISCOUNT_PERCENT > 0 && !recovery.discountId) {
+      const discount = await createRecoveryDiscount(cart.tenantId, now);
+      recovery.discountId = discount._id;
+      recovery.discountCode = discount.code;
+    }
+
+    // The code itself stops working at its endsAt, so the email never promises a later date than that.
+    const discount = recovery.discountId ? await DiscountModel.findById(recovery.discountId).select({ endsAt: 1 }).lean() : null;
+    const offerEndsAt = new Date(now.getTime() + env.ABANDONED_CART_DISCOUNT_VALID_DAYS * 24 * HOUR_MS);
+    const discountExpiresAt = discount?.endsAt && discount.endsAt < offerEndsAt ? discount.endsAt : offerEndsAt;
+
+    const resumeUrl = new URL("/cart", env.CLIENT_STOREFRONT_URL);
+    if (recovery.discountCode) {
+      resumeUrl.searchParams.set("discount", recovery.discountCode);
+    }
+    const queued = await notify({
+      tenantId: cart.tenantId.toString(),
+      userId: user._id.toString(),
+      email: user.email,
+      customerName: `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim(),
+      reminder: remindersSent + 1,
+      totalReminders: schedule.length,
+      lines: cart.lines.map((line) => ({ name: line.name, quantity: line.quantity, unitPriceNgn: line.unitPriceNgn })),
+      subtotalNgn: cart.lines.reduce((sum, line) => sum + line.quantity * line.unitPriceNgn, 0),
+      resumeUrl: resumeUrl.toString(),
+      discount: recovery.discountCode
+        ? {
+            code: recovery.discountCode,
+            percent: env.ABANDONED_CART_DISCOUNT_PERCENT,
+            expiresAt: discountExpiresAt.toISOString()
+          }
+        : null
+    });
+    if (!queued.enqueued) {
+      continue;
+    }
+
+    recovery.remindersSent = remindersSent + 1;
+    recovery.lastRemindedAt = now;
+    await recovery.save();
+    sent += 1;
+  }
+
+  return sent;
+}
+
+// Called when a customer's cart turns into an order; only carts that were actually reminded count as recovered.
+export async function recordCartRecoveryConversion(
+  order: { _id: Types.ObjectId; tenantId: Types.ObjectId; userId?: Types.ObjectId | null; totalNgn: number },
+  session: ClientSession
+) {
+  if (!order.userId) {
+    return;
+  }
+  await CartRecoveryModel.updateOne(
+    { tenantId: order.tenantId, userId: order.userId, status: "active", remindersSent: { $gt: 0 } },
+    { $set: { status: "recovered", orderId: order._id, revenueNgn: order.totalNgn, recoveredAt: new Date() } },
+    { session }
+  );
+}
+
+export async function summarizeCartRecovery(tenantId: Types.ObjectId) {
+  const [summary] = await CartRecoveryModel.aggregate<{ reminded: number; recovered: number; revenueNgn: number }>([
+    { $match: { tenantId } },
+    {
+      $group: {
+        _id: null,
+        reminded: { $sum: 1 },
+        recovered: { $sum: { $cond: [{ $eq: ["$status", "recovered"] }, 1, 0] } },
+        revenueNgn: { $sum: "$revenueNgn" }
+      }
+    }
+  ]);
+  return summary ?? { reminded: 0, recovered: 0, revenueNgn: 0 };
+}
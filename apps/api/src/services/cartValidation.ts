@@ -0,0 +1,132 @@
+import { CartModel } from "../models/cart.js";
+import { ProductModel } from "../models/catalog.js";
+import { OrderModel } from "../models/order.js";
+import { StockReservationModel } from "../models/stockReservation.js";
+import { applyFlashDealPrice, resolveFlashDealsByProduct } from "./flashDeals.js";
+import { availableStock } from "./stockReservations.js";
+import { toObjectId } from "../utils/ids.js";
+import { isPreorderProduct, remainingPreorderAllocation } from "../utils/preorder.js";
+
+type CartInstance = ReturnType<typeof CartModel.hydrate>;
+
+type CartChangeNotice = {
+  type: "price_changed" | "quantity_reduced" | "removed";
+  reason: "product_unavailable" | "variant_unavailable" | "out_of_stock" | null;
+  lineId: string;
+  productId: CartInstance["lines"][number]["productId"];
+  variantId: CartInstance["lines"][number]["variantId"];
+  name: string;
+  previousPriceNgn: number | null;
+  unitPriceNgn: number | null;
+  previousQuantity: number | null;
+  quantity: number | null;
+  detectedAt: Date;
+};
+
+// Units already held by the shopper's own pending checkout count as available to them, so re-opening the cart
+// while a payment is outstanding does not read their own reservation as missing stock.
+async function resolveOwnReservedUnits(cart: CartInstance) {
+  const owner = cart.userId ? { userId: cart.userId } : cart.sessionId ? { guestSessionId: cart.sessionId } : null;
+  if (!owner) {
+    return new Map<string, number>();
+  }
+  const pendingOrders = await OrderModel.find({ tenantId: cart.tenantId, ...owner, status: "pending" }).select({ _id: 1 }).lean();
+  if (pendingOrders.length === 0) {
+    return new Map<string, number>();
+  }
+  const reservations = await StockReservationModel.find({
+    orderId: { $in: pendingOrders.map((order) => order._id) },
+    status: "active"
+  }).lean();
+  const reserved = new Map<string, number>();
+  for (const reservation of reservations) {
+    const key = reservation.variantId.toString();
+    reserved.set(key, (reserved.get(key) ?? 0) + reservation.quantity);
+  }
+  return reserved;
+}
+
+// Re-checks every line against the live catalogue: inactive products and missing variants are removed, quantities
+// are trimmed to what can still be sold, and prices follow the current variant price and flash deal. The cart is
+// modified in place; callers persist it together with the returned notices.
+export async function revalidateCart(cart: CartInstance) {
+  if (cart.lines.length === 0) {
+    return [];
+  }
+
+  const [products, flashDeals, ownReserved] = await Promise.all([
+    ProductModel.find({ tenantId: cart.tenantId, _id: { $in: cart.lines.map((line) => line.productId) }, active: true })
+      .select({ preorder: 1, variants: 1 })
+      .lean(),
+    resolveFlashDealsByProduct(cart.tenantId),
+    resolveOwnReservedUnits(cart)
+  ]);
+  const productMap = new Map(products.map((product) => [product._id.toString(), product]));
+
+  const notices: CartChangeNotice[] = [];
+  for (const line of [...cart.lines]) {
+    const notice = {
+      lineId: line._id.toString(),
+      productId: line.productId,
+      variantId: line.variantId,
+      name: line.name,
+      previousPriceNgn: null,
+      unitPriceNgn: null,
+      previousQuantity: null,
+      quantity: null,
+      detectedAt: new Date()
+    };
+    const product = productMap.get(line.productId.toString());
+    const variant = product?.variants.find((entry) => entry._id.equals(line.variantId));
+    if (!product || !variant) {
+      notices.push({ ...notice, type: "removed", reason: product ? "variant_unavailable" : "product_unavailable", previousQuantity: line.quantity });
+      line.deleteOne();
+      continue;
+    }
+
+    const preorder = isPreorderProduct(product);
+    const sellable = preorder
+      ? remainingPreorderAllocation(variant)
+      : availableStock(variant) + (ownReserved.get(variant._id.toString()) ?? 0);
+    if (sellable !== null && sellable < line.quantity) {
+      if (sellable <= 0) {
+        notices.push({ ...notice, type: "removed", reason: "out_of_stock", previousQuantity: line.quantity, quantity: 0 });
+        line.deleteOne();
+        continue;
+      }
+      notices.push({ ...notice, type: "quantity_reduced", reason: null, previousQuantity: line.quantity, quantity: sellable });
+      line.quantity = sellable;
+    }
+
+    const liveDeal = flashDeals.get(product._id.toString());
+    const pricing = applyFlashDealPrice(variant.priceNgn, liveDeal);
+    if (pricing.priceNgn !== line.unitPriceNgn) {
+      notices.push({ ...notice, type: "price_changed", reason: null, previousPriceNgn: line.unitPriceNgn, unitPriceNgn: pricing.priceNgn });
+    }
+    line.set({
+      unitPriceNgn: pricing.priceNgn,
+      originalPriceNgn: pricing.originalPriceNgn,
+      flashDealId: liveDeal ? toObjectId(liveDeal.id) : null,
+      flashDealEndsAt: liveDeal?.endAt ?? null,
+      preorder
+    });
+  }
+
+  return notices;
+}
+
+export function serializeCartChangeNotice(notice: CartInstance["changeNotices"][number]) {
+  return {
+    type: notice.type,
+    reason: notice.reason ?? null,
+    lineId: notice.lineId,
+    productId: notice.productId.toString(),
+    variantId: notice.variantId.toString(),
+    name: notice.name,
+    previousPriceNgn: notice.previousPriceNgn ?? null,
+    unitPriceNgn: notice.unitPriceNgn ?? null,
+    previousQuantity: notice.previousQuantity ?? null,
+    quantity: notice.quantity ?? null,
+    detectedAt: notice.detectedAt
+  };
+}
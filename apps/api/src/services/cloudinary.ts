@@ -27,6 +27,10 @@ export function getCloudinaryConfig() {
   };
 }
 
+export function cloudinaryImageUrl(publicId: string) {
+  return `https://res.cloudinary.com/${getCloudinaryConfig().cloudName}/image/upload/${publicId}`;
+}
+
 export function createSignedUploadPayload(params: { folder: string; publicId?: string }) {
   const timestamp = Math.floor(Date.now() / 1000);
   const uploadParams: Record<string, SignableValue> = {
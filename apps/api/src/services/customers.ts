@@ -0,0 +1,15 @@
+import type { Types } from "mongoose";
+import { UserModel } from "../models/user.js";
+
+// Public listings show customers as first name and last initial, e.g. "Tolu R.".
+export async function resolveCustomerDisplayNames(records: Array<{ userId: Types.ObjectId }>) {
+  const users = await UserModel.find({ _id: { $in: records.map((record) => record.userId) } })
+    .select({ firstName: 1, lastName: 1 })
+    .lean();
+  return new Map(
+    users.map((user) => [
+      user._id.toString(),
+      [user.firstName, user.lastName ? `${user.lastName[0]}.` : null].filter(Boolean).join(" ") || "Customer"
+    ])
+  );
+}
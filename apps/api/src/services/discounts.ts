@@ -0,0 +1,43 @@
+import type { Types } from "mongoose";
+import { DiscountModel } from "../models/discount.js";
+
+export type AppliedDiscount = {
+  discountId: Types.ObjectId;
+  code: string;
+  type: "percent" | "fixed";
+  value: number;
+};
+
+export async function validateDiscountCode(params: {
+  tenantId: Types.ObjectId;
+  code: string;
+  subtotalNgn: number;
+  now?: Date;
+}): Promise<AppliedDiscount> {
+  const now = params.now ?? new Date();
+  const code = params.code.trim().toUpperCase();
+  const discount = await DiscountModel.findOne({ tenantId: params.tenantId, code }).lean();
+
+  if (!discount || !discount.active) {
+    throw new Error("Discount code not found");
+  }
+  if (discount.startsAt && discount.startsAt.getTime() > now.getTime()) {
+    throw new Error("Discount code is not active yet");
+  }
+  if (discount.endsAt && discount.endsAt.getTime() < now.getTime()) {
+    throw new Error("Discount code has expired");
+  }
+  if (discount.maxUses !== null && discount.maxUses !== undefined && discount.usedCount >= discount.maxUses) {
+    throw new Error("Discount code usage limit reached");
+  }
+  if (params.subtotalNgn < (discount.minOrderNgn ?? 0)) {
+    throw new Error(`Discount code requires a minimum order of NGN ${(discount.minOrderNgn ?? 0).toLocaleString()}`);
+  }
+
+  return {
+    discountId: discount._id,
+    code: discount.code,
+    type: discount.type,
+    value: discount.value
+  };
+}
@@ -1,9 +1,16 @@
 import { Worker } from "bullmq";
 import { Redis } from "ioredis";
 import nodemailer from "nodemailer";
+import { escapeHtml } from "../utils/html.js";
+import { processCampaignSendBatch, type CampaignEmail } from "./campaigns.js";
 import type {
+  AbandonedCartNotificationPayload,
   AdminOtpNotificationPayload,
+  CampaignSendPayload,
   OrderStatusNotificationPayload,
+  QuestionAnsweredNotificationPayload,
+  RefundNotificationPayload,
+  ReportExportReadyNotificationPayload,
   WishlistStockNotificationPayload
 } from "./notificationQueue.js";
 
@@ -37,6 +44,8 @@ const fromAddress = process.env.EMAIL_FROM ?? "Shop with Seye <shopws@immersiavr
 function getOrderSubject(payload: OrderStatusNotificationPayload) {
   const subjectMap = {
     paid: `Payment Confirmed - ${payload.orderRef}`,
+    awaiting_stock: `Preorder Confirmed - ${payload.orderRef}`,
+    awaiting_balance: `Balance Payment Due - ${payload.orderRef}`,
     shipped: `Order Shipped - ${payload.orderRef}`,
     delivered: `Order Delivered - ${payload.orderRef}`
   } as const;
@@ -47,6 +56,8 @@ function getOrderSubject(payload: OrderStatusNotificationPayload) {
 function getOrderMessage(payload: OrderStatusNotificationPayload) {
   const introMap = {
     paid: "Your payment has been confirmed and we are preparing your order.",
+    awaiting_stock: "Your preorder payment has been confirmed. We will let you know as soon as the stock arrives.",
+    awaiting_balance: "Good news. Your preorder stock has arrived. Please complete your balance payment so we can ship your order.",
     shipped: "Great news. Your order has been shipped.",
     delivered: "Your order has been marked as delivered."
   } as const;
@@ -184,6 +195,200 @@ async function processWishlistStockNotification(payload: WishlistStockNotificati
   });
 }
 
+async function processRefundNotification(payload: RefundNotificationPayload) {
+  const amount = `NGN ${payload.amountNgn.toLocaleString()}`;
+  const subject =
+    payload.status === "processed" ? `Refund Processed - ${payload.orderRef}` : `Refund Initiated - ${payload.orderRef}`;
+  const intro =
+    payload.status === "processed"
+      ? `Your refund of ${amount} has been processed. Depending on your bank it may take a few days to reflect.`
+      : `We have started a refund of ${amount} for your order.`;
+  const text = [
+    `Hi ${payload.customerName || "Customer"},`,
+    "",
+    intro,
+    `Order Reference: ${payload.orderRef}`,
+    `Refund Reference: ${payload.refundRef}`,
+    payload.reason ? `Reason: ${payload.reason}` : null,
+    "",
+    "Thank you for shopping with Shop with Seye."
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+      <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+      <p>Hi ${payload.customerName || "Customer"},</p>
+      <p>${intro}</p>
+      <p><strong>Order Reference:</strong> ${payload.orderRef}</p>
+      <p><strong>Refund Reference:</strong> ${payload.refundRef}</p>
+      ${payload.reason ? `<p><strong>Reason:</strong> ${payload.reason}</p>` : ""}
+      <p>Thank you for shopping with Shop with Seye.</p>
+    </div>
+  `;
+
+  if (!transporter) {
+    console.warn("[api][worker] SMTP not configured. Logging refund payload.", {
+      to: payload.email,
+      subject
+    });
+    return;
+  }
+
+  await transporter.sendMail({
+    from: fromAddress,
+    to: payload.email,
+    subject,
+    text,
+    html
+  });
+}
+
+async function processReportExportReadyNotification(payload: ReportExportReadyNotificationPayload) {
+  const subject = `Report export ready: ${payload.report}`;
+  const text = [
+    "Hello,",
+    "",
+    `Your ${payload.format.toUpperCase()} export of the ${payload.report} report is ready (${payload.rowCount} rows).`,
+    `Download it from the admin dashboard or GET /api/v1/admin/reports/exports/${payload.jobId}?download=true.`,
+    `The file is available until ${new Date(payload.expiresAt).toUTCString()}.`
+  ].join("\n");
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+      <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+      <p>Your ${payload.format.toUpperCase()} export of the <strong>${payload.report}</strong> report is ready (${payload.rowCount} rows).</p>
+      <p><strong>Export ID:</strong> ${payload.jobId}</p>
+      <p>The file is available until ${new Date(payload.expiresAt).toUTCString()}.</p>
+    </div>
+  `;
+
+  if (!transporter) {
+    console.warn("[api][worker] SMTP not configured. Logging report export payload.", { to: payload.email, subject });
+    return;
+  }
+
+  await transporter.sendMail({
+    from: fromAddress,
+    to: payload.email,
+    subject,
+    text,
+    html
+  });
+}
+
+function getAbandonedCartMessage(payload: AbandonedCartNotificationPayload) {
+  const subject = payload.discount
+    ? `Your cart is waiting - ${payload.discount.percent}% off inside`
+    : payload.reminder === 1
+      ? "You left something in your cart"
+      : "Your cart is still waiting";
+  const itemRows = payload.lines.map((line) => `${line.quantity} x ${line.name} - NGN ${(line.quantity * line.unitPriceNgn).toLocaleString()}`);
+  const discountNote = payload.discount
+    ? `Use code ${payload.discount.code} for ${payload.discount.percent}% off before ${new Date(payload.discount.expiresAt).toUTCString()}.`
+    : null;
+
+  return {
+    subject,
+    text: [
+      `Hi ${payload.customerName || "Customer"},`,
+      "",
+      "You left these items in your cart:",
+      ...itemRows,
+      `Subtotal: NGN ${payload.subtotalNgn.toLocaleString()}`,
+      discountNote,
+      "",
+      `Complete your order: ${payload.resumeUrl}`
+    ]
+      .filter((line) => line !== null)
+      .join("\n"),
+    html: `
+      <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+        <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+        <p>Hi ${payload.customerName || "Customer"},</p>
+        <p>You left these items in your cart:</p>
+        <ul>${itemRows.map((row) => `<li>${row}</li>`).join("")}</ul>
+        <p><strong>Subtotal:</strong> NGN ${payload.subtotalNgn.toLocaleString()}</p>
+        ${discountNote ? `<p>${discountNote}</p>` : ""}
+        <p><a href="${payload.resumeUrl}" style="display: inline-block; padding: 10px 18px; background: #172033; color: #ffffff; text-decoration: none;">Complete your order</a></p>
+      </div>
+    `
+  };
+}
+
+async function processAbandonedCartNotification(payload: AbandonedCartNotificationPayload) {
+  const content = getAbandonedCartMessage(payload);
+
+  if (!transporter) {
+    console.warn("[api][worker] SMTP not configured. Logging abandoned cart payload.", { to: payload.email, subject: content.subject });
+    return;
+  }
+
+  await transporter.sendMail({
+    from: fromAddress,
+    to: payload.email,
+    subject: content.subject,
+    text: content.text,
+    html: content.html
+  });
+}
+
+// The question and answer are free text, so they are escaped before going into the HTML body.
+function getQuestionAnsweredMessage(payload: QuestionAnsweredNotificationPayload) {
+  return {
+    subject: `Your question about ${payload.productName} was answered`,
+    text: [
+      `Hi ${payload.customerName || "Customer"},`,
+      "",
+      `You asked about ${payload.productName}:`,
+      payload.question,
+      "",
+      "Our answer:",
+      payload.answer,
+      "",
+      `View the product: ${payload.productUrl}`
+    ].join("\n"),
+    html: `
+      <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+        <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+        <p>Hi ${escapeHtml(payload.customerName || "Customer")},</p>
+        <p>You asked about <strong>${escapeHtml(payload.productName)}</strong>:</p>
+        <blockquote style="margin: 0 0 12px; padding-left: 12px; border-left: 3px solid #d0d5dd;">${escapeHtml(payload.question)}</blockquote>
+        <p><strong>Our answer:</strong> ${escapeHtml(payload.answer)}</p>
+        <p><a href="${payload.productUrl}" style="display: inline-block; padding: 10px 18px; background: #172033; color: #ffffff; text-decoration: none;">View the product</a></p>
+      </div>
+    `
+  };
+}
+
+async function processQuestionAnsweredNotification(payload: QuestionAnsweredNotificationPayload) {
+  const content = getQuestionAnsweredMessage(payload);
+
+  if (!transporter) {
+    console.warn("[api][worker] SMTP not configured. Logging question answered payload.", { to: payload.email, subject: content.subject });
+    return;
+  }
+
+  await transporter.sendMail({
+    from: fromAddress,
+    to: payload.email,
+    subject: content.subject,
+    text: content.text,
+    html: content.html
+  });
+}
+
+async function processCampaignSend(payload: CampaignSendPayload) {
+  const counts = await processCampaignSendBatch(payload, async (email: CampaignEmail) => {
+    if (!transporter) {
+      console.warn("[api][worker] SMTP not configured. Logging campaign email payload.", { to: email.to, subject: email.subject });
+      return;
+    }
+
+    await transporter.sendMail({ from: fromAddress, ...email });
+  });
+  console.log("[api][worker] campaign batch processed", { campaignId: payload.campaignId, ...counts });
+}
+
 function isEmbeddedWorkerEnabled() {
   const raw = (process.env.EMBED_NOTIFICATIONS_WORKER ?? "true").trim().toLowerCase();
   return !["false", "0", "no", "off"].includes(raw);
@@ -223,6 +428,31 @@ export function startEmbeddedNotificationWorker() {
 
       if (job.name === "wishlist-stock") {
         await processWishlistStockNotification(job.data as WishlistStockNotificationPayload);
+        return;
+      }
+
+      if (job.name === "refund-status") {
+        await processRefundNotification(job.data as RefundNotificationPayload);
+        return;
+      }
+
+      if (job.name === "report-export-ready") {
+        await processReportExportReadyNotification(job.data as ReportExportReadyNotificationPayload);
+        return;
+      }
+
+      if (job.name === "campaign-send") {
+        await processCampaignSend(job.data as CampaignSendPayload);
+        return;
+      }
+
+      if (job.name === "abandoned-cart") {
+        await processAbandonedCartNotification(job.data as AbandonedCartNotificationPayload);
+        return;
+      }
+
+      if (job.name === "question-answered") {
+        await processQuestionAnsweredNotification(job.data as QuestionAnsweredNotificationPayload);
       }
     },
     { connection }
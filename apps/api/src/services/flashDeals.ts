@@ -0,0 +1,69 @@
+import type { Types } from "mongoose";
+import { FlashDealModel } from "../models/flashDeal.js";
+
+export type ActiveFlashDeal = {
+  id: string;
+  title: string;
+  discountPercent: number;
+  startAt: Date;
+  endAt: Date;
+  productIds: string[];
+};
+
+export async function findActiveFlashDeals(tenantId: Types.ObjectId, now = new Date()): Promise<ActiveFlashDeal[]> {
+  const deals = await FlashDealModel.find({
+    tenantId,
+    active: true,
+    startAt: { $lte: now },
+    endAt: { $gt: now }
+  })
+    .sort({ endAt: 1 })
+    .lean();
+
+  return deals.map((deal) => ({
+    id: deal._id.toString(),
+    title: deal.title,
+    discountPercent: deal.discountPercent,
+    startAt: deal.startAt,
+    endAt: deal.endAt,
+    productIds: deal.productIds.map((id) => id.toString())
+  }));
+}
+
+// When several live deals cover the same product, the deepest discount wins.
+export async function resolveFlashDealsByProduct(tenantId: Types.ObjectId, now = new Date()) {
+  const deals = await findActiveFlashDeals(tenantId, now);
+  const byProduct = new Map<string, ActiveFlashDeal>();
+  for (const deal of deals) {
+    for (const productId of deal.productIds) {
+      const current = byProduct.get(productId);
+      if (!current || deal.discountPercent > current.discountPercent) {
+        byProduct.set(productId, deal);
+      }
+    }
+  }
+  return byProduct;
+}
+
+export function serializeFlashDeal(deal?: ActiveFlashDeal | null) {
+  if (!deal) {
+    return null;
+  }
+  return {
+    id: deal.id,
+    title: deal.title,
+    discountPercent: deal.discountPercent,
+    endsAt: deal.endAt
+  };
+}
+
+export function applyFlashDealPrice(priceNgn: number, deal?: ActiveFlashDeal | null) {
+  if (!deal) {
+    return { priceNgn, originalPriceNgn: priceNgn, flashDeal: null };
+  }
+  return {
+    priceNgn: Math.round((priceNgn * (100 - deal.discountPercent)) / 100),
+    originalPriceNgn: priceNgn,
+    flashDeal: serializeFlashDeal(deal)
+  };
+}
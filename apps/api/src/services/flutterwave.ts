@@ -0,0 +1,96 @@
+import axios from "axios";
+import crypto from "crypto";
+import { env } from "../config/env.js";
+
+const FLUTTERWAVE_API = "https://api.flutterwave.com/v3";
+
+type FlutterwaveInitPayload = {
+  email: string;
+  amountNgn: number;
+  reference: string;
+  redirectUrl: string;
+  metadata: Record<string, unknown>;
+};
+
+function authHeaders() {
+  if (!env.FLUTTERWAVE_SECRET_KEY) {
+    throw new Error("FLUTTERWAVE_SECRET_KEY is not configured");
+  }
+  return {
+    Authorization: `Bearer ${env.FLUTTERWAVE_SECRET_KEY}`,
+    "Content-Type": "application/json"
+  };
+}
+
+export async function initializeFlutterwavePayment(payload: FlutterwaveInitPayload) {
+  const response = await axios.post(
+    `${FLUTTERWAVE_API}/payments`,
+    {
+      tx_ref: payload.reference,
+      amount: payload.amountNgn,
+      currency: "NGN",
+      redirect_url: payload.redirectUrl,
+      customer: { email: payload.email },
+      meta: payload.metadata
+    },
+    { headers: authHeaders(), timeout: 10000 }
+  );
+
+  if (response.data?.status !== "success") {
+    throw new Error("Failed to initialize Flutterwave payment");
+  }
+
+  return response.data.data as { link: string };
+}
+
+export async function verifyFlutterwaveTransaction(reference: string) {
+  const response = await axios.get(`${FLUTTERWAVE_API}/transactions/verify_by_reference`, {
+    params: { tx_ref: reference },
+    headers: authHeaders(),
+    timeout: 10000
+  });
+
+  if (response.data?.status !== "success") {
+    throw new Error("Failed to verify Flutterwave transaction");
+  }
+
+  return response.data.data as {
+    id: number;
+    tx_ref: string;
+    status: string;
+    amount: number;
+    currency: string;
+    created_at?: string;
+    processor_response?: string;
+  };
+}
+
+// Flutterwave refunds are keyed by its numeric transaction id, so the reference is resolved first.
+export async function createFlutterwaveRefund(payload: { transactionReference: string; amountNgn: number; comments?: string }) {
+  const transaction = await verifyFlutterwaveTransaction(payload.transactionReference);
+  const response = await axios.post(
+    `${FLUTTERWAVE_API}/transactions/${transaction.id}/refund`,
+    { amount: payload.amountNgn, comments: payload.comments },
+    { headers: authHeaders(), timeout: 10000 }
+  );
+
+  if (response.data?.status !== "success") {
+    throw new Error("Failed to create Flutterwave refund");
+  }
+
+  return response.data.data as { id: number; status: string; amount_refunded: number };
+}
+
+// Without a configured hash anyone could post events, so production rejects every webhook until one is set.
+export function verifyFlutterwaveWebhookSignature(signature: string | undefined) {
+  if (!env.FLUTTERWAVE_WEBHOOK_HASH) {
+    return env.NODE_ENV !== "production";
+  }
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(env.FLUTTERWAVE_WEBHOOK_HASH);
+  const received = Buffer.from(signature);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
@@ -0,0 +1,64 @@
+import type { Types } from "mongoose";
+import { GuestContactModel } from "../models/guestContact.js";
+import { OrderModel } from "../models/order.js";
+import { PaymentModel } from "../models/payment.js";
+import { RefundModel } from "../models/refund.js";
+import { UserModel } from "../models/user.js";
+
+// Orders belong to a customer account or, for guest checkout, to a guest contact keyed by email.
+export async function resolveOrderContact(order: { userId?: Types.ObjectId | null; guestContactId?: Types.ObjectId | null }) {
+  if (order.userId) {
+    const user = await UserModel.findById(order.userId).select({ email: 1, firstName: 1, lastName: 1 }).lean();
+    return user
+      ? { userId: order.userId.toString(), email: user.email, name: `${user.firstName ?? ""} ${user.lastName ?? ""}`.trim(), guest: false }
+      : null;
+  }
+  if (order.guestContactId) {
+    const contact = await GuestContactModel.findById(order.guestContactId).lean();
+    return contact
+      ? { userId: null, email: contact.email, name: `${contact.firstName} ${contact.lastName}`.trim(), guest: true }
+      : null;
+  }
+  return null;
+}
+
+export async function upsertGuestContact(params: {
+  tenantId: Types.ObjectId;
+  email: string;
+  phone: string;
+  firstName?: string;
+  lastName?: string;
+}) {
+  return GuestContactModel.findOneAndUpdate(
+    { tenantId: params.tenantId, email: params.email.toLowerCase() },
+    {
+      $set: {
+        phone: params.phone,
+        ...(params.firstName ? { firstName: params.firstName } : {}),
+        ...(params.lastName ? { lastName: params.lastName } : {})
+      }
+    },
+    { upsert: true, new: true }
+  );
+}
+
+// Only called once the email is proven (OTP-verified registration), since claiming hands over order history.
+export async function claimGuestOrders(params: { tenantId: Types.ObjectId; userId: Types.ObjectId; email: string }) {
+  const contact = await GuestContactModel.findOne({ tenantId: params.tenantId, email: params.email.toLowerCase() });
+  if (!contact) {
+    return 0;
+  }
+
+  const orders = await OrderModel.find({ tenantId: params.tenantId, guestContactId: contact._id, userId: null }).select({ _id: 1 }).lean();
+  const orderIds = orders.map((order) => order._id);
+  if (orderIds.length > 0) {
+    await OrderModel.updateMany({ _id: { $in: orderIds } }, { $set: { userId: params.userId } });
+    await PaymentModel.updateMany({ orderId: { $in: orderIds } }, { $set: { userId: params.userId } });
+    await RefundModel.updateMany({ orderId: { $in: orderIds } }, { $set: { userId: params.userId } });
+  }
+
+  contact.claimedByUserId = params.userId;
+  contact.claimedAt = new Date();
+  await contact.save();
+  return orderIds.length;
+}
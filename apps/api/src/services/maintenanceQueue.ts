@@ -0,0 +1,84 @@
+import { Queue } from "bullmq";
+import { Redis } from "ioredis";
+
+export type ReportExportJobPayload = {
+  exportId: string;
+};
+
+export type CampaignDispatchJobPayload = {
+  campaignId: string;
+  scheduledFor: string;
+};
+
+let queue: Queue | null = null;
+let reportExportQueue: Queue | null = null;
+
+export function getMaintenanceQueue() {
+  if (!process.env.REDIS_URL) {
+    return null;
+  }
+
+  if (queue) {
+    return queue;
+  }
+
+  const connection = new Redis(process.env.REDIS_URL, {
+    maxRetriesPerRequest: null
+  });
+
+  queue = new Queue("sws-maintenance", { connection });
+  return queue;
+}
+
+// Exports are generated by apps/worker, so they get their own queue instead of the maintenance queue every API
+// instance consumes.
+function getReportExportQueue() {
+  if (!process.env.REDIS_URL) {
+    return null;
+  }
+
+  if (reportExportQueue) {
+    return reportExportQueue;
+  }
+
+  const connection = new Redis(process.env.REDIS_URL, {
+    maxRetriesPerRequest: null
+  });
+
+  reportExportQueue = new Queue("sws-report-exports", { connection });
+  return reportExportQueue;
+}
+
+export async function enqueueReportExport(payload: ReportExportJobPayload) {
+  const exportQueue = getReportExportQueue();
+  if (!exportQueue) {
+    return { enqueued: false as const, reason: "REDIS_URL not set" };
+  }
+
+  await exportQueue.add("report-export", payload, {
+    attempts: 3,
+    backoff: { type: "exponential", delay: 2000 },
+    removeOnComplete: true,
+    removeOnFail: false
+  });
+
+  return { enqueued: true as const };
+}
+
+export async function enqueueCampaignDispatch(payload: CampaignDispatchJobPayload) {
+  const maintenanceQueue = getMaintenanceQueue();
+  if (!maintenanceQueue) {
+    return { enqueued: false as const, reason: "REDIS_URL not set" };
+  }
+
+  await maintenanceQueue.add("campaign-dispatch", payload, {
+    jobId: `campaign-dispatch-${payload.campaignId}-${new Date(payload.scheduledFor).getTime()}`,
+    delay: Math.max(0, new Date(payload.scheduledFor).getTime() - Date.now()),
+    attempts: 3,
+    backoff: { type: "exponential", delay: 2000 },
+    removeOnComplete: true,
+    removeOnFail: false
+  });
+
+  return { enqueued: true as const };
+}
@@ -0,0 +1,96 @@
+import { Worker } from "bullmq";
+import { Redis } from "ioredis";
+import { dispatchCampaign } from "./campaigns.js";
+import { sweepAbandonedCarts } from "./cartRecovery.js";
+import { getMaintenanceQueue, type CampaignDispatchJobPayload } from "./maintenanceQueue.js";
+import { expireUnpaidTransfers } from "./offlinePayments.js";
+import { purgeExpiredReportExports } from "./reportExports.js";
+import { releaseExpiredReservations } from "./stockReservations.js";
+
+const RESERVATION_SWEEP_INTERVAL_MS = 60 * 1000;
+const REPORT_EXPORT_CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const ABANDONED_CART_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+let maintenanceWorker: Worker | null = null;
+
+export async function startMaintenanceWorker() {
+  if (!process.env.REDIS_URL) {
+    console.warn("[api][maintenance] REDIS_URL not set; maintenance worker not started.");
+    return;
+  }
+
+  if (maintenanceWorker) {
+    return;
+  }
+
+  const connection = new Redis(process.env.REDIS_URL, {
+    maxRetriesPerRequest: null
+  });
+
+  const queue = getMaintenanceQueue()!;
+  await queue.upsertJobScheduler(
+    "reservation-sweep",
+    { every: RESERVATION_SWEEP_INTERVAL_MS },
+    { name: "reservation-sweep", opts: { removeOnComplete: true, removeOnFail: 50 } }
+  );
+  await queue.upsertJobScheduler(
+    "report-export-cleanup",
+    { every: REPORT_EXPORT_CLEANUP_INTERVAL_MS },
+    { name: "report-export-cleanup", opts: { removeOnComplete: true, removeOnFail: 50 } }
+  );
+  await queue.upsertJobScheduler(
+    "abandoned-cart-sweep",
+    { every: ABANDONED_CART_SWEEP_INTERVAL_MS },
+    { name: "abandoned-cart-sweep", opts: { removeOnComplete: true, removeOnFail: 50 } }
+  );
+
+  maintenanceWorker = new Worker(
+    "sws-maintenance",
+    async (job) => {
+      if (job.name === "reservation-sweep") {
+        const released = await releaseExpiredReservations();
+        if (released > 0) {
+          console.log("[api][maintenance] released expired stock reservations", { released });
+        }
+        const expired = await expireUnpaidTransfers();
+        if (expired > 0) {
+          console.log("[api][maintenance] cancelled unpaid bank transfer orders", { expired });
+        }
+        return;
+      }
+
+      if (job.name === "campaign-dispatch") {
+        const payload = job.data as CampaignDispatchJobPayload;
+        const dispatched = await dispatchCampaign(payload.campaignId, new Date(payload.scheduledFor));
+        if (dispatched) {
+          console.log("[api][maintenance] campaign dispatched", dispatched);
+        }
+        return;
+      }
+
+      if (job.name === "report-export-cleanup") {
+        const purged = await purgeExpiredReportExports();
+        if (purged > 0) {
+          console.log("[api][maintenance] purged expired report exports", { purged });
+        }
+        return;
+      }
+
+      if (job.name === "abandoned-cart-sweep") {
+        const reminded = await sweepAbandonedCarts();
+        if (reminded > 0) {
+          console.log("[api][maintenance] queued abandoned cart reminders", { reminded });
+        }
+      }
+    },
+    { connection }
+  );
+
+  maintenanceWorker.on("failed", (job, error) => {
+    console.error("[api][maintenance] job failed", {
+      jobId: job?.id,
+      jobName: job?.name,
+      error: error.message
+    });
+  });
+}
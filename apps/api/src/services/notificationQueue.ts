@@ -3,12 +3,12 @@ import { Redis } from "ioredis";
 
 export type OrderStatusNotificationPayload = {
   tenantId: string;
-  userId: string;
+  userId: string | null;
   email: string;
   customerName: string;
   orderId: string;
   orderRef: string;
-  status: "paid" | "shipped" | "delivered";
+  status: "paid" | "awaiting_stock" | "awaiting_balance" | "shipped" | "delivered";
   trackingNumber?: string | null;
   note?: string;
 };
@@ -29,6 +29,57 @@ export type WishlistStockNotificationPayload = {
   currentStock: number;
 };
 
+export type RefundNotificationPayload = {
+  tenantId: string;
+  userId: string | null;
+  email: string;
+  customerName: string;
+  orderRef: string;
+  refundRef: string;
+  amountNgn: number;
+  status: "initiated" | "processed";
+  reason?: string;
+};
+
+export type ReportExportReadyNotificationPayload = {
+  email: string;
+  report: string;
+  format: "csv" | "pdf";
+  jobId: string;
+  rowCount: number;
+  expiresAt: string;
+};
+
+export type CampaignSendPayload = {
+  tenantId: string;
+  campaignId: string;
+  deliveryIds: string[];
+};
+
+export type AbandonedCartNotificationPayload = {
+  tenantId: string;
+  userId: string;
+  email: string;
+  customerName: string;
+  reminder: number;
+  totalReminders: number;
+  lines: Array<{ name: string; quantity: number; unitPriceNgn: number }>;
+  subtotalNgn: number;
+  resumeUrl: string;
+  discount: { code: string; percent: number; expiresAt: string } | null;
+};
+
+export type QuestionAnsweredNotificationPayload = {
+  tenantId: string;
+  userId: string;
+  email: string;
+  customerName: string;
+  productName: string;
+  productUrl: string;
+  question: string;
+  answer: string;
+};
+
 let queue: Queue | null = null;
 
 function getQueue() {
@@ -101,3 +152,67 @@ export async function enqueueWishlistStockNotification(payload: WishlistStockNot
 
   return { enqueued: true as const };
 }
+
+export async function enqueueRefundNotification(payload: RefundNotificationPayload) {
+  const notificationQueue = getQueue();
+  if (!notificationQueue) {
+    return { enqueued: false as const, reason: "REDIS_URL not set" };
+  }
+
+  await notificationQueue.add("refund-status", payload, {
+    attempts: 5,
+    backoff: { type: "exponential", delay: 2000 },
+    removeOnComplete: true,
+    removeOnFail: false
+  });
+
+  return { enqueued: true as const };
+}
+
+export async function enqueueCampaignSend(payload: CampaignSendPayload) {
+  const notificationQueue = getQueue();
+  if (!notificationQueue) {
+    return { enqueued: false as const, reason: "REDIS_URL not set" };
+  }
+
+  await notificationQueue.add("campaign-send", payload, {
+    attempts: 5,
+    backoff: { type: "exponential", delay: 2000 },
+    removeOnComplete: true,
+    removeOnFail: false
+  });
+
+  return { enqueued: true as const };
+}
+
+export async function enqueueAbandonedCartNotification(payload: AbandonedCartNotificationPayload) {
+  const notificationQueue = getQueue();
+  if (!notificationQueue) {
+    return { enqueued: false as const, reason: "REDIS_URL not set" };
+  }
+
+  await notificationQueue.add("abandoned-cart", payload, {
+    attempts: 3,
+    backoff: { type: "exponential", delay: 2000 },
+    removeOnComplete: true,
+    removeOnFail: false
+  });
+
+  return { enqueued: true as const };
+}
+
+export async function enqueueQuestionAnsweredNotification(payload: QuestionAnsweredNotificationPayload) {
+  const notificationQueue = getQueue();
+  if (!notificationQueue) {
+    return { enqueued: false as const, reason: "REDIS_URL not set" };
+  }
+
+  await notificationQueue.add("question-answered", payload, {
+    attempts: 5,
+    backoff: { type: "exponential", delay: 2000 },
+    removeOnComplete: true,
+    removeOnFail: false
+  });
+
+  return { enqueued: true as const };
+}
@@ -0,0 +1,167 @@
+import mongoose, { type Types } from "mongoose";
+import { env } from "../config/env.js";
+import { OrderModel } from "../models/order.js";
+import { PaymentModel } from "../models/payment.js";
+import { attributeOrderToCampaign } from "./campaigns.js";
+import { resolveOrderContact } from "./guestOrders.js";
+import { enqueueOrderStatusNotification } from "./notificationQueue.js";
+import { releaseCommittedOrderStock } from "./orderFinalization.js";
+
+const OFFLINE_STATUSES = ["awaiting_payment_on_delivery", "awaiting_transfer"];
+
+// Stock and cart were already committed when the offline order was placed, so confirming only settles the money.
+export async function confirmOfflinePayment(params: {
+  tenantId: Types.ObjectId;
+  orderId: Types.ObjectId;
+  proofUrl?: string;
+  proofPublicId?: string;
+  note?: string;
+  actor: { id: string; role: string };
+}) {
+  const order = await OrderModel.findOne({ _id: params.orderId, tenantId: params.tenantId });
+  if (!order) {
+    throw new Error("Order not found");
+  }
+  if (order.status === "cancelled" || order.status === "refunded") {
+    throw new Error(`Cannot confirm payment for a ${order.status} order`);
+  }
+
+  const payment = await PaymentModel.findOne({ orderId: order._id, provider: "offline", status: "initialized" });
+  if (!payment) {
+    throw new Error("Order has no offline payment awaiting confirmation");
+  }
+
+  const markPaid = OFFLINE_STATUSES.includes(order.status);
+  const note =
+    params.note ??
+    (payment.method === "bank_transfer" ? "Bank transfer received and confirmed." : "Payment collected on delivery and confirmed.");
+
+  const session = await mongoose.startSession();
+  try {
+    session.startTransaction();
+
+    payment.status = "success";
+    payment.verifiedAt = new Date();
+    payment.confirmedBy = params.actor.id;
+    payment.proofUrl = params.proofUrl ?? null;
+    payment.proofPublicId = params.proofPublicId ?? null;
+    await payment.save({ session });
+
+    if (order.paymentPlan) {
+      order.paymentPlan.amountPaidNgn = (order.paymentPlan.amountPaidNgn ?? 0) + payment.amountNgn;
+    }
+    if (markPaid) {
+      order.status = "paid";
+    }
+    order.attributedCampaignId = await attributeOrderToCampaign(order, payment.amountNgn, session);
+    order.timeline.push({
+      status: order.status,
+      note,
+      actor: params.actor.role,
+      at: new Date()
+    });
+    await order.save({ session });
+
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+
+  if (markPaid) {
+    const contact = await resolveOrderContact(order);
+    if (contact?.email) {
+      await enqueueOrderStatusNotification({
+        tenantId: order.tenantId.toString(),
+        userId: contact.userId,
+        email: contact.email,
+        customerName: contact.name,
+        orderId: order._id.toString(),
+        orderRef: order.orderRef,
+        status: "paid",
+        note
+      });
+    }
+  }
+
+  return { order, payment };
+}
+
+// Failing the pending offline payment inside the transaction makes a concurrent confirmation conflict with the cancel.
+export async function cancelOfflineOrder(params: {
+  tenantId: Types.ObjectId;
+  orderId: Types.ObjectId;
+  note: string;
+  actor: { id: string; role: string };
+}) {
+  const order = await OrderModel.findOne({ _id: params.orderId, tenantId: params.tenantId });
+  if (!order) {
+    throw new Error("Order not found");
+  }
+  if (order.status === "cancelled" || order.status === "refunded") {
+    throw new Error(`Order is already ${order.status}`);
+  }
+
+  const session = await mongoose.startSession();
+  try {
+    session.startTransaction();
+
+    const payment = await PaymentModel.findOneAndUpdate(
+      { orderId: order._id, provider: "offline", status: "initialized" },
+      { $set: { status: "failed" } },
+      { session }
+    );
+    if (!payment) {
+      throw new Error("Order has no offline payment awaiting confirmation");
+    }
+
+    await releaseCommittedOrderStock(order, params.actor, session);
+    order.status = "cancelled";
+    order.timeline.push({
+      status: "cancelled",
+      note: params.note,
+      actor: params.actor.role,
+      at: new Date()
+    });
+    await order.save({ session });
+
+    await session.commitTransaction();
+  } catch (error) {
+    await session.abortTransaction();
+    throw error;
+  } finally {
+    session.endSession();
+  }
+
+  return order;
+}
+
+// Transfer orders hold stock from the moment they are placed, so ones still unpaid after the window are cancelled.
+export async function expireUnpaidTransfers(now = new Date()) {
+  const cutoff = new Date(now.getTime() - env.BANK_TRANSFER_EXPIRY_HOURS * 60 * 60 * 1000);
+  const orders = await OrderModel.find({ status: "awaiting_transfer", createdAt: { $lt: cutoff } })
+    .select({ _id: 1, tenantId: 1 })
+    .limit(100)
+    .lean();
+
+  let expired = 0;
+  for (const order of orders) {
+    try {
+      await cancelOfflineOrder({
+        tenantId: order.tenantId,
+        orderId: order._id,
+        note: `Bank transfer not received within ${env.BANK_TRANSFER_EXPIRY_HOURS} hours; order cancelled.`,
+        actor: { id: "system", role: "system" }
+      });
+      expired += 1;
+    } catch (error) {
+      console.error("[api][maintenance] failed to expire unpaid transfer", {
+        orderId: order._id.toString(),
+        error: (error as Error).message
+      });
+    }
+  }
+  return expired;
+}
@@ -0,0 +1,203 @@
+import type { ClientSession, Types } from "mongoose";
+import { ProductModel } from "../models/catalog.js";
+import { CartModel } from "../models/cart.js";
+import { DiscountModel } from "../models/discount.js";
+import { allocateOrderToBranch, releaseOrderFromBranch, selectFulfillmentBranch } from "./branchInventory.js";
+import { recordCartRecoveryConversion } from "./cartRecovery.js";
+import { convertReservedStock } from "./stockReservations.js";
+
+type CommittableOrder = {
+  _id: Types.ObjectId;
+  tenantId: Types.ObjectId;
+  userId?: Types.ObjectId | null;
+  guestSessionId?: string | null;
+  cartId?: Types.ObjectId | null;
+  orderRef: string;
+  totalNgn: number;
+  lines: Array<{ productId: Types.ObjectId; variantId: Types.ObjectId; quantity: number; preorder?: boolean | null }>;
+  discountLines?: Array<{ discountId: Types.ObjectId }> | null;
+  shippingAddress?: { city: string; state: string } | null;
+  fulfillmentBranchId?: Types.ObjectId | null;
+  pickupBranchId?: Types.ObjectId | null;
+};
+
+// Returns false when the product left preorder after checkout, so the line has to be filled from stock instead.
+async function allocatePreorderUnits(
+  line: { productId: Types.ObjectId; variantId: Types.ObjectId; quantity: number },
+  tenantId: Types.ObjectId,
+  session: ClientSession
+) {
+  const product = await ProductModel.findOne({ _id: line.productId, tenantId }).session(session);
+  const variant = product?.variants.id(line.variantId);
+  if (!product || !variant) {
+    throw new Error(`Failed to allocate preorder for product ${line.productId.toString()}`);
+  }
+  if (!product.preorder?.enabled) {
+    return false;
+  }
+
+  const cap = variant.preorderCap ?? null;
+  const updated = await ProductModel.updateOne(
+    {
+      _id: line.productId,
+      tenantId,
+      variants: {
+        $elemMatch: {
+          _id: line.variantId,
+          preorderCap: cap,
+          ...(cap === null ? {} : { preorderAllocated: { $lte: cap - line.quantity } })
+        }
+      }
+    },
+    {
+      $inc: {
+        "variants.$.preorderAllocated": line.quantity
+      }
+    },
+    { session }
+  );
+
+  if (updated.modifiedCount !== 1) {
+    throw new Error(`Failed to allocate preorder for product ${line.productId.toString()}`);
+  }
+  return true;
+}
+
+// Commits a placed order's stock: converts reservations (or decrements stock directly when they lapsed), picks a
+// fulfilment branch, counts sold units and discount usage, and clears the cart, closing any abandoned-cart reminders.
+// Preorder lines whose batch has arrived are switched to stock, so callers derive the order status afterwards and
+// then save the order.
+export async function commitOrderStock(order: CommittableOrder, session: ClientSession) {
+  for (const line of order.lines) {
+    await ProductModel.updateOne({ _id: line.productId, tenantId: order.tenantId }, { $inc: { soldUnits: line.quantity } }, { session });
+    if (line.preorder) {
+      if (await allocatePreorderUnits(line, order.tenantId, session)) {
+        continue;
+      }
+      // The batch arrived while this order waited for payment, so its units come out of the arrived stock.
+      line.preorder = false;
+    }
+
+    if (await convertReservedStock(line, order, session)) {
+      continue;
+    }
+
+    // No reservation is holding these units, so only stock nobody else is holding may be sold.
+    const updated = await ProductModel.updateOne(
+      {
+        _id: line.productId,
+        tenantId: order.tenantId,
+        $expr: {
+          $anyElementTrue: [
+            {
+              $map: {
+                input: "$variants",
+                as: "variant",
+                in: {
+                  $and: [
+                    { $eq: ["$$variant._id", line.variantId] },
+                    { $gte: [{ $subtract: ["$$variant.stock", { $ifNull: ["$$variant.reserved", 0] }] }, line.quantity] }
+                  ]
+                }
+              }
+            }
+          ]
+        }
+      },
+      {
+        $inc: {
+          "variants.$[variant].stock": -line.quantity
+        }
+      },
+      { session, arrayFilters: [{ "variant._id": line.variantId }] }
+    );
+
+    if (updated.modifiedCount !== 1) {
+      throw new Error(`Failed to decrement stock for product ${line.productId.toString()}`);
+    }
+  }
+
+  if (!order.fulfillmentBranchId && order.shippingAddress) {
+    const branch = await selectFulfillmentBranch(
+      {
+        tenantId: order.tenantId,
+        lines: order.lines,
+        city: order.shippingAddress.city,
+        state: order.shippingAddress.state,
+        preferredBranchId: order.pickupBranchId
+      },
+      session
+    );
+    if (branch) {
+      await allocateOrderToBranch(order, branch._id, { id: "system", role: "system" }, session);
+      order.fulfillmentBranchId = branch._id;
+    }
+  }
+
+  // The code was checked when the customer placed the order, so the use is honoured even if other orders used up
+  // maxUses in the meantime.
+  for (const discountLine of order.discountLines ?? []) {
+    await DiscountModel.updateOne({ _id: discountLine.discountId, tenantId: order.tenantId }, { $inc: { usedCount: 1 } }, { session });
+  }
+
+  // Orders remember the cart they came from, since a customer may have switched to another named cart meanwhile.
+  const cartOwner = order.cartId
+    ? { _id: order.cartId }
+    : order.userId
+      ? { userId: order.userId, active: true }
+      : order.guestSessionId
+        ? { sessionId: order.guestSessionId }
+        : null;
+  if (cartOwner) {
+    await CartModel.updateOne({ tenantId: order.tenantId, ...cartOwner }, { $set: { lines: [], discountCode: null } }, { session });
+  }
+  await recordCartRecoveryConversion(order, session);
+}
+
+// Sold units feed the popularity sort, so units that are refunded or cancelled stop counting.
+export async function adjustSoldUnits(
+  tenantId: Types.ObjectId,
+  lines: Array<{ productId: Types.ObjectId; quantity: number }>,
+  direction: 1 | -1,
+  session?: ClientSession
+) {
+  for (const line of lines) {
+    if (line.quantity <= 0) {
+      continue;
+    }
+    await ProductModel.updateOne(
+      { _id: line.productId, tenantId, ...(direction === -1 ? { soldUnits: { $gte: line.quantity } } : {}) },
+      { $inc: { soldUnits: direction * line.quantity } },
+      { session }
+    );
+  }
+}
+
+// Undoes commitOrderStock for an order that is cancelled before any money arrived: units go back on sale (or back
+// under the preorder cap), sold units and discount usage are handed back, and the branch allocation is released.
+export async function releaseCommittedOrderStock(
+  order: CommittableOrder,
+  actor: { id: string; role: string },
+  session: ClientSession
+) {
+  await adjustSoldUnits(order.tenantId, order.lines, -1, session);
+  for (const line of order.lines) {
+    await ProductModel.updateOne(
+      { _id: line.productId, tenantId: order.tenantId, "variants._id": line.variantId },
+      { $inc: line.preorder ? { "variants.$.preorderAllocated": -line.quantity } : { "variants.$.stock": line.quantity } },
+      { session }
+    );
+  }
+
+  for (const discountLine of order.discountLines ?? []) {
+    await DiscountModel.updateOne(
+      { _id: discountLine.discountId, tenantId: order.tenantId, usedCount: { $gt: 0 } },
+      { $inc: { usedCount: -1 } },
+      { session }
+    );
+  }
+
+  if (order.fulfillmentBranchId) {
+    await releaseOrderFromBranch(order, order.fulfillmentBranchId, actor, session);
+  }
+}
@@ -0,0 +1,224 @@
+import type { IncomingHttpHeaders } from "http";
+import type { Types } from "mongoose";
+import { env } from "../config/env.js";
+import { TenantModel } from "../models/tenant.js";
+import {
+  createPaystackRefund,
+  initializePaystackTransaction,
+  verifyPaystackTransaction,
+  verifyPaystackWebhookSignature
+} from "./paystack.js";
+import {
+  createFlutterwaveRefund,
+  initializeFlutterwavePayment,
+  verifyFlutterwaveTransaction,
+  verifyFlutterwaveWebhookSignature
+} from "./flutterwave.js";
+
+export const PAYMENT_PROVIDERS = ["paystack", "flutterwave"] as const;
+
+export type PaymentProviderName = (typeof PAYMENT_PROVIDERS)[number];
+
+export type PaymentVerification = {
+  reference: string;
+  status: "success" | "failed" | "abandoned" | "pending";
+  paidAt?: string;
+  gatewayResponse?: string;
+  // What the provider actually charged, checked against the payment before the order is finalized.
+  amountNgn?: number;
+  currency?: string;
+};
+
+export type PaymentWebhookEvent =
+  | { type: "charge.success"; reference: string; paidAt?: string; gatewayResponse?: string }
+  | { type: "refund.processed" | "refund.failed"; transactionReference: string; refundId?: string; failureReason?: string }
+  | { type: "ignored" };
+
+export type PaymentProvider = {
+  name: PaymentProviderName;
+  isConfigured(): boolean;
+  initialize(input: {
+    email: string;
+    amountNgn: number;
+    reference: string;
+    metadata: Record<string, unknown>;
+  }): Promise<{ authorizationUrl: string; accessCode: string | null }>;
+  verify(reference: string): Promise<PaymentVerification>;
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+  // Set when the webhook check does not cover the payload, so charge events are confirmed through verify() first.
+  reverifyWebhookCharges: boolean;
+  parseWebhookEvent(payload: { event?: string; data?: Record<string, unknown> }): PaymentWebhookEvent | null;
+  callbackReference(query: Record<string, unknown>): string | null;
+  refund(input: {
+    transactionReference: string;
+    amountNgn: number;
+    merchantNote: string;
+    customerNote: string;
+  }): Promise<{ id: string; status: "processed" | "processing" }>;
+};
+
+function optionalString(value: unknown) {
+  return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+// Providers send numeric ids, but refunds store them as strings.
+function optionalId(value: unknown) {
+  return typeof value === "number" ? String(value) : optionalString(value);
+}
+
+const paystackProvider: PaymentProvider = {
+  name: "paystack",
+  isConfigured: () => Boolean(env.PAYSTACK_SECRET_KEY),
+  async initialize(input) {
+    const result = await initializePaystackTransaction({
+      email: input.email,
+      amountKobo: input.amountNgn * 100,
+      reference: input.reference,
+      callbackUrl: env.PAYSTACK_CALLBACK_URL,
+      metadata: input.metadata
+    });
+    return { authorizationUrl: result.authorization_url, accessCode: result.access_code };
+  },
+  async verify(reference) {
+    const result = await verifyPaystackTransaction(reference);
+    const status = result.status === "success" || result.status === "failed" || result.status === "abandoned" ? result.status : "pending";
+    return { reference, status, paidAt: result.paid_at, gatewayResponse: result.gateway_response };
+  },
+  verifyWebhook(rawBody, headers) {
+    return verifyPaystackWebhookSignature(rawBody, optionalString(headers["x-paystack-signature"]));
+  },
+  reverifyWebhookCharges: false,
+  parseWebhookEvent(payload) {
+    if (payload.event === "refund.processed" || payload.event === "refund.failed") {
+      const transactionReference = optionalString(payload.data?.transaction_reference);
+      return transactionReference
+        ? {
+            type: payload.event,
+            transactionReference,
+            refundId: optionalId(payload.data?.id),
+            failureReason: optionalString(payload.data?.merchant_note) ?? optionalString(payload.data?.status)
+          }
+        : null;
+    }
+    if (payload.event !== "charge.success") {
+      return { type: "ignored" };
+    }
+    const reference = optionalString(payload.data?.reference);
+    return reference
+      ? {
+          type: "charge.success",
+          reference,
+          paidAt: optionalString(payload.data?.paid_at),
+          gatewayResponse: optionalString(payload.data?.gateway_response)
+        }
+      : null;
+  },
+  callbackReference: (query) => optionalString(query.reference) ?? null,
+  async refund(input) {
+    const result = await createPaystackRefund({
+      transactionReference: input.transactionReference,
+      amountKobo: input.amountNgn * 100,
+      merchantNote: input.merchantNote,
+      customerNote: input.customerNote
+    });
+    return { id: String(result.id), status: result.status === "processed" ? "processed" : "processing" };
+  }
+};
+
+function normalizeFlutterwaveStatus(status: string): PaymentVerification["status"] {
+  if (status === "successful") {
+    return "success";
+  }
+  if (status === "failed") {
+    return "failed";
+  }
+  return status === "cancelled" ? "abandoned" : "pending";
+}
+
+const flutterwaveProvider: PaymentProvider = {
+  name: "flutterwave",
+  isConfigured: () => Boolean(env.FLUTTERWAVE_SECRET_KEY),
+  async initialize(input) {
+    const result = await initializeFlutterwavePayment({
+      email: input.email,
+      amountNgn: input.amountNgn,
+      reference: input.reference,
+      redirectUrl: env.FLUTTERWAVE_CALLBACK_URL ?? `${env.API_PUBLIC_URL}/api/v1/payments/flutterwave/callback`,
+      metadata: input.metadata
+    });
+    return { authorizationUrl: result.link, accessCode: null };
+  },
+  async verify(reference) {
+    const result = await verifyFlutterwaveTransaction(reference);
+    return {
+      reference,
+      status: normalizeFlutterwaveStatus(result.status),
+      paidAt: result.created_at,
+      gatewayResponse: result.processor_response,
+      amountNgn: result.amount,
+      currency: result.currency
+    };
+  },
+  verifyWebhook(_rawBody, headers) {
+    return verifyFlutterwaveWebhookSignature(optionalString(headers["verif-hash"]));
+  },
+  // verif-hash is a static shared secret rather than a signature of the body.
+  reverifyWebhookCharges: true,
+  parseWebhookEvent(payload) {
+    if (payload.event === "refund.completed") {
+      const transactionReference = optionalString(payload.data?.tx_ref);
+      const status = optionalString(payload.data?.status);
+      return transactionReference
+        ? {
+            type: status === "completed" ? "refund.processed" : "refund.failed",
+            transactionReference,
+            refundId: optionalId(payload.data?.id),
+            failureReason: optionalString(payload.data?.comments) ?? status
+          }
+        : null;
+    }
+    // Only successful charges are finalized here; other outcomes surface through the callback and status poll.
+    if (payload.event !== "charge.completed" || payload.data?.status !== "successful") {
+      return { type: "ignored" };
+    }
+    const reference = optionalString(payload.data?.tx_ref);
+    return reference
+      ? {
+          type: "charge.success",
+          reference,
+          paidAt: optionalString(payload.data?.created_at),
+          gatewayResponse: optionalString(payload.data?.processor_response)
+        }
+      : null;
+  },
+  callbackReference: (query) => optionalString(query.tx_ref) ?? null,
+  async refund(input) {
+    const result = await createFlutterwaveRefund({
+      transactionReference: input.transactionReference,
+      amountNgn: input.amountNgn,
+      comments: input.merchantNote
+    });
+    return { id: String(result.id), status: result.status === "completed" ? "processed" : "processing" };
+  }
+};
+
+const providers: Record<PaymentProviderName, PaymentProvider> = {
+  paystack: paystackProvider,
+  flutterwave: flutterwaveProvider
+};
+
+export function isPaymentProviderName(name: string): name is PaymentProviderName {
+  return (PAYMENT_PROVIDERS as readonly string[]).includes(name);
+}
+
+export function getPaymentProvider(name: string) {
+  if (!isPaymentProviderName(name)) {
+    throw new Error(`Unsupported payment provider: ${name}`);
+  }
+  return providers[name];
+}
+
+export async function resolveTenantPaymentProvider(tenantId: Types.ObjectId) {
+  const tenant = await TenantModel.findById(tenantId).select({ paymentProvider: 1 }).lean();
+  return getPaymentProvider(tenant?.paymentProvider ?? env.PAYMENT_PROVIDER);
+}
@@ -64,6 +64,43 @@ export async function verifyPaystackTransaction(reference: string) {
   };
 }
 
+type PaystackRefundPayload = {
+  transactionReference: string;
+  amountKobo: number;
+  merchantNote?: string;
+  customerNote?: string;
+};
+
+export async function createPaystackRefund(payload: PaystackRefundPayload) {
+  if (!env.PAYSTACK_SECRET_KEY) {
+    throw new Error("PAYSTACK_SECRET_KEY is not configured");
+  }
+
+  const response = await axios.post(
+    "https://api.paystack.co/refund",
+    {
+      transaction: payload.transactionReference,
+      amount: payload.amountKobo,
+      currency: "NGN",
+      merchant_note: payload.merchantNote,
+      customer_note: payload.customerNote
+    },
+    {
+      headers: {
+        Authorization: `Bearer ${env.PAYSTACK_SECRET_KEY}`,
+        "Content-Type": "application/json"
+      },
+      timeout: 10000
+    }
+  );
+
+  if (!response.data?.status) {
+    throw new Error("Failed to create Paystack refund");
+  }
+
+  return response.data.data as { id: number; status: string; amount: number };
+}
+
 export function verifyPaystackWebhookSignature(rawBody: Buffer, signature: string | undefined) {
   if (!env.PAYSTACK_WEBHOOK_SECRET) {
     return true;
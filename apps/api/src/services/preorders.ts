@@ -0,0 +1,29 @@
+import type { ClientSession, Types } from "mongoose";
+import { ProductModel } from "../models/catalog.js";
+
+type PreorderLine = {
+  productId: Types.ObjectId;
+  variantId: Types.ObjectId;
+  quantity: number;
+  preorder?: boolean | null;
+};
+
+// Hands preordered units back under the preorder cap. Once the batch has arrived the allocation was already
+// turned into stock, so products that are no longer on preorder are left alone.
+export async function releasePreorderAllocation(tenantId: Types.ObjectId, lines: PreorderLine[], session?: ClientSession) {
+  for (const line of lines) {
+    if (!line.preorder || line.quantity <= 0) {
+      continue;
+    }
+    await ProductModel.updateOne(
+      {
+        _id: line.productId,
+        tenantId,
+        "preorder.enabled": true,
+        variants: { $elemMatch: { _id: line.variantId, preorderAllocated: { $gte: line.quantity } } }
+      },
+      { $inc: { "variants.$.preorderAllocated": -line.quantity } },
+      { session }
+    );
+  }
+}
@@ -0,0 +1,93 @@
+import type { Types } from "mongoose";
+import { env } from "../config/env.js";
+import { ProductModel } from "../models/catalog.js";
+import { CustomerNotificationModel } from "../models/customerNotification.js";
+import { ProductQuestionModel, type ProductQuestionDocument } from "../models/productQuestion.js";
+import { UserModel } from "../models/user.js";
+import { enqueueQuestionAnsweredNotification } from "./notificationQueue.js";
+
+type QuestionRecord = ProductQuestionDocument & { _id: Types.ObjectId; createdAt: Date };
+
+export function serializeQuestion(
+  question: Pick<QuestionRecord, "_id" | "productId" | "question" | "status" | "answer" | "upvotes" | "createdAt">,
+  askerName: string
+) {
+  return {
+    id: question._id.toString(),
+    productId: question.productId.toString(),
+    askerName,
+    question: question.question,
+    status: question.status,
+    answer: question.answer ? { body: question.answer.body, answeredAt: question.answer.answeredAt } : null,
+    upvotes: question.upvotes,
+    createdAt: question.createdAt
+  };
+}
+
+// Each customer counts once; the filter on upvoterIds makes a repeat vote a no-op.
+export async function upvoteProductQuestion(questionId: Types.ObjectId, userId: Types.ObjectId) {
+  await ProductQuestionModel.updateOne(
+    { _id: questionId, upvoterIds: { $ne: userId } },
+    { $push: { upvoterIds: userId }, $inc: { upvotes: 1 } }
+  );
+}
+
+// Records the staff answer, then tells the asker in-app and, unless they turned notifications off, by email.
+// Re-answering edits the answer without notifying again. Hidden questions stay hidden and cannot be answered.
+export async function answerProductQuestion(params: {
+  tenantId: Types.ObjectId;
+  questionId: Types.ObjectId;
+  answer: string;
+  actorId: string;
+}) {
+  const question = await ProductQuestionModel.findOne({ _id: params.questionId, tenantId: params.tenantId });
+  if (!question) {
+    return null;
+  }
+  if (question.status === "hidden") {
+    throw new Error("Hidden questions cannot be answered");
+  }
+  const firstAnswer = !question.answer;
+  const answer = { body: params.answer, answeredBy: params.actorId, answeredAt: new Date() };
+  const answered = await ProductQuestionModel.updateOne(
+    { _id: question._id, status: { $ne: "hidden" } },
+    { $set: { answer, status: "answered" } }
+  );
+  if (answered.modifiedCount !== 1) {
+    throw new Error("Hidden questions cannot be answered");
+  }
+  question.set({ answer, status: "answered" });
+  if (!firstAnswer) {
+    return question;
+  }
+
+  const [product, asker] = await Promise.all([
+    ProductModel.findOne({ _id: question.productId, tenantId: params.tenantId }).select({ name: 1, slug: 1 }).lean(),
+    UserModel.findById(question.userId).select({ email: 1, firstName: 1, lastName: 1, notificationsEnabled: 1 }).lean()
+  ]);
+  if (!product || !asker) {
+    return question;
+  }
+
+  await CustomerNotificationModel.create({
+    tenantId: params.tenantId,
+    userId: asker._id,
+    productId: product._id,
+    type: "question_answered",
+    title: `Your question about ${product.name} was answered`,
+    message: params.answer
+  });
+  if (asker.notificationsEnabled !== false) {
+    await enqueueQuestionAnsweredNotification({
+      tenantId: params.tenantId.toString(),
+      userId: asker._id.toString(),
+      email: asker.email,
+      customerName: `${asker.firstName ?? ""} ${asker.lastName ?? ""}`.trim(),
+      productName: product.name,
+      productUrl: new URL(`/products/${product.slug}`, env.CLIENT_STOREFRONT_URL).toString(),
+      question: question.question,
+      answer: params.answer
+    });
+  }
+  return question;
+}
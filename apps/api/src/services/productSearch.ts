@@ -0,0 +1,230 @@
+import { Types, type PipelineStage } from "mongoose";
+import type { ProductSearchQuery } from "@sws/shared-types";
+import { CategoryModel, ProductModel, type ProductDocument } from "../models/catalog.js";
+import type { ActiveFlashDeal } from "./flashDeals.js";
+
+export const PRICE_BUCKETS = [
+  { key: "under_10000", minNgn: 0, maxNgn: 10000 },
+  { key: "10000_25000", minNgn: 10000, maxNgn: 25000 },
+  { key: "25000_50000", minNgn: 25000, maxNgn: 50000 },
+  { key: "50000_100000", minNgn: 50000, maxNgn: 100000 },
+  { key: "100000_plus", minNgn: 100000, maxNgn: null }
+] as const;
+
+type FacetKey = "category" | "size" | "color" | "price" | "inStock";
+
+type SearchRow = Pick<ProductDocument, "slug" | "name" | "imageUrl" | "imagePublicId" | "imageFit" | "images" | "variants" | "categoryId" | "preorder" | "rating"> & {
+  _id: Types.ObjectId;
+};
+
+type SearchFacets = {
+  items: SearchRow[];
+  total: Array<{ count: number }>;
+  categories: Array<{ _id: Types.ObjectId; count: number }>;
+  sizes: Array<{ _id: string; count: number }>;
+  colors: Array<{ _id: string; count: number }>;
+  prices: Array<{ _id: string; count: number }>;
+  stock: Array<{ _id: boolean; count: number }>;
+};
+
+// Listing price is the cheapest variant after any live flash deal, rounded like applyFlashDealPrice.
+function listingPriceExpression(flashDeals: Map<string, ActiveFlashDeal>) {
+  const basePrice = { $ifNull: [{ $min: "$variants.priceNgn" }, 0] };
+  const productsByPercent = new Map<number, Types.ObjectId[]>();
+  for (const [productId, deal] of flashDeals) {
+    productsByPercent.set(deal.discountPercent, [...(productsByPercent.get(deal.discountPercent) ?? []), new Types.ObjectId(productId)]);
+  }
+  if (productsByPercent.size === 0) {
+    return basePrice;
+  }
+  return {
+    $switch: {
+      branches: [...productsByPercent].map(([percent, productIds]) => ({
+        case: { $in: ["$_id", productIds] },
+        then: { $floor: { $add: [{ $divide: [{ $multiply: [basePrice, 100 - percent] }, 100] }, 0.5] } }
+      })),
+      default: basePrice
+    }
+  };
+}
+
+function priceBucketExpression() {
+  return {
+    $switch: {
+      branches: PRICE_BUCKETS.filter((bucket) => bucket.maxNgn !== null).map((bucket) => ({
+        case: { $lt: ["$listingPriceNgn", bucket.maxNgn] },
+        then: bucket.key
+      })),
+      default: PRICE_BUCKETS[PRICE_BUCKETS.length - 1].key
+    }
+  };
+}
+
+// Each facet is counted with every filter except its own, so picking "M" still shows how many products come in "L".
+function buildFilters(query: ProductSearchQuery, categoryIds: Types.ObjectId[] | null) {
+  const variantMatch = (omit: FacetKey | null) => {
+    const conditions: Record<string, unknown> = {};
+    if (omit !== "size" && query.size.length > 0) {
+      conditions.size = { $in: query.size };
+    }
+    if (omit !== "color" && query.color.length > 0) {
+      conditions.color = { $in: query.color };
+    }
+    return Object.keys(conditions).length > 0 ? { variants: { $elemMatch: conditions } } : {};
+  };
+
+  const priceRanges = PRICE_BUCKETS.filter((bucket) => query.priceBucket.includes(bucket.key));
+  const priceMatch: Record<string, unknown>[] = [];
+  if (priceRanges.length > 0) {
+    priceMatch.push({ priceBucket: { $in: priceRanges.map((bucket) => bucket.key) } });
+  }
+  if (query.minPrice !== undefined) {
+    priceMatch.push({ listingPriceNgn: { $gte: query.minPrice } });
+  }
+  if (query.maxPrice !== undefined) {
+    priceMatch.push({ listingPriceNgn: { $lte: query.maxPrice } });
+  }
+
+  return (omit: FacetKey | null = null): Record<string, unknown> => ({
+    ...(omit !== "category" && categoryIds ? { categoryId: { $in: categoryIds } } : {}),
+    ...variantMatch(omit),
+    ...(omit !== "price" && priceMatch.length > 0 ? { $and: priceMatch } : {}),
+    ...(omit !== "inStock" && query.inStock !== undefined ? { inStock: query.inStock } : {})
+  });
+}
+
+function sortStage(query: ProductSearchQuery): Record<string, 1 | -1> {
+  const sort = query.sort ?? (query.search ? "relevance" : "newest");
+  switch (sort) {
+    case "relevance":
+      return query.search ? { score: -1, _id: 1 } : { createdAt: -1, _id: -1 };
+    case "price_asc":
+      return { listingPriceNgn: 1, _id: 1 };
+    case "price_desc":
+      return { listingPriceNgn: -1, _id: 1 };
+    case "popularity":
+      return { soldUnits: -1, _id: 1 };
+    case "rating":
+      return { "rating.average": -1, "rating.count": -1, _id: 1 };
+    default:
+      return { createdAt: -1, _id: -1 };
+  }
+}
+
+async function resolveCategoryIds(tenantId: Types.ObjectId, categories: string[]) {
+  if (categories.length === 0) {
+    return null;
+  }
+  const ids = categories.filter((entry) => Types.ObjectId.isValid(entry)).map((entry) => new Types.ObjectId(entry));
+  const slugs = categories.filter((entry) => !Types.ObjectId.isValid(entry));
+  if (slugs.length > 0) {
+    const found = await CategoryModel.find({ tenantId, slug: { $in: slugs } }).select({ _id: 1 }).lean();
+    ids.push(...found.map((category) => category._id));
+  }
+  return ids;
+}
+
+// Runs the storefront search in one aggregation: the text index narrows the candidates, then a $facet returns the
+// requested page alongside the category, size, color, price bucket and stock counts.
+export async function searchProducts(tenantId: Types.ObjectId, query: ProductSearchQuery, flashDeals: Map<string, ActiveFlashDeal>) {
+  const categoryIds = await resolveCategoryIds(tenantId, query.category);
+  const filters = buildFilters(query, categoryIds);
+
+  const pipeline: PipelineStage[] = [
+    { $match: { tenantId, active: true, ...(query.search ? { $text: { $search: query.search } } : {}) } },
+    {
+      $addFields: {
+        ...(query.search ? { score: { $meta: "textScore" } } : {}),
+        listingPriceNgn: listingPriceExpression(flashDeals),
+        inStock: {
+          $anyElementTrue: [
+            {
+              $map: {
+                input: "$variants",
+                as: "variant",
+                in: { $gt: [{ $subtract: ["$$variant.stock", { $ifNull: ["$$variant.reserved", 0] }] }, 0] }
+              }
+            }
+          ]
+        }
+      }
+    },
+    { $addFields: { priceBucket: priceBucketExpression() } },
+    {
+      $facet: {
+        items: [
+          { $match: filters() },
+          { $sort: sortStage(query) },
+          { $skip: (query.page - 1) * query.pageSize },
+          { $limit: query.pageSize },
+          {
+            $project: {
+              slug: 1,
+              name: 1,
+              imageUrl: 1,
+              imagePublicId: 1,
+              imageFit: 1,
+              images: 1,
+              variants: 1,
+              categoryId: 1,
+              preorder: 1,
+              rating: 1
+            }
+          }
+        ],
+        total: [{ $match: filters() }, { $count: "count" }],
+        categories: [{ $match: filters("category") }, { $group: { _id: "$categoryId", count: { $sum: 1 } } }],
+        sizes: [
+          { $match: filters("size") },
+          { $unwind: "$variants" },
+          { $match: { "variants.size": { $type: "string" } } },
+          ...(query.color.length > 0 ? [{ $match: { "variants.color": { $in: query.color } } }] : []),
+          { $group: { _id: { product: "$_id", size: "$variants.size" } } },
+          { $group: { _id: "$_id.size", count: { $sum: 1 } } }
+        ],
+        colors: [
+          { $match: filters("color") },
+          { $unwind: "$variants" },
+          { $match: { "variants.color": { $type: "string" } } },
+          ...(query.size.length > 0 ? [{ $match: { "variants.size": { $in: query.size } } }] : []),
+          { $group: { _id: { product: "$_id", color: "$variants.color" } } },
+          { $group: { _id: "$_id.color", count: { $sum: 1 } } }
+        ],
+        prices: [{ $match: filters("price") }, { $group: { _id: "$priceBucket", count: { $sum: 1 } } }],
+        stock: [{ $match: filters("inStock") }, { $group: { _id: "$inStock", count: { $sum: 1 } } }]
+      }
+    }
+  ];
+
+  const [result] = await ProductModel.aggregate<SearchFacets>(pipeline);
+  const categories = await CategoryModel.find({ tenantId, _id: { $in: result.categories.map((entry) => entry._id) } })
+    .select({ name: 1, slug: 1 })
+    .lean();
+  const categoryCounts = new Map(result.categories.map((entry) => [entry._id.toString(), entry.count]));
+  const priceCounts = new Map(result.prices.map((entry) => [entry._id, entry.count]));
+  const byValue = (a: { value: string }, b: { value: string }) => a.value.localeCompare(b.value);
+  const total = result.total[0]?.count ?? 0;
+
+  return {
+    items: result.items,
+    total,
+    totalPages: Math.ceil(total / query.pageSize),
+    facets: {
+      categories: categories
+        .map((category) => ({
+          id: category._id.toString(),
+          slug: category.slug,
+          name: category.name,
+          count: categoryCounts.get(category._id.toString()) ?? 0
+        }))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      sizes: result.sizes.map((entry) => ({ value: entry._id, count: entry.count })).sort(byValue),
+      colors: result.colors.map((entry) => ({ value: entry._id, count: entry.count })).sort(byValue),
+      priceBuckets: PRICE_BUCKETS.map((bucket) => ({ ...bucket, count: priceCounts.get(bucket.key) ?? 0 })),
+      inStock: {
+        inStock: result.stock.find((entry) => entry._id === true)?.count ?? 0,
+        outOfStock: result.stock.find((entry) => entry._id === false)?.count ?? 0
+      }
+    }
+  };
+}
@@ -0,0 +1,149 @@
+import type { ClientSession, Types } from "mongoose";
+import { ProductModel } from "../models/catalog.js";
+import { OrderModel } from "../models/order.js";
+import { UserModel } from "../models/user.js";
+import { SOLD_STATUSES } from "./reports.js";
+import { productOptionAxes, variantLineName } from "../utils/variantOptions.js";
+
+// Offline orders hold their units from the moment they are placed, so they count towards a customer's allowance too.
+// Refunded orders (and refunded units on partly refunded ones) hand their allowance back.
+const COUNTED_STATUSES = [...SOLD_STATUSES.filter((status) => status !== "refunded"), "awaiting_payment_on_delivery", "awaiting_transfer"];
+
+type LimitedLine = { productId: Types.ObjectId; variantId: Types.ObjectId; quantity: number };
+
+export type OrderOwnerFilter = { userId: Types.ObjectId } | { guestContactId: Types.ObjectId };
+
+export type PurchaseLimitViolation = {
+  productId: string;
+  variantId: string | null;
+  name: string;
+  scope: "order" | "customer";
+  limit: number;
+  remaining: number;
+};
+
+async function summarizePurchasedUnits(
+  tenantId: Types.ObjectId,
+  owners: OrderOwnerFilter[],
+  productIds: Types.ObjectId[],
+  session?: ClientSession
+) {
+  const purchased = new Map<string, number>();
+  if (owners.length === 0 || productIds.length === 0) {
+    return purchased;
+  }
+
+  const rows = await OrderModel.aggregate<{ _id: { productId: Types.ObjectId; variantId: Types.ObjectId }; quantity: number }>([
+    { $match: { tenantId, $or: owners, status: { $in: COUNTED_STATUSES } } },
+    { $unwind: "$lines" },
+    { $match: { "lines.productId": { $in: productIds } } },
+    {
+      $group: {
+        _id: { productId: "$lines.productId", variantId: "$lines.variantId" },
+        quantity: { $sum: { $subtract: ["$lines.quantity", { $ifNull: ["$lines.refundedQuantity", 0] }] } }
+      }
+    }
+  ]).session(session ?? null);
+  for (const row of rows) {
+    const productKey = row._id.productId.toString();
+    const variantKey = row._id.variantId.toString();
+    purchased.set(productKey, (purchased.get(productKey) ?? 0) + row.quantity);
+    purchased.set(variantKey, (purchased.get(variantKey) ?? 0) + row.quantity);
+  }
+  return purchased;
+}
+
+// Guests are held to the allowance of everyone who has bought under their email, account or not.
+export async function resolveLimitOwners(
+  tenantId: Types.ObjectId,
+  owner: OrderOwnerFilter,
+  guestEmail: string | null,
+  session?: ClientSession
+): Promise<OrderOwnerFilter[]> {
+  if ("userId" in owner || !guestEmail) {
+    return [owner];
+  }
+  const registered = await UserModel.findOne({ tenantId, email: guestEmail.toLowerCase(), role: "customer" })
+    .select({ _id: 1 })
+    .session(session ?? null)
+    .lean();
+  return registered ? [owner, { userId: registered._id }] : [owner];
+}
+
+// Product limits cover every variant of the product together; variant limits cover that variant alone. Per-customer
+// limits add the units already bought by the given owners, so only pass owners whose history should count.
+export async function findPurchaseLimitViolations(params: {
+  tenantId: Types.ObjectId;
+  owners: OrderOwnerFilter[];
+  lines: LimitedLine[];
+  session?: ClientSession;
+}) {
+  const productIds = [...new Map(params.lines.map((line) => [line.productId.toString(), line.productId])).values()];
+  const products = await ProductModel.find({ tenantId: params.tenantId, _id: { $in: productIds } })
+    .select({ name: 1, purchaseLimits: 1, options: 1, variants: 1 })
+    .session(params.session ?? null)
+    .lean();
+
+  const limitedProducts = products.filter(
+    (product) =>
+      product.purchaseLimits?.maxPerOrder ||
+      product.purchaseLimits?.maxPerCustomer ||
+      product.variants.some((variant) => variant.maxPerOrder || variant.maxPerCustomer)
+  );
+  if (limitedProducts.length === 0) {
+    return [];
+  }
+
+  const needsHistory = limitedProducts.some(
+    (product) => product.purchaseLimits?.maxPerCustomer || product.variants.some((variant) => variant.maxPerCustomer)
+  );
+  const purchased = needsHistory
+    ? await summarizePurchasedUnits(
+        params.tenantId,
+        params.owners,
+        limitedProducts.map((product) => product._id),
+        params.session
+      )
+    : new Map<string, number>();
+
+  const violations: PurchaseLimitViolation[] = [];
+  const check = (
+    target: { productId: string; variantId: string | null; name: string },
+    limits: { maxPerOrder?: number | null; maxPerCustomer?: number | null },
+    quantity: number
+  ) => {
+    if (limits.maxPerOrder && quantity > limits.maxPerOrder) {
+      violations.push({ ...target, scope: "order", limit: limits.maxPerOrder, remaining: limits.maxPerOrder });
+    }
+    const bought = purchased.get(target.variantId ?? target.productId) ?? 0;
+    if (limits.maxPerCustomer && bought + quantity > limits.maxPerCustomer) {
+      violations.push({ ...target, scope: "customer", limit: limits.maxPerCustomer, remaining: Math.max(0, limits.maxPerCustomer - bought) });
+    }
+  };
+
+  for (const product of limitedProducts) {
+    const productLines = params.lines.filter((line) => line.productId.equals(product._id));
+    check(
+      { productId: product._id.toString(), variantId: null, name: product.name },
+      product.purchaseLimits ?? {},
+      productLines.reduce((sum, line) => sum + line.quantity, 0)
+    );
+    for (const line of productLines) {
+      const variant = product.variants.find((entry) => entry._id.equals(line.variantId));
+      if (variant) {
+        check(
+          { productId: product._id.toString(), variantId: variant._id.toString(), name: variantLineName(product.name, variant, productOptionAxes(product)) },
+          variant,
+          line.quantity
+        );
+      }
+    }
+  }
+  return violations;
+}
+
+export function describePurchaseLimitViolation(violation: PurchaseLimitViolation) {
+  return violation.scope === "order"
+    ? `${violation.name} is limited to ${violation.limit} per order`
+    : `${violation.name} is limited to ${violation.limit} per customer; you can buy ${violation.remaining} more`;
+}
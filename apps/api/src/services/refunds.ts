@@ -0,0 +1,561 @@
+import type { Types } from "mongoose";
+import { OrderModel } from "../models/order.js";
+import { PaymentModel } from "../models/payment.js";
+import { ProductModel } from "../models/catalog.js";
+import { RefundModel } from "../models/refund.js";
+import { InventoryLedgerModel } from "../models/inventoryLedger.js";
+import { CustomerNotificationModel } from "../models/customerNotification.js";
+import { enqueueRefundNotification } from "./notificationQueue.js";
+import { getPaymentProvider } from "./paymentProviders.js";
+import { adjustBranchStock } from "./branchInventory.js";
+import { resolveOrderContact } from "./guestOrders.js";
+import { adjustSoldUnits } from "./orderFinalization.js";
+
+type RefundLineInput = {
+  variantId: string;
+  quantity: number;
+};
+
+type RefundActor = {
+  id: string;
+  role: string;
+};
+
+function generateRefundRef() {
+  return `RFD-${Date.now()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`;
+}
+
+async function notifyRefundCustomer(
+  order: { tenantId: Types.ObjectId; userId?: Types.ObjectId | null; guestContactId?: Types.ObjectId | null; orderRef: string },
+  refund: { refundRef: string; amountNgn: number; reason: string },
+  status: "initiated" | "processed"
+) {
+  const contact = await resolveOrderContact(order);
+  if (!contact?.email) {
+    return;
+  }
+  await enqueueRefundNotification({
+    tenantId: order.tenantId.toString(),
+    userId: contact.userId,
+    email: contact.email,
+    customerName: contact.name,
+    orderRef: order.orderRef,
+    refundRef: refund.refundRef,
+    amountNgn: refund.amountNgn,
+    status,
+    reason: refund.reason
+  });
+}
+
+type RefundStockLine = { productId: Types.ObjectId; variantId: Types.ObjectId; quantity: number; preorder: boolean };
+
+// Puts refunded units back on sale (direction 1), or takes them off again when the refund fails (direction -1).
+// Units that were resold in the meantime cannot be taken back and are skipped.
+async function adjustRefundStock(params: {
+  tenantId: Types.ObjectId;
+  orderRef: string;
+  branchId: Types.ObjectId | null;
+  releasePreorder: boolean;
+  lines: RefundStockLine[];
+  direction: 1 | -1;
+  actor: RefundActor;
+}) {
+  const note =
+    params.direction === 1 ? `Restocked from refund on order ${params.orderRef}` : `Restock reversed for failed refund on order ${params.orderRef}`;
+  for (const line of params.lines) {
+    const delta = params.direction * line.quantity;
+    if (line.preorder && params.releasePreorder) {
+      await ProductModel.updateOne(
+        { _id: line.productId, tenantId: params.tenantId, "variants._id": line.variantId },
+        { $inc: { "variants.$.preorderAllocated": -delta } }
+      );
+      continue;
+    }
+
+    const product = await ProductModel.findOneAndUpdate(
+      {
+        _id: line.productId,
+        tenantId: params.tenantId,
+        variants: { $elemMatch: { _id: line.variantId, ...(delta < 0 ? { stock: { $gte: -delta } } : {}) } }
+      },
+      { $inc: { "variants.$.stock": delta } },
+      { new: true }
+    );
+    const variant = product?.variants.id(line.variantId);
+    if (!product || !variant) {
+      continue;
+    }
+
+    await InventoryLedgerModel.create({
+      tenantId: params.tenantId,
+      productId: product._id,
+      variantId: variant._id,
+      operation: delta > 0 ? "add" : "remove",
+      delta,
+      previousStock: variant.stock - delta,
+      nextStock: variant.stock,
+      note,
+      actorId: params.actor.id,
+      actorRole: params.actor.role
+    });
+
+    if (params.branchId) {
+      await adjustBranchStock({
+        tenantId: params.tenantId,
+        branchId: params.branchId,
+        productId: product._id,
+        variantId: variant._id,
+        delta,
+        operation: delta > 0 ? "add" : "remove",
+        note,
+        actor: params.actor
+      }).catch((error) => {
+        if (delta > 0) {
+          throw error;
+        }
+      });
+    }
+  }
+}
+
+function refundedQuantityUpdate(lines: Array<{ variantId: Types.ObjectId; quantity: number }>, direction: 1 | -1) {
+  return {
+    inc: Object.fromEntries(lines.map((line, index) => [`lines.$[line${index}].refundedQuantity`, direction * line.quantity])),
+    arrayFilters: lines.map((line, index) => ({ [`line${index}.variantId`]: line.variantId }))
+  };
+}
+
+// Claims the amount and units on the order before any money moves, so two concurrent refunds cannot both pay out
+// the same balance. The claim fails when it would take refundedNgn past what was paid or a line past its quantity.
+async function reserveRefund(
+  order: { _id: Types.ObjectId; tenantId: Types.ObjectId },
+  amountNgn: number,
+  paidNgn: number,
+  lines: Array<{ variantId: Types.ObjectId; quantity: number }>
+) {
+  const lineChecks = lines.map((line) => ({
+    $anyElementTrue: [
+      {
+        $map: {
+          input: "$lines",
+          as: "line",
+          in: {
+            $and: [
+              { $eq: ["$$line.variantId", line.variantId] },
+              { $lte: [{ $add: [{ $ifNull: ["$$line.refundedQuantity", 0] }, line.quantity] }, "$$line.quantity"] }
+            ]
+          }
+        }
+      }
+    ]
+  }));
+  const { inc, arrayFilters } = refundedQuantityUpdate(lines, 1);
+  const reserved = await OrderModel.updateOne(
+    {
+      _id: order._id,
+      tenantId: order.tenantId,
+      $expr: { $and: [{ $lte: [{ $add: [{ $ifNull: ["$refundedNgn", 0] }, amountNgn] }, paidNgn] }, ...lineChecks] }
+    },
+    { $inc: { refundedNgn: amountNgn, ...inc } },
+    lines.length > 0 ? { arrayFilters } : {}
+  );
+  return reserved.modifiedCount === 1;
+}
+
+async function releaseRefundReservation(
+  orderId: Types.ObjectId,
+  amountNgn: number,
+  lines: Array<{ variantId: Types.ObjectId; quantity: number }>
+) {
+  const { inc, arrayFilters } = refundedQuantityUpdate(lines, -1);
+  await OrderModel.updateOne({ _id: orderId }, { $inc: { refundedNgn: -amountNgn, ...inc } }, lines.length > 0 ? { arrayFilters } : {});
+}
+
+export async function createOrderRefund(params: {
+  tenantId: Types.ObjectId;
+  orderId: Types.ObjectId;
+  lines?: RefundLineInput[];
+  amountNgn?: number;
+  reason: string;
+  restock: boolean;
+  actor: RefundActor;
+}) {
+  const order = await OrderModel.findOne({ _id: params.orderId, tenantId: params.tenantId });
+  if (!order) {
+    throw new Error("Order not found");
+  }
+
+  const payments = await PaymentModel.find({
+    tenantId: params.tenantId,
+    orderId: order._id,
+    status: { $in: ["success", "refunded"] }
+  }).sort({ verifiedAt: -1 });
+
+  const paidNgn = payments.reduce((acc, payment) => acc + payment.amountNgn, 0);
+  const refundableNgn = paidNgn - (order.refundedNgn ?? 0);
+  if (refundableNgn <= 0) {
+    throw new Error("Order has no refundable payment");
+  }
+
+  const requestedLines = params.lines?.length
+    ? params.lines
+    : order.lines.map((line) => ({
+        variantId: line.variantId.toString(),
+        quantity: line.quantity - (line.refundedQuantity ?? 0)
+      }));
+
+  const refundLines: Array<{
+    productId: Types.ObjectId;
+    variantId: Types.ObjectId;
+    name: string;
+    quantity: number;
+    amountNgn: number;
+    preorder: boolean;
+  }> = [];
+
+  for (const requested of requestedLines) {
+    if (requested.quantity <= 0) {
+      continue;
+    }
+    const line = order.lines.find((entry) => entry.variantId.toString() === requested.variantId);
+    if (!line) {
+      throw new Error(`Order line not found for variant ${requested.variantId}`);
+    }
+    const remaining = line.quantity - (line.refundedQuantity ?? 0);
+    if (requested.quantity > remaining) {
+      throw new Error(`Only ${remaining} unit(s) of ${line.name} can be refunded`);
+    }
+    refundLines.push({
+      productId: line.productId,
+      variantId: line.variantId,
+      name: line.name,
+      quantity: requested.quantity,
+      amountNgn: requested.quantity * line.unitPriceNgn,
+      preorder: Boolean(line.preorder)
+    });
+  }
+
+  const isFullRefund = !params.lines?.length && params.amountNgn === undefined;
+  const linesNgn = refundLines.reduce((acc, line) => acc + line.amountNgn, 0);
+  const amountNgn = isFullRefund ? refundableNgn : Math.min(params.amountNgn ?? linesNgn, refundableNgn);
+  if (params.amountNgn !== undefined && params.amountNgn > refundableNgn) {
+    throw new Error(`Refund amount exceeds refundable balance of NGN ${refundableNgn.toLocaleString()}`);
+  }
+  if (amountNgn <= 0) {
+    throw new Error("Refund amount must be greater than zero");
+  }
+
+  const allocations: Array<{ paymentId: Types.ObjectId; provider: string; providerRef: string; amountNgn: number }> = [];
+  let unallocated = amountNgn;
+  for (const payment of payments) {
+    if (unallocated <= 0) {
+      break;
+    }
+    const available = payment.amountNgn - (payment.refundedNgn ?? 0);
+    if (available <= 0) {
+      continue;
+    }
+    const share = Math.min(available, unallocated);
+    allocations.push({ paymentId: payment._id, provider: payment.provider, providerRef: payment.providerRef, amountNgn: share });
+    unallocated -= share;
+  }
+
+  if (!(await reserveRefund(order, amountNgn, paidNgn, refundLines))) {
+    throw new Error("Order refund balance changed while this refund was prepared. Refresh and try again.");
+  }
+
+  const refund = await RefundModel.create({
+    tenantId: params.tenantId,
+    orderId: order._id,
+    userId: order.userId,
+    refundRef: generateRefundRef(),
+    status: "pending",
+    amountNgn,
+    reason: params.reason,
+    lines: refundLines.map(({ preorder: _preorder, ...line }) => line),
+    allocations,
+    restock: params.restock,
+    actorId: params.actor.id,
+    actorRole: params.actor.role
+  });
+
+  for (const allocation of refund.allocations) {
+    // Cash and bank transfer payments are paid back by hand, so the refund is only recorded.
+    if (allocation.provider === "offline") {
+      allocation.status = "processed";
+      continue;
+    }
+    try {
+      const providerRefund = await getPaymentProvider(allocation.provider).refund({
+        transactionReference: allocation.providerRef,
+        amountNgn: allocation.amountNgn,
+        merchantNote: `${refund.refundRef}: ${params.reason}`,
+        customerNote: params.reason
+      });
+      allocation.providerRefundId = providerRefund.id;
+      allocation.status = providerRefund.status;
+    } catch (error) {
+      allocation.status = "failed";
+      allocation.failureReason = (error as Error).message;
+    }
+  }
+
+  const accepted = refund.allocations.filter((allocation) => allocation.status !== "failed");
+  const acceptedNgn = accepted.reduce((acc, allocation) => acc + allocation.amountNgn, 0);
+  if (accepted.length === 0) {
+    await releaseRefundReservation(order._id, amountNgn, refundLines);
+    refund.status = "failed";
+    refund.failureReason = refund.allocations[0]?.failureReason ?? "No payment available to refund";
+    await refund.save();
+    throw new Error(`Payment provider refund failed: ${refund.failureReason}`);
+  }
+
+  if (acceptedNgn < amountNgn) {
+    await releaseRefundReservation(order._id, amountNgn - acceptedNgn, []);
+  }
+  // A cancelled order already stopped counting its units as sold when it was cancelled.
+  if (order.status !== "cancelled") {
+    await adjustSoldUnits(order.tenantId, refundLines, -1);
+  }
+  refund.amountNgn = acceptedNgn;
+  refund.status = accepted.every((allocation) => allocation.status === "processed") ? "processed" : "processing";
+  if (refund.status === "processed") {
+    refund.processedAt = new Date();
+  }
+
+  for (const allocation of accepted) {
+    await PaymentModel.updateOne({ _id: allocation.paymentId }, { $inc: { refundedNgn: allocation.amountNgn } });
+  }
+
+  // refundedNgn and refundedQuantity were already claimed by reserveRefund, so only the timeline is written here.
+  await OrderModel.updateOne(
+    { _id: order._id },
+    {
+      $push: {
+        timeline: {
+          status: order.status,
+          note: `Refund ${refund.refundRef} of NGN ${acceptedNgn.toLocaleString()} initiated: ${params.reason}`,
+          actor: params.actor.role,
+          at: new Date()
+        }
+      }
+    }
+  );
+
+  if (params.restock && refundLines.length > 0) {
+    refund.preorderReleased = order.status === "awaiting_stock" || order.status === "awaiting_balance";
+    await adjustRefundStock({
+      tenantId: params.tenantId,
+      orderRef: order.orderRef,
+      branchId: order.fulfillmentBranchId ?? null,
+      releasePreorder: refund.preorderReleased,
+      lines: refundLines,
+      direction: 1,
+      actor: params.actor
+    });
+    refund.restockedAt = new Date();
+  }
+
+  await refund.save();
+
+  if (refund.status === "processed") {
+    await completeRefund(refund._id);
+  } else {
+    await notifyRefundCustomer(order, refund, "initiated");
+  }
+
+  return refund;
+}
+
+async function completeRefund(refundId: Types.ObjectId) {
+  const refund = await RefundModel.findById(refundId);
+  const order = refund ? await OrderModel.findById(refund.orderId) : null;
+  if (!refund || !order) {
+    return;
+  }
+
+  for (const allocation of refund.allocations) {
+    if (allocation.status !== "processed") {
+      continue;
+    }
+    await PaymentModel.updateOne(
+      { _id: allocation.paymentId, $expr: { $gte: ["$refundedNgn", "$amountNgn"] } },
+      { $set: { status: "refunded" } }
+    );
+  }
+
+  const paidNgn = (
+    await PaymentModel.find({ orderId: order._id, status: { $in: ["success", "refunded"] } }).select({ amountNgn: 1 }).lean()
+  ).reduce((acc, payment) => acc + payment.amountNgn, 0);
+  const fullyRefunded = (order.refundedNgn ?? 0) >= paidNgn;
+  if (fullyRefunded) {
+    order.status = "refunded";
+  }
+  order.timeline.push({
+    status: order.status,
+    note: `Refund ${refund.refundRef} of NGN ${refund.amountNgn.toLocaleString()} processed.`,
+    actor: "system",
+    at: new Date()
+  });
+  await order.save();
+
+  // Guests have no in-app inbox; they only get the email.
+  if (order.userId) {
+    await CustomerNotificationModel.create({
+      tenantId: order.tenantId,
+      userId: order.userId,
+      type: "refund",
+      title: `Refund processed for ${order.orderRef}`,
+      message: `NGN ${refund.amountNgn.toLocaleString()} has been refunded to your original payment method.`
+    });
+  }
+
+  await notifyRefundCustomer(order, refund, "processed");
+}
+
+// Nothing was paid out, so the refunded units go back on the order and any restocked units come off the shelf again.
+async function rollBackFailedRefund(refund: InstanceType<typeof RefundModel>) {
+  const order = await OrderModel.findById(refund.orderId);
+  if (!order) {
+    return;
+  }
+  await releaseRefundReservation(order._id, 0, refund.lines);
+  if (order.status !== "cancelled") {
+    await adjustSoldUnits(order.tenantId, refund.lines, 1);
+  }
+  if (!refund.restockedAt) {
+    return;
+  }
+  await adjustRefundStock({
+    tenantId: order.tenantId,
+    orderRef: order.orderRef,
+    branchId: order.fulfillmentBranchId ?? null,
+    releasePreorder: Boolean(refund.preorderReleased),
+    lines: refund.lines.map((line) => ({
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity: line.quantity,
+      preorder: Boolean(order.lines.find((entry) => entry.variantId.equals(line.variantId))?.preorder)
+    })),
+    direction: -1,
+    actor: { id: "system", role: "system" }
+  });
+  refund.restockedAt = null;
+}
+
+// A charge can carry several partial refunds, so the provider's refund id picks the allocation. The charge
+// reference is only used when the webhook does not include that id.
+export async function settleRefundByProvider(params: {
+  transactionReference: string;
+  providerRefundId?: string | null;
+  status: "processed" | "failed";
+  failureReason?: string;
+}) {
+  const matchesAllocation = (entry: { providerRef: string; providerRefundId?: string | null }) =>
+    params.providerRefundId ? entry.providerRefundId === params.providerRefundId : entry.providerRef === params.transactionReference;
+  const refund = await RefundModel.findOne({
+    allocations: {
+      $elemMatch: {
+        ...(params.providerRefundId ? { providerRefundId: params.providerRefundId } : { providerRef: params.transactionReference }),
+        status: { $in: ["pending", "processing"] }
+      }
+    }
+  }).sort({ createdAt: 1 });
+  if (!refund) {
+    return null;
+  }
+
+  const allocation = refund.allocations.find(
+    (entry) => matchesAllocation(entry) && (entry.status === "pending" || entry.status === "processing")
+  );
+  if (!allocation) {
+    return null;
+  }
+
+  allocation.status = params.status;
+  if (params.status === "failed") {
+    allocation.failureReason = params.failureReason ?? "Refund failed at provider";
+    refund.amountNgn = Math.max(0, refund.amountNgn - allocation.amountNgn);
+    await PaymentModel.updateOne({ _id: allocation.paymentId }, { $inc: { refundedNgn: -allocation.amountNgn } });
+    await releaseRefundReservation(refund.orderId, allocation.amountNgn, []);
+    const order = await OrderModel.findById(refund.orderId).select({ status: 1 }).lean();
+    if (order) {
+      await OrderModel.updateOne(
+        { _id: order._id },
+        {
+          $push: {
+            timeline: {
+              status: order.status,
+              note: `Refund ${refund.refundRef} of NGN ${allocation.amountNgn.toLocaleString()} failed: ${allocation.failureReason}`,
+              actor: "system",
+              at: new Date()
+            }
+          }
+        }
+      );
+    }
+  }
+
+  const settled = refund.allocations.every((entry) => entry.status === "processed" || entry.status === "failed");
+  if (!settled) {
+    await refund.save();
+    return refund;
+  }
+
+  const processed = refund.allocations.some((entry) => entry.status === "processed");
+  refund.status = processed ? "processed" : "failed";
+  if (processed) {
+    refund.processedAt = new Date();
+  } else {
+    refund.failureReason = allocation.failureReason ?? "Refund failed at provider";
+    await rollBackFailedRefund(refund);
+  }
+  await refund.save();
+
+  if (processed) {
+    await completeRefund(refund._id);
+  }
+
+  return refund;
+}
+
+export function serializeRefund(refund: {
+  _id: Types.ObjectId;
+  refundRef: string;
+  status: string;
+  amountNgn: number;
+  reason: string;
+  lines: Array<{ productId: Types.ObjectId; variantId: Types.ObjectId; name: string; quantity: number; amountNgn: number }>;
+  allocations: Array<{ providerRef: string; amountNgn: number; status: string; failureReason?: string | null }>;
+  restock: boolean;
+  restockedAt?: Date | null;
+  processedAt?: Date | null;
+  failureReason?: string | null;
+  createdAt: Date;
+}) {
+  return {
+    id: refund._id.toString(),
+    refundRef: refund.refundRef,
+    status: refund.status,
+    amountNgn: refund.amountNgn,
+    reason: refund.reason,
+    lines: refund.lines.map((line) => ({
+      productId: line.productId.toString(),
+      variantId: line.variantId.toString(),
+      name: line.name,
+      quantity: line.quantity,
+      amountNgn: line.amountNgn
+    })),
+    allocations: refund.allocations.map((allocation) => ({
+      paymentRef: allocation.providerRef,
+      amountNgn: allocation.amountNgn,
+      status: allocation.status,
+      failureReason: allocation.failureReason ?? null
+    })),
+    restock: refund.restock,
+    restockedAt: refund.restockedAt ?? null,
+    processedAt: refund.processedAt ?? null,
+    failureReason: refund.failureReason ?? null,
+    createdAt: refund.createdAt
+  };
+}
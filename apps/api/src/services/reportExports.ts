@@ -0,0 +1,26 @@
+import mongoose, { mongo, type Types } from "mongoose";
+import { ReportExportModel } from "../models/reportExport.js";
+
+// apps/worker writes finished exports to GridFS rather than local disk, so any API instance can serve a download.
+function reportExportBucket() {
+  return new mongo.GridFSBucket(mongoose.connection.db!, { bucketName: "reportExports" });
+}
+
+export function openReportExportFile(fileId: Types.ObjectId) {
+  return reportExportBucket().openDownloadStream(fileId);
+}
+
+export async function purgeExpiredReportExports(now = new Date()) {
+  const expired = await ReportExportModel.find({ status: "completed", expiresAt: { $lte: now } }).limit(200);
+  for (const exportJob of expired) {
+    if (exportJob.fileId) {
+      await reportExportBucket()
+        .delete(exportJob.fileId)
+        .catch(() => undefined);
+    }
+    exportJob.status = "expired";
+    exportJob.fileId = null;
+    await exportJob.save();
+  }
+  return expired.length;
+}
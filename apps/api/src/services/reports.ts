@@ -0,0 +1,359 @@
+import type { PipelineStage, Types } from "mongoose";
+import { OrderModel } from "../models/order.js";
+import { ProductModel } from "../models/catalog.js";
+
+export const REPORT_KEYS = [
+  "sales",
+  "sales-by-category",
+  "sales-by-product",
+  "top-customers",
+  "inventory-valuation",
+  "discount-usage",
+  "cancellations-refunds",
+  "tax"
+] as const;
+
+export type ReportKey = (typeof REPORT_KEYS)[number];
+
+export type ReportParams = {
+  tenantId: Types.ObjectId;
+  from: Date;
+  to: Date;
+  groupBy: "day" | "week" | "month";
+};
+
+export type ReportResult = {
+  report: ReportKey;
+  from: Date;
+  to: Date;
+  groupBy: ReportParams["groupBy"];
+  generatedAt: Date;
+  columns: string[];
+  rows: Array<Record<string, unknown>>;
+};
+
+export const SOLD_STATUSES = ["paid", "processing", "awaiting_stock", "awaiting_balance", "shipped", "delivered", "refunded"];
+
+const DEFAULT_RANGE_DAYS = 30;
+
+export function resolveReportRange(input: { from?: string; to?: string }) {
+  const to = input.to ? new Date(/^\d{4}-\d{2}-\d{2}$/.test(input.to) ? `${input.to}T23:59:59.999Z` : input.to) : new Date();
+  const from = input.from ? new Date(input.from) : new Date(to.getTime() - DEFAULT_RANGE_DAYS * 24 * 60 * 60 * 1000);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || from.getTime() > to.getTime()) {
+    throw new Error("Invalid report date range");
+  }
+  return { from, to };
+}
+
+export function isReportKey(key: string): key is ReportKey {
+  return (REPORT_KEYS as readonly string[]).includes(key);
+}
+
+function soldOrdersMatch(params: ReportParams): PipelineStage.Match {
+  return {
+    $match: {
+      tenantId: params.tenantId,
+      status: { $in: SOLD_STATUSES },
+      createdAt: { $gte: params.from, $lte: params.to }
+    }
+  };
+}
+
+function periodExpression(groupBy: ReportParams["groupBy"]) {
+  return { $dateTrunc: { date: "$createdAt", unit: groupBy, ...(groupBy === "week" ? { startOfWeek: "monday" } : {}) } };
+}
+
+const lineRevenue = { $multiply: ["$lines.quantity", "$lines.unitPriceNgn"] };
+const lineRefundedUnits = { $ifNull: ["$lines.refundedQuantity", 0] };
+
+async function salesReport(params: ReportParams) {
+  return OrderModel.aggregate([
+    soldOrdersMatch(params),
+    {
+      $group: {
+        _id: periodExpression(params.groupBy),
+        orders: { $sum: 1 },
+        grossNgn: { $sum: "$totalNgn" },
+        discountNgn: { $sum: { $ifNull: ["$discountNgn", 0] } },
+        shippingNgn: { $sum: "$shippingNgn" },
+        taxNgn: { $sum: { $ifNull: ["$taxNgn", 0] } },
+        refundedNgn: { $sum: { $ifNull: ["$refundedNgn", 0] } }
+      }
+    },
+    { $sort: { _id: 1 } },
+    {
+      $project: {
+        _id: 0,
+        period: "$_id",
+        orders: 1,
+        grossNgn: 1,
+        discountNgn: 1,
+        shippingNgn: 1,
+        taxNgn: 1,
+        refundedNgn: 1,
+        netNgn: { $subtract: ["$grossNgn", "$refundedNgn"] },
+        averageOrderValueNgn: { $round: [{ $divide: ["$grossNgn", "$orders"] }, 0] }
+      }
+    }
+  ]);
+}
+
+async function salesByProductReport(params: ReportParams) {
+  return OrderModel.aggregate([
+    soldOrdersMatch(params),
+    { $unwind: "$lines" },
+    {
+      $group: {
+        _id: "$lines.productId",
+        productName: { $first: "$lines.name" },
+        orders: { $addToSet: "$_id" },
+        units: { $sum: "$lines.quantity" },
+        refundedUnits: { $sum: lineRefundedUnits },
+        revenueNgn: { $sum: lineRevenue }
+      }
+    },
+    { $lookup: { from: "products", localField: "_id", foreignField: "_id", as: "product" } },
+    { $sort: { revenueNgn: -1 } },
+    {
+      $project: {
+        _id: 0,
+        productId: { $toString: "$_id" },
+        productName: { $ifNull: [{ $first: "$product.name" }, "$productName"] },
+        orders: { $size: "$orders" },
+        units: 1,
+        refundedUnits: 1,
+        revenueNgn: 1
+      }
+    }
+  ]);
+}
+
+async function salesByCategoryReport(params: ReportParams) {
+  return OrderModel.aggregate([
+    soldOrdersMatch(params),
+    { $unwind: "$lines" },
+    { $lookup: { from: "products", localField: "lines.productId", foreignField: "_id", as: "product" } },
+    {
+      $group: {
+        _id: { $first: "$product.categoryId" },
+        orders: { $addToSet: "$_id" },
+        units: { $sum: "$lines.quantity" },
+        refundedUnits: { $sum: lineRefundedUnits },
+        revenueNgn: { $sum: lineRevenue }
+      }
+    },
+    { $lookup: { from: "categories", localField: "_id", foreignField: "_id", as: "category" } },
+    { $sort: { revenueNgn: -1 } },
+    {
+      $project: {
+        _id: 0,
+        categoryId: { $toString: "$_id" },
+        categoryName: { $ifNull: [{ $first: "$category.name" }, "Uncategorized"] },
+        orders: { $size: "$orders" },
+        units: 1,
+        refundedUnits: 1,
+        revenueNgn: 1
+      }
+    }
+  ]);
+}
+
+async function topCustomersReport(params: ReportParams) {
+  return OrderModel.aggregate([
+    soldOrdersMatch(params),
+    { $match: { userId: { $ne: null } } },
+    {
+      $group: {
+        _id: "$userId",
+        orders: { $sum: 1 },
+        revenueNgn: { $sum: { $subtract: ["$totalNgn", { $ifNull: ["$refundedNgn", 0] }] } },
+        lastOrderAt: { $max: "$createdAt" }
+      }
+    },
+    { $sort: { revenueNgn: -1 } },
+    { $limit: 50 },
+    { $lookup: { from: "users", localField: "_id", foreignField: "_id", as: "user" } },
+    {
+      $project: {
+        _id: 0,
+        userId: { $toString: "$_id" },
+        email: { $first: "$user.email" },
+        name: {
+          $trim: {
+            input: {
+              $concat: [{ $ifNull: [{ $first: "$user.firstName" }, ""] }, " ", { $ifNull: [{ $first: "$user.lastName" }, ""] }]
+            }
+          }
+        },
+        orders: 1,
+        revenueNgn: 1,
+        averageOrderValueNgn: { $round: [{ $divide: ["$revenueNgn", "$orders"] }, 0] },
+        lastOrderAt: 1
+      }
+    }
+  ]);
+}
+
+// Inventory valuation is a point-in-time snapshot, so the date range does not apply.
+async function inventoryValuationReport(params: ReportParams) {
+  return ProductModel.aggregate([
+    { $match: { tenantId: params.tenantId } },
+    { $unwind: "$variants" },
+    { $lookup: { from: "categories", localField: "categoryId", foreignField: "_id", as: "category" } },
+    { $sort: { name: 1, "variants.sku": 1 } },
+    {
+      $project: {
+        _id: 0,
+        productId: { $toString: "$_id" },
+        productName: "$name",
+        categoryName: { $ifNull: [{ $first: "$category.name" }, "Uncategorized"] },
+        sku: "$variants.sku",
+        stock: "$variants.stock",
+        reserved: { $ifNull: ["$variants.reserved", 0] },
+        unitPriceNgn: "$variants.priceNgn",
+        valueNgn: { $multiply: ["$variants.stock", "$variants.priceNgn"] }
+      }
+    }
+  ]);
+}
+
+async function discountUsageReport(params: ReportParams) {
+  return OrderModel.aggregate([
+    soldOrdersMatch(params),
+    { $unwind: "$discountLines" },
+    {
+      $group: {
+        _id: "$discountLines.code",
+        type: { $first: "$discountLines.type" },
+        value: { $first: "$discountLines.value" },
+        orders: { $sum: 1 },
+        discountNgn: { $sum: "$discountLines.amountNgn" },
+        revenueNgn: { $sum: "$totalNgn" }
+      }
+    },
+    { $sort: { orders: -1 } },
+    { $project: { _id: 0, code: "$_id", type: 1, value: 1, orders: 1, discountNgn: 1, revenueNgn: 1 } }
+  ]);
+}
+
+async function cancellationsRefundsReport(params: ReportParams) {
+  return OrderModel.aggregate([
+    {
+      $match: {
+        tenantId: params.tenantId,
+        createdAt: { $gte: params.from, $lte: params.to },
+        $or: [{ status: { $in: ["cancelled", "refunded"] } }, { refundedNgn: { $gt: 0 } }]
+      }
+    },
+    {
+      $group: {
+        _id: {
+          period: periodExpression(params.groupBy),
+          outcome: {
+            $switch: {
+              branches: [
+                { case: { $eq: ["$status", "cancelled"] }, then: "cancelled" },
+                { case: { $eq: ["$status", "refunded"] }, then: "refunded" }
+              ],
+              default: "partially_refunded"
+            }
+          }
+        },
+        orders: { $sum: 1 },
+        orderValueNgn: { $sum: "$totalNgn" },
+        refundedNgn: { $sum: { $ifNull: ["$refundedNgn", 0] } }
+      }
+    },
+    { $sort: { "_id.period": 1, "_id.outcome": 1 } },
+    { $project: { _id: 0, period: "$_id.period", outcome: "$_id.outcome", orders: 1, orderValueNgn: 1, refundedNgn: 1 } }
+  ]);
+}
+
+// Refunds are not itemised by tax, so the VAT handed back is estimated from the refunded share of each order.
+async function taxReport(params: ReportParams) {
+  return OrderModel.aggregate([
+    soldOrdersMatch(params),
+    {
+      $group: {
+        _id: periodExpression(params.groupBy),
+        orders: { $sum: 1 },
+        taxableNgn: { $sum: { $sum: "$taxLines.taxableNgn" } },
+        exemptNgn: { $sum: { $ifNull: ["$taxExemptNgn", 0] } },
+        taxNgn: { $sum: { $ifNull: ["$taxNgn", 0] } },
+        refundedTaxNgn: {
+          $sum: {
+            $cond: [
+              { $gt: ["$totalNgn", 0] },
+              { $divide: [{ $multiply: [{ $ifNull: ["$taxNgn", 0] }, { $ifNull: ["$refundedNgn", 0] }] }, "$totalNgn"] },
+              0
+            ]
+          }
+        }
+      }
+    },
+    { $sort: { _id: 1 } },
+    {
+      $project: {
+        _id: 0,
+        period: "$_id",
+        orders: 1,
+        taxableNgn: 1,
+        exemptNgn: 1,
+        taxNgn: 1,
+        refundedTaxNgn: { $round: ["$refundedTaxNgn", 0] },
+        netTaxNgn: { $round: [{ $subtract: ["$taxNgn", "$refundedTaxNgn"] }, 0] }
+      }
+    }
+  ]);
+}
+
+const reportRunners: Record<ReportKey, (params: ReportParams) => Promise<Array<Record<string, unknown>>>> = {
+  sales: salesReport,
+  "sales-by-category": salesByCategoryReport,
+  "sales-by-product": salesByProductReport,
+  "top-customers": topCustomersReport,
+  "inventory-valuation": inventoryValuationReport,
+  "discount-usage": discountUsageReport,
+  "cancellations-refunds": cancellationsRefundsReport,
+  tax: taxReport
+};
+
+const reportColumns: Record<ReportKey, string[]> = {
+  sales: ["period", "orders", "grossNgn", "discountNgn", "shippingNgn", "taxNgn", "refundedNgn", "netNgn", "averageOrderValueNgn"],
+  "sales-by-category": ["categoryId", "categoryName", "orders", "units", "refundedUnits", "revenueNgn"],
+  "sales-by-product": ["productId", "productName", "orders", "units", "refundedUnits", "revenueNgn"],
+  "top-customers": ["userId", "email", "name", "orders", "revenueNgn", "averageOrderValueNgn", "lastOrderAt"],
+  "inventory-valuation": ["productId", "productName", "categoryName", "sku", "stock", "reserved", "unitPriceNgn", "valueNgn"],
+  "discount-usage": ["code", "type", "value", "orders", "discountNgn", "revenueNgn"],
+  "cancellations-refunds": ["period", "outcome", "orders", "orderValueNgn", "refundedNgn"],
+  tax: ["period", "orders", "taxableNgn", "exemptNgn", "taxNgn", "refundedTaxNgn", "netTaxNgn"]
+};
+
+export async function runReport(key: ReportKey, params: ReportParams): Promise<ReportResult> {
+  const rows = await reportRunners[key](params);
+  return {
+    report: key,
+    from: params.from,
+    to: params.to,
+    groupBy: params.groupBy,
+    generatedAt: new Date(),
+    columns: reportColumns[key],
+    rows
+  };
+}
+
+export async function summarizeOrders(tenantId: Types.ObjectId) {
+  const [summary] = await OrderModel.aggregate<{ orders: number; cancelled: number; billed: number; revenueNgn: number }>([
+    { $match: { tenantId } },
+    {
+      $group: {
+        _id: null,
+        orders: { $sum: 1 },
+        cancelled: { $sum: { $cond: [{ $eq: ["$status", "cancelled"] }, 1, 0] } },
+        billed: { $sum: { $cond: [{ $ne: ["$status", "cancelled"] }, 1, 0] } },
+        revenueNgn: { $sum: { $cond: [{ $ne: ["$status", "cancelled"] }, "$totalNgn", 0] } }
+      }
+    }
+  ]);
+  return summary ?? { orders: 0, cancelled: 0, billed: 0, revenueNgn: 0 };
+}
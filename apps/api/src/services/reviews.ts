@@ -0,0 +1,43 @@
+import type { Types } from "mongoose";
+import { ProductModel } from "../models/catalog.js";
+import { OrderModel } from "../models/order.js";
+import { ProductReviewModel, type ProductReviewDocument } from "../models/productReview.js";
+
+type ReviewRecord = ProductReviewDocument & { _id: Types.ObjectId; createdAt: Date };
+
+// Reviews are limited to customers holding a delivered order for the product; that order backs the verified badge.
+export async function findDeliveredOrderForProduct(tenantId: Types.ObjectId, userId: Types.ObjectId, productId: Types.ObjectId) {
+  return OrderModel.findOne({ tenantId, userId, status: "delivered", "lines.productId": productId })
+    .sort({ createdAt: -1 })
+    .select({ _id: 1 })
+    .lean();
+}
+
+// Only approved reviews count towards the rating shown on the catalogue.
+export async function refreshProductRating(tenantId: Types.ObjectId, productId: Types.ObjectId) {
+  const [summary] = await ProductReviewModel.aggregate<{ average: number; count: number }>([
+    { $match: { tenantId, productId, status: "approved" } },
+    { $group: { _id: null, average: { $avg: "$rating" }, count: { $sum: 1 } } }
+  ]);
+  const rating = summary ? { average: Math.round(summary.average * 10) / 10, count: summary.count } : { average: 0, count: 0 };
+  await ProductModel.updateOne({ _id: productId, tenantId }, { $set: { rating } });
+  return rating;
+}
+
+export function serializeReview(
+  review: Pick<ReviewRecord, "_id" | "productId" | "orderId" | "rating" | "title" | "body" | "photos" | "status" | "createdAt">,
+  reviewerName: string
+) {
+  return {
+    id: review._id.toString(),
+    productId: review.productId.toString(),
+    reviewerName,
+    rating: review.rating,
+    title: review.title ?? null,
+    body: review.body,
+    photos: review.photos.map((photo) => ({ url: photo.url, publicId: photo.publicId })),
+    verifiedPurchase: Boolean(review.orderId),
+    status: review.status,
+    createdAt: review.createdAt
+  };
+}
@@ -0,0 +1,145 @@
+import type { Types } from "mongoose";
+import { CategoryModel, ProductModel } from "../models/catalog.js";
+import { CustomerEventModel } from "../models/customerEvent.js";
+import { allowedTypos, editDistance, fuzzyPrefixCost, tokenizeSearchText } from "../utils/searchText.js";
+
+const POPULAR_TERM_WINDOW_DAYS = 90;
+const POPULAR_TERM_LIMIT = 200;
+// Suggestions run on every keystroke, so each tenant's catalogue words are loaded at most once per TTL.
+const SUGGESTION_SOURCE_TTL_MS = 60 * 1000;
+
+type SuggestionSources = Awaited<ReturnType<typeof buildSuggestionSources>>;
+
+const suggestionSourceCache = new Map<string, { expiresAt: number; sources: Promise<SuggestionSources> }>();
+
+// A term only becomes a suggestion once two different customers have searched it, so one shopper's typo is not
+// offered to everybody else.
+async function findPopularSearchTerms(tenantId: Types.ObjectId) {
+  const since = new Date(Date.now() - POPULAR_TERM_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+  return CustomerEventModel.aggregate<{ _id: string; count: number }>([
+    { $match: { tenantId, type: "search", term: { $ne: null }, createdAt: { $gte: since } } },
+    { $group: { _id: { $toLower: "$term" }, count: { $sum: 1 }, users: { $addToSet: "$userId" } } },
+    { $match: { "users.1": { $exists: true } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $limit: POPULAR_TERM_LIMIT },
+    { $project: { count: 1 } }
+  ]);
+}
+
+async function buildSuggestionSources(tenantId: Types.ObjectId) {
+  const [products, categories, terms] = await Promise.all([
+    ProductModel.find({ tenantId, active: true })
+      .select({ slug: 1, name: 1, imageUrl: 1, images: 1, soldUnits: 1 })
+      .lean(),
+    CategoryModel.find({ tenantId }).select({ slug: 1, name: 1 }).lean(),
+    findPopularSearchTerms(tenantId)
+  ]);
+
+  const vocabulary = new Map<string, number>();
+  const addWords = (text: string, weight: number) => {
+    for (const word of tokenizeSearchText(text)) {
+      vocabulary.set(word, (vocabulary.get(word) ?? 0) + weight);
+    }
+  };
+  products.forEach((product) => addWords(product.name, 1 + (product.soldUnits ?? 0)));
+  categories.forEach((category) => addWords(category.name, 1));
+  terms.forEach((term) => addWords(term._id, term.count));
+
+  return {
+    products: products.map((product) => ({ ...product, tokens: tokenizeSearchText(product.name) })),
+    categories: categories.map((category) => ({ ...category, tokens: tokenizeSearchText(category.name) })),
+    terms: terms.map((term) => ({ ...term, tokens: tokenizeSearchText(term._id) })),
+    vocabulary
+  };
+}
+
+// Concurrent requests share one in-flight load; a failed load is dropped so the next request retries it.
+function loadSuggestionSources(tenantId: Types.ObjectId, now = Date.now()) {
+  const key = tenantId.toString();
+  const cached = suggestionSourceCache.get(key);
+  if (cached && cached.expiresAt > now) {
+    return cached.sources;
+  }
+
+  const sources = buildSuggestionSources(tenantId);
+  suggestionSourceCache.set(key, { expiresAt: now + SUGGESTION_SOURCE_TTL_MS, sources });
+  sources.catch(() => {
+    if (suggestionSourceCache.get(key)?.sources === sources) {
+      suggestionSourceCache.delete(key);
+    }
+  });
+  return sources;
+}
+
+function rankMatches<T extends { tokens: string[] }>(
+  queryTokens: string[],
+  candidates: T[],
+  text: (candidate: T) => string,
+  weight: (candidate: T) => number
+) {
+  return candidates
+    .map((candidate) => ({ candidate, cost: fuzzyPrefixCost(queryTokens, candidate.tokens) }))
+    .filter((entry): entry is { candidate: T; cost: number } => entry.cost !== null)
+    .sort((a, b) => a.cost - b.cost || weight(b.candidate) - weight(a.candidate) || text(a.candidate).localeCompare(text(b.candidate)))
+    .map((entry) => entry.candidate);
+}
+
+// Autocomplete for the search box: product names, categories and popular search terms that start with (or are a
+// typo or two away from) what has been typed so far.
+export async function suggestSearch(tenantId: Types.ObjectId, query: string, limit: number) {
+  const queryTokens = tokenizeSearchText(query);
+  if (queryTokens.length === 0) {
+    return { products: [], categories: [], terms: [] };
+  }
+  const sources = await loadSuggestionSources(tenantId);
+
+  return {
+    products: rankMatches(queryTokens, sources.products, (product) => product.name, (product) => product.soldUnits ?? 0)
+      .slice(0, limit)
+      .map((product) => ({
+        id: product._id.toString(),
+        slug: product.slug,
+        name: product.name,
+        imageUrl: product.images?.[0]?.url ?? product.imageUrl
+      })),
+    categories: rankMatches(queryTokens, sources.categories, (category) => category.name, () => 0)
+      .slice(0, limit)
+      .map((category) => ({ id: category._id.toString(), slug: category.slug, name: category.name })),
+    terms: rankMatches(queryTokens, sources.terms, (term) => term._id, (term) => term.count)
+      .slice(0, limit)
+      .map((term) => ({ term: term._id, count: term.count }))
+  };
+}
+
+// Replaces each unknown word of a search with the closest catalogue or popular-search word within its typo
+// allowance. Returns null when nothing needed correcting.
+export async function suggestSpellingCorrection(tenantId: Types.ObjectId, search: string) {
+  const queryTokens = tokenizeSearchText(search);
+  if (queryTokens.length === 0) {
+    return null;
+  }
+  const { vocabulary } = await loadSuggestionSources(tenantId);
+
+  let changed = false;
+  const corrected = queryTokens.map((token) => {
+    if (vocabulary.has(token)) {
+      return token;
+    }
+    let best: { word: string; typos: number; weight: number } | null = null;
+    for (const [word, weight] of vocabulary) {
+      const typos = editDistance(token, word);
+      if (typos > allowedTypos(token)) {
+        continue;
+      }
+      if (!best || typos < best.typos || (typos === best.typos && weight > best.weight)) {
+        best = { word, typos, weight };
+      }
+    }
+    if (!best) {
+      return token;
+    }
+    changed = true;
+    return best.word;
+  });
+  return changed ? corrected.join(" ") : null;
+}
@@ -0,0 +1,148 @@
+import type { Types } from "mongoose";
+import { env } from "../config/env.js";
+import { ProductModel } from "../models/catalog.js";
+import { ShippingZoneModel } from "../models/shippingZone.js";
+import { StoreBranchModel } from "../models/storeBranch.js";
+
+type ShippingLine = {
+  productId: Types.ObjectId;
+  variantId: Types.ObjectId;
+  quantity: number;
+};
+
+type ShippingZoneRates = {
+  rateBasis: "weight" | "item_count";
+  rates: Array<{ upTo: number; priceNgn: number }>;
+  extraUnitPriceNgn?: number | null;
+  freeShippingThresholdNgn?: number | null;
+};
+
+export type ShippingOption =
+  | {
+      method: "delivery";
+      zoneId: string | null;
+      zoneName: string;
+      priceNgn: number;
+      freeShippingApplied: boolean;
+      estimatedDays: string | null;
+    }
+  | {
+      method: "pickup";
+      branchId: string;
+      branchName: string;
+      address: string;
+      city: string;
+      state: string;
+      priceNgn: 0;
+    };
+
+function normalizePlace(value: string) {
+  return value.trim().toLowerCase();
+}
+
+// Bands are matched on the smallest `upTo` that covers the parcel; anything heavier than the last band
+// pays the last band's price plus `extraUnitPriceNgn` per additional kg or item.
+export function priceShippingZone(zone: ShippingZoneRates, parcel: { weightKg: number; itemCount: number }, subtotalNgn: number) {
+  if (zone.freeShippingThresholdNgn !== null && zone.freeShippingThresholdNgn !== undefined && subtotalNgn >= zone.freeShippingThresholdNgn) {
+    return { priceNgn: 0, freeShippingApplied: true };
+  }
+
+  const measure = zone.rateBasis === "weight" ? parcel.weightKg : parcel.itemCount;
+  const bands = [...zone.rates].sort((a, b) => a.upTo - b.upTo);
+  const band = bands.find((entry) => measure <= entry.upTo);
+  if (band) {
+    return { priceNgn: band.priceNgn, freeShippingApplied: false };
+  }
+
+  const last = bands[bands.length - 1];
+  if (!last) {
+    return { priceNgn: 0, freeShippingApplied: false };
+  }
+  const extraUnits = Math.ceil(measure - last.upTo);
+  return { priceNgn: last.priceNgn + extraUnits * (zone.extraUnitPriceNgn ?? 0), freeShippingApplied: false };
+}
+
+async function measureParcel(tenantId: Types.ObjectId, lines: ShippingLine[]) {
+  const products = await ProductModel.find({ tenantId, _id: { $in: lines.map((line) => line.productId) } })
+    .select({ variants: 1 })
+    .lean();
+  const weights = new Map(
+    products.flatMap((product) => product.variants.map((variant) => [variant._id.toString(), variant.weightKg ?? null] as const))
+  );
+
+  return lines.reduce(
+    (acc, line) => ({
+      weightKg: acc.weightKg + line.quantity * (weights.get(line.variantId.toString()) ?? env.DEFAULT_ITEM_WEIGHT_KG),
+      itemCount: acc.itemCount + line.quantity
+    }),
+    { weightKg: 0, itemCount: 0 }
+  );
+}
+
+// A zone listing cities only matches those cities; a zone listing states only matches the whole state.
+// City matches win over state matches so a Lagos Island zone can sit alongside a wider Lagos zone.
+export async function resolveShippingZone(tenantId: Types.ObjectId, address: { city: string; state: string }) {
+  const zones = await ShippingZoneModel.find({ tenantId, active: true }).lean();
+  if (zones.length === 0) {
+    return { configured: false as const, zone: null };
+  }
+
+  const city = normalizePlace(address.city);
+  const state = normalizePlace(address.state);
+  const stateMatches = (zone: (typeof zones)[number]) =>
+    zone.states.length === 0 || zone.states.some((entry) => normalizePlace(entry) === state);
+  const cityZone = zones.find(
+    (zone) => zone.cities.some((entry) => normalizePlace(entry) === city) && stateMatches(zone)
+  );
+  const stateZone = zones.find((zone) => zone.cities.length === 0 && zone.states.some((entry) => normalizePlace(entry) === state));
+  return { configured: true as const, zone: cityZone ?? stateZone ?? null };
+}
+
+export async function quoteShippingOptions(params: {
+  tenantId: Types.ObjectId;
+  lines: ShippingLine[];
+  subtotalNgn: number;
+  address?: { city: string; state: string } | null;
+}) {
+  const options: ShippingOption[] = [];
+
+  if (params.address) {
+    const { configured, zone } = await resolveShippingZone(params.tenantId, params.address);
+    if (!configured) {
+      options.push({
+        method: "delivery",
+        zoneId: null,
+        zoneName: "Standard delivery",
+        priceNgn: params.lines.length > 0 ? env.DEFAULT_SHIPPING_NGN : 0,
+        freeShippingApplied: false,
+        estimatedDays: null
+      });
+    } else if (zone) {
+      const parcel = await measureParcel(params.tenantId, params.lines);
+      const price = priceShippingZone(zone, parcel, params.subtotalNgn);
+      options.push({
+        method: "delivery",
+        zoneId: zone._id.toString(),
+        zoneName: zone.name,
+        priceNgn: price.priceNgn,
+        freeShippingApplied: price.freeShippingApplied,
+        estimatedDays: zone.estimatedDays ?? null
+      });
+    }
+  }
+
+  const branches = await StoreBranchModel.find({ tenantId: params.tenantId, active: true }).sort({ name: 1 }).lean();
+  for (const branch of branches) {
+    options.push({
+      method: "pickup",
+      branchId: branch._id.toString(),
+      branchName: branch.name,
+      address: branch.address,
+      city: branch.city,
+      state: branch.state,
+      priceNgn: 0
+    });
+  }
+
+  return options;
+}
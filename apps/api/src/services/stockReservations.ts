@@ -0,0 +1,172 @@
+import type { ClientSession, Types } from "mongoose";
+import { ProductModel } from "../models/catalog.js";
+import { StockReservationModel } from "../models/stockReservation.js";
+
+type ReservableLine = {
+  productId: Types.ObjectId;
+  variantId: Types.ObjectId;
+  name: string;
+  quantity: number;
+};
+
+type ReleaseReason = "expired" | "payment_failed" | "checkout_failed" | "superseded" | "cancelled";
+
+export function availableStock(variant: { stock: number; reserved?: number | null }) {
+  return Math.max(0, variant.stock - (variant.reserved ?? 0));
+}
+
+async function reserveLine(tenantId: Types.ObjectId, line: ReservableLine, session: ClientSession) {
+  // Compare-and-swap on the variant's stock/reserved pair; retry when a concurrent checkout wins the race.
+  for (let attempt = 0; attempt < 3; attempt += 1) {
+    const product = await ProductModel.findOne({ _id: line.productId, tenantId }).select({ variants: 1 }).session(session).lean();
+    const variant = product?.variants.find((entry) => entry._id.equals(line.variantId));
+    if (!variant) {
+      throw new Error(`Variant not found for ${line.name}`);
+    }
+
+    const available = availableStock(variant);
+    if (available < line.quantity) {
+      throw new Error(`Only ${available} unit(s) of ${line.name} are available`);
+    }
+
+    const updated = await ProductModel.updateOne(
+      {
+        _id: line.productId,
+        tenantId,
+        variants: {
+          $elemMatch: {
+            _id: line.variantId,
+            stock: variant.stock,
+            reserved: variant.reserved ? variant.reserved : { $in: [0, null] }
+          }
+        }
+      },
+      { $inc: { "variants.$.reserved": line.quantity } },
+      { session }
+    ).catch((error: Error & { hasErrorLabel?: (label: string) => boolean }) => {
+      // Inside the checkout transaction a concurrent reservation surfaces as a write conflict, which aborts the
+      // transaction, so there is nothing left to retry.
+      throw error.hasErrorLabel?.("TransientTransactionError")
+        ? new Error(`Unable to reserve stock for ${line.name}. Please try again.`)
+        : error;
+    });
+    if (updated.modifiedCount === 1) {
+      return;
+    }
+  }
+
+  throw new Error(`Unable to reserve stock for ${line.name}. Please try again.`);
+}
+
+async function releaseReservation(reservationId: Types.ObjectId, reason: ReleaseReason) {
+  const reservation = await StockReservationModel.findOneAndUpdate(
+    { _id: reservationId, status: "active" },
+    { $set: { status: "released", releasedAt: new Date(), releaseReason: reason } },
+    { new: true }
+  );
+  if (!reservation) {
+    return false;
+  }
+
+  await ProductModel.updateOne(
+    {
+      _id: reservation.productId,
+      tenantId: reservation.tenantId,
+      variants: { $elemMatch: { _id: reservation.variantId, reserved: { $gte: reservation.quantity } } }
+    },
+    { $inc: { "variants.$.reserved": -reservation.quantity } }
+  );
+  return true;
+}
+
+// Runs inside the checkout transaction: if anything later in checkout fails, aborting it releases the held units
+// together with the reservation records.
+export async function reserveOrderStock(params: {
+  tenantId: Types.ObjectId;
+  orderId: Types.ObjectId;
+  lines: ReservableLine[];
+  expiresAt: Date;
+  session: ClientSession;
+}) {
+  for (const line of params.lines) {
+    await reserveLine(params.tenantId, line, params.session);
+  }
+
+  return StockReservationModel.insertMany(
+    params.lines.map((line) => ({
+      tenantId: params.tenantId,
+      orderId: params.orderId,
+      productId: line.productId,
+      variantId: line.variantId,
+      quantity: line.quantity,
+      status: "active",
+      expiresAt: params.expiresAt
+    })),
+    { session: params.session }
+  );
+}
+
+export async function releaseOrderReservations(orderId: Types.ObjectId, reason: ReleaseReason) {
+  const reservations = await StockReservationModel.find({ orderId, status: "active" }).select({ _id: 1 }).lean();
+  let released = 0;
+  for (const reservation of reservations) {
+    if (await releaseReservation(reservation._id, reason)) {
+      released += 1;
+    }
+  }
+  return released;
+}
+
+export async function releaseExpiredReservations(now = new Date()) {
+  const expired = await StockReservationModel.find({ status: "active", expiresAt: { $lte: now } })
+    .select({ _id: 1 })
+    .limit(500)
+    .lean();
+  let released = 0;
+  for (const reservation of expired) {
+    if (await releaseReservation(reservation._id, "expired")) {
+      released += 1;
+    }
+  }
+  return released;
+}
+
+// Returns false when the reservation already lapsed, so the caller can fall back to a plain stock decrement.
+export async function convertReservedStock(
+  line: { productId: Types.ObjectId; variantId: Types.ObjectId; quantity: number },
+  order: { _id: Types.ObjectId; tenantId: Types.ObjectId },
+  session: ClientSession
+) {
+  const reservation = await StockReservationModel.findOneAndUpdate(
+    { orderId: order._id, variantId: line.variantId, status: "active" },
+    { $set: { status: "converted", convertedAt: new Date() } },
+    { new: true, session }
+  );
+  if (!reservation) {
+    return false;
+  }
+
+  const updated = await ProductModel.updateOne(
+    {
+      _id: line.productId,
+      tenantId: order.tenantId,
+      variants: {
+        $elemMatch: { _id: line.variantId, stock: { $gte: reservation.quantity }, reserved: { $gte: reservation.quantity } }
+      }
+    },
+    { $inc: { "variants.$.stock": -reservation.quantity, "variants.$.reserved": -reservation.quantity } },
+    { session }
+  );
+  if (updated.modifiedCount !== 1) {
+    throw new Error(`Failed to decrement stock for product ${line.productId.toString()}`);
+  }
+  return true;
+}
+
+export async function summarizeActiveReservations(tenantId: Types.ObjectId) {
+  const rows = await StockReservationModel.aggregate<{ _id: Types.ObjectId; count: number; nextExpiry: Date }>([
+    { $match: { tenantId, status: "active" } },
+    { $group: { _id: "$variantId", count: { $sum: 1 }, nextExpiry: { $min: "$expiresAt" } } }
+  ]);
+  return new Map(rows.map((row) => [row._id.toString(), { count: row.count, nextExpiry: row.nextExpiry }]));
+}
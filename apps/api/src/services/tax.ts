@@ -0,0 +1,26 @@
+import type { Types } from "mongoose";
+import { ProductModel } from "../models/catalog.js";
+import { TenantModel } from "../models/tenant.js";
+import type { CartTaxSettings } from "../utils/cart.js";
+
+export async function resolveTenantTaxSettings(tenantId: Types.ObjectId, productIds: Types.ObjectId[]): Promise<CartTaxSettings | null> {
+  const tenant = await TenantModel.findById(tenantId).select({ tax: 1 }).lean();
+  const tax = tenant?.tax;
+  if (!tax || !tax.vatRatePercent) {
+    return null;
+  }
+
+  const exemptProducts =
+    tax.exemptCategoryIds.length > 0 && productIds.length > 0
+      ? await ProductModel.find({ tenantId, _id: { $in: productIds }, categoryId: { $in: tax.exemptCategoryIds } })
+          .select({ _id: 1 })
+          .lean()
+      : [];
+
+  return {
+    ratePercent: tax.vatRatePercent,
+    inclusive: tax.pricesIncludeTax,
+    shippingTaxable: tax.shippingTaxable,
+    exemptProductIds: new Set(exemptProducts.map((product) => product._id.toString()))
+  };
+}
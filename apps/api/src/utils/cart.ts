@@ -1,9 +1,71 @@
+import { env } from "../config/env.js";
 import type { CartDocument } from "../models/cart.js";
 
-export function calculateCartTotals(cart: Pick<CartDocument, "lines">) {
+type CartDiscount = {
+  type: "percent" | "fixed";
+  value: number;
+};
+
+export function calculateDiscountAmount(discount: CartDiscount, subtotalNgn: number) {
+  const amount = discount.type === "percent" ? (subtotalNgn * Math.min(discount.value, 100)) / 100 : discount.value;
+  return Math.max(0, Math.min(Math.round(amount), subtotalNgn));
+}
+
+export type CartTaxSettings = {
+  ratePercent: number;
+  inclusive: boolean;
+  shippingTaxable: boolean;
+  exemptProductIds: Set<string>;
+};
+
+export type TaxLine = {
+  code: "VAT";
+  label: string;
+  ratePercent: number;
+  inclusive: boolean;
+  taxableNgn: number;
+  amountNgn: number;
+};
+
+// The order discount is spread over taxable and exempt goods by value, so exempt lines never lower the VAT base
+// by more than their share. Inclusive prices already contain the VAT, so it is extracted rather than added.
+function calculateTax(
+  lines: Pick<CartDocument, "lines">["lines"],
+  amounts: { subtotalNgn: number; discountNgn: number; shippingNgn: number },
+  tax: CartTaxSettings
+) {
+  const exemptSubtotalNgn = lines
+    .filter((line) => tax.exemptProductIds.has(line.productId.toString()))
+    .reduce((acc, line) => acc + line.quantity * line.unitPriceNgn, 0);
+  const taxableGoodsNgn = amounts.subtotalNgn - exemptSubtotalNgn;
+  const taxableDiscountNgn = amounts.subtotalNgn > 0 ? Math.round((amounts.discountNgn * taxableGoodsNgn) / amounts.subtotalNgn) : 0;
+  const taxableNgn = taxableGoodsNgn - taxableDiscountNgn + (tax.shippingTaxable ? amounts.shippingNgn : 0);
+  const amountNgn = Math.round(
+    tax.inclusive ? (taxableNgn * tax.ratePercent) / (100 + tax.ratePercent) : (taxableNgn * tax.ratePercent) / 100
+  );
+
+  return {
+    taxNgn: amountNgn,
+    taxExemptNgn: exemptSubtotalNgn - (amounts.discountNgn - taxableDiscountNgn),
+    taxLines: [{ code: "VAT", label: `VAT (${tax.ratePercent}%)`, ratePercent: tax.ratePercent, inclusive: tax.inclusive, taxableNgn, amountNgn }] as TaxLine[]
+  };
+}
+
+// Without a quoted shipping price the flat default stands in, e.g. for cart summaries before an address is known.
+export function calculateCartTotals(
+  cart: Pick<CartDocument, "lines">,
+  discount?: CartDiscount | null,
+  quotedShippingNgn?: number,
+  tax?: CartTaxSettings | null
+) {
   const subtotalNgn = cart.lines.reduce((acc, item) => acc + item.quantity * item.unitPriceNgn, 0);
-  const shippingNgn = subtotalNgn > 0 ? 2500 : 0;
-  const totalNgn = subtotalNgn + shippingNgn;
+  const discountNgn = discount ? calculateDiscountAmount(discount, subtotalNgn) : 0;
+  const shippingNgn = subtotalNgn > 0 ? (quotedShippingNgn ?? env.DEFAULT_SHIPPING_NGN) : 0;
+  const { taxNgn, taxExemptNgn, taxLines } =
+    tax && tax.ratePercent > 0 && subtotalNgn > 0
+      ? calculateTax(cart.lines, { subtotalNgn, discountNgn, shippingNgn }, tax)
+      : { taxNgn: 0, taxExemptNgn: 0, taxLines: [] as TaxLine[] };
+  const totalNgn = subtotalNgn - discountNgn + shippingNgn + (tax?.inclusive ? 0 : taxNgn);
 
-  return { subtotalNgn, shippingNgn, totalNgn };
+  return { subtotalNgn, discountNgn, shippingNgn, taxNgn, taxExemptNgn, taxLines, totalNgn };
 }
@@ -0,0 +1,56 @@
+type PreorderSettings = {
+  enabled?: boolean | null;
+  expectedShipDate?: Date | null;
+  depositPercent?: number | null;
+};
+
+type PreorderVariant = {
+  preorderCap?: number | null;
+  preorderAllocated?: number | null;
+};
+
+type PayableLine = {
+  quantity: number;
+  unitPriceNgn: number;
+  preorder?: boolean | null;
+  depositPercent?: number | null;
+};
+
+export function isPreorderProduct(product: { preorder?: PreorderSettings | null }) {
+  return Boolean(product.preorder?.enabled);
+}
+
+// Returns null when the variant has no preorder cap (unlimited allocation).
+export function remainingPreorderAllocation(variant: PreorderVariant) {
+  if (variant.preorderCap === null || variant.preorderCap === undefined) {
+    return null;
+  }
+  return Math.max(0, variant.preorderCap - (variant.preorderAllocated ?? 0));
+}
+
+export function serializePreorder(product: { preorder?: PreorderSettings | null }) {
+  if (!isPreorderProduct(product)) {
+    return null;
+  }
+  return {
+    expectedShipDate: product.preorder?.expectedShipDate ?? null,
+    depositPercent: product.preorder?.depositPercent ?? null
+  };
+}
+
+export function calculatePaymentSplit(lines: PayableLine[], totalNgn: number) {
+  const deferredNgn = lines.reduce((acc, line) => {
+    if (!line.preorder || !line.depositPercent || line.depositPercent >= 100) {
+      return acc;
+    }
+    const lineTotal = line.quantity * line.unitPriceNgn;
+    return acc + (lineTotal - Math.ceil((lineTotal * line.depositPercent) / 100));
+  }, 0);
+
+  const balanceNgn = Math.min(deferredNgn, totalNgn);
+  if (balanceNgn <= 0) {
+    return { mode: "full" as const, depositNgn: totalNgn, balanceNgn: 0 };
+  }
+
+  return { mode: "deposit" as const, depositNgn: totalNgn - balanceNgn, balanceNgn };
+}
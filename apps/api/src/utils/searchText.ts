@@ -0,0 +1,59 @@
+export function tokenizeSearchText(value: string) {
+  const normalized = value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+  return normalized ? normalized.split(" ") : [];
+}
+
+// Short words must be typed exactly; longer words tolerate one typo, and long words two.
+export function allowedTypos(token: string) {
+  if (token.length <= 3) {
+    return 0;
+  }
+  return token.length <= 7 ? 1 : 2;
+}
+
+// Optimal string alignment distance: Levenshtein plus adjacent transpositions, the most common typing slip.
+export function editDistance(a: string, b: string) {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => [i, ...Array<number>(b.length).fill(0)]);
+  for (let j = 1; j <= b.length; j += 1) {
+    rows[0][j] = j;
+  }
+  for (let i = 1; i <= a.length; i += 1) {
+    for (let j = 1; j <= b.length; j += 1) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return rows[a.length][b.length];
+}
+
+// Number of typos needed for every query token to match (or start) some word of the candidate, or null when one
+// of them cannot match within its allowance.
+export function fuzzyPrefixCost(queryTokens: string[], candidateWords: string[]) {
+  let total = 0;
+  for (const token of queryTokens) {
+    let best: number | null = null;
+    for (const word of candidateWords) {
+      if (word.startsWith(token)) {
+        best = 0;
+        break;
+      }
+      const typos = Math.min(editDistance(token, word.slice(0, token.length)), editDistance(token, word));
+      if (typos <= allowedTypos(token) && (best === null || typos < best)) {
+        best = typos;
+      }
+    }
+    if (best === null) {
+      return null;
+    }
+    total += best;
+  }
+  return total;
+}
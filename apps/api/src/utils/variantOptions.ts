@@ -0,0 +1,140 @@
+export const MAX_PRODUCT_OPTIONS = 3;
+export const MAX_OPTION_COMBINATIONS = 100;
+
+export type ProductOption = {
+  name: string;
+  values: string[];
+};
+
+type StoredOptionValues = Map<string, string> | Record<string, string> | null | undefined;
+
+type OptionedVariant = {
+  options?: StoredOptionValues;
+  size?: string | null;
+  color?: string | null;
+};
+
+// Variants saved before products had their own option axes only carry size and color.
+export function readVariantOptions(variant: OptionedVariant): Record<string, string> {
+  const stored = variant.options instanceof Map ? Object.fromEntries(variant.options) : { ...(variant.options ?? {}) };
+  if (Object.keys(stored).length > 0) {
+    return stored;
+  }
+  return {
+    ...(variant.size ? { Size: variant.size } : {}),
+    ...(variant.color ? { Color: variant.color } : {})
+  };
+}
+
+export function productOptionAxes(product: { options?: ProductOption[] | null; variants: OptionedVariant[] }): ProductOption[] {
+  if (product.options && product.options.length > 0) {
+    return product.options.map((option) => ({ name: option.name, values: [...option.values] }));
+  }
+  const axes = new Map<string, string[]>();
+  for (const variant of product.variants) {
+    for (const [name, value] of Object.entries(readVariantOptions(variant))) {
+      const values = axes.get(name) ?? [];
+      if (!values.includes(value)) {
+        values.push(value);
+      }
+      axes.set(name, values);
+    }
+  }
+  return [...axes].map(([name, values]) => ({ name, values }));
+}
+
+function countCombinations(axes: ProductOption[]) {
+  return axes.reduce((count, axis) => count * axis.values.length, 1);
+}
+
+function combinationKey(axes: ProductOption[], values: Record<string, string>) {
+  return axes.map((axis) => values[axis.name] ?? "").join("\u0000");
+}
+
+export function variantLabel(variant: OptionedVariant, axes?: ProductOption[]) {
+  const values = readVariantOptions(variant);
+  const names = axes ? axes.map((axis) => axis.name) : Object.keys(values);
+  return names
+    .map((name) => values[name])
+    .filter(Boolean)
+    .join("/");
+}
+
+export function variantLineName(productName: string, variant: OptionedVariant, axes?: ProductOption[]) {
+  const label = variantLabel(variant, axes);
+  return label ? `${productName} (${label})` : productName;
+}
+
+// Every combination of the product's option values, paired with the variant that sells it (null when none does).
+export function buildOptionMatrix<V extends OptionedVariant>(axes: ProductOption[], variants: V[]) {
+  const byCombination = new Map(variants.map((variant) => [combinationKey(axes, readVariantOptions(variant)), variant]));
+  const combinations = axes.reduce<Array<Record<string, string>>>(
+    (acc, axis) => acc.flatMap((partial) => axis.values.map((value) => ({ ...partial, [axis.name]: value }))),
+    [{}]
+  );
+  return combinations.map((options) => ({ options, variant: byCombination.get(combinationKey(axes, options)) ?? null }));
+}
+
+// Validates variant option values against the product's axes (derived from the variants when none are given) and
+// mirrors Size/Color values into the legacy fields so the storefront search facets keep working. The combination cap
+// only stops options from growing: an existing product that already exceeds it can still be edited at its size.
+export function resolveVariantOptions(
+  input: { options?: ProductOption[]; variants: OptionedVariant[] },
+  existing?: { options?: ProductOption[] | null; variants: OptionedVariant[] }
+) {
+  const axes = productOptionAxes({ options: input.options, variants: input.variants });
+  const names = axes.map((axis) => axis.name.toLowerCase());
+  if (new Set(names).size !== names.length) {
+    return { error: "Product option names must be unique" };
+  }
+  // Option values are stored as a Mongo map keyed by axis name, which rules out dots and a leading $.
+  if (axes.some((axis) => axis.name.includes(".") || axis.name.startsWith("$"))) {
+    return { error: "Product option names cannot contain dots or start with $" };
+  }
+  if (axes.length > MAX_PRODUCT_OPTIONS) {
+    return { error: `Products can have at most ${MAX_PRODUCT_OPTIONS} options` };
+  }
+  const duplicateValues = axes.find((axis) => new Set(axis.values).size !== axis.values.length);
+  if (duplicateValues) {
+    return { error: `Option ${duplicateValues.name} lists the same value more than once` };
+  }
+  const allowedCombinations = Math.max(MAX_OPTION_COMBINATIONS, existing ? countCombinations(productOptionAxes(existing)) : 0);
+  if (countCombinations(axes) > allowedCombinations) {
+    return { error: `Product options allow more than ${MAX_OPTION_COMBINATIONS} combinations` };
+  }
+
+  const seen = new Map<string, number>();
+  const variants: Array<{ options: Record<string, string>; size: string | null; color: string | null }> = [];
+  for (const [index, variant] of input.variants.entries()) {
+    const values = readVariantOptions(variant);
+    const unknown = Object.keys(values).find((name) => !axes.some((axis) => axis.name === name));
+    if (unknown) {
+      return { error: `Variant ${index + 1} sets option ${unknown}, which the product does not define` };
+    }
+    for (const axis of axes) {
+      const value = values[axis.name];
+      if (!value) {
+        return { error: `Variant ${index + 1} is missing a value for ${axis.name}` };
+      }
+      if (!axis.values.includes(value)) {
+        return { error: `Variant ${index + 1} uses ${value} for ${axis.name}, which is not one of its values` };
+      }
+    }
+    const key = combinationKey(axes, values);
+    const previous = seen.get(key);
+    if (previous !== undefined) {
+      return { error: `Variants ${previous + 1} and ${index + 1} have the same options` };
+    }
+    seen.set(key, index);
+
+    const options = Object.fromEntries(axes.map((axis) => [axis.name, values[axis.name]]));
+    const sizeAxis = axes.find((axis) => /^size$/i.test(axis.name))?.name;
+    const colorAxis = axes.find((axis) => /^colou?r$/i.test(axis.name))?.name;
+    variants.push({
+      options,
+      size: sizeAxis ? options[sizeAxis] : null,
+      color: colorAxis ? options[colorAxis] : null
+    });
+  }
+  return { options: axes, variants };
+}
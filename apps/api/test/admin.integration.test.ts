@@ -0,0 +1,300 @@
+import { describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import mongoose from "mongoose";
+import { useCommerceDatabase } from "./support/database.js";
+
+describe("admin integration", () => {
+  useCommerceDatabase();
+
+  it("partial refunds restock returned units and settle through the refund webhook", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const { PaymentModel } = await import("../src/models/payment.js");
+    const app = createApp();
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[0].id as string;
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "kemi@example.com", password: "password123", firstName: "Kemi", lastName: "Seye", phone: "08034444444" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "kemi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 2 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "kemi@example.com", shippingAddress: "7 Awolowo Road", city: "Lagos", state: "Lagos" });
+    await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef } });
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    const refundRes = await request(app)
+      .post(`/api/v1/admin/orders/${order!._id.toString()}/refunds`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ lines: [{ variantId, quantity: 1 }], reason: "Returned one dress", restock: true });
+    expect(refundRes.status).toBe(201);
+    expect(refundRes.body.amountNgn).toBe(15000);
+    expect(refundRes.body.status).toBe("processing");
+
+    const overRefundRes = await request(app)
+      .post(`/api/v1/admin/orders/${order!._id.toString()}/refunds`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ lines: [{ variantId, quantity: 2 }], reason: "Returned both dresses" });
+    expect(overRefundRes.status).toBe(409);
+
+    const product = await ProductModel.findOne({ slug: "seye-red-dress" }).lean();
+    expect(product?.variants[0].stock).toBe(7);
+
+    await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "refund.processed", data: { transaction_reference: checkoutRes.body.paymentRef, status: "processed" } });
+
+    const refreshed = await OrderModel.findById(order!._id).lean();
+    expect(refreshed?.status).toBe("paid");
+    expect(refreshed?.refundedNgn).toBe(15000);
+    expect(refreshed?.lines[0].refundedQuantity).toBe(1);
+    const payment = await PaymentModel.findOne({ providerRef: checkoutRes.body.paymentRef }).lean();
+    expect(payment?.status).toBe("success");
+  });
+
+  it("refund webhooks settle the partial refund whose provider id they carry", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const { RefundModel } = await import("../src/models/refund.js");
+    const { createPaystackRefund } = await import("../src/services/paystack.js");
+    const app = createApp();
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[0].id as string;
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "ifeoma@example.com", password: "password123", firstName: "Ifeoma", lastName: "Seye", phone: "08037777777" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "ifeoma@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 2 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "ifeoma@example.com", shippingAddress: "9 Admiralty Way", city: "Lagos", state: "Lagos" });
+    await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef } });
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    vi.mocked(createPaystackRefund)
+      .mockResolvedValueOnce({ id: 9101, status: "pending", amount: 1500000 })
+      .mockResolvedValueOnce({ id: 9102, status: "pending", amount: 1500000 });
+    const firstRes = await request(app)
+      .post(`/api/v1/admin/orders/${order!._id.toString()}/refunds`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ lines: [{ variantId, quantity: 1 }], reason: "Returned one dress" });
+    const secondRes = await request(app)
+      .post(`/api/v1/admin/orders/${order!._id.toString()}/refunds`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ lines: [{ variantId, quantity: 1 }], reason: "Returned the other dress" });
+    expect(firstRes.status).toBe(201);
+    expect(secondRes.status).toBe(201);
+
+    // Both refunds sit on the same charge, so only the refund id tells them apart.
+    const failedRes = await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "refund.failed", data: { id: 9102, transaction_reference: checkoutRes.body.paymentRef, status: "failed" } });
+    expect(failedRes.body.refundRef).toBe(secondRes.body.refundRef);
+    expect((await RefundModel.findOne({ refundRef: firstRes.body.refundRef }).lean())?.status).toBe("processing");
+    expect((await RefundModel.findOne({ refundRef: secondRes.body.refundRef }).lean())?.status).toBe("failed");
+
+    const processedRes = await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "refund.processed", data: { id: 9101, transaction_reference: checkoutRes.body.paymentRef, status: "processed" } });
+    expect(processedRes.body.refundRef).toBe(firstRes.body.refundRef);
+
+    const refreshed = await OrderModel.findById(order!._id).lean();
+    expect(refreshed?.refundedNgn).toBe(15000);
+    expect(refreshed?.lines[0].refundedQuantity).toBe(1);
+  });
+
+  it("paid orders are fulfilled from the branch nearest the shipping address", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const app = createApp();
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[0].id as string;
+
+    const branchIds: Record<string, string> = {};
+    for (const branch of [
+      { name: "Ikeja", code: "LAG-IKJ", address: "12 Allen Avenue", city: "Ikeja", state: "Lagos", phone: "08030000001" },
+      { name: "Wuse", code: "ABJ-WSE", address: "4 Aminu Kano Crescent", city: "Wuse", state: "FCT", phone: "08030000002" }
+    ]) {
+      const branchRes = await request(app)
+        .post("/api/v1/admin/store/branches")
+        .set("x-tenant-id", "tenant_demo")
+        .set("authorization", "Bearer demo-admin-token")
+        .send(branch);
+      branchIds[branch.state] = branchRes.body.id as string;
+      await request(app)
+        .post("/api/v1/admin/inventory/adjustments")
+        .set("x-tenant-id", "tenant_demo")
+        .set("authorization", "Bearer demo-admin-token")
+        .send({ productId, variantId, branchId: branchRes.body.id, operation: "add", quantity: 3 });
+    }
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "ngozi@example.com", password: "password123", firstName: "Ngozi", lastName: "Seye", phone: "08036666666" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "ngozi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 2 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "ngozi@example.com", shippingAddress: "9 Ademola Adetokunbo", city: "Wuse", state: "FCT" });
+    await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef } });
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    expect(order?.fulfillmentBranchId?.toString()).toBe(branchIds.FCT);
+
+    const branchRes = await request(app)
+      .get(`/api/v1/admin/inventory/branches/${branchIds.FCT}`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(branchRes.body.rows[0].stock).toBe(1);
+  });
+
+  it("sales report aggregates paid orders within the requested range", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { TenantModel } = await import("../src/models/tenant.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const app = createApp();
+
+    const tenant = await TenantModel.findOne({ slug: "tenant_demo" }).lean();
+    const baseOrder = {
+      tenantId: tenant!._id,
+      userId: new mongoose.Types.ObjectId(),
+      subtotalNgn: 15000,
+      shippingNgn: 2500,
+      totalNgn: 17500,
+      shippingAddress: { address: "1 Marina", city: "Lagos", state: "Lagos" }
+    };
+    await OrderModel.create([
+      { ...baseOrder, orderRef: "SWS-R1", status: "paid", createdAt: new Date("2026-03-02T10:00:00.000Z") },
+      { ...baseOrder, orderRef: "SWS-R2", status: "delivered", createdAt: new Date("2026-03-02T15:00:00.000Z") },
+      { ...baseOrder, orderRef: "SWS-R3", status: "cancelled", createdAt: new Date("2026-03-03T10:00:00.000Z") },
+      { ...baseOrder, orderRef: "SWS-R4", status: "paid", createdAt: new Date("2026-04-10T10:00:00.000Z") }
+    ]);
+
+    const reportRes = await request(app)
+      .get("/api/v1/admin/reports/sales")
+      .query({ from: "2026-03-01", to: "2026-03-31", groupBy: "day" })
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(reportRes.status).toBe(200);
+    expect(reportRes.body.rows).toHaveLength(1);
+    expect(reportRes.body.rows[0]).toMatchObject({ orders: 2, grossNgn: 35000 });
+
+    const unknownRes = await request(app)
+      .get("/api/v1/admin/reports/unknown")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(unknownRes.status).toBe(404);
+  });
+
+  it("finished report exports are downloadable until they are purged", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { TenantModel } = await import("../src/models/tenant.js");
+    const { ReportExportModel } = await import("../src/models/reportExport.js");
+    const { purgeExpiredReportExports } = await import("../src/services/reportExports.js");
+    const app = createApp();
+
+    // apps/worker generates the file; here it is written to the same bucket directly.
+    const csv = "productId,productName\r\nabc,Seye Red Dress\r\n";
+    const upload = new mongoose.mongo.GridFSBucket(mongoose.connection.db!, { bucketName: "reportExports" }).openUploadStream(
+      "inventory-valuation-2026-03-01-2026-03-31.csv"
+    );
+    await new Promise((resolve, reject) => {
+      upload.once("finish", resolve);
+      upload.once("error", reject);
+      upload.end(Buffer.from(csv, "utf-8"));
+    });
+
+    const tenant = await TenantModel.findOne({ slug: "tenant_demo" }).lean();
+    await ReportExportModel.create({
+      tenantId: tenant!._id,
+      jobId: "export-test-1",
+      report: "inventory-valuation",
+      format: "csv",
+      from: new Date("2026-03-01T00:00:00.000Z"),
+      to: new Date("2026-03-31T23:59:59.999Z"),
+      status: "completed",
+      fileName: "inventory-valuation-2026-03-01-2026-03-31.csv",
+      fileId: upload.id,
+      contentType: "text/csv",
+      rowCount: 1,
+      completedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+    });
+
+    const statusRes = await request(app)
+      .get("/api/v1/admin/reports/exports/export-test-1")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(statusRes.body).toMatchObject({ status: "completed", rowCount: 1 });
+
+    const downloadRes = await request(app)
+      .get("/api/v1/admin/reports/exports/export-test-1?download=true")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(downloadRes.status).toBe(200);
+    expect(downloadRes.text).toBe(csv);
+
+    expect(await purgeExpiredReportExports(new Date(Date.now() + 2 * 60 * 60 * 1000))).toBe(1);
+    const expiredRes = await request(app)
+      .get("/api/v1/admin/reports/exports/export-test-1?download=true")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(expiredRes.status).toBe(409);
+  });
+});
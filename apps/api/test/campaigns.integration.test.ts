@@ -0,0 +1,153 @@
+import { describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { useCommerceDatabase } from "./support/database.js";
+
+describe("campaigns integration", () => {
+  useCommerceDatabase();
+
+  it("campaign sends resolve the segment from order history and skip opted-out customers", async () => {
+    const { TenantModel } = await import("../src/models/tenant.js");
+    const { UserModel } = await import("../src/models/user.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const { CampaignModel } = await import("../src/models/campaign.js");
+    const { CampaignDeliveryModel } = await import("../src/models/campaignDelivery.js");
+    const { resolveCampaignAudience, processCampaignSendBatch } = await import("../src/services/campaigns.js");
+
+    const tenant = await TenantModel.findOne({ slug: "tenant_demo" }).lean();
+    const [recent, optedOut, lapsed] = await UserModel.create(
+      ["recent", "optout", "lapsed"].map((name, index) => ({
+        tenantId: tenant!._id,
+        email: `${name}@example.com`,
+        passwordHash: "hash",
+        firstName: name,
+        lastName: "Customer",
+        phone: `0803000000${index}`,
+        notificationsEnabled: name !== "optout"
+      }))
+    );
+
+    const now = new Date("2026-06-30T12:00:00.000Z");
+    const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+    const baseOrder = {
+      tenantId: tenant!._id,
+      subtotalNgn: 15000,
+      shippingNgn: 2500,
+      totalNgn: 17500,
+      status: "paid",
+      shippingAddress: { address: "1 Marina", city: "Lagos", state: "Lagos" }
+    };
+    await OrderModel.create([
+      { ...baseOrder, userId: recent._id, orderRef: "SWS-C1", createdAt: daysAgo(40) },
+      { ...baseOrder, userId: recent._id, orderRef: "SWS-C2", createdAt: daysAgo(10) },
+      { ...baseOrder, userId: optedOut._id, orderRef: "SWS-C3", createdAt: daysAgo(60) },
+      { ...baseOrder, userId: optedOut._id, orderRef: "SWS-C4", createdAt: daysAgo(20) },
+      { ...baseOrder, userId: lapsed._id, orderRef: "SWS-C5", createdAt: daysAgo(120) },
+      { ...baseOrder, userId: lapsed._id, orderRef: "SWS-C6", status: "cancelled", createdAt: daysAgo(5) }
+    ]);
+
+    const loyal = await resolveCampaignAudience(tenant!._id, "loyal", now);
+    expect(loyal.map((id) => id.toString()).sort()).toEqual([recent._id.toString(), optedOut._id.toString()].sort());
+    const atRisk = await resolveCampaignAudience(tenant!._id, "at_risk", now);
+    expect(atRisk.map((id) => id.toString())).toEqual([lapsed._id.toString()]);
+
+    const campaign = await CampaignModel.create({
+      tenantId: tenant!._id,
+      name: "Come back",
+      segment: "loyal",
+      subject: "We saved something for you",
+      body: "New arrivals are in.\n\nShop before they sell out.",
+      status: "sent"
+    });
+    const deliveries = await CampaignDeliveryModel.create(
+      loyal.map((userId, index) => ({ tenantId: tenant!._id, campaignId: campaign._id, userId, token: `loyal-token-${index}` }))
+    );
+    const deliver = vi.fn(async () => undefined);
+    const counts = await processCampaignSendBatch(
+      {
+        tenantId: tenant!._id.toString(),
+        campaignId: campaign._id.toString(),
+        deliveryIds: deliveries.map((delivery) => delivery._id.toString())
+      },
+      deliver
+    );
+    expect(counts).toEqual({ sent: 1, skipped: 1, failed: 0 });
+    expect(deliver).toHaveBeenCalledWith(expect.objectContaining({ to: "recent@example.com", subject: "We saved something for you" }));
+
+    const stored = await CampaignModel.findById(campaign._id).lean();
+    expect(stored?.stats).toMatchObject({ sent: 1, skipped: 1, failed: 0 });
+    const statuses = await CampaignDeliveryModel.find({ campaignId: campaign._id }).select({ status: 1 }).lean();
+    expect(statuses.map((delivery) => delivery.status).sort()).toEqual(["sent", "skipped"]);
+  });
+
+  it("campaign clicks are tracked and credited with the order paid inside the attribution window", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { TenantModel } = await import("../src/models/tenant.js");
+    const { UserModel } = await import("../src/models/user.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const { CampaignModel } = await import("../src/models/campaign.js");
+    const { CampaignDeliveryModel } = await import("../src/models/campaignDelivery.js");
+    const app = createApp();
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tolu@example.com", password: "password123", firstName: "Tolu", lastName: "Buyer", phone: "08036666666" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tolu@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    const tenant = await TenantModel.findOne({ slug: "tenant_demo" }).lean();
+    const user = await UserModel.findOne({ email: "tolu@example.com" }).lean();
+    const campaign = await CampaignModel.create({
+      tenantId: tenant!._id,
+      name: "Weekend drop",
+      segment: "all",
+      subject: "New dresses this weekend",
+      body: "Fresh styles just landed in store.",
+      status: "sent",
+      stats: { recipients: 1, sent: 1 }
+    });
+    await CampaignDeliveryModel.create({
+      tenantId: tenant!._id,
+      campaignId: campaign._id,
+      userId: user!._id,
+      token: "weekend-token",
+      status: "sent",
+      sentAt: new Date()
+    });
+
+    const pixelRes = await request(app).get("/api/v1/campaigns/track/weekend-token/open.gif");
+    expect(pixelRes.status).toBe(200);
+    expect(pixelRes.headers["content-type"]).toBe("image/gif");
+
+    const clickRes = await request(app).get("/api/v1/campaigns/track/weekend-token/click").query({ url: "https://evil.example.com/" });
+    expect(clickRes.status).toBe(302);
+    expect(clickRes.headers.location).toBe("http://localhost:5173/");
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 1 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "tolu@example.com", shippingAddress: "4 Awolowo Road", city: "Lagos", state: "Lagos" });
+    await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef, gateway_response: "Approved" } });
+
+    const order = await OrderModel.findOne({ userId: user!._id }).lean();
+    expect(order?.attributedCampaignId?.toString()).toBe(campaign._id.toString());
+
+    const performanceRes = await request(app)
+      .get(`/api/v1/admin/campaigns/${campaign._id.toString()}/performance`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(performanceRes.body).toMatchObject({ sent: 1, opened: 1, clicked: 1, purchased: 1, revenueNgn: order!.totalNgn });
+  });
+});
@@ -0,0 +1,242 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import mongoose from "mongoose";
+import { useCommerceDatabase } from "./support/database.js";
+
+describe("cart integration", () => {
+  useCommerceDatabase();
+
+  it("logging in with a guest session merges its cart lines into the customer cart", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { CartModel } = await import("../src/models/cart.js");
+    const app = createApp();
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "yemi@example.com", password: "password123", firstName: "Yemi", lastName: "Buyer", phone: "08035555555" });
+    const firstLogin = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "yemi@example.com", password: "password123" });
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const [medium, large] = detailRes.body.variants as Array<{ id: string }>;
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${firstLogin.body.accessToken}`)
+      .send({ productId: detailRes.body.id, variantId: large.id, quantity: 1 });
+
+    for (const [variantId, quantity] of [
+      [medium.id, 2],
+      [large.id, 2]
+    ] as const) {
+      await request(app)
+        .post("/api/v1/cart/items")
+        .set("x-tenant-id", "tenant_demo")
+        .set("x-session-id", "guest-session-1")
+        .send({ productId: detailRes.body.id, variantId, quantity });
+    }
+
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "guest-session-1")
+      .send({ email: "yemi@example.com", password: "password123" });
+    expect(loginRes.status).toBe(200);
+    expect(loginRes.body.cartMerge).toMatchObject({ mergedLines: 2, cappedLines: ["Seye Red Dress (L/Red)"] });
+
+    const cartRes = await request(app)
+      .get("/api/v1/cart")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${loginRes.body.accessToken}`);
+    const quantities = Object.fromEntries(
+      (cartRes.body.lines as Array<{ variantId: string; quantity: number }>).map((line) => [line.variantId, line.quantity])
+    );
+    expect(quantities).toEqual({ [medium.id]: 2, [large.id]: 2 });
+    expect(await CartModel.exists({ sessionId: "guest-session-1" })).toBeNull();
+  });
+
+  it("idle carts get scheduled reminders until the cart converts into an order", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { CartModel } = await import("../src/models/cart.js");
+    const { sweepAbandonedCarts } = await import("../src/services/cartRecovery.js");
+    const app = createApp();
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "bisi@example.com", password: "password123", firstName: "Bisi", lastName: "Buyer", phone: "08036666666" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "bisi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 1 });
+
+    const idleSince = new Date(Date.now() - 2 * 60 * 60 * 1000);
+    await CartModel.collection.updateOne({ userId: new mongoose.Types.ObjectId(loginRes.body.user.id) }, { $set: { updatedAt: idleSince } });
+    const sent: Array<{ email: string; reminder: number; lines: unknown[] }> = [];
+    const notify = async (payload: { email: string; reminder: number; lines: unknown[] }) => {
+      sent.push(payload);
+      return { enqueued: true };
+    };
+
+    expect(await sweepAbandonedCarts(new Date(), notify)).toBe(1);
+    expect(await sweepAbandonedCarts(new Date(), notify)).toBe(0);
+    expect(await sweepAbandonedCarts(new Date(Date.now() + 23 * 60 * 60 * 1000), notify)).toBe(1);
+    expect(sent.map((payload) => payload.reminder)).toEqual([1, 2]);
+    expect(sent[0]).toMatchObject({ email: "bisi@example.com", lines: [expect.objectContaining({ quantity: 1 })] });
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "bisi@example.com", shippingAddress: "4 Awolowo Road", city: "Ikoyi", state: "Lagos", paymentMethod: "pay_on_delivery" });
+    expect(checkoutRes.status).toBe(201);
+    expect(await sweepAbandonedCarts(new Date(Date.now() + 80 * 60 * 60 * 1000), notify)).toBe(0);
+
+    const summaryRes = await request(app)
+      .get("/api/v1/admin/reports/summary")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    const cards = Object.fromEntries((summaryRes.body.cards as Array<{ key: string; value: number }>).map((card) => [card.key, card.value]));
+    expect(cards.recovered_carts).toBe(1);
+    expect(cards.recovered_cart_revenue).toBe(checkoutRes.body.totalNgn);
+  });
+
+  it("cart revalidation trims stock, reprices lines, and blocks checkout until changes are acknowledged", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const app = createApp();
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const variantId = detailRes.body.variants[0].id as string;
+    const addRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "revalidate-session")
+      .send({ productId: detailRes.body.id, variantId, quantity: 3 });
+    const lineId = addRes.body.lines[0].id as string;
+
+    const tooManyRes = await request(app)
+      .patch(`/api/v1/cart/items/${lineId}`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "revalidate-session")
+      .send({ quantity: 20 });
+    expect(tooManyRes.status).toBe(409);
+
+    await ProductModel.updateOne(
+      { slug: "seye-red-dress", "variants._id": variantId },
+      { $set: { "variants.$.stock": 2, "variants.$.priceNgn": 19000 } }
+    );
+    const cartRes = await request(app).get("/api/v1/cart").set("x-tenant-id", "tenant_demo").set("x-session-id", "revalidate-session");
+    expect(cartRes.body.lines[0]).toMatchObject({ quantity: 2, unitPriceNgn: 19000 });
+    expect(cartRes.body.changes).toEqual([
+      expect.objectContaining({ type: "quantity_reduced", lineId, previousQuantity: 3, quantity: 2 }),
+      expect.objectContaining({ type: "price_changed", lineId, previousPriceNgn: addRes.body.lines[0].unitPriceNgn, unitPriceNgn: 19000 })
+    ]);
+
+    const checkoutPayload = {
+      email: "revalidate@example.com",
+      phone: "08030000000",
+      shippingAddress: "4 Awolowo Road",
+      city: "Ikoyi",
+      state: "Lagos"
+    };
+    const blockedRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "revalidate-session")
+      .send(checkoutPayload);
+    expect(blockedRes.status).toBe(409);
+    expect(blockedRes.body.changes).toHaveLength(2);
+
+    const ackRes = await request(app)
+      .post("/api/v1/cart/changes/acknowledge")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "revalidate-session");
+    expect(ackRes.body.changes).toEqual([]);
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "revalidate-session")
+      .send(checkoutPayload);
+    expect(checkoutRes.status).toBe(201);
+  });
+
+  it("customers can save lines for later and switch between named carts", async () => {
+    const { createApp } = await import("../src/app.js");
+    const app = createApp();
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "funmi@example.com", password: "password123", firstName: "Funmi", lastName: "Buyer", phone: "08037777777" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "funmi@example.com", password: "password123" });
+    const auth = `Bearer ${loginRes.body.accessToken}`;
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const [medium, large] = detailRes.body.variants as Array<{ id: string }>;
+
+    const addRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send({ productId: detailRes.body.id, variantId: medium.id, quantity: 2 });
+    const savedRes = await request(app)
+      .post(`/api/v1/cart/items/${addRes.body.lines[0].id}/save-for-later`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth);
+    expect(savedRes.status).toBe(200);
+    expect(savedRes.body.lines).toHaveLength(0);
+    expect(savedRes.body.savedForLater).toEqual([expect.objectContaining({ variantId: medium.id, quantity: 2 })]);
+
+    const giftRes = await request(app)
+      .post("/api/v1/cart/carts")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send({ name: "Gift" });
+    expect(giftRes.status).toBe(201);
+    expect(giftRes.body).toMatchObject({ name: "Gift", active: false });
+
+    const activateRes = await request(app)
+      .post(`/api/v1/cart/carts/${giftRes.body.id}/activate`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth);
+    expect(activateRes.body).toMatchObject({ id: giftRes.body.id, active: true });
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send({ productId: detailRes.body.id, variantId: large.id, quantity: 1 });
+    const moveRes = await request(app)
+      .post(`/api/v1/cart/saved/${savedRes.body.savedForLater[0].id}/move-to-cart`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth);
+    expect(moveRes.body.id).toBe(giftRes.body.id);
+    expect(moveRes.body.lines).toHaveLength(2);
+    expect(moveRes.body.savedForLater).toEqual([]);
+
+    const cartsRes = await request(app).get("/api/v1/cart/carts").set("x-tenant-id", "tenant_demo").set("authorization", auth);
+    expect(cartsRes.body.map((cart: { name: string | null; active: boolean }) => [cart.name, cart.active])).toEqual([
+      ["Gift", true],
+      [null, false]
+    ]);
+
+    const deleteActiveRes = await request(app)
+      .delete(`/api/v1/cart/carts/${giftRes.body.id}`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth);
+    expect(deleteActiveRes.status).toBe(409);
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import mongoose from "mongoose";
+import { useCommerceDatabase } from "./support/database.js";
+
+describe("catalog integration", () => {
+  useCommerceDatabase();
+
+  it("product search paginates text matches and counts facets without their own filter", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { CategoryModel, ProductModel } = await import("../src/models/catalog.js");
+    const app = createApp();
+
+    await ProductModel.syncIndexes();
+    const category = await CategoryModel.findOne({ slug: "fashion" }).lean();
+    await ProductModel.create({
+      tenantId: category!.tenantId,
+      categoryId: category!._id,
+      slug: "ada-blue-dress",
+      name: "Ada Blue Dress",
+      description: "Flowing blue dress for evenings.",
+      imageUrl: "https://example.com/blue-dress.jpg",
+      soldUnits: 12,
+      variants: [
+        { sku: "ABD-S-BLU", size: "S", color: "Blue", stock: 0, priceNgn: 30000 },
+        { sku: "ABD-M-BLU", size: "M", color: "Blue", stock: 4, priceNgn: 32000 }
+      ]
+    });
+    await ProductModel.create({
+      tenantId: category!.tenantId,
+      categoryId: category!._id,
+      slug: "kola-linen-shirt",
+      name: "Kola Linen Shirt",
+      description: "Breathable linen shirt.",
+      imageUrl: "https://example.com/linen-shirt.jpg",
+      variants: [{ sku: "KLS-M-WHT", size: "M", color: "White", stock: 5, priceNgn: 9000 }]
+    });
+
+    const searchRes = await request(app)
+      .get("/api/v1/products/search")
+      .query({ search: "dress", sort: "price_desc", pageSize: 1 })
+      .set("x-tenant-id", "tenant_demo");
+    expect(searchRes.status).toBe(200);
+    expect(searchRes.body).toMatchObject({ page: 1, pageSize: 1, total: 2, totalPages: 2 });
+    expect(searchRes.body.items).toEqual([expect.objectContaining({ slug: "ada-blue-dress", priceNgn: 30000, inStock: true })]);
+
+    const facetRes = await request(app).get("/api/v1/products/search").query({ size: "M", color: "Blue" }).set("x-tenant-id", "tenant_demo");
+    expect(facetRes.body.items.map((item: { slug: string }) => item.slug)).toEqual(["ada-blue-dress"]);
+    expect(facetRes.body.facets.sizes).toEqual([
+      { value: "M", count: 1 },
+      { value: "S", count: 1 }
+    ]);
+    expect(facetRes.body.facets.colors).toEqual([
+      { value: "Blue", count: 1 },
+      { value: "Red", count: 1 },
+      { value: "White", count: 1 }
+    ]);
+    expect(facetRes.body.facets.categories).toEqual([expect.objectContaining({ slug: "fashion", count: 1 })]);
+
+    const popularRes = await request(app)
+      .get("/api/v1/products/search")
+      .query({ sort: "popularity", priceBucket: "under_10000,25000_50000" })
+      .set("x-tenant-id", "tenant_demo");
+    expect(popularRes.body.items.map((item: { slug: string }) => item.slug)).toEqual(["ada-blue-dress", "kola-linen-shirt"]);
+    expect(popularRes.body.facets.priceBuckets).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ key: "under_10000", count: 1 }),
+        expect.objectContaining({ key: "10000_25000", count: 1 }),
+        expect.objectContaining({ key: "25000_50000", count: 1 })
+      ])
+    );
+
+    const listRes = await request(app).get("/api/v1/products").set("x-tenant-id", "tenant_demo");
+    expect(Array.isArray(listRes.body)).toBe(true);
+  });
+
+  it("search suggestions tolerate typos and empty searches offer a correction", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const { CustomerEventModel } = await import("../src/models/customerEvent.js");
+    const app = createApp();
+
+    await ProductModel.syncIndexes();
+    const product = await ProductModel.findOne({ slug: "seye-red-dress" }).lean();
+    const shoppers = [new mongoose.Types.ObjectId(), new mongoose.Types.ObjectId()];
+    await CustomerEventModel.create([
+      ...shoppers.map((userId) => ({ tenantId: product!.tenantId, userId, type: "search", term: "Red Dress" })),
+      { tenantId: product!.tenantId, userId: shoppers[0], type: "search", term: "redd dres" }
+    ]);
+
+    const suggestRes = await request(app).get("/api/v1/products/suggest").query({ q: "drees" }).set("x-tenant-id", "tenant_demo");
+    expect(suggestRes.status).toBe(200);
+    expect(suggestRes.body.products).toEqual([expect.objectContaining({ slug: "seye-red-dress" })]);
+    expect(suggestRes.body.terms).toEqual([{ term: "red dress", count: 2 }]);
+
+    const prefixRes = await request(app).get("/api/v1/products/suggest").query({ q: "fash" }).set("x-tenant-id", "tenant_demo");
+    expect(prefixRes.body.categories).toEqual([expect.objectContaining({ slug: "fashion" })]);
+
+    const emptyRes = await request(app).get("/api/v1/products/search").query({ search: "drses" }).set("x-tenant-id", "tenant_demo");
+    expect(emptyRes.body.total).toBe(0);
+    expect(emptyRes.body.didYouMean).toBe("dress");
+  });
+
+  it("products define their own option axes with a per-combination stock matrix", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { CategoryModel } = await import("../src/models/catalog.js");
+    const app = createApp();
+    const category = await CategoryModel.findOne({ slug: "fashion" }).lean();
+
+    const perfume = {
+      categoryId: category!._id.toString(),
+      name: "Oud Noir",
+      description: "Smoky oud perfume with amber notes.",
+      imageUrl: "https://example.com/oud.jpg",
+      options: [
+        { name: "Volume", values: ["50ml", "100ml"] },
+        { name: "Bundle", values: ["Bottle", "Gift box"] }
+      ],
+      variants: [
+        { sku: "OUD-50-BTL", options: { Volume: "50ml", Bundle: "Bottle" }, stock: 4, priceNgn: 25000 },
+        { sku: "OUD-100-GFT", options: { Volume: "100ml", Bundle: "Gift box" }, stock: 0, priceNgn: 48000 }
+      ]
+    };
+    const invalidRes = await request(app)
+      .post("/api/v1/admin/products")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ ...perfume, variants: [{ ...perfume.variants[0], options: { Volume: "30ml", Bundle: "Bottle" } }] });
+    expect(invalidRes.status).toBe(400);
+    const createRes = await request(app)
+      .post("/api/v1/admin/products")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send(perfume);
+    expect(createRes.status).toBe(201);
+
+    const detailRes = await request(app).get("/api/v1/products/oud-noir").set("x-tenant-id", "tenant_demo");
+    expect(detailRes.body.options).toEqual(perfume.options);
+    expect(detailRes.body.optionMatrix).toHaveLength(4);
+    expect(detailRes.body.optionMatrix).toContainEqual(
+      expect.objectContaining({ options: { Volume: "50ml", Bundle: "Bottle" }, stock: 4, available: true })
+    );
+    expect(detailRes.body.optionMatrix).toContainEqual(
+      expect.objectContaining({ options: { Volume: "50ml", Bundle: "Gift box" }, variantId: null, available: false })
+    );
+
+    const bottle = detailRes.body.variants.find((variant: { sku: string }) => variant.sku === "OUD-50-BTL");
+    const cartRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "options-session")
+      .send({ productId: detailRes.body.id, variantId: bottle.id, quantity: 1 });
+    expect(cartRes.body.lines[0].name).toBe("Oud Noir (50ml/Bottle)");
+
+    const csvRes = await request(app)
+      .post("/api/v1/admin/products/bulk/csv")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({
+        csv: [
+          "name,description,imageUrl,option:Storage,option:Colour,stock,priceNgn",
+          "Nova Phone,Android phone with a bright display.,https://example.com/nova.jpg,128GB,Black,5,350000",
+          "Nova Phone,Android phone with a bright display.,https://example.com/nova.jpg,256GB,Black,2,420000"
+        ].join("\n")
+      });
+    expect(csvRes.body).toMatchObject({ created: 1, failed: 0 });
+    const phoneRes = await request(app).get("/api/v1/products/nova-phone").set("x-tenant-id", "tenant_demo");
+    expect(phoneRes.body.options).toEqual([
+      { name: "Storage", values: ["128GB", "256GB"] },
+      { name: "Colour", values: ["Black"] }
+    ]);
+    expect(phoneRes.body.variants[1]).toMatchObject({ options: { Storage: "256GB", Colour: "Black" }, color: "Black", size: null });
+  });
+});
@@ -0,0 +1,605 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { useCommerceDatabase } from "./support/database.js";
+
+describe("checkout integration", () => {
+  useCommerceDatabase();
+
+  it("auth -> cart -> checkout -> webhook finalization works and is idempotent", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const app = createApp();
+
+    const registerRes = await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({
+        email: "ada@example.com",
+        password: "password123",
+        firstName: "Ada",
+        lastName: "Seye",
+        phone: "08030000000"
+      });
+
+    expect(registerRes.status).toBe(201);
+
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "ada@example.com", password: "password123" });
+
+    expect(loginRes.status).toBe(200);
+    const accessToken = loginRes.body.accessToken as string;
+
+    const productsRes = await request(app).get("/api/v1/products").set("x-tenant-id", "tenant_demo");
+    expect(productsRes.status).toBe(200);
+    const productId = productsRes.body[0].id as string;
+
+    const productDetailRes = await request(app)
+      .get("/api/v1/products/seye-red-dress")
+      .set("x-tenant-id", "tenant_demo");
+    expect(productDetailRes.status).toBe(200);
+    const variantId = productDetailRes.body.variants[0].id as string;
+
+    const addCartRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 1 });
+
+    expect(addCartRes.status).toBe(201);
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({
+        email: "ada@example.com",
+        shippingAddress: "12 Admiralty Way",
+        city: "Lagos",
+        state: "Lagos"
+      });
+
+    expect(checkoutRes.status).toBe(201);
+    const paymentRef = checkoutRes.body.paymentRef as string;
+
+    const webhookBody = {
+      event: "charge.success",
+      data: {
+        reference: paymentRef,
+        gateway_response: "Approved",
+        paid_at: new Date().toISOString()
+      }
+    };
+
+    const webhook1 = await request(app).post("/api/v1/payments/paystack/webhook").send(webhookBody);
+    expect(webhook1.status).toBe(200);
+    expect(webhook1.body.idempotent).toBe(false);
+
+    const webhook2 = await request(app).post("/api/v1/payments/paystack/webhook").send(webhookBody);
+    expect(webhook2.status).toBe(200);
+    expect(webhook2.body.idempotent).toBe(true);
+
+    const paymentStatus = await request(app)
+      .get(`/api/v1/payments/${paymentRef}/status`)
+      .set("x-tenant-id", "tenant_demo");
+
+    expect(paymentStatus.body.status).toBe("success");
+
+    const adminListRes = await request(app)
+      .get("/api/v1/admin/orders")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(adminListRes.status).toBe(200);
+    expect(adminListRes.body.rows).toHaveLength(1);
+    const orderId = adminListRes.body.rows[0].id as string;
+
+    const adminUpdateRes = await request(app)
+      .patch(`/api/v1/admin/orders/${orderId}/status`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ status: "shipped", trackingNumber: "DHL-TRACK-001", note: "Dispatched to courier" });
+
+    expect(adminUpdateRes.status).toBe(200);
+    expect(adminUpdateRes.body.status).toBe("shipped");
+    expect(adminUpdateRes.body.trackingNumber).toBe("DHL-TRACK-001");
+
+    const customerOrderDetail = await request(app)
+      .get(`/api/v1/orders/me/${orderId}`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`);
+    expect(customerOrderDetail.status).toBe(200);
+    expect(customerOrderDetail.body.status).toBe("shipped");
+    expect(customerOrderDetail.body.trackingNumber).toBe("DHL-TRACK-001");
+    expect(customerOrderDetail.body.timeline.some((event: { status: string }) => event.status === "shipped")).toBe(true);
+
+    const cartRes = await request(app)
+      .get("/api/v1/cart")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`);
+
+    expect(cartRes.body.lines).toHaveLength(0);
+
+    const product = await ProductModel.findOne({ slug: "seye-red-dress" }).lean();
+    expect(product?.variants[0].stock).toBe(7);
+  });
+
+  it("discount codes reduce the order total and count usage only after payment", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { TenantModel } = await import("../src/models/tenant.js");
+    const { DiscountModel } = await import("../src/models/discount.js");
+    const app = createApp();
+
+    const tenant = await TenantModel.findOne({ slug: "tenant_demo" }).lean();
+    await DiscountModel.create({ tenantId: tenant!._id, code: "SEYE10", type: "percent", value: 10, minOrderNgn: 20000 });
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[0].id as string;
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "femi@example.com", password: "password123", firstName: "Femi", lastName: "Seye", phone: "08033333333" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "femi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 1 });
+
+    const belowMinimumRes = await request(app)
+      .post("/api/v1/cart/discount")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ code: "seye10" });
+    expect(belowMinimumRes.status).toBe(409);
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 2 });
+
+    const applyRes = await request(app)
+      .post("/api/v1/cart/discount")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ code: "seye10" });
+    expect(applyRes.status).toBe(200);
+    expect(applyRes.body.discountNgn).toBe(3000);
+    expect(applyRes.body.totalNgn).toBe(29500);
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "femi@example.com", shippingAddress: "3 Bourdillon Road", city: "Lagos", state: "Lagos" });
+    expect(checkoutRes.status).toBe(201);
+    expect(checkoutRes.body.amountDueNgn).toBe(29500);
+    expect((await DiscountModel.findOne({ code: "SEYE10" }).lean())?.usedCount).toBe(0);
+
+    await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef } });
+    expect((await DiscountModel.findOne({ code: "SEYE10" }).lean())?.usedCount).toBe(1);
+  });
+
+  it("a paid order keeps its discount when another order took the code's last use after checkout", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { TenantModel } = await import("../src/models/tenant.js");
+    const { DiscountModel } = await import("../src/models/discount.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const app = createApp();
+
+    const tenant = await TenantModel.findOne({ slug: "tenant_demo" }).lean();
+    await DiscountModel.create({ tenantId: tenant!._id, code: "LASTONE", type: "fixed", value: 2000, maxUses: 1 });
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[0].id as string;
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "bisi@example.com", password: "password123", firstName: "Bisi", lastName: "Seye", phone: "08036666666" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "bisi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 1 });
+    await request(app)
+      .post("/api/v1/cart/discount")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ code: "lastone" });
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "bisi@example.com", shippingAddress: "3 Bourdillon Road", city: "Lagos", state: "Lagos" });
+    expect(checkoutRes.status).toBe(201);
+
+    // Another customer's order takes the only use while this one is still at the payment page.
+    await DiscountModel.updateOne({ code: "LASTONE" }, { $set: { usedCount: 1 } });
+
+    const webhookRes = await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef } });
+    expect(webhookRes.status).toBe(200);
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    expect(order?.status).toBe("paid");
+    expect(order?.discountNgn).toBe(2000);
+    expect((await DiscountModel.findOne({ code: "LASTONE" }).lean())?.usedCount).toBe(2);
+  });
+
+  it("checkout reserves the last units until the reservation expires", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { releaseExpiredReservations } = await import("../src/services/stockReservations.js");
+    const app = createApp();
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[1].id as string;
+
+    const tokens: string[] = [];
+    for (const email of ["bola@example.com", "dayo@example.com"]) {
+      await request(app)
+        .post("/api/v1/auth/register")
+        .set("x-tenant-id", "tenant_demo")
+        .send({ email, password: "password123", firstName: "Test", lastName: "Buyer", phone: "08035555555" });
+      const loginRes = await request(app)
+        .post("/api/v1/auth/login")
+        .set("x-tenant-id", "tenant_demo")
+        .send({ email, password: "password123" });
+      tokens.push(loginRes.body.accessToken as string);
+    }
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${tokens[0]}`)
+      .send({ productId, variantId, quantity: 2 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${tokens[0]}`)
+      .send({ email: "bola@example.com", shippingAddress: "1 Allen Avenue", city: "Lagos", state: "Lagos" });
+    expect(checkoutRes.status).toBe(201);
+    expect(checkoutRes.body.reservationExpiresAt).toBeTruthy();
+
+    const blockedRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${tokens[1]}`)
+      .send({ productId, variantId, quantity: 1 });
+    expect(blockedRes.status).toBe(409);
+
+    const inventoryRes = await request(app)
+      .get("/api/v1/admin/inventory")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    const row = inventoryRes.body.rows.find((entry: { variantId: string }) => entry.variantId === variantId);
+    expect(row).toMatchObject({ stock: 2, reserved: 2, available: 0 });
+
+    expect(await releaseExpiredReservations(new Date(Date.now() + 60 * 60 * 1000))).toBe(1);
+
+    const allowedRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${tokens[1]}`)
+      .send({ productId, variantId, quantity: 1 });
+    expect(allowedRes.status).toBe(201);
+  });
+
+  it("cancelling a pending order from admin frees its reserved units", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const { StockReservationModel } = await import("../src/models/stockReservation.js");
+    const app = createApp();
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[1].id as string;
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tunde@example.com", password: "password123", firstName: "Tunde", lastName: "Seye", phone: "08038888888" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tunde@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 2 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "tunde@example.com", shippingAddress: "4 Ozumba Mbadiwe", city: "Lagos", state: "Lagos" });
+    expect(checkoutRes.status).toBe(201);
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    const cancelRes = await request(app)
+      .patch(`/api/v1/admin/orders/${order!._id.toString()}/status`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ status: "cancelled" });
+    expect(cancelRes.status).toBe(200);
+
+    const inventoryRes = await request(app)
+      .get("/api/v1/admin/inventory")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    const row = inventoryRes.body.rows.find((entry: { variantId: string }) => entry.variantId === variantId);
+    expect(row).toMatchObject({ stock: 2, reserved: 0, available: 2 });
+    expect((await StockReservationModel.findOne({ orderId: order!._id }).lean())?.releaseReason).toBe("cancelled");
+  });
+
+  it("shipping zones price delivery by weight and pickup orders ship free from the chosen branch", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const { StoreBranchModel } = await import("../src/models/storeBranch.js");
+    const { TenantModel } = await import("../src/models/tenant.js");
+    const app = createApp();
+
+    const tenant = await TenantModel.findOne({ slug: "tenant_demo" }).lean();
+    const branch = await StoreBranchModel.create({
+      tenantId: tenant!._id,
+      name: "Ikeja Store",
+      code: "IKJ",
+      address: "1 Obafemi Awolowo Way",
+      city: "Ikeja",
+      state: "Lagos",
+      phone: "08030001111"
+    });
+
+    const zoneRes = await request(app)
+      .post("/api/v1/admin/shipping/zones")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({
+        name: "Lagos",
+        states: ["Lagos"],
+        rateBasis: "weight",
+        rates: [
+          { upTo: 1, priceNgn: 1500 },
+          { upTo: 5, priceNgn: 3000 }
+        ],
+        extraUnitPriceNgn: 400,
+        freeShippingThresholdNgn: 100000
+      });
+    expect(zoneRes.status).toBe(201);
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "bisi@example.com", password: "password123", firstName: "Bisi", lastName: "Buyer", phone: "08039999999" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "bisi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 3 });
+
+    const quoteRes = await request(app)
+      .post("/api/v1/checkout/shipping-quote")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ city: "Yaba", state: "Lagos" });
+    expect(quoteRes.status).toBe(200);
+    expect(quoteRes.body.options).toEqual([
+      expect.objectContaining({ method: "delivery", zoneName: "Lagos", priceNgn: 3000 }),
+      expect.objectContaining({ method: "pickup", branchId: branch._id.toString(), priceNgn: 0 })
+    ]);
+
+    const outOfZoneRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "bisi@example.com", shippingAddress: "12 Wuse Zone 5", city: "Abuja", state: "FCT" });
+    expect(outOfZoneRes.status).toBe(409);
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "bisi@example.com", shippingMethod: "pickup", pickupBranchId: branch._id.toString() });
+    expect(checkoutRes.status).toBe(201);
+    expect(checkoutRes.body.shipping).toMatchObject({ method: "pickup", priceNgn: 0 });
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    expect(order).toMatchObject({ shippingMethod: "pickup", shippingNgn: 0, totalNgn: 45000 });
+    expect(order?.pickupBranchId?.toString()).toBe(branch._id.toString());
+  });
+
+  it("vat is added at checkout, frozen on the order, and totalled in the tax report", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const app = createApp();
+
+    const settingsRes = await request(app)
+      .patch("/api/v1/admin/settings/tax")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ vatRatePercent: 7.5, pricesIncludeTax: false });
+    expect(settingsRes.status).toBe(200);
+    expect(settingsRes.body).toMatchObject({ vatRatePercent: 7.5, pricesIncludeTax: false, shippingTaxable: true });
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "femi@example.com", password: "password123", firstName: "Femi", lastName: "Buyer", phone: "08036666666" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "femi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const cartRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 1 });
+    expect(cartRes.body.taxNgn).toBe(1313);
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "femi@example.com", shippingAddress: "3 Ring Road", city: "Ibadan", state: "Oyo" });
+    expect(checkoutRes.status).toBe(201);
+    expect(checkoutRes.body).toMatchObject({ taxNgn: 1313, totalNgn: 18813, amountDueNgn: 18813 });
+
+    await request(app)
+      .patch("/api/v1/admin/settings/tax")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ vatRatePercent: 10 });
+    await OrderModel.updateOne({ orderRef: checkoutRes.body.orderRef }, { $set: { status: "paid" } });
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    expect(order?.taxLines).toEqual([expect.objectContaining({ code: "VAT", ratePercent: 7.5, taxableNgn: 17500, amountNgn: 1313 })]);
+
+    const reportRes = await request(app)
+      .get("/api/v1/admin/reports/tax")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(reportRes.status).toBe(200);
+    expect(reportRes.body.rows).toEqual([expect.objectContaining({ orders: 1, taxableNgn: 17500, taxNgn: 1313, netTaxNgn: 1313 })]);
+  });
+
+  it("guests check out with a session cart, track by email, and can claim the order into an account", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const { UserModel } = await import("../src/models/user.js");
+    const { claimGuestOrders } = await import("../src/services/guestOrders.js");
+    const app = createApp();
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "guest-checkout-1")
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 1 });
+
+    const checkoutPayload = { email: "Kemi@example.com", shippingAddress: "9 Allen Avenue", city: "Ikeja", state: "Lagos" };
+    const missingPhoneRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "guest-checkout-1")
+      .send(checkoutPayload);
+    expect(missingPhoneRes.status).toBe(400);
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "guest-checkout-1")
+      .send({ ...checkoutPayload, phone: "08031234567", firstName: "Kemi" });
+    expect(checkoutRes.status).toBe(201);
+    const order = await OrderModel.findById(checkoutRes.body.orderId).lean();
+    expect(order?.userId).toBeNull();
+    expect(order?.guestContactId).toBeTruthy();
+
+    const trackRes = await request(app)
+      .get(`/api/v1/orders/track?orderRef=${checkoutRes.body.orderRef}&email=kemi@example.com`)
+      .set("x-tenant-id", "tenant_demo");
+    expect(trackRes.status).toBe(200);
+    expect(trackRes.body.status).toBe("pending");
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "kemi@example.com", password: "password123", firstName: "Kemi", lastName: "Buyer", phone: "08031234567" });
+    const user = await UserModel.findOne({ email: "kemi@example.com" }).lean();
+    expect(await claimGuestOrders({ tenantId: user!.tenantId, userId: user!._id, email: "kemi@example.com" })).toBe(1);
+
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "kemi@example.com", password: "password123" });
+    const myOrdersRes = await request(app)
+      .get("/api/v1/orders/me")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${loginRes.body.accessToken}`);
+    expect(myOrdersRes.body).toHaveLength(1);
+  });
+
+  it("purchase limits cap quantities per order and across a customer's past orders", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const app = createApp();
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "kemi@example.com", password: "password123", firstName: "Kemi", lastName: "Buyer", phone: "08037777777" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "kemi@example.com", password: "password123" });
+    const auth = `Bearer ${loginRes.body.accessToken}`;
+    await ProductModel.updateOne(
+      { slug: "seye-red-dress" },
+      { $set: { "purchaseLimits.maxPerCustomer": 2, "variants.0.maxPerOrder": 1 } }
+    );
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    expect(detailRes.body.purchaseLimits).toEqual({ maxPerOrder: null, maxPerCustomer: 2 });
+    const [medium, large] = detailRes.body.variants as Array<{ id: string }>;
+
+    const overOrderRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send({ productId: detailRes.body.id, variantId: medium.id, quantity: 2 });
+    expect(overOrderRes.status).toBe(409);
+    expect(overOrderRes.body.message).toContain("per order");
+
+    for (const variant of [medium, large]) {
+      await request(app)
+        .post("/api/v1/cart/items")
+        .set("x-tenant-id", "tenant_demo")
+        .set("authorization", auth)
+        .send({ productId: detailRes.body.id, variantId: variant.id, quantity: 1 });
+    }
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send({ email: "kemi@example.com", shippingAddress: "4 Awolowo Road", city: "Ikoyi", state: "Lagos", paymentMethod: "pay_on_delivery" });
+    expect(checkoutRes.status).toBe(201);
+
+    const overCustomerRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send({ productId: detailRes.body.id, variantId: large.id, quantity: 1 });
+    expect(overCustomerRes.status).toBe(409);
+    expect(overCustomerRes.body.message).toContain("you can buy 0 more");
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { useCommerceDatabase } from "./support/database.js";
+
+describe("flash deals integration", () => {
+  useCommerceDatabase();
+
+  it("live flash deals reprice listings, product detail and checkout while expired or upcoming deals do not", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { FlashDealModel } = await import("../src/models/flashDeal.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const { TenantModel } = await import("../src/models/tenant.js");
+    const app = createApp();
+
+    const tenant = await TenantModel.findOne({ slug: "tenant_demo" }).lean();
+    const product = await ProductModel.findOne({ slug: "seye-red-dress" }).lean();
+    const hour = 60 * 60 * 1000;
+    await FlashDealModel.create([
+      { tenantId: tenant!._id, title: "Ended", startAt: new Date(Date.now() - 3 * hour), endAt: new Date(Date.now() - hour), discountPercent: 50, productIds: [product!._id] },
+      { tenantId: tenant!._id, title: "Upcoming", startAt: new Date(Date.now() + hour), endAt: new Date(Date.now() + 3 * hour), discountPercent: 60, productIds: [product!._id] }
+    ]);
+
+    const beforeRes = await request(app).get("/api/v1/products").set("x-tenant-id", "tenant_demo");
+    expect(beforeRes.body[0]).toMatchObject({ priceNgn: 15000, originalPriceNgn: 15000, flashDeal: null });
+
+    await FlashDealModel.create({
+      tenantId: tenant!._id,
+      title: "Weekend drop",
+      startAt: new Date(Date.now() - hour),
+      endAt: new Date(Date.now() + hour),
+      discountPercent: 20,
+      productIds: [product!._id]
+    });
+
+    const listRes = await request(app).get("/api/v1/products").set("x-tenant-id", "tenant_demo");
+    expect(listRes.body[0]).toMatchObject({ priceNgn: 12000, originalPriceNgn: 15000, flashDeal: expect.objectContaining({ discountPercent: 20 }) });
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    expect(detailRes.body.flashDeal).toMatchObject({ title: "Weekend drop", discountPercent: 20 });
+    expect(detailRes.body.variants[0]).toMatchObject({ priceNgn: 12000, originalPriceNgn: 15000 });
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "flash-deal-session")
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 1 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("x-session-id", "flash-deal-session")
+      .send({ email: "deal@example.com", phone: "08031112222", firstName: "Deji", shippingAddress: "3 Bode Thomas", city: "Lagos", state: "Lagos" });
+    expect(checkoutRes.status).toBe(201);
+    const order = await OrderModel.findById(checkoutRes.body.orderId).lean();
+    expect(order?.lines[0]).toMatchObject({ unitPriceNgn: 12000 });
+  });
+});
@@ -0,0 +1,503 @@
+import { describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import { useCommerceDatabase } from "./support/database.js";
+
+describe("payments integration", () => {
+  useCommerceDatabase();
+
+  it("paystack callback verifies and redirects to success page", async () => {
+    const { createApp } = await import("../src/app.js");
+    const app = createApp();
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({
+        email: "chi@example.com",
+        password: "password123",
+        firstName: "Chi",
+        lastName: "Seye",
+        phone: "08031111111"
+      });
+
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "chi@example.com", password: "password123" });
+
+    const accessToken = loginRes.body.accessToken as string;
+
+    const productsRes = await request(app).get("/api/v1/products").set("x-tenant-id", "tenant_demo");
+    const productId = productsRes.body[0].id as string;
+
+    const detailRes = await request(app)
+      .get("/api/v1/products/seye-red-dress")
+      .set("x-tenant-id", "tenant_demo");
+
+    const variantId = detailRes.body.variants[0].id as string;
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 1 });
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({
+        email: "chi@example.com",
+        shippingAddress: "15 Admiralty Way",
+        city: "Lagos",
+        state: "Lagos"
+      });
+
+    const paymentRef = checkoutRes.body.paymentRef as string;
+
+    const callbackRes = await request(app)
+      .get(`/api/v1/payments/paystack/callback?reference=${encodeURIComponent(paymentRef)}`)
+      .redirects(0);
+
+    expect(callbackRes.status).toBe(302);
+    expect(callbackRes.headers.location).toContain("http://localhost:5173/checkout/success");
+    expect(callbackRes.headers.location).toContain(`ref=${encodeURIComponent(paymentRef)}`);
+  });
+
+  it("preorder checkout collects a deposit and requests the balance once stock arrives", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const app = createApp();
+
+    await ProductModel.updateOne(
+      { slug: "seye-red-dress" },
+      {
+        $set: {
+          preorder: { enabled: true, expectedShipDate: new Date("2026-12-01T00:00:00.000Z"), depositPercent: 40 },
+          "variants.$[].stock": 0,
+          "variants.$[].preorderCap": 5
+        }
+      }
+    );
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({
+        email: "tolu@example.com",
+        password: "password123",
+        firstName: "Tolu",
+        lastName: "Seye",
+        phone: "08032222222"
+      });
+
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tolu@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    expect(detailRes.body.preorder.depositPercent).toBe(40);
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[0].id as string;
+
+    const tooManyRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 6 });
+    expect(tooManyRes.status).toBe(409);
+
+    const addCartRes = await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 2 });
+    expect(addCartRes.status).toBe(201);
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({
+        email: "tolu@example.com",
+        shippingAddress: "20 Admiralty Way",
+        city: "Lagos",
+        state: "Lagos"
+      });
+    expect(checkoutRes.status).toBe(201);
+    expect(checkoutRes.body.balanceNgn).toBe(18000);
+    expect(checkoutRes.body.amountDueNgn).toBe(14500);
+
+    await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef } });
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    expect(order?.status).toBe("awaiting_stock");
+
+    const arrivalRes = await request(app)
+      .post(`/api/v1/admin/products/${productId}/preorder/arrival`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ received: [{ variantId, quantity: 4 }] });
+    expect(arrivalRes.status).toBe(200);
+    expect(arrivalRes.body.awaitingBalance).toBe(1);
+
+    const balanceRes = await request(app)
+      .post(`/api/v1/checkout/orders/${order!._id.toString()}/balance`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`);
+    expect(balanceRes.status).toBe(201);
+    expect(balanceRes.body.amountDueNgn).toBe(18000);
+
+    await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: balanceRes.body.paymentRef } });
+
+    const paidOrder = await OrderModel.findById(order!._id).lean();
+    expect(paidOrder?.status).toBe("paid");
+    expect(paidOrder?.paymentPlan?.amountPaidNgn).toBe(32500);
+
+    const product = await ProductModel.findOne({ slug: "seye-red-dress" }).lean();
+    expect(product?.variants[0].stock).toBe(2);
+  });
+
+  it("a preorder paid after its stock arrived is filled from stock and moves straight to the balance", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const app = createApp();
+
+    await ProductModel.updateOne(
+      { slug: "seye-red-dress" },
+      {
+        $set: {
+          preorder: { enabled: true, expectedShipDate: new Date("2026-12-01T00:00:00.000Z"), depositPercent: 40 },
+          "variants.$[].stock": 0,
+          "variants.$[].preorderCap": 5
+        }
+      }
+    );
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({
+        email: "kemi@example.com",
+        password: "password123",
+        firstName: "Kemi",
+        lastName: "Ade",
+        phone: "08034444444"
+      });
+
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "kemi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[0].id as string;
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 2 });
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({
+        email: "kemi@example.com",
+        shippingAddress: "20 Admiralty Way",
+        city: "Lagos",
+        state: "Lagos"
+      });
+    expect(checkoutRes.status).toBe(201);
+
+    const arrivalRes = await request(app)
+      .post(`/api/v1/admin/products/${productId}/preorder/arrival`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ received: [{ variantId, quantity: 4 }] });
+    expect(arrivalRes.status).toBe(200);
+    expect(arrivalRes.body.releasedOrders).toBe(0);
+
+    const webhookRes = await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef } });
+    expect(webhookRes.status).toBe(200);
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    expect(order?.status).toBe("awaiting_balance");
+    expect(order?.lines[0].preorder).toBe(false);
+
+    const product = await ProductModel.findOne({ slug: "seye-red-dress" }).lean();
+    expect(product?.variants[0]).toMatchObject({ stock: 2, preorderAllocated: 0 });
+  });
+
+  it("cancelling an order that waits for preorder stock hands its units back to the preorder cap", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const app = createApp();
+
+    await ProductModel.updateOne(
+      { slug: "seye-red-dress" },
+      {
+        $set: {
+          preorder: { enabled: true, expectedShipDate: new Date("2026-12-01T00:00:00.000Z"), depositPercent: 100 },
+          "variants.$[].stock": 0,
+          "variants.$[].preorderCap": 5
+        }
+      }
+    );
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({
+        email: "femi@example.com",
+        password: "password123",
+        firstName: "Femi",
+        lastName: "Ola",
+        phone: "08035555555"
+      });
+
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "femi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    const productId = detailRes.body.id as string;
+    const variantId = detailRes.body.variants[0].id as string;
+
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId, variantId, quantity: 3 });
+
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({
+        email: "femi@example.com",
+        shippingAddress: "20 Admiralty Way",
+        city: "Lagos",
+        state: "Lagos"
+      });
+    expect(checkoutRes.status).toBe(201);
+
+    await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef } });
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    expect(order?.status).toBe("awaiting_stock");
+    const allocated = await ProductModel.findOne({ slug: "seye-red-dress" }).lean();
+    expect(allocated?.variants[0].preorderAllocated).toBe(3);
+
+    const cancelRes = await request(app)
+      .patch(`/api/v1/admin/orders/${order!._id.toString()}/status`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ status: "cancelled" });
+    expect(cancelRes.status).toBe(200);
+
+    const released = await ProductModel.findOne({ slug: "seye-red-dress" }).lean();
+    expect(released?.variants[0].preorderAllocated).toBe(0);
+  });
+
+  it("tenants can switch checkout to flutterwave and its webhook finalizes the order", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const app = createApp();
+
+    const settingsRes = await request(app)
+      .patch("/api/v1/admin/settings/payments")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ provider: "flutterwave" });
+    expect(settingsRes.status).toBe(200);
+    expect(settingsRes.body.activeProvider).toBe("flutterwave");
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "kemi@example.com", password: "password123", firstName: "Kemi", lastName: "Buyer", phone: "08037777777" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "kemi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 1 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "kemi@example.com", shippingAddress: "9 Allen Avenue", city: "Ikeja", state: "Lagos" });
+    expect(checkoutRes.status).toBe(201);
+    expect(checkoutRes.body.provider).toBe("flutterwave");
+    expect(checkoutRes.body.authorizationUrl).toBe(`https://checkout.flutterwave.test/pay/${checkoutRes.body.paymentRef}`);
+
+    const paystackWebhook = await request(app)
+      .post("/api/v1/payments/paystack/webhook")
+      .send({ event: "charge.success", data: { reference: checkoutRes.body.paymentRef } });
+    expect(paystackWebhook.status).toBe(404);
+
+    const webhookRes = await request(app)
+      .post("/api/v1/payments/flutterwave/webhook")
+      .send({ event: "charge.completed", data: { tx_ref: checkoutRes.body.paymentRef, status: "successful" } });
+    expect(webhookRes.status).toBe(200);
+    expect(webhookRes.body.idempotent).toBe(false);
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    expect(order?.status).toBe("paid");
+  });
+
+  it("flutterwave charges that do not match the payment amount and currency are not finalized", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const { PaymentModel } = await import("../src/models/payment.js");
+    const { verifyFlutterwaveTransaction } = await import("../src/services/flutterwave.js");
+    const app = createApp();
+
+    await request(app)
+      .patch("/api/v1/admin/settings/payments")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ provider: "flutterwave" });
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tobi@example.com", password: "password123", firstName: "Tobi", lastName: "Buyer", phone: "08037777778" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tobi@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 1 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ email: "tobi@example.com", shippingAddress: "9 Allen Avenue", city: "Ikeja", state: "Lagos" });
+    expect(checkoutRes.status).toBe(201);
+    const payment = await PaymentModel.findOne({ providerRef: checkoutRes.body.paymentRef }).lean();
+
+    vi.mocked(verifyFlutterwaveTransaction).mockResolvedValueOnce({
+      id: 7002,
+      tx_ref: checkoutRes.body.paymentRef,
+      status: "successful",
+      amount: 100,
+      currency: "NGN",
+      processor_response: "Approved"
+    });
+    const underpaid = await request(app)
+      .post("/api/v1/payments/flutterwave/webhook")
+      .send({ event: "charge.completed", data: { tx_ref: checkoutRes.body.paymentRef, status: "successful" } });
+    expect(underpaid.status).toBe(409);
+
+    vi.mocked(verifyFlutterwaveTransaction).mockResolvedValueOnce({
+      id: 7002,
+      tx_ref: checkoutRes.body.paymentRef,
+      status: "successful",
+      amount: payment!.amountNgn,
+      currency: "USD",
+      processor_response: "Approved"
+    });
+    const wrongCurrency = await request(app)
+      .post("/api/v1/payments/flutterwave/webhook")
+      .send({ event: "charge.completed", data: { tx_ref: checkoutRes.body.paymentRef, status: "successful" } });
+    expect(wrongCurrency.status).toBe(409);
+
+    const order = await OrderModel.findOne({ orderRef: checkoutRes.body.orderRef }).lean();
+    expect(order?.status).toBe("pending");
+    const unchanged = await PaymentModel.findById(payment!._id).lean();
+    expect(unchanged?.status).toBe("initialized");
+  });
+
+  it("pay-on-delivery orders commit stock at checkout and are marked paid once staff confirm", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { ProductModel } = await import("../src/models/catalog.js");
+    const { CartModel } = await import("../src/models/cart.js");
+    const paystack = await import("../src/services/paystack.js");
+    const app = createApp();
+    vi.mocked(paystack.initializePaystackTransaction).mockClear();
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tunde@example.com", password: "password123", firstName: "Tunde", lastName: "Buyer", phone: "08038888888" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tunde@example.com", password: "password123" });
+    const accessToken = loginRes.body.accessToken as string;
+
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 1 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", `Bearer ${accessToken}`)
+      .send({
+        email: "tunde@example.com",
+        shippingAddress: "4 Awolowo Road",
+        city: "Ikoyi",
+        state: "Lagos",
+        paymentMethod: "pay_on_delivery"
+      });
+    expect(checkoutRes.status).toBe(201);
+    expect(checkoutRes.body.status).toBe("awaiting_payment_on_delivery");
+    expect(checkoutRes.body.authorizationUrl).toBeNull();
+    expect(paystack.initializePaystackTransaction).not.toHaveBeenCalled();
+
+    const product = await ProductModel.findOne({ slug: "seye-red-dress" }).lean();
+    expect(product?.variants[0].stock).toBe(7);
+    const cart = await CartModel.findOne({ userId: loginRes.body.user.id }).lean();
+    expect(cart?.items ?? []).toHaveLength(0);
+
+    const confirmRes = await request(app)
+      .post(`/api/v1/admin/orders/${checkoutRes.body.orderId}/payments/confirm`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ note: "Cash collected by rider." });
+    expect(confirmRes.status).toBe(200);
+    expect(confirmRes.body).toMatchObject({ status: "paid", paymentStatus: "success", paymentMethod: "pay_on_delivery" });
+
+    const repeatRes = await request(app)
+      .post(`/api/v1/admin/orders/${checkoutRes.body.orderId}/payments/confirm`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({});
+    expect(repeatRes.status).toBe(409);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { useCommerceDatabase } from "./support/database.js";
+
+describe("questions integration", () => {
+  useCommerceDatabase();
+
+  it("customers ask product questions that show on the product once staff answer them", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { CustomerNotificationModel } = await import("../src/models/customerNotification.js");
+    const app = createApp();
+
+    const tokens: string[] = [];
+    for (const [email, phone] of [
+      ["yemi@example.com", "08039999999"],
+      ["femi@example.com", "08030000001"]
+    ]) {
+      await request(app)
+        .post("/api/v1/auth/register")
+        .set("x-tenant-id", "tenant_demo")
+        .send({ email, password: "password123", firstName: "Yemi", lastName: "Asker", phone });
+      const loginRes = await request(app)
+        .post("/api/v1/auth/login")
+        .set("x-tenant-id", "tenant_demo")
+        .send({ email, password: "password123" });
+      tokens.push(`Bearer ${loginRes.body.accessToken}`);
+    }
+
+    const askRes = await request(app)
+      .post("/api/v1/products/seye-red-dress/questions")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", tokens[0])
+      .send({ question: "Does the medium fit a UK size 12?" });
+    expect(askRes.status).toBe(201);
+    expect(askRes.body).toMatchObject({ status: "open", answer: null });
+
+    const openRes = await request(app)
+      .get("/api/v1/admin/questions")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token");
+    expect(openRes.body.rows).toEqual([expect.objectContaining({ id: askRes.body.id })]);
+
+    const answerRes = await request(app)
+      .post(`/api/v1/admin/questions/${askRes.body.id}/answer`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ answer: "Yes, the medium is cut for a UK 12." });
+    expect(answerRes.status).toBe(200);
+    expect(answerRes.body).toMatchObject({ status: "answered", answer: expect.objectContaining({ body: "Yes, the medium is cut for a UK 12." }) });
+    expect(await CustomerNotificationModel.countDocuments({ type: "question_answered" })).toBe(1);
+
+    for (const token of [tokens[1], tokens[1]]) {
+      await request(app)
+        .post(`/api/v1/products/seye-red-dress/questions/${askRes.body.id}/upvote`)
+        .set("x-tenant-id", "tenant_demo")
+        .set("authorization", token);
+    }
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    expect(detailRes.body.questions).toMatchObject({ total: 1, items: [{ id: askRes.body.id, upvotes: 1, askerName: "Yemi A." }] });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import request from "supertest";
+import { useCommerceDatabase } from "./support/database.js";
+
+describe("reviews integration", () => {
+  useCommerceDatabase();
+
+  it("customers review delivered products and approved reviews feed the product rating", async () => {
+    const { createApp } = await import("../src/app.js");
+    const { OrderModel } = await import("../src/models/order.js");
+    const app = createApp();
+
+    await request(app)
+      .post("/api/v1/auth/register")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tolu@example.com", password: "password123", firstName: "Tolu", lastName: "Reviewer", phone: "08038888888" });
+    const loginRes = await request(app)
+      .post("/api/v1/auth/login")
+      .set("x-tenant-id", "tenant_demo")
+      .send({ email: "tolu@example.com", password: "password123" });
+    const auth = `Bearer ${loginRes.body.accessToken}`;
+    const detailRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    await request(app)
+      .post("/api/v1/cart/items")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send({ productId: detailRes.body.id, variantId: detailRes.body.variants[0].id, quantity: 1 });
+    const checkoutRes = await request(app)
+      .post("/api/v1/checkout/initialize")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send({ email: "tolu@example.com", shippingAddress: "4 Awolowo Road", city: "Ikoyi", state: "Lagos", paymentMethod: "pay_on_delivery" });
+
+    const review = { rating: 4, title: "Lovely fit", body: "True to size and the colour is rich." };
+    const earlyRes = await request(app)
+      .post("/api/v1/products/seye-red-dress/reviews")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send(review);
+    expect(earlyRes.status).toBe(403);
+
+    await OrderModel.updateOne({ orderRef: checkoutRes.body.orderRef }, { $set: { status: "delivered" } });
+    const foreignPhotoRes = await request(app)
+      .post("/api/v1/products/seye-red-dress/reviews")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send({ ...review, photos: [{ url: "https://example.com/photo.jpg", publicId: "elsewhere/photo" }] });
+    expect(foreignPhotoRes.status).toBe(400);
+    const createRes = await request(app)
+      .post("/api/v1/products/seye-red-dress/reviews")
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", auth)
+      .send(review);
+    expect(createRes.status).toBe(201);
+    expect(createRes.body).toMatchObject({ status: "pending", verifiedPurchase: true, reviewerName: "Tolu R." });
+
+    const hiddenRes = await request(app).get("/api/v1/products/seye-red-dress/reviews").set("x-tenant-id", "tenant_demo");
+    expect(hiddenRes.body.items).toEqual([]);
+
+    const approveRes = await request(app)
+      .patch(`/api/v1/admin/reviews/${createRes.body.id}`)
+      .set("x-tenant-id", "tenant_demo")
+      .set("authorization", "Bearer demo-admin-token")
+      .send({ status: "approved" });
+    expect(approveRes.status).toBe(200);
+    expect(approveRes.body.productRating).toEqual({ average: 4, count: 1 });
+
+    const publicRes = await request(app).get("/api/v1/products/seye-red-dress/reviews").set("x-tenant-id", "tenant_demo");
+    expect(publicRes.body.items).toEqual([expect.objectContaining({ rating: 4, verifiedPurchase: true })]);
+    const ratedRes = await request(app).get("/api/v1/products/seye-red-dress").set("x-tenant-id", "tenant_demo");
+    expect(ratedRes.body.rating).toEqual({ average: 4, count: 1 });
+  });
+});
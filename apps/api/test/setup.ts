@@ -0,0 +1,54 @@
+import { vi } from "vitest";
+
+process.env.NODE_ENV = "test";
+process.env.PORT = "5001";
+process.env.CORS_ORIGIN = "*";
+process.env.JWT_SECRET = "test-jwt-secret-123456789";
+process.env.JWT_REFRESH_SECRET = "test-refresh-secret-123456789";
+process.env.PAYSTACK_SECRET_KEY = "sk_test_mock";
+process.env.FLUTTERWAVE_SECRET_KEY = "FLWSECK_TEST-mock";
+process.env.CLIENT_CHECKOUT_SUCCESS_URL = "http://localhost:5173/checkout/success";
+process.env.CLIENT_CHECKOUT_FAILURE_URL = "http://localhost:5173/checkout/failure";
+process.env.MONGODB_URI = process.env.MONGODB_URI_TEST ?? process.env.MONGODB_URI ?? "mongodb://127.0.0.1:27017";
+process.env.MONGODB_TLS = process.env.MONGODB_TLS ?? "false";
+
+vi.mock("../src/services/paystack.js", () => ({
+  initializePaystackTransaction: vi.fn(async ({ reference }: { reference: string }) => ({
+    authorization_url: `https://paystack.test/authorize/${reference}`,
+    reference,
+    access_code: "access_code_mock"
+  })),
+  verifyPaystackTransaction: vi.fn(async (reference: string) => ({
+    reference,
+    status: "success",
+    paid_at: new Date().toISOString(),
+    gateway_response: "Approved"
+  })),
+  createPaystackRefund: vi.fn(async ({ amountKobo }: { amountKobo: number }) => ({
+    id: 9001,
+    status: "pending",
+    amount: amountKobo
+  })),
+  verifyPaystackWebhookSignature: vi.fn(() => true)
+}));
+
+vi.mock("../src/services/flutterwave.js", () => ({
+  initializeFlutterwavePayment: vi.fn(async ({ reference }: { reference: string }) => ({
+    link: `https://checkout.flutterwave.test/pay/${reference}`
+  })),
+  verifyFlutterwaveTransaction: vi.fn(async (reference: string) => ({
+    id: 7001,
+    tx_ref: reference,
+    status: "successful",
+    amount: 17500,
+    currency: "NGN",
+    created_at: new Date().toISOString(),
+    processor_response: "Approved"
+  })),
+  createFlutterwaveRefund: vi.fn(async ({ amountNgn }: { amountNgn: number }) => ({
+    id: 8001,
+    status: "completed",
+    amount_refunded: amountNgn
+  })),
+  verifyFlutterwaveWebhookSignature: vi.fn(() => true)
+}));
@@ -0,0 +1,52 @@
+import { afterAll, beforeAll, beforeEach } from "vitest";
+import mongoose from "mongoose";
+
+// Registers the shared database lifecycle for a suite: one connection per file and a freshly seeded demo tenant
+// before every test. Checkout and payments run in transactions, so MongoDB must be a replica set. A suite that
+// cannot connect fails rather than passing without checking anything.
+export function useCommerceDatabase() {
+  beforeAll(async () => {
+    const { connectDatabase } = await import("../../src/db/connect.js");
+    try {
+      await connectDatabase();
+    } catch (error) {
+      throw new Error(`Integration tests need MongoDB at ${process.env.MONGODB_URI}: ${(error as Error).message}`);
+    }
+  }, 30000);
+
+  afterAll(async () => {
+    await mongoose.disconnect();
+  });
+
+  beforeEach(async () => {
+    const { TenantModel } = await import("../../src/models/tenant.js");
+    const { CategoryModel, ProductModel } = await import("../../src/models/catalog.js");
+
+    await mongoose.connection.db.dropDatabase();
+
+    const tenant = await TenantModel.create({
+      name: "Demo Store",
+      slug: "tenant_demo"
+    });
+
+    const category = await CategoryModel.create({
+      tenantId: tenant._id,
+      name: "Fashion",
+      slug: "fashion"
+    });
+
+    await ProductModel.create({
+      tenantId: tenant._id,
+      categoryId: category._id,
+      slug: "seye-red-dress",
+      name: "Seye Red Dress",
+      description: "Elegant red dress for premium occasions.",
+      imageUrl: "https://example.com/red-dress.jpg",
+      active: true,
+      variants: [
+        { sku: "SRD-M-RED", size: "M", color: "Red", stock: 8, priceNgn: 15000 },
+        { sku: "SRD-L-RED", size: "L", color: "Red", stock: 2, priceNgn: 15000 }
+      ]
+    });
+  });
+}
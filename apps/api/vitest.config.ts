@@ -4,7 +4,10 @@ export default defineConfig({
   test: {
     environment: "node",
     include: ["test/**/*.test.ts"],
+    setupFiles: ["test/setup.ts"],
     isolate: true,
+    // Every suite drops and reseeds the same database, so files must not run side by side.
+    fileParallelism: false,
     sequence: {
       concurrent: false
     }
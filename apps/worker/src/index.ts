@@ -3,16 +3,19 @@ import path from "path";
 import { fileURLToPath } from "url";
 import { Queue, Worker } from "bullmq";
 import { Redis } from "ioredis";
+import { GridFSBucket, MongoClient, ObjectId } from "mongodb";
 import nodemailer from "nodemailer";
+import { isReportKey, runReport } from "./reports.js";
+import { renderReportCsv, renderReportPdf } from "./reportFiles.js";
 
 type OrderStatusNotificationPayload = {
   tenantId: string;
-  userId: string;
+  userId: string | null;
   email: string;
   customerName: string;
   orderId: string;
   orderRef: string;
-  status: "paid" | "shipped" | "delivered";
+  status: "paid" | "awaiting_stock" | "awaiting_balance" | "shipped" | "delivered";
   trackingNumber?: string | null;
   note?: string;
 };
@@ -33,6 +36,73 @@ type WishlistStockNotificationPayload = {
   currentStock: number;
 };
 
+type RefundNotificationPayload = {
+  tenantId: string;
+  userId: string | null;
+  email: string;
+  customerName: string;
+  orderRef: string;
+  refundRef: string;
+  amountNgn: number;
+  status: "initiated" | "processed";
+  reason?: string;
+};
+
+type ReportExportReadyNotificationPayload = {
+  email: string;
+  report: string;
+  format: "csv" | "pdf";
+  jobId: string;
+  rowCount: number;
+  expiresAt: string;
+};
+
+type ReportExportJobPayload = {
+  exportId: string;
+};
+
+type ReportExportRecord = {
+  tenantId: ObjectId;
+  jobId: string;
+  report: string;
+  format: "csv" | "pdf";
+  from: Date;
+  to: Date;
+  groupBy: "day" | "week" | "month";
+  status: string;
+  requesterEmail?: string | null;
+};
+
+type CampaignSendPayload = {
+  tenantId: string;
+  campaignId: string;
+  deliveryIds: string[];
+};
+
+type AbandonedCartNotificationPayload = {
+  tenantId: string;
+  userId: string;
+  email: string;
+  customerName: string;
+  reminder: number;
+  totalReminders: number;
+  lines: Array<{ name: string; quantity: number; unitPriceNgn: number }>;
+  subtotalNgn: number;
+  resumeUrl: string;
+  discount: { code: string; percent: number; expiresAt: string } | null;
+};
+
+type QuestionAnsweredNotificationPayload = {
+  tenantId: string;
+  userId: string;
+  email: string;
+  customerName: string;
+  productName: string;
+  productUrl: string;
+  question: string;
+  answer: string;
+};
+
 const currentFile = fileURLToPath(import.meta.url);
 const currentDir = path.dirname(currentFile);
 dotenv.config({ path: path.resolve(process.cwd(), ".env") });
@@ -51,6 +121,8 @@ const jobsQueue = new Queue("sws-notifications", { connection });
 function getSubject(payload: OrderStatusNotificationPayload) {
   const subjectMap = {
     paid: `Payment Confirmed - ${payload.orderRef}`,
+    awaiting_stock: `Preorder Confirmed - ${payload.orderRef}`,
+    awaiting_balance: `Balance Payment Due - ${payload.orderRef}`,
     shipped: `Order Shipped - ${payload.orderRef}`,
     delivered: `Order Delivered - ${payload.orderRef}`
   } as const;
@@ -61,6 +133,8 @@ function getSubject(payload: OrderStatusNotificationPayload) {
 function getMessage(payload: OrderStatusNotificationPayload) {
   const introMap = {
     paid: "Your payment has been confirmed and we are preparing your order.",
+    awaiting_stock: "Your preorder payment has been confirmed. We will let you know as soon as the stock arrives.",
+    awaiting_balance: "Good news. Your preorder stock has arrived. Please complete your balance payment so we can ship your order.",
     shipped: "Great news. Your order has been shipped.",
     delivered: "Your order has been marked as delivered."
   } as const;
@@ -117,6 +191,24 @@ function createTransporter() {
 const transporter = createTransporter();
 const fromAddress = process.env.EMAIL_FROM ?? "Shop with Seye <shopws@immersiavr.com>";
 
+// Report exports and campaign batches read and write the API's data, so the worker connects to the same database.
+// TLS follows the connection string (mongodb+srv:// or ?tls=true) unless MONGODB_TLS overrides it.
+const mongoUri = process.env.MONGODB_URI;
+const mongoClient = mongoUri
+  ? new MongoClient(mongoUri, {
+      serverSelectionTimeoutMS: 15000,
+      family: 4,
+      ...(process.env.MONGODB_TLS ? { tls: process.env.MONGODB_TLS === "true" } : {})
+    })
+  : null;
+const reportExportTtlHours = Number(process.env.REPORT_EXPORT_TTL_HOURS ?? 24);
+
+// The database named in the connection string wins; otherwise fall back to MONGODB_DB_NAME or the API's default.
+function workerDatabaseName(uri: string) {
+  const fromUri = uri.match(/^mongodb(?:\+srv)?:\/\/[^/]+\/([^?]+)/)?.[1];
+  return fromUri ? decodeURIComponent(fromUri) : process.env.MONGODB_DB_NAME ?? "shop_with_seye";
+}
+
 async function processOrderStatusNotification(payload: OrderStatusNotificationPayload) {
   const subject = getSubject(payload);
   const content = getMessage(payload);
@@ -234,6 +326,433 @@ async function processWishlistStockNotification(payload: WishlistStockNotificati
   });
 }
 
+async function processRefundNotification(payload: RefundNotificationPayload) {
+  const amount = `NGN ${payload.amountNgn.toLocaleString()}`;
+  const subject =
+    payload.status === "processed" ? `Refund Processed - ${payload.orderRef}` : `Refund Initiated - ${payload.orderRef}`;
+  const intro =
+    payload.status === "processed"
+      ? `Your refund of ${amount} has been processed. Depending on your bank it may take a few days to reflect.`
+      : `We have started a refund of ${amount} for your order.`;
+  const text = [
+    `Hi ${payload.customerName || "Customer"},`,
+    "",
+    intro,
+    `Order Reference: ${payload.orderRef}`,
+    `Refund Reference: ${payload.refundRef}`,
+    payload.reason ? `Reason: ${payload.reason}` : null,
+    "",
+    "Thank you for shopping with Shop with Seye."
+  ]
+    .filter(Boolean)
+    .join("\n");
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+      <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+      <p>Hi ${payload.customerName || "Customer"},</p>
+      <p>${intro}</p>
+      <p><strong>Order Reference:</strong> ${payload.orderRef}</p>
+      <p><strong>Refund Reference:</strong> ${payload.refundRef}</p>
+      ${payload.reason ? `<p><strong>Reason:</strong> ${payload.reason}</p>` : ""}
+      <p>Thank you for shopping with Shop with Seye.</p>
+    </div>
+  `;
+
+  if (!transporter) {
+    console.warn("[worker][notify] SMTP not configured. Logging refund payload.", { to: payload.email, subject, payload });
+    return;
+  }
+
+  await transporter.sendMail({
+    from: fromAddress,
+    to: payload.email,
+    subject,
+    text,
+    html
+  });
+
+  console.log("[worker][notify] refund email sent", {
+    to: payload.email,
+    refundRef: payload.refundRef,
+    status: payload.status
+  });
+}
+
+async function processReportExportReadyNotification(payload: ReportExportReadyNotificationPayload) {
+  const subject = `Report export ready: ${payload.report}`;
+  const text = [
+    "Hello,",
+    "",
+    `Your ${payload.format.toUpperCase()} export of the ${payload.report} report is ready (${payload.rowCount} rows).`,
+    `Download it from the admin dashboard or GET /api/v1/admin/reports/exports/${payload.jobId}?download=true.`,
+    `The file is available until ${new Date(payload.expiresAt).toUTCString()}.`
+  ].join("\n");
+  const html = `
+    <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+      <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+      <p>Your ${payload.format.toUpperCase()} export of the <strong>${payload.report}</strong> report is ready (${payload.rowCount} rows).</p>
+      <p><strong>Export ID:</strong> ${payload.jobId}</p>
+      <p>The file is available until ${new Date(payload.expiresAt).toUTCString()}.</p>
+    </div>
+  `;
+
+  if (!transporter) {
+    console.warn("[worker][notify] SMTP not configured. Logging report export payload.", { to: payload.email, subject });
+    return;
+  }
+
+  await transporter.sendMail({
+    from: fromAddress,
+    to: payload.email,
+    subject,
+    text,
+    html
+  });
+
+  console.log("[worker][notify] report export email sent", {
+    to: payload.email,
+    jobId: payload.jobId
+  });
+}
+
+function storeReportExportFile(bucket: GridFSBucket, fileName: string, file: Buffer, metadata: Record<string, string>) {
+  return new Promise<ObjectId>((resolve, reject) => {
+    const upload = bucket.openUploadStream(fileName, { metadata });
+    upload.once("finish", () => resolve(upload.id));
+    upload.once("error", reject);
+    upload.end(file);
+  });
+}
+
+// Files go to the GridFS bucket the API streams downloads from, and the export record is updated in place.
+async function processReportExport(payload: ReportExportJobPayload) {
+  if (!mongoClient || !mongoUri) {
+    throw new Error("MONGODB_URI is required to process report exports");
+  }
+
+  const db = mongoClient.db(workerDatabaseName(mongoUri));
+  const exports = db.collection<ReportExportRecord>("reportexports");
+  const exportId = new ObjectId(payload.exportId);
+  const exportJob = await exports.findOne({ _id: exportId });
+  if (!exportJob || exportJob.status === "completed" || exportJob.status === "expired") {
+    return;
+  }
+  if (!isReportKey(exportJob.report)) {
+    await exports.updateOne(
+      { _id: exportId },
+      { $set: { status: "failed", error: `Unknown report ${exportJob.report}`, updatedAt: new Date() } }
+    );
+    return;
+  }
+
+  await exports.updateOne({ _id: exportId }, { $set: { status: "processing", updatedAt: new Date() } });
+
+  let rowCount: number;
+  let expiresAt: Date;
+  try {
+    const result = await runReport(db, exportJob.report, {
+      tenantId: exportJob.tenantId,
+      from: exportJob.from,
+      to: exportJob.to,
+      groupBy: exportJob.groupBy
+    });
+    const file = exportJob.format === "pdf" ? renderReportPdf(result) : renderReportCsv(result);
+    const period = `${exportJob.from.toISOString().slice(0, 10)}-${exportJob.to.toISOString().slice(0, 10)}`;
+    const fileName = `${exportJob.report}-${period}.${exportJob.format}`;
+    const fileId = await storeReportExportFile(new GridFSBucket(db, { bucketName: "reportExports" }), fileName, file, {
+      tenantId: exportJob.tenantId.toString(),
+      jobId: exportJob.jobId
+    });
+
+    rowCount = result.rows.length;
+    expiresAt = new Date(Date.now() + reportExportTtlHours * 60 * 60 * 1000);
+    await exports.updateOne(
+      { _id: exportId },
+      {
+        $set: {
+          status: "completed",
+          fileName,
+          fileId,
+          contentType: exportJob.format === "pdf" ? "application/pdf" : "text/csv",
+          sizeBytes: file.length,
+          rowCount,
+          error: null,
+          completedAt: new Date(),
+          expiresAt,
+          updatedAt: new Date()
+        }
+      }
+    );
+  } catch (error) {
+    await exports.updateOne({ _id: exportId }, { $set: { status: "failed", error: (error as Error).message, updatedAt: new Date() } });
+    throw error;
+  }
+
+  console.log("[worker][reports] report export completed", { jobId: exportJob.jobId, rowCount });
+
+  if (exportJob.requesterEmail) {
+    const notification: ReportExportReadyNotificationPayload = {
+      email: exportJob.requesterEmail,
+      report: exportJob.report,
+      format: exportJob.format,
+      jobId: exportJob.jobId,
+      rowCount,
+      expiresAt: expiresAt.toISOString()
+    };
+    await jobsQueue.add("report-export-ready", notification, {
+      attempts: 5,
+      backoff: { type: "exponential", delay: 2000 },
+      removeOnComplete: true,
+      removeOnFail: false
+    });
+  }
+}
+
+const apiPublicUrl = process.env.API_PUBLIC_URL ?? "http://localhost:5000";
+const storefrontUrl = process.env.CLIENT_STOREFRONT_URL ?? "http://localhost:5173";
+
+function campaignClickUrl(token: string, target: string) {
+  return `${apiPublicUrl}/api/v1/campaigns/track/${token}/click?url=${encodeURIComponent(target)}`;
+}
+
+function escapeHtml(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+// Splitting on URLs keeps the surrounding text separate so the HTML body can escape it without mangling links.
+function trackStorefrontLinks(
+  text: string,
+  token: string,
+  render: (trackedUrl: string, url: string) => string,
+  renderText: (value: string) => string = (value) => value
+) {
+  const storefrontOrigin = new URL(storefrontUrl).origin;
+  return text
+    .split(/(https?:\/\/[^\s<]+)/)
+    .map((part, index) =>
+      index % 2 === 1 && part.startsWith(storefrontOrigin) ? render(campaignClickUrl(token, part), part) : renderText(part)
+    )
+    .join("");
+}
+
+function renderCampaignEmail(campaign: { subject: string; body: string }, recipient: { email: string; firstName: string }, token: string) {
+  const paragraphs = campaign.body
+    .split(/\n\s*\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean);
+  const shopUrl = campaignClickUrl(token, storefrontUrl);
+  const footer =
+    "You are receiving this because email notifications are enabled on your account. You can turn them off from your account settings.";
+  return {
+    to: recipient.email,
+    subject: campaign.subject,
+    text: [
+      `Hello ${recipient.firstName},`,
+      "",
+      ...paragraphs.flatMap((paragraph) => [trackStorefrontLinks(paragraph, token, (trackedUrl) => trackedUrl), ""]),
+      `Shop now: ${shopUrl}`,
+      "",
+      footer
+    ].join("\n"),
+    html: `
+      <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+        <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+        <p>Hello ${escapeHtml(recipient.firstName)},</p>
+        ${paragraphs
+          .map(
+            (paragraph) =>
+              `<p>${trackStorefrontLinks(
+                paragraph,
+                token,
+                (trackedUrl, url) => `<a href="${escapeHtml(trackedUrl)}">${escapeHtml(url)}</a>`,
+                escapeHtml
+              ).replace(/\n/g, "<br />")}</p>`
+          )
+          .join("\n        ")}
+        <p><a href="${shopUrl}" style="display: inline-block; padding: 10px 18px; background: #172033; color: #ffffff; text-decoration: none;">Shop now</a></p>
+        <p style="color: #6b7280; font-size: 12px;">${footer}</p>
+        <img src="${apiPublicUrl}/api/v1/campaigns/track/${token}/open.gif" width="1" height="1" alt="" style="display: none;" />
+      </div>
+    `
+  };
+}
+
+function getAbandonedCartMessage(payload: AbandonedCartNotificationPayload) {
+  const subject = payload.discount
+    ? `Your cart is waiting - ${payload.discount.percent}% off inside`
+    : payload.reminder === 1
+      ? "You left something in your cart"
+      : "Your cart is still waiting";
+  const itemRows = payload.lines.map((line) => `${line.quantity} x ${line.name} - NGN ${(line.quantity * line.unitPriceNgn).toLocaleString()}`);
+  const discountNote = payload.discount
+    ? `Use code ${payload.discount.code} for ${payload.discount.percent}% off before ${new Date(payload.discount.expiresAt).toUTCString()}.`
+    : null;
+
+  return {
+    subject,
+    text: [
+      `Hi ${payload.customerName || "Customer"},`,
+      "",
+      "You left these items in your cart:",
+      ...itemRows,
+      `Subtotal: NGN ${payload.subtotalNgn.toLocaleString()}`,
+      discountNote,
+      "",
+      `Complete your order: ${payload.resumeUrl}`
+    ]
+      .filter((line) => line !== null)
+      .join("\n"),
+    html: `
+      <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+        <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+        <p>Hi ${payload.customerName || "Customer"},</p>
+        <p>You left these items in your cart:</p>
+        <ul>${itemRows.map((row) => `<li>${row}</li>`).join("")}</ul>
+        <p><strong>Subtotal:</strong> NGN ${payload.subtotalNgn.toLocaleString()}</p>
+        ${discountNote ? `<p>${discountNote}</p>` : ""}
+        <p><a href="${payload.resumeUrl}" style="display: inline-block; padding: 10px 18px; background: #172033; color: #ffffff; text-decoration: none;">Complete your order</a></p>
+      </div>
+    `
+  };
+}
+
+async function processAbandonedCartNotification(payload: AbandonedCartNotificationPayload) {
+  const content = getAbandonedCartMessage(payload);
+
+  if (!transporter) {
+    console.warn("[worker][notify] SMTP not configured. Logging abandoned cart payload.", { to: payload.email, subject: content.subject });
+    return;
+  }
+
+  await transporter.sendMail({
+    from: fromAddress,
+    to: payload.email,
+    subject: content.subject,
+    text: content.text,
+    html: content.html
+  });
+
+  console.log("[worker][notify] abandoned cart email sent", { to: payload.email, reminder: payload.reminder });
+}
+
+function getQuestionAnsweredMessage(payload: QuestionAnsweredNotificationPayload) {
+  return {
+    subject: `Your question about ${payload.productName} was answered`,
+    text: [
+      `Hi ${payload.customerName || "Customer"},`,
+      "",
+      `You asked about ${payload.productName}:`,
+      payload.question,
+      "",
+      "Our answer:",
+      payload.answer,
+      "",
+      `View the product: ${payload.productUrl}`
+    ].join("\n"),
+    html: `
+      <div style="font-family: Arial, sans-serif; color: #172033; line-height: 1.5;">
+        <h2 style="margin: 0 0 12px;">Shop with Seye</h2>
+        <p>Hi ${escapeHtml(payload.customerName || "Customer")},</p>
+        <p>You asked about <strong>${escapeHtml(payload.productName)}</strong>:</p>
+        <blockquote style="margin: 0 0 12px; padding-left: 12px; border-left: 3px solid #d0d5dd;">${escapeHtml(payload.question)}</blockquote>
+        <p><strong>Our answer:</strong> ${escapeHtml(payload.answer)}</p>
+        <p><a href="${payload.productUrl}" style="display: inline-block; padding: 10px 18px; background: #172033; color: #ffffff; text-decoration: none;">View the product</a></p>
+      </div>
+    `
+  };
+}
+
+async function processQuestionAnsweredNotification(payload: QuestionAnsweredNotificationPayload) {
+  const content = getQuestionAnsweredMessage(payload);
+
+  if (!transporter) {
+    console.warn("[worker][notify] SMTP not configured. Logging question answered payload.", { to: payload.email, subject: content.subject });
+    return;
+  }
+
+  await transporter.sendMail({
+    from: fromAddress,
+    to: payload.email,
+    subject: content.subject,
+    text: content.text,
+    html: content.html
+  });
+
+  console.log("[worker][notify] question answered email sent", { to: payload.email });
+}
+
+async function processCampaignSend(payload: CampaignSendPayload) {
+  if (!mongoClient || !mongoUri) {
+    throw new Error("MONGODB_URI is required to process campaign batches");
+  }
+
+  const db = mongoClient.db(workerDatabaseName(mongoUri));
+  const campaign = await db
+    .collection<{ subject: string; body: string }>("campaigns")
+    .findOne({ _id: new ObjectId(payload.campaignId) }, { projection: { subject: 1, body: 1 } });
+  if (!campaign) {
+    console.log("[worker][notify] campaign not found; skipping batch", { campaignId: payload.campaignId });
+    return;
+  }
+
+  const deliveriesCollection = db.collection<{ userId: ObjectId; token: string; status: string }>("campaigndeliveries");
+  const deliveries = await deliveriesCollection
+    .find({ _id: { $in: payload.deliveryIds.map((id) => new ObjectId(id)) }, campaignId: campaign._id, status: "queued" })
+    .toArray();
+  const users = await db
+    .collection<{ email: string; firstName: string; notificationsEnabled?: boolean }>("users")
+    .find(
+      { tenantId: new ObjectId(payload.tenantId), _id: { $in: deliveries.map((delivery) => delivery.userId) } },
+      { projection: { email: 1, firstName: 1, notificationsEnabled: 1 } }
+    )
+    .toArray();
+  const userMap = new Map(users.map((user) => [user._id.toString(), user]));
+
+  const counts = { sent: 0, skipped: 0, failed: 0 };
+  for (const delivery of deliveries) {
+    const user = userMap.get(delivery.userId.toString());
+    if (!user || user.notificationsEnabled === false) {
+      counts.skipped += 1;
+      await deliveriesCollection.updateOne({ _id: delivery._id, status: "queued" }, { $set: { status: "skipped", updatedAt: new Date() } });
+      continue;
+    }
+
+    const email = renderCampaignEmail(campaign, user, delivery.token);
+    try {
+      if (transporter) {
+        await transporter.sendMail({ from: fromAddress, ...email });
+      } else {
+        console.warn("[worker][notify] SMTP not configured. Logging campaign email payload.", { to: email.to, subject: email.subject });
+      }
+      counts.sent += 1;
+      await deliveriesCollection.updateOne(
+        { _id: delivery._id, status: "queued" },
+        { $set: { status: "sent", sentAt: new Date(), updatedAt: new Date() } }
+      );
+    } catch (error) {
+      counts.failed += 1;
+      await deliveriesCollection.updateOne(
+        { _id: delivery._id, status: "queued" },
+        { $set: { status: "failed", error: (error as Error).message, updatedAt: new Date() } }
+      );
+      console.error("[worker][notify] campaign delivery failed", {
+        campaignId: payload.campaignId,
+        deliveryId: delivery._id.toString(),
+        error: (error as Error).message
+      });
+    }
+  }
+
+  await db
+    .collection("campaigns")
+    .updateOne(
+      { _id: campaign._id },
+      { $inc: { "stats.sent": counts.sent, "stats.skipped": counts.skipped, "stats.failed": counts.failed } }
+    );
+
+  console.log("[worker][notify] campaign batch processed", { campaignId: payload.campaignId, ...counts });
+}
+
 new Worker(
   "sws-notifications",
   async (job) => {
@@ -252,6 +771,44 @@ new Worker(
       return;
     }
 
+    if (job.name === "refund-status") {
+      await processRefundNotification(job.data as RefundNotificationPayload);
+      return;
+    }
+
+    if (job.name === "report-export-ready") {
+      await processReportExportReadyNotification(job.data as ReportExportReadyNotificationPayload);
+      return;
+    }
+
+    if (job.name === "campaign-send") {
+      await processCampaignSend(job.data as CampaignSendPayload);
+      return;
+    }
+
+    if (job.name === "abandoned-cart") {
+      await processAbandonedCartNotification(job.data as AbandonedCartNotificationPayload);
+      return;
+    }
+
+    if (job.name === "question-answered") {
+      await processQuestionAnsweredNotification(job.data as QuestionAnsweredNotificationPayload);
+      return;
+    }
+
+    console.log("[worker] skipped unknown job", job.name);
+  },
+  { connection }
+);
+
+new Worker(
+  "sws-report-exports",
+  async (job) => {
+    if (job.name === "report-export") {
+      await processReportExport(job.data as ReportExportJobPayload);
+      return;
+    }
+
     console.log("[worker] skipped unknown job", job.name);
   },
   { connection }
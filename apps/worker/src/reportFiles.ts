@@ -0,0 +1,98 @@
+import type { ReportResult } from "./reports.js";
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+const MARGIN = 36;
+const FONT_SIZE = 8;
+const LINE_HEIGHT = 12;
+
+function formatCell(value: unknown) {
+  if (value === null || value === undefined) {
+    return "";
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return String(value);
+}
+
+function escapeCsv(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function renderReportCsv(result: ReportResult) {
+  const lines = [
+    result.columns.map(escapeCsv).join(","),
+    ...result.rows.map((row) => result.columns.map((column) => escapeCsv(formatCell(row[column]))).join(","))
+  ];
+  return Buffer.from(`${lines.join("\r\n")}\r\n`, "utf-8");
+}
+
+function escapePdfText(value: string) {
+  return value.replace(/[^\x20-\x7e]/g, "?").replace(/([\\()])/g, "\\$1");
+}
+
+function fitCell(value: string, width: number) {
+  // Helvetica averages roughly half an em per glyph, which is close enough for tabular output.
+  const maxChars = Math.max(1, Math.floor(width / (FONT_SIZE * 0.5)) - 1);
+  return value.length > maxChars ? `${value.slice(0, Math.max(1, maxChars - 1))}~` : value;
+}
+
+// Minimal single-font PDF writer so exports do not need a rendering dependency.
+export function renderReportPdf(result: ReportResult) {
+  const columnWidth = (PAGE_WIDTH - MARGIN * 2) / Math.max(1, result.columns.length);
+  const rowsPerPage = Math.floor((PAGE_HEIGHT - MARGIN * 2) / LINE_HEIGHT) - 4;
+  const textLine = (cells: string[], y: number) =>
+    cells
+      .map((cell, index) => {
+        const x = (MARGIN + index * columnWidth).toFixed(2);
+        return `BT /F1 ${FONT_SIZE} Tf ${x} ${y} Td (${escapePdfText(fitCell(cell, columnWidth))}) Tj ET`;
+      })
+      .join("\n");
+
+  const title = `${result.report} | ${result.from.toISOString().slice(0, 10)} to ${result.to.toISOString().slice(0, 10)} | grouped by ${result.groupBy}`;
+  const body = result.rows.map((row) => result.columns.map((column) => formatCell(row[column])));
+  const pageCount = Math.max(1, Math.ceil(body.length / rowsPerPage));
+
+  const pageStreams: string[] = [];
+  for (let page = 0; page < pageCount; page += 1) {
+    let y = PAGE_HEIGHT - MARGIN;
+    const parts = [`BT /F1 12 Tf ${MARGIN} ${y} Td (${escapePdfText(title)}) Tj ET`];
+    y -= LINE_HEIGHT * 2;
+    parts.push(textLine(result.columns, y));
+    y -= LINE_HEIGHT;
+    for (const cells of body.slice(page * rowsPerPage, (page + 1) * rowsPerPage)) {
+      y -= LINE_HEIGHT;
+      parts.push(textLine(cells, y));
+    }
+    parts.push(`BT /F1 ${FONT_SIZE} Tf ${MARGIN} ${MARGIN / 2} Td (Page ${page + 1} of ${pageCount}) Tj ET`);
+    pageStreams.push(parts.join("\n"));
+  }
+
+  const objects: string[] = [];
+  const pageIds = pageStreams.map((_, index) => 4 + index * 2);
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+  pageStreams.forEach((stream, index) => {
+    const pageId = pageIds[index];
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(stream, "latin1")} >>\nstream\n${stream}\nendstream`;
+  });
+
+  let output = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = Buffer.byteLength(output, "latin1");
+    output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = Buffer.byteLength(output, "latin1");
+  output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    output += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(output, "latin1");
+}
@@ -0,0 +1,340 @@
+import type { Db, Document, ObjectId } from "mongodb";
+
+// Mirrors the API's report pipelines (apps/api/src/services/reports.ts) on the plain driver, so exports match what
+// the admin dashboard shows. Keep the two in step when a report changes.
+export const REPORT_KEYS = [
+  "sales",
+  "sales-by-category",
+  "sales-by-product",
+  "top-customers",
+  "inventory-valuation",
+  "discount-usage",
+  "cancellations-refunds",
+  "tax"
+] as const;
+
+export type ReportKey = (typeof REPORT_KEYS)[number];
+
+export type ReportParams = {
+  tenantId: ObjectId;
+  from: Date;
+  to: Date;
+  groupBy: "day" | "week" | "month";
+};
+
+export type ReportResult = {
+  report: ReportKey;
+  from: Date;
+  to: Date;
+  groupBy: ReportParams["groupBy"];
+  generatedAt: Date;
+  columns: string[];
+  rows: Document[];
+};
+
+export function isReportKey(key: string): key is ReportKey {
+  return (REPORT_KEYS as readonly string[]).includes(key);
+}
+
+const SOLD_STATUSES = ["paid", "processing", "awaiting_stock", "awaiting_balance", "shipped", "delivered", "refunded"];
+
+function soldOrdersMatch(params: ReportParams) {
+  return {
+    $match: {
+      tenantId: params.tenantId,
+      status: { $in: SOLD_STATUSES },
+      createdAt: { $gte: params.from, $lte: params.to }
+    }
+  };
+}
+
+function periodExpression(groupBy: ReportParams["groupBy"]) {
+  return { $dateTrunc: { date: "$createdAt", unit: groupBy, ...(groupBy === "week" ? { startOfWeek: "monday" } : {}) } };
+}
+
+const lineRevenue = { $multiply: ["$lines.quantity", "$lines.unitPriceNgn"] };
+const lineRefundedUnits = { $ifNull: ["$lines.refundedQuantity", 0] };
+
+async function salesReport(db: Db, params: ReportParams) {
+  const pipeline: Document[] = [
+    soldOrdersMatch(params),
+    {
+      $group: {
+        _id: periodExpression(params.groupBy),
+        orders: { $sum: 1 },
+        grossNgn: { $sum: "$totalNgn" },
+        discountNgn: { $sum: { $ifNull: ["$discountNgn", 0] } },
+        shippingNgn: { $sum: "$shippingNgn" },
+        taxNgn: { $sum: { $ifNull: ["$taxNgn", 0] } },
+        refundedNgn: { $sum: { $ifNull: ["$refundedNgn", 0] } }
+      }
+    },
+    { $sort: { _id: 1 } },
+    {
+      $project: {
+        _id: 0,
+        period: "$_id",
+        orders: 1,
+        grossNgn: 1,
+        discountNgn: 1,
+        shippingNgn: 1,
+        taxNgn: 1,
+        refundedNgn: 1,
+        netNgn: { $subtract: ["$grossNgn", "$refundedNgn"] },
+        averageOrderValueNgn: { $round: [{ $divide: ["$grossNgn", "$orders"] }, 0] }
+      }
+    }
+  ];
+  return db.collection("orders").aggregate(pipeline).toArray();
+}
+
+async function salesByProductReport(db: Db, params: ReportParams) {
+  const pipeline: Document[] = [
+    soldOrdersMatch(params),
+    { $unwind: "$lines" },
+    {
+      $group: {
+        _id: "$lines.productId",
+        productName: { $first: "$lines.name" },
+        orders: { $addToSet: "$_id" },
+        units: { $sum: "$lines.quantity" },
+        refundedUnits: { $sum: lineRefundedUnits },
+        revenueNgn: { $sum: lineRevenue }
+      }
+    },
+    { $lookup: { from: "products", localField: "_id", foreignField: "_id", as: "product" } },
+    { $sort: { revenueNgn: -1 } },
+    {
+      $project: {
+        _id: 0,
+        productId: { $toString: "$_id" },
+        productName: { $ifNull: [{ $first: "$product.name" }, "$productName"] },
+        orders: { $size: "$orders" },
+        units: 1,
+        refundedUnits: 1,
+        revenueNgn: 1
+      }
+    }
+  ];
+  return db.collection("orders").aggregate(pipeline).toArray();
+}
+
+async function salesByCategoryReport(db: Db, params: ReportParams) {
+  const pipeline: Document[] = [
+    soldOrdersMatch(params),
+    { $unwind: "$lines" },
+    { $lookup: { from: "products", localField: "lines.productId", foreignField: "_id", as: "product" } },
+    {
+      $group: {
+        _id: { $first: "$product.categoryId" },
+        orders: { $addToSet: "$_id" },
+        units: { $sum: "$lines.quantity" },
+        refundedUnits: { $sum: lineRefundedUnits },
+        revenueNgn: { $sum: lineRevenue }
+      }
+    },
+    { $lookup: { from: "categories", localField: "_id", foreignField: "_id", as: "category" } },
+    { $sort: { revenueNgn: -1 } },
+    {
+      $project: {
+        _id: 0,
+        categoryId: { $toString: "$_id" },
+        categoryName: { $ifNull: [{ $first: "$category.name" }, "Uncategorized"] },
+        orders: { $size: "$orders" },
+        units: 1,
+        refundedUnits: 1,
+        revenueNgn: 1
+      }
+    }
+  ];
+  return db.collection("orders").aggregate(pipeline).toArray();
+}
+
+async function topCustomersReport(db: Db, params: ReportParams) {
+  const pipeline: Document[] = [
+    soldOrdersMatch(params),
+    { $match: { userId: { $ne: null } } },
+    {
+      $group: {
+        _id: "$userId",
+        orders: { $sum: 1 },
+        revenueNgn: { $sum: { $subtract: ["$totalNgn", { $ifNull: ["$refundedNgn", 0] }] } },
+        lastOrderAt: { $max: "$createdAt" }
+      }
+    },
+    { $sort: { revenueNgn: -1 } },
+    { $limit: 50 },
+    { $lookup: { from: "users", localField: "_id", foreignField: "_id", as: "user" } },
+    {
+      $project: {
+        _id: 0,
+        userId: { $toString: "$_id" },
+        email: { $first: "$user.email" },
+        name: {
+          $trim: {
+            input: {
+              $concat: [{ $ifNull: [{ $first: "$user.firstName" }, ""] }, " ", { $ifNull: [{ $first: "$user.lastName" }, ""] }]
+            }
+          }
+        },
+        orders: 1,
+        revenueNgn: 1,
+        averageOrderValueNgn: { $round: [{ $divide: ["$revenueNgn", "$orders"] }, 0] },
+        lastOrderAt: 1
+      }
+    }
+  ];
+  return db.collection("orders").aggregate(pipeline).toArray();
+}
+
+// Inventory valuation is a point-in-time snapshot, so the date range does not apply.
+async function inventoryValuationReport(db: Db, params: ReportParams) {
+  const pipeline: Document[] = [
+    { $match: { tenantId: params.tenantId } },
+    { $unwind: "$variants" },
+    { $lookup: { from: "categories", localField: "categoryId", foreignField: "_id", as: "category" } },
+    { $sort: { name: 1, "variants.sku": 1 } },
+    {
+      $project: {
+        _id: 0,
+        productId: { $toString: "$_id" },
+        productName: "$name",
+        categoryName: { $ifNull: [{ $first: "$category.name" }, "Uncategorized"] },
+        sku: "$variants.sku",
+        stock: "$variants.stock",
+        reserved: { $ifNull: ["$variants.reserved", 0] },
+        unitPriceNgn: "$variants.priceNgn",
+        valueNgn: { $multiply: ["$variants.stock", "$variants.priceNgn"] }
+      }
+    }
+  ];
+  return db.collection("products").aggregate(pipeline).toArray();
+}
+
+async function discountUsageReport(db: Db, params: ReportParams) {
+  const pipeline: Document[] = [
+    soldOrdersMatch(params),
+    { $unwind: "$discountLines" },
+    {
+      $group: {
+        _id: "$discountLines.code",
+        type: { $first: "$discountLines.type" },
+        value: { $first: "$discountLines.value" },
+        orders: { $sum: 1 },
+        discountNgn: { $sum: "$discountLines.amountNgn" },
+        revenueNgn: { $sum: "$totalNgn" }
+      }
+    },
+    { $sort: { orders: -1 } },
+    { $project: { _id: 0, code: "$_id", type: 1, value: 1, orders: 1, discountNgn: 1, revenueNgn: 1 } }
+  ];
+  return db.collection("orders").aggregate(pipeline).toArray();
+}
+
+async function cancellationsRefundsReport(db: Db, params: ReportParams) {
+  const pipeline: Document[] = [
+    {
+      $match: {
+        tenantId: params.tenantId,
+        createdAt: { $gte: params.from, $lte: params.to },
+        $or: [{ status: { $in: ["cancelled", "refunded"] } }, { refundedNgn: { $gt: 0 } }]
+      }
+    },
+    {
+      $group: {
+        _id: {
+          period: periodExpression(params.groupBy),
+          outcome: {
+            $switch: {
+              branches: [
+                { case: { $eq: ["$status", "cancelled"] }, then: "cancelled" },
+                { case: { $eq: ["$status", "refunded"] }, then: "refunded" }
+              ],
+              default: "partially_refunded"
+            }
+          }
+        },
+        orders: { $sum: 1 },
+        orderValueNgn: { $sum: "$totalNgn" },
+        refundedNgn: { $sum: { $ifNull: ["$refundedNgn", 0] } }
+      }
+    },
+    { $sort: { "_id.period": 1, "_id.outcome": 1 } },
+    { $project: { _id: 0, period: "$_id.period", outcome: "$_id.outcome", orders: 1, orderValueNgn: 1, refundedNgn: 1 } }
+  ];
+  return db.collection("orders").aggregate(pipeline).toArray();
+}
+
+// Refunds are not itemised by tax, so the VAT handed back is estimated from the refunded share of each order.
+async function taxReport(db: Db, params: ReportParams) {
+  const pipeline: Document[] = [
+    soldOrdersMatch(params),
+    {
+      $group: {
+        _id: periodExpression(params.groupBy),
+        orders: { $sum: 1 },
+        taxableNgn: { $sum: { $sum: "$taxLines.taxableNgn" } },
+        exemptNgn: { $sum: { $ifNull: ["$taxExemptNgn", 0] } },
+        taxNgn: { $sum: { $ifNull: ["$taxNgn", 0] } },
+        refundedTaxNgn: {
+          $sum: {
+            $cond: [
+              { $gt: ["$totalNgn", 0] },
+              { $divide: [{ $multiply: [{ $ifNull: ["$taxNgn", 0] }, { $ifNull: ["$refundedNgn", 0] }] }, "$totalNgn"] },
+              0
+            ]
+          }
+        }
+      }
+    },
+    { $sort: { _id: 1 } },
+    {
+      $project: {
+        _id: 0,
+        period: "$_id",
+        orders: 1,
+        taxableNgn: 1,
+        exemptNgn: 1,
+        taxNgn: 1,
+        refundedTaxNgn: { $round: ["$refundedTaxNgn", 0] },
+        netTaxNgn: { $round: [{ $subtract: ["$taxNgn", "$refundedTaxNgn"] }, 0] }
+      }
+    }
+  ];
+  return db.collection("orders").aggregate(pipeline).toArray();
+}
+
+const reportRunners: Record<ReportKey, (db: Db, params: ReportParams) => Promise<Document[]>> = {
+  sales: salesReport,
+  "sales-by-category": salesByCategoryReport,
+  "sales-by-product": salesByProductReport,
+  "top-customers": topCustomersReport,
+  "inventory-valuation": inventoryValuationReport,
+  "discount-usage": discountUsageReport,
+  "cancellations-refunds": cancellationsRefundsReport,
+  tax: taxReport
+};
+
+const reportColumns: Record<ReportKey, string[]> = {
+  sales: ["period", "orders", "grossNgn", "discountNgn", "shippingNgn", "taxNgn", "refundedNgn", "netNgn", "averageOrderValueNgn"],
+  "sales-by-category": ["categoryId", "categoryName", "orders", "units", "refundedUnits", "revenueNgn"],
+  "sales-by-product": ["productId", "productName", "orders", "units", "refundedUnits", "revenueNgn"],
+  "top-customers": ["userId", "email", "name", "orders", "revenueNgn", "averageOrderValueNgn", "lastOrderAt"],
+  "inventory-valuation": ["productId", "productName", "categoryName", "sku", "stock", "reserved", "unitPriceNgn", "valueNgn"],
+  "discount-usage": ["code", "type", "value", "orders", "discountNgn", "revenueNgn"],
+  "cancellations-refunds": ["period", "outcome", "orders", "orderValueNgn", "refundedNgn"],
+  tax: ["period", "orders", "taxableNgn", "exemptNgn", "taxNgn", "refundedTaxNgn", "netTaxNgn"]
+};
+
+export async function runReport(db: Db, key: ReportKey, params: ReportParams): Promise<ReportResult> {
+  const rows = await reportRunners[key](db, params);
+  return {
+    report: key,
+    from: params.from,
+    to: params.to,
+    groupBy: params.groupBy,
+    generatedAt: new Date(),
+    columns: reportColumns[key],
+    rows
+  };
+}
@@ -0,0 +1,13 @@
+module.exports = {
+  async up(db) {
+    await db.collection("products").updateMany(
+      { preorder: { $exists: false } },
+      { $set: { preorder: { enabled: false, expectedShipDate: null, depositPercent: null } } }
+    );
+    await db.collection("orders").createIndex({ tenantId: 1, status: 1, "lines.productId": 1 });
+  },
+
+  async down(db) {
+    await db.collection("orders").dropIndex("tenantId_1_status_1_lines.productId_1").catch(() => undefined);
+  }
+};
@@ -0,0 +1,14 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("refunds").catch(() => undefined);
+    await db.collection("refunds").createIndex({ tenantId: 1, refundRef: 1 }, { unique: true });
+    await db.collection("refunds").createIndex({ tenantId: 1, orderId: 1, createdAt: -1 });
+    await db.collection("refunds").createIndex({ "allocations.providerRef": 1, "allocations.status": 1 });
+    await db.collection("orders").updateMany({ refundedNgn: { $exists: false } }, { $set: { refundedNgn: 0 } });
+    await db.collection("payments").updateMany({ refundedNgn: { $exists: false } }, { $set: { refundedNgn: 0 } });
+  },
+
+  async down(db) {
+    await db.collection("refunds").drop().catch(() => undefined);
+  }
+};
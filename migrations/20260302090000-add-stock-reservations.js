@@ -0,0 +1,17 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("stockreservations").catch(() => undefined);
+    await db.collection("stockreservations").createIndex({ tenantId: 1, productId: 1, variantId: 1, status: 1 });
+    await db.collection("stockreservations").createIndex({ orderId: 1, variantId: 1, status: 1 });
+    await db.collection("stockreservations").createIndex({ status: 1, expiresAt: 1 });
+    await db.collection("products").updateMany(
+      { "variants.reserved": { $exists: false } },
+      { $set: { "variants.$[].reserved": 0 } }
+    );
+  },
+
+  async down(db) {
+    await db.collection("stockreservations").drop().catch(() => undefined);
+    await db.collection("products").updateMany({}, { $unset: { "variants.$[].reserved": "" } });
+  }
+};
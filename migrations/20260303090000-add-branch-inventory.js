@@ -0,0 +1,17 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("branchinventories").catch(() => undefined);
+    await db.collection("branchinventories").createIndex({ tenantId: 1, branchId: 1, variantId: 1 }, { unique: true });
+    await db.collection("branchinventories").createIndex({ tenantId: 1, variantId: 1 });
+    await db.createCollection("stocktransfers").catch(() => undefined);
+    await db.collection("stocktransfers").createIndex({ tenantId: 1, transferRef: 1 }, { unique: true });
+    await db.collection("stocktransfers").createIndex({ tenantId: 1, status: 1, createdAt: -1 });
+    await db.collection("inventoryledgers").createIndex({ tenantId: 1, branchId: 1, createdAt: -1 });
+  },
+
+  async down(db) {
+    await db.collection("branchinventories").drop().catch(() => undefined);
+    await db.collection("stocktransfers").drop().catch(() => undefined);
+    await db.collection("inventoryledgers").dropIndex("tenantId_1_branchId_1_createdAt_-1").catch(() => undefined);
+  }
+};
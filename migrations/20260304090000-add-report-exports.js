@@ -0,0 +1,11 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("reportexports").catch(() => undefined);
+    await db.collection("reportexports").createIndex({ tenantId: 1, jobId: 1 }, { unique: true });
+    await db.collection("reportexports").createIndex({ status: 1, expiresAt: 1 });
+  },
+
+  async down(db) {
+    await db.collection("reportexports").drop().catch(() => undefined);
+  }
+};
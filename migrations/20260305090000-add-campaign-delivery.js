@@ -0,0 +1,13 @@
+module.exports = {
+  async up(db) {
+    await db.collection("campaigns").createIndex({ status: 1, scheduledFor: 1 });
+    await db.collection("campaigns").updateMany(
+      { scheduledFor: { $exists: false } },
+      { $set: { scheduledFor: null, "stats.recipients": 0, "stats.skipped": 0, "stats.failed": 0 } }
+    );
+  },
+
+  async down(db) {
+    await db.collection("campaigns").dropIndex("status_1_scheduledFor_1").catch(() => undefined);
+  }
+};
@@ -0,0 +1,12 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("campaigndeliveries").catch(() => undefined);
+    await db.collection("campaigndeliveries").createIndex({ campaignId: 1, userId: 1 }, { unique: true });
+    await db.collection("campaigndeliveries").createIndex({ token: 1 }, { unique: true });
+    await db.collection("campaigndeliveries").createIndex({ tenantId: 1, userId: 1, lastClickedAt: -1 });
+  },
+
+  async down(db) {
+    await db.collection("campaigndeliveries").drop().catch(() => undefined);
+  }
+};
@@ -0,0 +1,11 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("shippingzones").catch(() => undefined);
+    await db.collection("shippingzones").createIndex({ tenantId: 1, active: 1 });
+    await db.collection("shippingzones").createIndex({ tenantId: 1, name: 1 }, { unique: true });
+  },
+
+  async down(db) {
+    await db.collection("shippingzones").drop().catch(() => undefined);
+  }
+};
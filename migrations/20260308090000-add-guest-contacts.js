@@ -0,0 +1,12 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("guestcontacts").catch(() => undefined);
+    await db.collection("guestcontacts").createIndex({ tenantId: 1, email: 1 }, { unique: true });
+    await db.collection("orders").createIndex({ guestContactId: 1 });
+  },
+
+  async down(db) {
+    await db.collection("orders").dropIndex("guestContactId_1").catch(() => undefined);
+    await db.collection("guestcontacts").drop().catch(() => undefined);
+  }
+};
@@ -0,0 +1,13 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("cartrecoveries").catch(() => undefined);
+    await db.collection("cartrecoveries").createIndex({ tenantId: 1 });
+    await db.collection("cartrecoveries").createIndex({ cartId: 1 }, { unique: true, partialFilterExpression: { status: "active" } });
+    await db.collection("cartrecoveries").createIndex({ tenantId: 1, userId: 1, status: 1 });
+    await db.collection("cartrecoveries").createIndex({ tenantId: 1, status: 1, recoveredAt: -1 });
+  },
+
+  async down(db) {
+    await db.collection("cartrecoveries").drop().catch(() => undefined);
+  }
+};
@@ -0,0 +1,28 @@
+module.exports = {
+  async up(db) {
+    await db.collection("carts").updateMany({ active: { $exists: false } }, { $set: { active: true, name: null } });
+    await db.collection("carts").dropIndex("tenantId_1_userId_1").catch(() => undefined);
+    await db.collection("carts").createIndex(
+      { tenantId: 1, userId: 1 },
+      { unique: true, partialFilterExpression: { userId: { $type: "objectId" }, active: true } }
+    );
+    await db.collection("carts").createIndex(
+      { tenantId: 1, userId: 1, name: 1 },
+      { unique: true, partialFilterExpression: { name: { $type: "string" } } }
+    );
+
+    await db.createCollection("saveditems").catch(() => undefined);
+    await db.collection("saveditems").createIndex({ tenantId: 1, userId: 1, variantId: 1 }, { unique: true });
+  },
+
+  async down(db) {
+    await db.collection("saveditems").drop().catch(() => undefined);
+    await db.collection("carts").dropIndex("tenantId_1_userId_1_name_1").catch(() => undefined);
+    await db.collection("carts").dropIndex("tenantId_1_userId_1").catch(() => undefined);
+    await db.collection("carts").deleteMany({ active: false });
+    await db.collection("carts").createIndex(
+      { tenantId: 1, userId: 1 },
+      { unique: true, partialFilterExpression: { userId: { $type: "objectId" } } }
+    );
+  }
+};
@@ -0,0 +1,38 @@
+const COMMITTED_STATUSES = [
+  "paid",
+  "processing",
+  "awaiting_stock",
+  "awaiting_balance",
+  "shipped",
+  "delivered",
+  "refunded",
+  "awaiting_payment_on_delivery",
+  "awaiting_transfer"
+];
+
+module.exports = {
+  async up(db) {
+    await db.collection("products").createIndex(
+      { name: "text", description: "text" },
+      { name: "product_search", weights: { name: 5, description: 1 } }
+    );
+
+    await db.collection("products").updateMany({ soldUnits: { $exists: false } }, { $set: { soldUnits: 0 } });
+    const sold = await db
+      .collection("orders")
+      .aggregate([
+        { $match: { status: { $in: COMMITTED_STATUSES } } },
+        { $unwind: "$lines" },
+        { $group: { _id: "$lines.productId", quantity: { $sum: "$lines.quantity" } } }
+      ])
+      .toArray();
+    for (const row of sold) {
+      await db.collection("products").updateOne({ _id: row._id }, { $set: { soldUnits: row.quantity } });
+    }
+  },
+
+  async down(db) {
+    await db.collection("products").dropIndex("product_search").catch(() => undefined);
+    await db.collection("products").updateMany({}, { $unset: { soldUnits: "" } });
+  }
+};
@@ -0,0 +1,13 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("productreviews").catch(() => undefined);
+    await db.collection("productreviews").createIndex({ tenantId: 1, productId: 1, userId: 1 }, { unique: true });
+    await db.collection("productreviews").createIndex({ tenantId: 1, productId: 1, status: 1, createdAt: -1 });
+    await db.collection("products").updateMany({ rating: { $exists: false } }, { $set: { rating: { average: 0, count: 0 } } });
+  },
+
+  async down(db) {
+    await db.collection("productreviews").drop().catch(() => undefined);
+    await db.collection("products").updateMany({}, { $unset: { rating: "" } });
+  }
+};
@@ -0,0 +1,16 @@
+module.exports = {
+  async up(db) {
+    await db.createCollection("productquestions").catch(() => undefined);
+    await db.collection("productquestions").createIndex({ tenantId: 1, productId: 1, status: 1, upvotes: -1 });
+
+    // Existing staff keep the permissions granted at their access level; add the new one alongside.
+    await db
+      .collection("users")
+      .updateMany({ role: { $in: ["admin", "staff"] }, accessLevel: { $exists: true } }, { $addToSet: { permissions: "questions:answer" } });
+  },
+
+  async down(db) {
+    await db.collection("users").updateMany({}, { $pull: { permissions: "questions:answer" } });
+    await db.collection("productquestions").drop().catch(() => undefined);
+  }
+};
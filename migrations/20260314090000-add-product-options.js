@@ -0,0 +1,58 @@
+// Distinct non-empty values of one legacy variant field, in the order the variants list them.
+function distinctValues(field) {
+  return {
+    $reduce: {
+      input: { $ifNull: [`$variants.${field}`, []] },
+      initialValue: [],
+      in: {
+        $cond: [
+          { $or: [{ $in: ["$$this", [null, ""]] }, { $in: ["$$this", "$$value"] }] },
+          "$$value",
+          { $concatArrays: ["$$value", ["$$this"]] }
+        ]
+      }
+    }
+  };
+}
+
+function optionAxis(name, field) {
+  return {
+    $cond: [{ $gt: [{ $size: distinctValues(field) }, 0] }, [{ name, values: distinctValues(field) }], []]
+  };
+}
+
+function variantOption(name, field) {
+  return {
+    $cond: [{ $in: [{ $ifNull: [`$$variant.${field}`, null] }, [null, ""]] }, [], [{ k: name, v: `$$variant.${field}` }]]
+  };
+}
+
+module.exports = {
+  // A pipeline update derives the axes and variant options from each product's current variants on the server,
+  // so variant changes made while the migration runs are not overwritten by a stale copy.
+  async up(db) {
+    await db.collection("products").updateMany({ $or: [{ options: { $exists: false } }, { options: { $size: 0 } }] }, [
+      {
+        $set: {
+          options: { $concatArrays: [optionAxis("Size", "size"), optionAxis("Color", "color")] },
+          variants: {
+            $map: {
+              input: { $ifNull: ["$variants", []] },
+              as: "variant",
+              in: {
+                $mergeObjects: [
+                  "$$variant",
+                  { options: { $arrayToObject: { $concatArrays: [variantOption("Size", "size"), variantOption("Color", "color")] } } }
+                ]
+              }
+            }
+          }
+        }
+      }
+    ]);
+  },
+
+  async down(db) {
+    await db.collection("products").updateMany({}, { $unset: { options: "", "variants.$[].options": "" } });
+  }
+};
@@ -0,0 +1,12 @@
+// Exports written to a local directory cannot be served by other instances; expire them so they are requested again.
+module.exports = {
+  async up(db) {
+    await db
+      .collection("reportexports")
+      .updateMany({ filePath: { $exists: true } }, { $set: { status: "expired", fileId: null }, $unset: { filePath: "" } });
+  },
+
+  async down(db) {
+    await db.collection("reportexports").updateMany({}, { $unset: { fileId: "" } });
+  }
+};
@@ -28,28 +28,105 @@ export const refreshSchema = z.object({
 export const customerRegisterRequestSchema = registerSchema;
 export const customerRegisterVerifySchema = z.object({
   email: z.string().email(),
-  otp: z.string().length(6)
-});
+  otp: z.string().length(6),
+  claimGuestOrders: z.boolean().default(false)
+});
+
+const queryList = z
+  .string()
+  .optional()
+  .transform((value) => (value ? value.split(",").map((entry) => entry.trim()).filter(Boolean) : []));
+const optionalQueryNumber = z.preprocess(
+  (value) => (typeof value === "string" && value.trim() === "" ? undefined : value),
+  z.coerce.number().min(0).optional()
+);
+
+export const productSearchQuerySchema = z.object({
+  search: z.string().trim().max(120).optional(),
+  category: queryList,
+  size: queryList,
+  color: queryList,
+  priceBucket: queryList,
+  minPrice: optionalQueryNumber,
+  maxPrice: optionalQueryNumber,
+  inStock: z
+    .enum(["true", "false"])
+    .optional()
+    .transform((value) => (value === undefined ? undefined : value === "true")),
+  sort: z.enum(["relevance", "price_asc", "price_desc", "newest", "popularity", "rating"]).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(60).default(24)
+});
+
+export const productSuggestQuerySchema = z.object({
+  q: z.string().trim().min(1).max(80),
+  limit: z.coerce.number().int().min(1).max(10).default(5)
+});
+
+export const productReviewCreateSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  title: z.string().trim().min(2).max(120).optional(),
+  body: z.string().trim().min(10).max(2000),
+  photos: z
+    .array(
+      z.object({
+        url: z.string().url().optional(),
+        publicId: z.string().min(1).max(200)
+      })
+    )
+    .max(5)
+    .default([])
+});
+
+export const productQuestionCreateSchema = z.object({
+  question: z.string().trim().min(10).max(500)
+});
+
+export const CART_LINE_MAX_QUANTITY = 20;
 
 export const cartItemSchema = z.object({
   productId: z.string().min(1),
   variantId: z.string().min(1),
-  quantity: z.number().int().min(1).max(20)
+  quantity: z.number().int().min(1).max(CART_LINE_MAX_QUANTITY)
 });
 
 export const updateCartItemSchema = z.object({
-  quantity: z.number().int().min(1).max(20)
+  quantity: z.number().int().min(1).max(CART_LINE_MAX_QUANTITY)
+});
+
+export const cartDiscountSchema = z.object({
+  code: z.string().trim().min(3).max(40)
+});
+
+export const namedCartCreateSchema = z.object({
+  name: z.string().trim().min(1).max(60)
 });
 
 export const checkoutInitSchema = z
   .object({
     email: z.string().email(),
+    phone: z.string().min(7).optional(),
+    firstName: z.string().min(1).optional(),
+    lastName: z.string().min(1).optional(),
     addressId: z.string().min(1).optional(),
     shippingAddress: z.string().min(5).optional(),
     city: z.string().min(2).optional(),
-    state: z.string().min(2).optional()
+    state: z.string().min(2).optional(),
+    paymentMethod: z.enum(["card", "pay_on_delivery", "bank_transfer"]).default("card"),
+    shippingMethod: z.enum(["delivery", "pickup"]).default("delivery"),
+    pickupBranchId: z.string().min(1).optional()
   })
   .superRefine((value, context) => {
+    if (value.shippingMethod === "pickup") {
+      if (!value.pickupBranchId) {
+        context.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: "Provide pickupBranchId for pickup orders",
+          path: ["pickupBranchId"]
+        });
+      }
+      return;
+    }
     const hasAddressId = Boolean(value.addressId);
     const hasManualAddress = Boolean(value.shippingAddress && value.city && value.state);
     if (!hasAddressId && !hasManualAddress) {
@@ -61,6 +138,12 @@ export const checkoutInitSchema = z
     }
   });
 
+export const shippingQuoteSchema = z.object({
+  addressId: z.string().min(1).optional(),
+  city: z.string().min(2).optional(),
+  state: z.string().min(2).optional()
+});
+
 export const reportExportSchema = z.object({
   format: z.enum(["csv", "pdf"]),
   from: z.string(),
@@ -72,7 +155,12 @@ export const campaignCreateSchema = z.object({
   name: z.string().min(3),
   segment: z.enum(["all", "champions", "loyal", "at_risk", "lost"]),
   subject: z.string().min(3),
-  body: z.string().min(10)
+  body: z.string().min(10),
+  costNgn: z.number().int().min(0).optional()
+});
+
+export const campaignSendSchema = z.object({
+  scheduledFor: z.string().datetime().optional()
 });
 
 export const adminOrderStatusUpdateSchema = z.object({
@@ -120,10 +208,18 @@ export type LoginRequest = z.infer<typeof loginSchema>;
 export type RefreshRequest = z.infer<typeof refreshSchema>;
 export type CustomerRegisterRequest = z.infer<typeof customerRegisterRequestSchema>;
 export type CustomerRegisterVerifyRequest = z.infer<typeof customerRegisterVerifySchema>;
+export type ProductSearchQuery = z.infer<typeof productSearchQuerySchema>;
+export type ProductSuggestQuery = z.infer<typeof productSuggestQuerySchema>;
+export type ProductReviewCreateRequest = z.infer<typeof productReviewCreateSchema>;
+export type ProductQuestionCreateRequest = z.infer<typeof productQuestionCreateSchema>;
 export type CartItemInput = z.infer<typeof cartItemSchema>;
+export type CartDiscountInput = z.infer<typeof cartDiscountSchema>;
+export type NamedCartCreateInput = z.infer<typeof namedCartCreateSchema>;
 export type CheckoutInitRequest = z.infer<typeof checkoutInitSchema>;
+export type ShippingQuoteRequest = z.infer<typeof shippingQuoteSchema>;
 export type ReportExportRequest = z.infer<typeof reportExportSchema>;
 export type CampaignCreateRequest = z.infer<typeof campaignCreateSchema>;
+export type CampaignSendRequest = z.infer<typeof campaignSendSchema>;
 export type AdminOrderStatusUpdateRequest = z.infer<typeof adminOrderStatusUpdateSchema>;
 export type AdminAccessLevel = z.infer<typeof adminAccessLevelSchema>;
 export type AdminUserAccessLevelUpdateRequest = z.infer<typeof adminUserAccessLevelUpdateSchema>;